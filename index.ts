@@ -1,19 +1,42 @@
 import { Commit } from "@/cli/commit";
+import { Headless, exitCodeOf } from "@/cli/headless";
 import { Branch } from "@/cli/branch";
+import { Reword } from "@/cli/reword";
 import { Setup } from "@/cli/setup";
 import { Doctor } from "@/cli/doctor";
 import { ModelCommand } from "@/cli/model";
 import { EffortCommand } from "@/cli/effort";
 import { AliasCommand } from "@/cli/alias";
+import { HookCommand } from "@/cli/hook";
+import { DraftCommand } from "@/cli/draft";
 import { Update } from "@/cli/update";
+import { AddCommand } from "@/cli/add";
 import { type CliCommand, parseArgs, showHelp, showVersion } from "@/cli/parser";
 import { Future } from "@/libs/future";
+import { Nothing } from "@/libs/maybe";
 import { absurd } from "@/libs/types";
 import { checkUpdate } from "@/cli/update";
 
 import color from "picocolors";
 
-const NOTIFIER_COMMANDS = new Set<CliCommand["type"]>(["generate", "setup", "doctor", "model", "effort", "branch", "alias"]);
+const NOTIFIER_COMMANDS = new Set<CliCommand["type"]>([
+  "generate",
+  "add",
+  "amend",
+  "reword",
+  "setup",
+  "doctor",
+  "model",
+  "effort",
+  "branch",
+  "alias",
+  "hook",
+  "draft"
+]);
+
+// Headless runs own stdout, so the update banner must never land in a captured commit message.
+const wantsUpdateNotice = (command: CliCommand): boolean =>
+  NOTIFIER_COMMANDS.has(command.type) && !(command.type === "generate" && command.options.mode.type !== "interactive");
 
 const main = () => {
   const args = process.argv.slice(2);
@@ -24,11 +47,25 @@ const main = () => {
       return Future.reject(err);
     },
     (command): Future<Error, void> => {
-      if (NOTIFIER_COMMANDS.has(command.type)) checkUpdate();
+      if (wantsUpdateNotice(command)) checkUpdate();
 
       switch (command.type) {
-        case "generate":
-          return Commit.create().chain((c) => c.run());
+        case "generate": {
+          const { mode, candidates, coAuthors, language } = command.options;
+          return mode.type === "interactive" ?
+              Commit.create(candidates, "new", coAuthors, language).chain((c) => c.run())
+            : Headless.create(mode, coAuthors, language).chain((h) => h.run());
+        }
+        case "add": {
+          const { candidates, coAuthors, language } = command.options;
+          return AddCommand.create()
+            .run()
+            .chain((proceed) => (proceed ? Commit.create(candidates, "new", coAuthors, language).chain((c) => c.run()) : Future.resolve(undefined)));
+        }
+        case "amend":
+          return Commit.create(Nothing(), "amend", [], command.language).chain((c) => c.run());
+        case "reword":
+          return Reword.create(command.range, command.language).chain((r) => r.run());
         case "setup":
           return Setup.create().chain((s) => s.run());
         case "doctor":
@@ -38,9 +75,13 @@ const main = () => {
         case "effort":
           return EffortCommand.create().chain((e) => e.run());
         case "branch":
-          return Branch.create().chain((b) => b.run());
+          return Branch.create(command.language).chain((b) => b.run());
         case "alias":
           return AliasCommand.create(command.action).chain((a) => a.run());
+        case "hook":
+          return HookCommand.create(command.action).run();
+        case "draft":
+          return DraftCommand.create(command.action).run();
         case "update":
           return Update.create().run();
         case "version":
@@ -56,7 +97,7 @@ const main = () => {
   );
 
   action.fork(
-    (_) => process.exit(1),
+    (err) => process.exit(exitCodeOf(err)),
     () => process.exit(0)
   );
 };
@@ -0,0 +1,196 @@
+export { AddCommand, type StagingOutcome };
+
+import * as p from "@clack/prompts";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { match } from "@/libs/fuzzy";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+import { describeChange, hasHunks, type WorkingChange } from "@/domain/staging/changes";
+import { describeHunk, parseFilePatch, renderPatch, type FilePatch, type Hunk } from "@/domain/staging/hunks";
+
+import color from "picocolors";
+
+/** `staged`: go on to the message; `nothing`: there was nothing to stage and nothing staged. */
+type StagingOutcome = "staged" | "cancelled" | "nothing";
+
+const STAGING_STEPS = ["files", "hunks", "continue", "cancel"] as const;
+type StagingStep = (typeof STAGING_STEPS)[number];
+
+const HUNK_ANSWERS = ["stage", "skip", "stage_rest", "done"] as const;
+type HunkAnswer = (typeof HUNK_ANSWERS)[number];
+
+const fuzzyFilter = (query: string, option: { label?: string; value: string }): boolean => !match(query, option.label ?? option.value).isNothing();
+
+const renderHunk = (hunk: Hunk): string =>
+  hunk.lines
+    .map((line) =>
+      line.startsWith("+") ? color.green(line)
+      : line.startsWith("-") ? color.red(line)
+      : color.dim(line)
+    )
+    .join("\n");
+
+const plural = (n: number, noun: string): string => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+/** Staging from the terminal: whole files picked with fuzzy search, or single hunks as in `git add -p`. */
+class AddCommand {
+  private constructor() {}
+
+  static create(): AddCommand {
+    return new AddCommand();
+  }
+
+  /** Resolves to whether to go on to the commit message. */
+  run(): Future<Error, boolean> {
+    return repo
+      .checkIsGitRepo()
+      .chain(() => this.stage())
+      .chain((outcome) => {
+        switch (outcome) {
+          case "staged":
+            return Future.resolve<Error, boolean>(true);
+          case "cancelled":
+            return Future.resolve<Error, boolean>(false);
+          case "nothing":
+            return Future.reject<Error, boolean>(new Error("Nothing to stage: the working tree is clean."));
+          default:
+            return absurd(outcome, "StagingOutcome");
+        }
+      })
+      .mapRej((e) => {
+        p.log.error(color.red(e.message));
+        return e;
+      });
+  }
+
+  /** Repeats until the user goes on or cancels, re-reading `git status` each round so the list follows what was staged. */
+  stage(): Future<Error, StagingOutcome> {
+    return Future.both(repo.listWorkingChanges(), this.stagedCount()).chain(([changes, staged]) => {
+      if (changes.length === 0) return Future.resolve<Error, StagingOutcome>(staged > 0 ? "staged" : "nothing");
+      return this.promptStep(changes, staged).chain((step): Future<Error, StagingOutcome> => {
+        switch (step) {
+          case "files":
+            return this.stageFiles(changes).chain(() => this.stage());
+          case "hunks":
+            return this.stageHunks(changes).chain(() => this.stage());
+          case "continue":
+            return Future.resolve("staged");
+          case "cancel":
+            p.outro("Operation cancelled.");
+            return Future.resolve("cancelled");
+          default:
+            return absurd(step, "StagingStep");
+        }
+      });
+    });
+  }
+
+  private stagedCount(): Future<Error, number> {
+    return repo
+      .listStagedPaths()
+      .map((paths) => paths.length)
+      .chainRej((err) => (repo.isNoStagedChangesError(err) ? Future.resolve<Error, number>(0) : Future.reject<Error, number>(err)));
+  }
+
+  private promptStep(changes: readonly WorkingChange[], staged: number): Future<Error, StagingStep> {
+    return Future.attemptP(async () => {
+      const step = await p.select({
+        message: staged === 0 ? "Nothing is staged yet. What would you like to stage?" : `${plural(staged, "file")} staged. Stage more?`,
+        options: [
+          { value: "files" as const, label: "Pick files", hint: `${plural(changes.length, "changed file")}` },
+          ...(changes.some(hasHunks) ? [{ value: "hunks" as const, label: "Pick hunks of a file" }] : []),
+          ...(staged > 0 ? [{ value: "continue" as const, label: "Write the commit message" }] : []),
+          { value: "cancel" as const, label: "Cancel" }
+        ]
+      });
+      return p.isCancel(step) ? "cancel" : step;
+    });
+  }
+
+  private stageFiles(changes: readonly WorkingChange[]): Future<Error, void> {
+    return Future.attemptP(async () => {
+      const picked = await p.autocompleteMultiselect({
+        message: "Files to stage (type to filter, space to select)",
+        options: changes.map((change) => ({ value: change.path, label: change.path, hint: describeChange(change) })),
+        filter: fuzzyFilter,
+        required: false
+      });
+      return p.isCancel(picked) ? [] : picked;
+    }).chain((paths) =>
+      repo.stagePaths(paths).map(() => {
+        if (paths.length > 0) p.log.success(`Staged ${plural(paths.length, "file")}.`);
+      })
+    );
+  }
+
+  private stageHunks(changes: readonly WorkingChange[]): Future<Error, void> {
+    return this.promptHunkFile(changes).chain((path) =>
+      path.unwrap(
+        () => Future.resolve<Error, void>(undefined),
+        (file) =>
+          repo.getUnstagedFileDiff(file).chain((diff) =>
+            parseFilePatch(diff).unwrap(
+              () => Future.resolve<Error, void>(p.log.warn(color.yellow(`${file} has no hunks to pick; stage it as a whole file instead.`))),
+              (patch) =>
+                this.reviewHunks(file, patch, 0, new Set()).chain((picked) =>
+                  picked.size === 0 ?
+                    Future.resolve<Error, void>(undefined)
+                  : repo.applyToIndex(renderPatch(patch, picked)).map(() => {
+                      p.log.success(`Staged ${plural(picked.size, "hunk")} of ${file}.`);
+                    })
+                )
+            )
+          )
+      )
+    );
+  }
+
+  private promptHunkFile(changes: readonly WorkingChange[]): Future<Error, Maybe<string>> {
+    return Future.attemptP(async () => {
+      const path = await p.autocomplete({
+        message: "File to pick hunks from (type to filter)",
+        options: changes.filter(hasHunks).map((change) => ({ value: change.path, label: change.path, hint: describeChange(change) })),
+        filter: fuzzyFilter
+      });
+      return p.isCancel(path) ? Nothing<string>() : Just(path);
+    });
+  }
+
+  /** Walks the hunks in file order like `git add -p`; an abandoned walk still stages what was picked so far. */
+  private reviewHunks(path: string, patch: FilePatch, index: number, picked: ReadonlySet<number>): Future<Error, ReadonlySet<number>> {
+    const hunk = patch.hunks[index];
+    if (hunk === undefined) return Future.resolve(picked);
+    return this.promptHunk(path, hunk, index, patch.hunks.length).chain((answer) => {
+      switch (answer) {
+        case "stage":
+          return this.reviewHunks(path, patch, index + 1, new Set([...picked, index]));
+        case "skip":
+          return this.reviewHunks(path, patch, index + 1, picked);
+        case "stage_rest":
+          return Future.resolve<Error, ReadonlySet<number>>(new Set([...picked, ...[...patch.hunks.keys()].slice(index)]));
+        case "done":
+          return Future.resolve<Error, ReadonlySet<number>>(picked);
+        default:
+          return absurd(answer, "HunkAnswer");
+      }
+    });
+  }
+
+  private promptHunk(path: string, hunk: Hunk, index: number, total: number): Future<Error, HunkAnswer> {
+    return Future.attemptP(async () => {
+      p.note(renderHunk(hunk), `${path} · hunk ${index + 1}/${total} (${describeHunk(hunk)})`);
+      const answer = await p.select({
+        message: "Stage this hunk?",
+        options: [
+          { value: "stage" as const, label: "Stage" },
+          { value: "skip" as const, label: "Skip" },
+          { value: "stage_rest" as const, label: "Stage this and the rest of the file" },
+          { value: "done" as const, label: "Done with this file" }
+        ]
+      });
+      return p.isCancel(answer) ? "done" : answer;
+    });
+  }
+}
@@ -5,8 +5,10 @@ import * as repo from "@/infra/git/repo";
 
 import { Future } from "@/libs/future";
 import { loadConfig } from "@/infra/storage/config";
+import { layerRepoConfig } from "@/infra/storage/repo-config";
+import { stubIgnoredDiff } from "@/infra/git/commitignore";
 import { Setup } from "@/cli/setup";
-import { type Config, type ProviderConfig } from "@/domain/config/config";
+import { ignorePatterns, withLanguage, type Config, type ProviderConfig } from "@/domain/config/config";
 import { resolveProvider } from "@/domain/llm/auth-resolver";
 import { generateBranchNameSuggestions, type BranchSuggestion } from "@/domain/llm/router";
 import { renderBranchNote } from "@/infra/ui/push-note";
@@ -16,9 +18,12 @@ import { Just, Nothing, type Maybe } from "@/libs/maybe";
 import color from "picocolors";
 
 class Branch {
-  private constructor(private readonly providerConfig: ProviderConfig) {}
+  private constructor(
+    private readonly config: Config,
+    private readonly providerConfig: ProviderConfig
+  ) {}
 
-  static create(): Future<Error, Branch> {
+  static create(language: Maybe<string> = Nothing()): Future<Error, Branch> {
     return loadConfig()
       .chainRej((): Future<Error, Config> => {
         p.log.warn(color.yellow("No configuration found. Let's set you up first."));
@@ -26,13 +31,16 @@ class Branch {
           .chain((s) => s.run())
           .chain(() => loadConfig());
       })
-      .chain((config) => resolveProvider(config).map((ai) => new Branch(ai)));
+      .chain(layerRepoConfig)
+      .map(withLanguage(language))
+      .chain((config) => resolveProvider(config).map((ai) => new Branch(config, ai)));
   }
 
   run(): Future<Error, void> {
     return repo
       .checkIsGitRepo()
       .chain(() => repo.getLocalChangeContext())
+      .chain((ctx) => stubIgnoredDiff(ignorePatterns(this.config), ctx))
       .bichain(
         (e): Future<Error, void> => {
           if (repo.isNoLocalChangesError(e)) {
@@ -43,7 +51,7 @@ class Branch {
           return Future.reject(e);
         },
         (ctx): Future<Error, void> =>
-          loading("Suggesting branch names...", "Suggestions ready!", generateBranchNameSuggestions(this.providerConfig, ctx))
+          loading("Suggesting branch names...", "Suggestions ready!", generateBranchNameSuggestions(this.providerConfig, ctx, this.config.language))
             .chain((s) =>
               this.promptPick(s.names).chain(
                 (maybePicked): Future<Error, { picked: string; metadata: typeof s.metadata } | undefined> =>
@@ -1,4 +1,4 @@
-export { Commit, routeAnalysis, type AnalysisRoute };
+export { Commit, routeAnalysis, type AnalysisRoute, type CommitTarget };
 
 import * as p from "@clack/prompts";
 import * as pr from "@/infra/github/pr";
@@ -6,14 +6,51 @@ import * as repo from "@/infra/git/repo";
 
 import { Future } from "@/libs/future";
 import { loadConfig } from "@/infra/storage/config";
+import { layerRepoConfig } from "@/infra/storage/repo-config";
+import { stubIgnoredDiff } from "@/infra/git/commitignore";
+import { styleGuideFor } from "@/infra/git/style-guide";
+import { resolveCustomTemplate } from "@/infra/git/template";
+import { editCommitMessage } from "@/infra/editor";
+import { dropDraft, findDraftFor, saveDraft } from "@/infra/git/draft";
+import { findContributors, loadRecentCoAuthors, resolveCoAuthors, saveRecentCoAuthors } from "@/infra/git/co-authors";
+import { type StyleGuide } from "@/domain/commit/style-guide";
+import { describeViolations, validateCommitMessage } from "@/domain/commit/validate";
+import { DEFAULT_CANDIDATES, addToShortlist, subjectOf } from "@/domain/commit/candidates";
+import { describeDraftAge } from "@/domain/commit/draft";
+import {
+  describeBreakingChanges,
+  detectBreakingChanges,
+  isMarkedBreaking,
+  settleBreaking,
+  unsettledBreakingChanges,
+  type BreakingVerdict
+} from "@/domain/commit/breaking";
+import {
+  addTurn,
+  conversationOf,
+  currentVersion,
+  earlierVersions,
+  reviseCurrent,
+  startRefinement,
+  undoTo,
+  type Refinement,
+  type RefineTurn
+} from "@/domain/commit/refinement";
+import { coAuthorsOf, keepCoAuthors, searchContributors, withCoAuthors, type Contributor } from "@/domain/commit/co-authors";
 import { Setup } from "@/cli/setup";
 import { Split } from "@/cli/split";
-import { type CommitConvention, type Config, type ProviderConfig } from "@/domain/config/config";
+import { AddCommand } from "@/cli/add";
+import { ignorePatterns, withLanguage, type CommitConvention, type Config, type ProviderConfig } from "@/domain/config/config";
 import { resolveProvider } from "@/domain/llm/auth-resolver";
 import {
+  generateCandidateMessages,
   generateCommitMessage,
   generateSplitPlan,
   refineCommitMessage,
+  repairCommitMessage,
+  fitDiff,
+  diffFitsBudget,
+  type ModelDiff,
   type GeneratedContent,
   type LlmRequestMetadata,
   type SplitPlanContent
@@ -22,16 +59,49 @@ import { type SplitPlan } from "@/domain/split/plan";
 import { Nothing, type Maybe, Just, fromOptional } from "@/libs/maybe";
 import { Failure, Success, type Result } from "@/libs/result";
 import { absurd } from "@/libs/types";
-import { loading } from "@/infra/ui/spinner";
-import { renderCommitNote, renderPushNote } from "@/infra/ui/push-note";
+import { loading, streaming } from "@/infra/ui/spinner";
+import { describeRequest, renderCommitNote, renderPushNote } from "@/infra/ui/push-note";
 
 import color from "picocolors";
 
-const USER_ACTIONS = ["commit_push", "commit", "regenerate", "adjust", "cancel"] as const;
+const USER_ACTIONS = [
+  "commit_push",
+  "commit",
+  "edit",
+  "regenerate",
+  "alternatives",
+  "adjust",
+  "fix_rules",
+  "undo",
+  "co_authors",
+  "breaking",
+  "cancel"
+] as const;
 type UserAction = (typeof USER_ACTIONS)[number];
 
+/** `amend` rewrites HEAD's message from the last commit's diff instead of committing what is staged. */
+type CommitTarget = "new" | "amend";
+
+/** Every message proposed this session, oldest first, so earlier ones can be picked again without another request. */
+type Shortlist = readonly GeneratedContent[];
+
+/** The adjust conversation about the message on screen; Regenerate and picking an alternative start a new one. */
+type Conversation = Refinement<GeneratedContent>;
+
+/** What a new commit is written from: the diff as the model sees it and every staged path. */
+type StagedChanges = { raw: string; diff: string; files: readonly string[] };
+
+type CandidateChoice = { type: "pick"; generated: GeneratedContent } | { type: "more" } | { type: "back" };
+
 type AnalysisRoute = { tag: "split"; plan: SplitPlan } | { tag: "single"; message: string };
 
+// Enough to find a pair by first name without the list scrolling.
+const MAX_CO_AUTHOR_MATCHES = 8;
+
+const warn = (message: string): void => {
+  p.log.warn(color.yellow(message));
+};
+
 const routeAnalysis = (plan: SplitPlan): Result<Error, AnalysisRoute> =>
   plan.shouldSplit && plan.commits.length >= 2 ?
     Success({ tag: "split", plan })
@@ -40,13 +110,36 @@ const routeAnalysis = (plan: SplitPlan): Result<Error, AnalysisRoute> =>
       (first) => Success({ tag: "single", message: first.message })
     );
 
+/** The picker shows subjects only; the hint says how much body each one carries. */
+const candidateHint = (generated: GeneratedContent, current: Maybe<GeneratedContent>): string => {
+  const bodyLines = generated.text
+    .trim()
+    .split("\n")
+    .slice(1)
+    .filter((line) => line.trim() !== "").length;
+  const parts = [
+    ...(current.maybe(false, (c) => c.text === generated.text) ? ["current"] : []),
+    ...(bodyLines > 0 ? [`+${bodyLines} line${bodyLines === 1 ? "" : "s"}`] : [])
+  ];
+  return parts.join(", ");
+};
+
 class Commit {
   private constructor(
     private readonly config: Config,
-    private readonly providerConfig: ProviderConfig
+    private readonly providerConfig: ProviderConfig,
+    private readonly guide: StyleGuide,
+    private readonly candidates: Maybe<number>,
+    private readonly target: CommitTarget,
+    private readonly coAuthors: readonly Contributor[]
   ) {}
 
-  static create(): Future<Error, Commit> {
+  static create(
+    candidates: Maybe<number> = Nothing(),
+    target: CommitTarget = "new",
+    coAuthorQueries: readonly string[] = [],
+    language: Maybe<string> = Nothing()
+  ): Future<Error, Commit> {
     return loadConfig()
       .chainRej((): Future<Error, Config> => {
         p.log.warn(color.yellow("No configuration found. Let's set you up first."));
@@ -54,40 +147,140 @@ class Commit {
           .chain((s) => s.run())
           .chain(() => loadConfig());
       })
-      .chain((config) => resolveProvider(config).map((ai) => new Commit(config, ai)));
+      .chain(layerRepoConfig)
+      .map(withLanguage(language))
+      .chain(resolveCustomTemplate)
+      .chain((config) =>
+        Future.concurrently<Error, { ai: ProviderConfig; guide: StyleGuide; coAuthors: readonly Contributor[] }>({
+          ai: resolveProvider(config),
+          guide: styleGuideFor(config, warn),
+          coAuthors: resolveCoAuthors(coAuthorQueries)
+        }).map(({ ai, guide, coAuthors }) => new Commit(config, ai, guide, candidates, target, coAuthors))
+      );
   }
 
   run(): Future<Error, void> {
     return repo
       .checkIsGitRepo()
-      .chain(() => Future.concurrently({ diff: repo.getStagedDiff(), files: repo.listStagedPaths() }))
-      .chain(({ diff, files }) => this.route(diff, files))
+      .chain(() => this.start())
       .mapRej((e) => {
         p.log.error(color.red(e.message));
         return e;
       });
   }
 
-  private route(diff: string, files: readonly string[]): Future<Error, void> {
+  private start(): Future<Error, void> {
+    switch (this.target) {
+      case "new":
+        return this.staged().chain((found) =>
+          found.unwrap(
+            () => Future.resolve<Error, void>(undefined),
+            ({ raw, diff, files }) =>
+              this.offerDraft(diff).chain((draft) =>
+                this.fit(raw, diff).chain((fitted) =>
+                  draft.unwrap(
+                    () => this.route(fitted, files),
+                    (generated) => this.interact(fitted, this.credit(generated))
+                  )
+                )
+              )
+          )
+        );
+      case "amend":
+        return this.amend();
+      default:
+        return absurd(this.target, "CommitTarget");
+    }
+  }
+
+  /** With nothing staged, offers to stage changes first; Nothing when the user cancels that. */
+  private staged(): Future<Error, Maybe<StagedChanges>> {
+    const read = () =>
+      Future.both(this.diff(), repo.listStagedPaths()).chain(([raw, files]) =>
+        this.promptDiff(raw).map((diff): Maybe<StagedChanges> => Just({ raw, diff, files }))
+      );
+    return read().chainRej((err) =>
+      repo.isNoStagedChangesError(err) ?
+        AddCommand.create()
+          .stage()
+          .chain((outcome) => {
+            switch (outcome) {
+              case "staged":
+                return read();
+              case "cancelled":
+                return Future.resolve(Nothing());
+              case "nothing":
+                return Future.reject(err);
+              default:
+                return absurd(outcome, "StagingOutcome");
+            }
+          })
+      : Future.reject(err)
+    );
+  }
+
+  /** A draft left by an earlier run for this exact diff, if the user wants it instead of a new request; it gets this run's co-authors once picked. */
+  private offerDraft(diff: string): Future<Error, Maybe<GeneratedContent>> {
+    return findDraftFor(diff).chain((found) =>
+      found.unwrap(
+        () => Future.resolve<Error, Maybe<GeneratedContent>>(Nothing()),
+        (draft) =>
+          Future.attemptP(async () => {
+            p.note(draft.message, `Draft from ${describeDraftAge(draft.savedAt, Date.now())}`);
+            const reuse = await p.confirm({ message: "Continue with this draft?" });
+            return p.isCancel(reuse) || !reuse ? Nothing<GeneratedContent>() : Just({ text: draft.message, metadata: draft.request });
+          })
+      )
+    );
+  }
+
+  /** Split plans never apply here: the result is always the one rewritten HEAD commit. */
+  private amend(): Future<Error, void> {
+    return Future.concurrently<Error, { raw: string; current: string; pushed: boolean }>({
+      raw: repo.getAmendDiff(),
+      current: repo.getHeadMessage(),
+      pushed: repo.isHeadPushed()
+    }).chain(({ raw, current, pushed }) => {
+      p.note(current, "Current Message");
+      if (pushed) p.log.warn(color.yellow("The last commit is already pushed. Pushing the amended commit will need a force push with lease."));
+      return this.promptDiff(raw).chain((diff) => this.fit(raw, diff).chain((fitted) => this.propose(fitted)));
+    });
+  }
+
+  private propose(diff: ModelDiff): Future<Error, void> {
+    return this.candidates.unwrap(
+      () => this.generate(diff, this.config.commit_convention, this.config.custom_template).chain((message) => this.interact(diff, message)),
+      () => this.moreCandidates(diff, Nothing(), [])
+    );
+  }
+
+  private route(diff: ModelDiff, files: readonly string[]): Future<Error, void> {
     return this.config.split_commits && files.length >= 2 ?
         loading(
           "Analyzing staged changes...",
           "Ready!",
-          generateSplitPlan(this.providerConfig, diff, files, this.config.commit_convention, this.config.custom_template)
+          generateSplitPlan(this.providerConfig, diff, files, this.config.commit_convention, this.config.custom_template, this.guide)
         ).chain((content) => this.followAnalysis(diff, files, content))
-      : this.generate(diff, this.config.commit_convention, this.config.custom_template).chain((message) => this.interact(diff, message));
+      : this.propose(diff);
   }
 
-  private followAnalysis(diff: string, files: readonly string[], content: SplitPlanContent): Future<Error, void> {
+  private followAnalysis(diff: ModelDiff, files: readonly string[], content: SplitPlanContent): Future<Error, void> {
     const { plan, metadata } = content;
     return routeAnalysis(plan).either(
       (e) => Future.reject(e),
       (route) => {
         switch (route.tag) {
           case "split":
-            return Split.fromResolved(this.config, this.providerConfig).runPlan(diff, files, route.plan, metadata);
+            return Split.fromResolved(this.config, this.providerConfig, this.guide).runPlan(
+              diff,
+              files,
+              { ...route.plan, commits: route.plan.commits.map((group) => ({ ...group, message: withCoAuthors(group.message, this.coAuthors) })) },
+              metadata
+            );
           case "single":
-            return this.interact(diff, { text: route.message, metadata });
+            return loading("Checking message...", "Message ready!", this.repair(diff, { text: route.message, metadata })).chain((message) =>
+              this.interact(diff, this.credit(message))
+            );
           default:
             return absurd(route, "AnalysisRoute");
         }
@@ -95,20 +288,85 @@ class Commit {
     );
   }
 
+  /** Summarizes the files over the model's budget once; every request of the session then reuses the result. */
+  static fitDiff(providerConfig: ProviderConfig, raw: string, diff: string): Future<Error, ModelDiff> {
+    const fitted = fitDiff(providerConfig, raw, diff);
+    return diffFitsBudget(diff) ? fitted : loading("Summarizing the largest files...", "Large files summarized!", fitted);
+  }
+
+  private fit(raw: string, diff: string): Future<Error, ModelDiff> {
+    return Commit.fitDiff(this.providerConfig, raw, diff);
+  }
+
   diff(): Future<Error, string> {
     return repo.getStagedDiff();
   }
 
-  generate(diff: string, convention: CommitConvention, template: Maybe<string> = Nothing()): Future<Error, GeneratedContent> {
-    return loading("Generating commit message...", "Message generated!", generateCommitMessage(this.providerConfig, diff, convention, template));
+  /** A diff as the model sees it: ignored files are stubbed, but `listStagedPaths` still lists them. */
+  private promptDiff(raw: string): Future<Error, string> {
+    return stubIgnoredDiff(ignorePatterns(this.config), raw);
+  }
+
+  generate(diff: ModelDiff, convention: CommitConvention, template: Maybe<string> = Nothing()): Future<Error, GeneratedContent> {
+    return streaming(
+      "Generating commit message...",
+      (generated) => `Message generated! (${describeRequest(generated.metadata)})`,
+      (onText) =>
+        generateCommitMessage(this.providerConfig, diff, convention, template, this.guide, "prompt", Just(onText))
+          .chain((generated) => this.repair(diff, generated))
+          .map((generated) => this.credit(generated))
+    );
+  }
+
+  /** Not repaired afterwards: fixing the rules could undo what was asked for, so the user decides with Fix rule violations. */
+  refine(message: string, adjustment: string, diff: ModelDiff, earlier: readonly RefineTurn[] = []): Future<Error, GeneratedContent> {
+    return streaming(
+      "Refining...",
+      (refined) => `Refined! (${describeRequest(refined.metadata)})`,
+      (onText) =>
+        refineCommitMessage(this.providerConfig, message, adjustment, diff, this.config.commit_convention, "prompt", Just(onText), earlier, this.guide)
+    );
+  }
+
+  private generateCandidates(diff: ModelDiff): Future<Error, readonly GeneratedContent[]> {
+    const count = this.candidates.withDefault(DEFAULT_CANDIDATES);
+    return loading(
+      `Generating ${count} candidates...`,
+      "Candidates ready!",
+      generateCandidateMessages(this.providerConfig, diff, count, this.config.commit_convention, this.config.custom_template, this.guide).chain((found) =>
+        Future.parallel(
+          count,
+          found.map((generated) => this.repair(diff, generated).map((repaired) => this.credit(repaired)))
+        )
+      )
+    );
+  }
+
+  /** Adds the `--co-author` trailers, which every message of the session carries. */
+  private credit(generated: GeneratedContent): GeneratedContent {
+    return this.coAuthors.length === 0 ? generated : { ...generated, text: withCoAuthors(generated.text, this.coAuthors) };
   }
 
-  refine(message: string, adjustment: string, diff: string): Future<Error, GeneratedContent> {
-    return loading("Refining...", "Refined!", refineCommitMessage(this.providerConfig, message, adjustment, diff));
+  private repair(diff: ModelDiff, generated: GeneratedContent): Future<Error, GeneratedContent> {
+    return repairCommitMessage(this.providerConfig, generated, diff, this.config.commit_convention, this.guide);
   }
 
   commit(message: string): Future<Error, string> {
-    return repo.performCommit(message);
+    switch (this.target) {
+      case "new":
+        return repo
+          .performCommit(message)
+          .mapRej((e) => {
+            p.log.info("The message is kept as a draft: run 'commit' again to continue with it, or 'commit draft show' to see it.");
+            return e;
+          })
+          .chain((stats) => dropDraft().map(() => stats))
+          .chain((stats) => saveRecentCoAuthors(coAuthorsOf(message)).map(() => stats));
+      case "amend":
+        return repo.performAmend(message).chain((stats) => saveRecentCoAuthors(coAuthorsOf(message)).map(() => stats));
+      default:
+        return absurd(this.target, "CommitTarget");
+    }
   }
 
   push(request: Maybe<LlmRequestMetadata>, branch?: string, publish = false, forceWithLease = false): Future<Error, void> {
@@ -142,21 +400,60 @@ class Commit {
     );
   }
 
-  interact(diff: string, generated: GeneratedContent): Future<Error, void> {
-    return this.promptAction(generated.text).chain((action) => {
-      switch (action) {
-        case "commit":
-          return this.handleCommit(generated);
-        case "commit_push":
-          return this.handleCommitAndPush(generated);
-        case "regenerate":
-          return this.generate(diff, this.config.commit_convention, this.config.custom_template).chain((msg) => this.interact(diff, msg));
-        case "adjust":
-          return this.handleAdjust(diff, generated);
-        case "cancel":
-          return Future.resolve(undefined);
-      }
-    });
+  /** Every message shown for a new commit is saved first, so a failed commit or a closed terminal does not lose it. */
+  interact(
+    diff: ModelDiff,
+    generated: GeneratedContent,
+    shortlist: Shortlist = [generated],
+    conversation: Conversation = startRefinement(generated)
+  ): Future<Error, void> {
+    const saved = this.target === "new" ? saveDraft(diff.full, generated) : Future.resolve<Error, void>(undefined);
+    return saved
+      .chain(() => this.promptAction(diff, generated.text, conversation.turns.length > 0))
+      .chain((action) => {
+        switch (action) {
+          case "commit":
+            return this.handleCommit(generated);
+          case "commit_push":
+            return this.handleCommitAndPush(generated);
+          case "edit":
+            return this.handleEdit(diff, generated, shortlist, conversation);
+          case "regenerate":
+            return this.generate(diff, this.config.commit_convention, this.config.custom_template).chain((msg) => {
+              const next = { ...msg, text: keepCoAuthors(generated.text, msg.text) };
+              return this.interact(diff, next, addToShortlist(shortlist, [next]));
+            });
+          case "alternatives":
+            return shortlist.length >= 2 ?
+                this.pickCandidate(diff, Just(conversation), shortlist)
+              : this.moreCandidates(diff, Just(conversation), shortlist);
+          case "adjust":
+            return this.handleAdjust(diff, generated, shortlist, conversation);
+          case "fix_rules":
+            return this.handleFixRules(diff, generated, shortlist, conversation);
+          case "undo":
+            return this.handleUndo(diff, generated, shortlist, conversation);
+          case "co_authors":
+            return this.handleCoAuthors(diff, generated, shortlist, conversation);
+          case "breaking":
+            return this.handleBreaking(diff, generated, shortlist, conversation);
+          case "cancel":
+            return Future.resolve(undefined);
+        }
+      });
+  }
+
+  /** An editor that fails to start, or an emptied message, leaves the current message in place. */
+  static editInEditor(message: string): Future<Error, Maybe<string>> {
+    return editCommitMessage(message)
+      .map((edited) => {
+        if (edited instanceof Nothing) p.log.warn(color.yellow("The edited message was empty; keeping the current one."));
+        return edited;
+      })
+      .chainRej((err) => {
+        p.log.error(color.red(err.message));
+        return Future.resolve<Error, Maybe<string>>(Nothing());
+      });
   }
 
   static isNonFastForwardError(error: Error): boolean {
@@ -164,17 +461,29 @@ class Commit {
     return msg.includes("non-fast-forward") || msg.includes("updates were rejected");
   }
 
-  private promptAction(message: string): Future<Error, UserAction> {
+  private promptAction(diff: ModelDiff, message: string, canUndo: boolean): Future<Error, UserAction> {
+    const breaking = unsettledBreakingChanges(diff.full, this.guide.publicApi, this.guide.breaking);
     return Future.attemptP(async () => {
       p.note(message, "Proposed Commit Message");
+      const violations = validateCommitMessage(message, this.config.commit_convention, this.guide.commitlint, breaking);
+      if (violations.length > 0)
+        p.log.warn(color.yellow(`This message still breaks the ${this.config.commit_convention} convention:\n${describeViolations(violations)}`));
 
       const action = await p.select({
         message: "What would you like to do?",
         options: [
-          { value: "commit_push" as const, label: "Commit & Push" },
-          { value: "commit" as const, label: "Commit" },
+          { value: "commit_push" as const, label: this.target === "amend" ? "Amend & Push" : "Commit & Push" },
+          { value: "commit" as const, label: this.target === "amend" ? "Amend" : "Commit" },
+          { value: "edit" as const, label: "Edit" },
           { value: "regenerate" as const, label: "Regenerate" },
+          { value: "alternatives" as const, label: "Show alternatives" },
           { value: "adjust" as const, label: "Adjust" },
+          ...(violations.length > 0 ? [{ value: "fix_rules" as const, label: "Fix rule violations" }] : []),
+          ...(canUndo ? [{ value: "undo" as const, label: "Undo" }] : []),
+          { value: "co_authors" as const, label: "Add co-authors" },
+          ...(this.config.commit_convention === "conventional" ?
+            [{ value: "breaking" as const, label: isMarkedBreaking(message) ? "Not a breaking change" : "Mark as breaking change" }]
+          : []),
           { value: "cancel" as const, label: "Cancel" }
         ]
       });
@@ -193,7 +502,7 @@ class Commit {
       repo.findCommitMetadata().map((commit) => {
         process.stdout.write(stats);
         renderCommitNote({ commit, request: Just(generated.metadata) });
-        p.outro(color.green("Committed successfully!"));
+        p.outro(color.green(this.target === "amend" ? "Amended successfully!" : "Committed successfully!"));
       })
     );
   }
@@ -239,14 +548,199 @@ class Commit {
     }).chain((shouldForce) => (shouldForce ? this.push(request, undefined, false, true) : Future.resolve(undefined)));
   }
 
-  private handleAdjust(diff: string, generated: GeneratedContent): Future<Error, void> {
+  /** Hand edits keep the request metadata: the note after committing still describes the request that drafted the message. */
+  private handleEdit(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
+    return Commit.editInEditor(generated.text).chain((edited) =>
+      edited.unwrap(
+        () => this.interact(diff, generated, shortlist, conversation),
+        (text) => {
+          const next = { ...generated, text };
+          return this.interact(diff, next, addToShortlist(shortlist, [next]), reviseCurrent(conversation, next));
+        }
+      )
+    );
+  }
+
+  /** Each adjustment is sent with the ones before it, so "keep it short" still holds after "mention the cache". */
+  private handleAdjust(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
     return this.promptAdjustment().chain((maybeAdj) =>
       maybeAdj instanceof Nothing ?
-        this.interact(diff, generated)
-      : this.refine(generated.text, maybeAdj.value, diff).chain((refined) => this.interact(diff, refined))
+        this.interact(diff, generated, shortlist, conversation)
+      : this.refine(generated.text, maybeAdj.value, diff, conversationOf(conversation)).chain((refined) =>
+          this.interact(diff, refined, addToShortlist(shortlist, [refined]), addTurn(conversation, maybeAdj.value, refined))
+        )
     );
   }
 
+  /** Recorded as a turn of the conversation, so Undo goes back to the message as the user adjusted it. */
+  private handleFixRules(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
+    return loading("Fixing rule violations...", "Message checked!", this.repair(diff, generated)).chain((repaired) => {
+      const next = { text: keepCoAuthors(generated.text, repaired.text), metadata: repaired.metadata };
+      return this.interact(diff, next, addToShortlist(shortlist, [next]), addTurn(conversation, "Fix rule violations", next));
+    });
+  }
+
+  /** Going back drops the later adjustments from the conversation but keeps the co-authors credited since. */
+  private handleUndo(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
+    return this.promptUndo(conversation).chain((version) =>
+      version.unwrap(
+        () => this.interact(diff, generated, shortlist, conversation),
+        (n) => {
+          const undone = undoTo(conversation, n);
+          const previous = currentVersion(undone);
+          const next = { ...previous, text: keepCoAuthors(generated.text, previous.text) };
+          return this.interact(diff, next, shortlist, reviseCurrent(undone, next));
+        }
+      )
+    );
+  }
+
+  private promptUndo(conversation: Conversation): Future<Error, Maybe<number>> {
+    return Future.attemptP(async () => {
+      const choice = await p.select<number | "back">({
+        message: "Go back to",
+        options: [
+          ...earlierVersions(conversation).map(({ version, adjustment, result }) => ({
+            value: version,
+            label: adjustment.maybe("Before any adjustment", (adj) => `After "${adj}"`),
+            hint: subjectOf(result.text)
+          })),
+          { value: "back" as const, label: "Keep the current message" }
+        ]
+      });
+      return p.isCancel(choice) || choice === "back" ? Nothing<number>() : Just(choice);
+    });
+  }
+
+  private handleCoAuthors(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
+    return this.promptCoAuthors(generated.text).chain((picked) => {
+      if (picked.length === 0) return this.interact(diff, generated, shortlist, conversation);
+      const next = { ...generated, text: withCoAuthors(generated.text, picked) };
+      return this.interact(diff, next, addToShortlist(shortlist, [next]), reviseCurrent(conversation, next));
+    });
+  }
+
+  /** The author's call replaces the detection for the rest of the session, so Regenerate and alternatives follow it too. */
+  private handleBreaking(diff: ModelDiff, generated: GeneratedContent, shortlist: Shortlist, conversation: Conversation): Future<Error, void> {
+    const verdict: Future<Error, Maybe<BreakingVerdict>> =
+      isMarkedBreaking(generated.text) ?
+        Future.resolve(Just<BreakingVerdict>({ type: "not_breaking" }))
+      : this.promptBreakingDescription(diff.full).map((description) =>
+          description.map((text): BreakingVerdict => ({ type: "breaking", description: text }))
+        );
+    return verdict.chain((chosen) =>
+      chosen.unwrap(
+        () => this.interact(diff, generated, shortlist, conversation),
+        (v) => {
+          const next = { ...generated, text: settleBreaking(generated.text, v) };
+          return this.withBreaking(v).interact(diff, next, addToShortlist(shortlist, [next]), reviseCurrent(conversation, next));
+        }
+      )
+    );
+  }
+
+  private promptBreakingDescription(diff: string): Future<Error, Maybe<string>> {
+    const detected = detectBreakingChanges(diff, this.guide.publicApi);
+    return Future.attemptP(async () => {
+      const description = await p.text({
+        message: "What breaks for users of this change?",
+        placeholder: "e.g. `loadConfig` now returns a Future",
+        initialValue: detected.length === 0 ? "" : describeBreakingChanges(detected),
+        validate: (value) => (value?.trim() ? undefined : "Describe the breaking change for the footer")
+      });
+      return p.isCancel(description) ? Nothing<string>() : Just(description.trim());
+    });
+  }
+
+  private withBreaking(breaking: BreakingVerdict): Commit {
+    return new Commit(this.config, this.providerConfig, { ...this.guide, breaking }, this.candidates, this.target, this.coAuthors);
+  }
+
+  /** A blank query lists recent pairs first; people already credited on the message are left out. */
+  private promptCoAuthors(message: string): Future<Error, readonly Contributor[]> {
+    return Future.both(findContributors(), loadRecentCoAuthors()).chain(([contributors, recent]) =>
+      Future.attemptP(async (): Promise<readonly Contributor[]> => {
+        const query = await p.text({ message: "Who did you pair with?", placeholder: "name or email; leave empty for recent pairs" });
+        if (p.isCancel(query)) return [];
+
+        const credited = coAuthorsOf(message).map((c) => c.email.toLowerCase());
+        const matches = searchContributors(query ?? "", contributors, recent)
+          .filter((c) => !credited.includes(c.email.toLowerCase()))
+          .slice(0, MAX_CO_AUTHOR_MATCHES);
+        if (matches.length === 0) {
+          p.log.warn(
+            color.yellow(contributors.length === 0 ? "No contributors found in this repository's history." : `No contributor matches '${query}'.`)
+          );
+          return [];
+        }
+
+        const picked = await p.multiselect({
+          message: "Co-authors",
+          options: matches.map((c, i) => ({ value: i, label: c.name, hint: c.email })),
+          required: false
+        });
+        return p.isCancel(picked) ? [] : picked.flatMap((i) => fromOptional(matches[i]).maybe<Contributor[]>([], (c) => [c]));
+      })
+    );
+  }
+
+  private moreCandidates(diff: ModelDiff, current: Maybe<Conversation>, shortlist: Shortlist): Future<Error, void> {
+    return this.generateCandidates(diff).chain((found) => {
+      const next = addToShortlist(shortlist, found);
+      next.forEach((generated, i) => {
+        if (found.includes(generated)) p.note(generated.text, `Candidate ${i + 1}`);
+      });
+      return this.pickCandidate(diff, current, next);
+    });
+  }
+
+  /**
+   * Without a current message (the `--candidates` start), leaving the picker cancels the commit. A picked
+   * candidate keeps the co-authors credited on the current message.
+   */
+  private pickCandidate(diff: ModelDiff, current: Maybe<Conversation>, shortlist: Shortlist): Future<Error, void> {
+    return this.promptCandidate(current.map(currentVersion), shortlist).chain((choice) => {
+      switch (choice.type) {
+        case "pick":
+          return this.interact(
+            diff,
+            current.maybe(choice.generated, (conversation) => ({
+              ...choice.generated,
+              text: keepCoAuthors(currentVersion(conversation).text, choice.generated.text)
+            })),
+            shortlist
+          );
+        case "more":
+          return this.moreCandidates(diff, current, shortlist);
+        case "back":
+          return current.maybe(Future.resolve(undefined), (conversation) => this.interact(diff, currentVersion(conversation), shortlist, conversation));
+        default:
+          return absurd(choice, "CandidateChoice");
+      }
+    });
+  }
+
+  private promptCandidate(current: Maybe<GeneratedContent>, shortlist: Shortlist): Future<Error, CandidateChoice> {
+    const count = this.candidates.withDefault(DEFAULT_CANDIDATES);
+    return Future.attemptP(async () => {
+      const choice = await p.select<number | "more" | "back">({
+        message: "Pick a commit message",
+        options: [
+          ...shortlist.map((generated, i) => ({ value: i, label: `${i + 1}. ${subjectOf(generated.text)}`, hint: candidateHint(generated, current) })),
+          { value: "more" as const, label: `Generate ${count} more` },
+          { value: "back" as const, label: current instanceof Just ? "Back to the current message" : "Cancel" }
+        ]
+      });
+
+      if (p.isCancel(choice) || choice === "back") {
+        if (current instanceof Nothing) p.outro("Operation cancelled.");
+        return { type: "back" };
+      }
+      if (choice === "more") return { type: "more" };
+      return fromOptional(shortlist[choice]).maybe<CandidateChoice>({ type: "back" }, (generated) => ({ type: "pick", generated }));
+    });
+  }
+
   private promptAdjustment(): Future<Error, Maybe<string>> {
     return Future.attemptP(async () => {
       const adj = await p.text({
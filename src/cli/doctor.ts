@@ -4,6 +4,11 @@ import * as pr from "@/infra/github/pr";
 import * as repo from "@/infra/git/repo";
 
 import { Future } from "@/libs/future";
+import { type CommitHookStatus, inspectCommitHook } from "@/infra/git/hooks";
+import { REPO_CONFIG_FILE, findRepoConfig, type RepoConfigLayer } from "@/infra/storage/repo-config";
+import { repoOverrides } from "@/domain/config/repo-config";
+import { findCommitlintRules, type CommitlintSource } from "@/infra/git/commitlint";
+import { Failure, Success, type Result } from "@/libs/result";
 import { configFile, loadConfig } from "@/infra/storage/config";
 import { type AuthMethod, type ProviderConfig } from "@/domain/config/config";
 import { Just, Nothing, type Maybe } from "@/libs/maybe";
@@ -110,11 +115,37 @@ class Doctor {
   }
 
   private collectGitRows(): Future<Error, CheckRow[]> {
-    return Future.concurrently<Error, { branch: Maybe<string>; base: Maybe<string>; pr: pr.PrLookup }>({
+    return Future.concurrently<
+      Error,
+      {
+        branch: Maybe<string>;
+        base: Maybe<string>;
+        pr: pr.PrLookup;
+        hook: Maybe<CommitHookStatus>;
+        repoConfig: Result<Error, Maybe<RepoConfigLayer>>;
+        commitlint: Result<Error, Maybe<CommitlintSource>>;
+      }
+    >({
       branch: repo.findCurrentBranch(),
       base: repo.findBaseBranch(),
-      pr: pr.getOpenPullRequest()
-    }).map(({ branch, base, pr: prLookup }): CheckRow[] => [renderBranchRow(branch), renderBaseRow(base), renderPrRow(prLookup)]);
+      pr: pr.getOpenPullRequest(),
+      hook: inspectCommitHook()
+        .map((status): Maybe<CommitHookStatus> => Just(status))
+        .chainRej(() => Future.resolve(Nothing())),
+      repoConfig: findRepoConfig()
+        .map((layer): Result<Error, Maybe<RepoConfigLayer>> => Success(layer))
+        .chainRej((err) => Future.resolve(Failure(err))),
+      commitlint: findCommitlintRules()
+        .map((found): Result<Error, Maybe<CommitlintSource>> => Success(found))
+        .chainRej((err) => Future.resolve(Failure(err)))
+    }).map(({ branch, base, pr: prLookup, hook, repoConfig, commitlint }): CheckRow[] => [
+      renderBranchRow(branch),
+      renderBaseRow(base),
+      renderPrRow(prLookup),
+      renderHookRow(hook),
+      renderRepoConfigRow(repoConfig),
+      renderCommitlintRow(commitlint)
+    ]);
   }
 
   private renderTable(rows: CheckRow[], elapsedMs: number): void {
@@ -161,6 +192,45 @@ function renderPrRow(lookup: pr.PrLookup): CheckRow {
   }
 }
 
+function renderHookRow(hook: Maybe<CommitHookStatus>): CheckRow {
+  if (!(hook instanceof Just)) return ["Commit Hook", color.yellow("Unknown"), "Could not read the hooks directory"];
+  switch (hook.value.type) {
+    case "installed":
+      return ["Commit Hook", color.green("Installed"), hook.value.chained ? "prepare-commit-msg (chained)" : "prepare-commit-msg"];
+    case "foreign":
+      return ["Commit Hook", color.yellow("Other"), "prepare-commit-msg not managed by commit-tools"];
+    case "absent":
+      return ["Commit Hook", color.gray("None"), "Run 'commit hook install' to fill git commit"];
+    default:
+      return absurd(hook.value, "CommitHookStatus");
+  }
+}
+
+/** The repository layer gets its own row so it is clear which values override the global Configuration row. */
+function renderRepoConfigRow(layer: Result<Error, Maybe<RepoConfigLayer>>): CheckRow {
+  return layer.either(
+    (err): CheckRow => ["Repo Config", color.red("Invalid"), err.message],
+    (found): CheckRow =>
+      found.maybe<CheckRow>(["Repo Config", color.gray("None"), `No ${REPO_CONFIG_FILE} in this repository`], ({ path, config }) => {
+        const keys = repoOverrides(config);
+        return ["Repo Config", color.green("Found"), keys.length > 0 ? `${path} (overrides ${keys.join(", ")})` : `${path} (no overrides)`];
+      })
+  );
+}
+
+/** Commitlint rules only shape conventional messages; the row reports the file either way. */
+function renderCommitlintRow(source: Result<Error, Maybe<CommitlintSource>>): CheckRow {
+  return source.either(
+    (err): CheckRow => ["Commitlint", color.red("Invalid"), err.message],
+    (found): CheckRow =>
+      found.maybe<CheckRow>(["Commitlint", color.gray("None"), "No commitlint config in this repository"], ({ path }) => [
+        "Commitlint",
+        color.green("Found"),
+        path
+      ])
+  );
+}
+
 function renderModelInfo(ai: ProviderConfig): string {
   const base = `${ai.model}`;
   return ai.effort instanceof Just ? `${base} (${ai.effort.value} effort)` : base;
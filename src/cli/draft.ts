@@ -0,0 +1,53 @@
+export { DraftCommand };
+
+import * as p from "@clack/prompts";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { absurd } from "@/libs/types";
+import { type DraftAction } from "@/cli/parser";
+import { describeDraftAge } from "@/domain/commit/draft";
+import { clearDraft, loadDraft } from "@/infra/git/draft";
+
+import color from "picocolors";
+
+/** The draft is per clone and needs no config, so neither command loads it. */
+class DraftCommand {
+  private constructor(private readonly action: DraftAction) {}
+
+  static create(action: DraftAction): DraftCommand {
+    return new DraftCommand(action);
+  }
+
+  run(): Future<Error, void> {
+    return repo
+      .checkIsGitRepo()
+      .chain(() => this.dispatch())
+      .mapRej((e) => {
+        p.log.error(color.red(e.message));
+        return e;
+      });
+  }
+
+  private dispatch(): Future<Error, void> {
+    switch (this.action) {
+      case "show":
+        return loadDraft().map((draft) =>
+          draft.unwrap(
+            () => p.log.info("No draft saved. One is kept whenever 'commit' proposes a message, until it is committed."),
+            ({ message, savedAt }) => {
+              p.note(message, `Draft from ${describeDraftAge(savedAt, Date.now())}`);
+              p.log.info("Run 'commit' with the same changes staged to continue with it.");
+            }
+          )
+        );
+      case "clear":
+        return clearDraft().map((cleared) => {
+          if (cleared) p.log.success("Draft cleared.");
+          else p.log.info("No draft saved.");
+        });
+      default:
+        return absurd(this.action, "DraftAction");
+    }
+  }
+}
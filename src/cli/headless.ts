@@ -0,0 +1,164 @@
+export { Headless, HeadlessError, EXIT_CODES, exitCodeOf, type HeadlessMode };
+
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { loadConfig } from "@/infra/storage/config";
+import { layerRepoConfig } from "@/infra/storage/repo-config";
+import { stubIgnoredDiff } from "@/infra/git/commitignore";
+import { Commit } from "@/cli/commit";
+import { styleGuideFor } from "@/infra/git/style-guide";
+import { resolveCustomTemplate } from "@/infra/git/template";
+import { resolveCoAuthors, saveRecentCoAuthors } from "@/infra/git/co-authors";
+import { dropDraft } from "@/infra/git/draft";
+import { type StyleGuide } from "@/domain/commit/style-guide";
+import { withCoAuthors, type Contributor } from "@/domain/commit/co-authors";
+import { type GenerateMode } from "@/cli/parser";
+import { ignorePatterns, withLanguage, type Config, type ProviderConfig } from "@/domain/config/config";
+import { resolveProvider } from "@/domain/llm/auth-resolver";
+import { fitDiff, generateCommitMessage, repairCommitMessage, MAX_REPAIR_ATTEMPTS, type RepairedContent } from "@/domain/llm/router";
+import { describeViolations } from "@/domain/commit/validate";
+import { Nothing, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+
+import color from "picocolors";
+
+type HeadlessMode = Exclude<GenerateMode, { type: "interactive" }>;
+
+const EXIT_CODES = {
+  failure: 1,
+  noStagedChanges: 2,
+  notConfigured: 3,
+  pushNeedsConfirmation: 4
+} as const;
+type ExitReason = keyof typeof EXIT_CODES;
+
+/** A failure whose cause scripts can branch on; anything else exits with `EXIT_CODES.failure`. */
+class HeadlessError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ExitReason
+  ) {
+    super(message);
+  }
+}
+
+const exitCodeOf = (err: Error): number => (err instanceof HeadlessError ? EXIT_CODES[err.reason] : EXIT_CODES.failure);
+
+/**
+ * `generate --print` / `--yes` for scripts and CI. Stdout carries only the message (or git's commit
+ * stats), errors go to stderr, and every step that would ask the user fails with a `HeadlessError`.
+ * Split plans are never offered here: the whole staged diff becomes one commit.
+ */
+class Headless {
+  private constructor(
+    private readonly config: Config,
+    private readonly providerConfig: ProviderConfig,
+    private readonly guide: StyleGuide,
+    private readonly mode: HeadlessMode,
+    private readonly coAuthors: readonly Contributor[]
+  ) {}
+
+  static create(mode: HeadlessMode, coAuthorQueries: readonly string[] = [], language: Maybe<string> = Nothing()): Future<Error, Headless> {
+    return loadConfig()
+      .mapRej((e): Error => new HeadlessError(`No configuration found. Run 'commit setup' first. (${e.message})`, "notConfigured"))
+      .chain(layerRepoConfig)
+      .map(withLanguage(language))
+      .chain(resolveCustomTemplate)
+      .chain((config) =>
+        Future.concurrently<Error, { ai: ProviderConfig; guide: StyleGuide; coAuthors: readonly Contributor[] }>({
+          ai: resolveProvider(config),
+          guide: styleGuideFor(config, warn),
+          coAuthors: resolveCoAuthors(coAuthorQueries)
+        }).map(({ ai, guide, coAuthors }) => new Headless(config, ai, guide, mode, coAuthors))
+      )
+      .mapRej(reportError);
+  }
+
+  run(): Future<Error, void> {
+    return repo
+      .checkIsGitRepo()
+      .chain(() => repo.getStagedDiff())
+      .mapRej((e): Error => (repo.isNoStagedChangesError(e) ? new HeadlessError(e.message, "noStagedChanges") : e))
+      .chain((raw) => stubIgnoredDiff(ignorePatterns(this.config), raw).chain((diff) => this.generate(raw, diff)))
+      .chain((generated) => {
+        reportViolations(generated);
+        return this.finish(withCoAuthors(generated.text, this.coAuthors));
+      })
+      .mapRej(reportError);
+  }
+
+  private generate(raw: string, diff: string): Future<Error, RepairedContent> {
+    const convention = this.config.commit_convention;
+    return fitDiff(this.providerConfig, raw, diff, "fail").chain((fitted) =>
+      generateCommitMessage(this.providerConfig, fitted, convention, this.config.custom_template, this.guide, "fail").chain((generated) =>
+        repairCommitMessage(this.providerConfig, generated, fitted, convention, this.guide, MAX_REPAIR_ATTEMPTS, "fail")
+      )
+    );
+  }
+
+  private finish(message: string): Future<Error, void> {
+    // Bound to a const so the narrowing survives into the callbacks below.
+    const mode = this.mode;
+
+    switch (mode.type) {
+      case "print":
+        process.stdout.write(`${message}\n`);
+        return Future.resolve(undefined);
+      case "commit":
+        return repo
+          .performCommit(message)
+          .chain((stats) => dropDraft().map(() => stats))
+          .chain((stats) => saveRecentCoAuthors(this.coAuthors).map(() => stats))
+          .chain((stats) => {
+            process.stdout.write(`${message}\n${stats}`);
+            return mode.push ? this.push() : Future.resolve<Error, void>(undefined);
+          });
+      default:
+        return absurd(mode, "HeadlessMode");
+    }
+  }
+
+  /** Publishing a branch and force-pushing both need a human decision, so they fail instead of prompting. */
+  private push(): Future<Error, void> {
+    return repo.hasUpstream().chain((exists) =>
+      exists ?
+        repo.performPush().bimap(
+          (err) =>
+            Commit.isNonFastForwardError(err) ?
+              new HeadlessError(
+                "Push was rejected because the branch is behind its remote. Pull first, or run 'commit' interactively.",
+                "pushNeedsConfirmation"
+              )
+            : err,
+          (result) => {
+            process.stderr.write(result.output);
+          }
+        )
+      : repo
+          .getCurrentBranch()
+          .chain((branch) =>
+            Future.reject<Error, void>(
+              new HeadlessError(
+                `Branch '${branch}' has no upstream. Publish it with 'git push --set-upstream origin ${branch}'.`,
+                "pushNeedsConfirmation"
+              )
+            )
+          )
+    );
+  }
+}
+
+/** Stdout stays message-only, so leftover convention problems are a warning on stderr rather than a failure. */
+const reportViolations = ({ violations }: RepairedContent): void => {
+  if (violations.length > 0) console.error(color.yellow(`Message still breaks the commit convention:\n${describeViolations(violations)}`));
+};
+
+const warn = (message: string): void => {
+  console.error(color.yellow(message));
+};
+
+const reportError = (e: Error): Error => {
+  console.error(color.red(e.message));
+  return e;
+};
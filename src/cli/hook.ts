@@ -0,0 +1,65 @@
+export { HookCommand };
+
+import * as p from "@clack/prompts";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { absurd } from "@/libs/types";
+import { type HookAction } from "@/cli/parser";
+import { HOOK_NAME, inspectCommitHook, installCommitHook, uninstallCommitHook } from "@/infra/git/hooks";
+
+import color from "picocolors";
+
+/** Needs no config up front: the installed hook loads it on every `git commit` and stays silent when it is missing. */
+class HookCommand {
+  private constructor(private readonly action: HookAction) {}
+
+  static create(action: HookAction): HookCommand {
+    return new HookCommand(action);
+  }
+
+  run(): Future<Error, void> {
+    // index.ts exits without printing a rejection, so every user-facing error goes through here.
+    return repo
+      .checkIsGitRepo()
+      .chain(() => this.dispatch())
+      .mapRej((e) => {
+        p.log.error(color.red(e.message));
+        return e;
+      });
+  }
+
+  private dispatch(): Future<Error, void> {
+    switch (this.action) {
+      case "install":
+        return installCommitHook().map(({ path, chained }) => {
+          p.log.success(`Installed ${HOOK_NAME} hook at ${color.dim(path)}`);
+          if (chained) p.log.info("The existing hook still runs first.");
+          p.log.info(`Plain ${color.cyan("git commit")} now opens the editor with a generated message.`);
+        });
+      case "uninstall":
+        return uninstallCommitHook().map(({ path, restored }) => {
+          p.log.success(`Removed ${HOOK_NAME} hook from ${color.dim(path)}`);
+          if (restored) p.log.info("Restored the hook that was there before.");
+        });
+      case "status":
+        return inspectCommitHook().map((status) => {
+          switch (status.type) {
+            case "installed":
+              p.log.success(`${HOOK_NAME} hook is installed${status.chained ? " (chained with an existing hook)" : ""}.`);
+              return;
+            case "foreign":
+              p.log.warn(`A ${HOOK_NAME} hook exists but was not installed by commit-tools. Run 'commit hook install' to chain it.`);
+              return;
+            case "absent":
+              p.log.info(`No ${HOOK_NAME} hook installed. Run 'commit hook install' to add one.`);
+              return;
+            default:
+              return absurd(status, "CommitHookStatus");
+          }
+        });
+      default:
+        return absurd(this.action, "HookAction");
+    }
+  }
+}
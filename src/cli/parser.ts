@@ -1,21 +1,57 @@
-export { type AliasAction, type CliCommand, parseArgs, showHelp, showVersion };
+export {
+  type AliasAction,
+  type CliCommand,
+  type DraftAction,
+  type GenerateMode,
+  type GenerateOptions,
+  type HookAction,
+  parseArgs,
+  showHelp,
+  showVersion
+};
 
 import * as D from "@/libs/json/decoder";
 
 import { ALIAS_TARGETS, type AliasTarget } from "@/domain/alias/alias";
+import { MAX_CANDIDATES, MIN_CANDIDATES } from "@/domain/commit/candidates";
+import { Just, Nothing, fromOptional, type Maybe } from "@/libs/maybe";
 import { Result } from "@/libs/result";
 import { version as packageVersion } from "@/package.json";
 
 type AliasAction = { type: "hub" } | { type: "list" } | { type: "add"; name: string; target: AliasTarget } | { type: "remove"; name: string };
 
+type HookAction = "install" | "uninstall" | "status";
+
+type DraftAction = "show" | "clear";
+
+/** `print` and `commit` are the headless modes: they never open a prompt, so scripts and CI can drive them. */
+type GenerateMode = { type: "interactive" } | { type: "print" } | { type: "commit"; push: boolean };
+
+/**
+ * `candidates` opens the picker with that many messages instead of a single proposal.
+ * `coAuthors` are `--co-author` queries, matched against the repository's contributors later.
+ * `language` is `--language`, which overrides the configured one for this run.
+ */
+type GenerateOptions = {
+  readonly mode: GenerateMode;
+  readonly candidates: Maybe<number>;
+  readonly coAuthors: readonly string[];
+  readonly language: Maybe<string>;
+};
+
 type CliCommand =
-  | { type: "generate" }
+  | { type: "generate"; options: GenerateOptions }
+  | { type: "add"; options: GenerateOptions }
+  | { type: "amend"; language: Maybe<string> }
+  | { type: "reword"; range: Maybe<string>; language: Maybe<string> }
   | { type: "setup" }
   | { type: "doctor" }
   | { type: "model" }
   | { type: "effort" }
-  | { type: "branch" }
+  | { type: "branch"; language: Maybe<string> }
   | { type: "alias"; action: AliasAction }
+  | { type: "hook"; action: HookAction }
+  | { type: "draft"; action: DraftAction }
   | { type: "update" }
   | { type: "version" }
   | { type: "help" };
@@ -47,12 +83,148 @@ const parseAliasAction = (args: string[]): D.Decoder<CliCommand> => {
   }
 };
 
+const parseHookAction = (sub: string | undefined): D.Decoder<CliCommand> => {
+  switch (sub) {
+    case undefined:
+    case "status":
+      return D.succeed({ type: "hook", action: "status" });
+    case "install":
+      return D.succeed({ type: "hook", action: "install" });
+    case "uninstall":
+      return D.succeed({ type: "hook", action: "uninstall" });
+    default:
+      return D.fail(`Unknown hook subcommand: ${sub}. Use install, uninstall or status.`);
+  }
+};
+
+const parseDraftAction = (sub: string | undefined): D.Decoder<CliCommand> => {
+  switch (sub) {
+    case undefined:
+    case "show":
+      return D.succeed({ type: "draft", action: "show" });
+    case "clear":
+      return D.succeed({ type: "draft", action: "clear" });
+    default:
+      return D.fail(`Unknown draft subcommand: ${sub}. Use show or clear.`);
+  }
+};
+
+const GENERATE_FLAGS = ["--print", "--yes", "-y", "--push"] as const;
+const CANDIDATES_FLAG = "--candidates";
+const CO_AUTHOR_FLAG = "--co-author";
+const LANGUAGE_FLAG = "--language";
+
+const isCandidatesFlag = (value: string): boolean => value === CANDIDATES_FLAG || value.startsWith(`${CANDIDATES_FLAG}=`);
+
+const isCoAuthorFlag = (value: string): boolean => value === CO_AUTHOR_FLAG || value.startsWith(`${CO_AUTHOR_FLAG}=`);
+
+const isLanguageFlag = (value: string): boolean => value === LANGUAGE_FLAG || value.startsWith(`${LANGUAGE_FLAG}=`);
+
+const isGenerateFlag = (value: string): boolean =>
+  (GENERATE_FLAGS as readonly string[]).includes(value) || isCandidatesFlag(value) || isCoAuthorFlag(value) || isLanguageFlag(value);
+
+/** The only generate option with a value, given as `--candidates 3` or `--candidates=3`; the other flags come back untouched. */
+const parseCandidatesFlag = (flags: readonly string[]): D.Decoder<[Maybe<number>, string[]]> => {
+  const at = flags.findIndex(isCandidatesFlag);
+  const flag = flags[at];
+  if (flag === undefined) return D.succeed([Nothing(), [...flags]]);
+
+  const separate = flag === CANDIDATES_FLAG;
+  const raw = separate ? flags[at + 1] : flag.slice(CANDIDATES_FLAG.length + 1);
+  const count = Number(raw);
+  if (raw === undefined || !/^\d+$/.test(raw) || count < MIN_CANDIDATES || count > MAX_CANDIDATES)
+    return D.fail(`${CANDIDATES_FLAG} takes a number from ${MIN_CANDIDATES} to ${MAX_CANDIDATES}`);
+  return D.succeed([Just(count), flags.filter((_, i) => i !== at && !(separate && i === at + 1))]);
+};
+
+/** `--co-author <query>` or `--co-author=<query>`, as many times as there are co-authors. */
+const parseCoAuthorFlags = (flags: readonly string[]): D.Decoder<[string[], string[]]> => {
+  const at = flags.findIndex(isCoAuthorFlag);
+  const flag = flags[at];
+  if (flag === undefined) return D.succeed([[], [...flags]]);
+
+  const separate = flag === CO_AUTHOR_FLAG;
+  const query = (separate ? flags[at + 1] : flag.slice(CO_AUTHOR_FLAG.length + 1))?.trim();
+  if (query === undefined || query === "" || query.startsWith("-"))
+    return D.fail(`${CO_AUTHOR_FLAG} takes a name or email, e.g. ${CO_AUTHOR_FLAG} alice`);
+  return parseCoAuthorFlags(flags.filter((_, i) => i !== at && !(separate && i === at + 1))).map(([queries, rest]) => [[query, ...queries], rest]);
+};
+
+/** `--language pt-BR` or `--language="Brazilian Portuguese"`; every command that writes text with the model takes it. */
+const parseLanguageFlag = (flags: readonly string[]): D.Decoder<[Maybe<string>, string[]]> => {
+  const at = flags.findIndex(isLanguageFlag);
+  const flag = flags[at];
+  if (flag === undefined) return D.succeed([Nothing(), [...flags]]);
+
+  const separate = flag === LANGUAGE_FLAG;
+  const language = (separate ? flags[at + 1] : flag.slice(LANGUAGE_FLAG.length + 1))?.trim();
+  if (language === undefined || language === "" || language.startsWith("-"))
+    return D.fail(`${LANGUAGE_FLAG} takes a language, e.g. ${LANGUAGE_FLAG} pt-BR`);
+  const rest = flags.filter((_, i) => i !== at && !(separate && i === at + 1));
+  return rest.some(isLanguageFlag) ? D.fail(`${LANGUAGE_FLAG} can only be given once`) : D.succeed([Just(language), rest]);
+};
+
+/** For commands whose only option is `--language`; `usage` is shown when more than `positional` other arguments are left. */
+const parseLanguageOnly = (command: string, args: readonly string[], positional: number, usage: string): D.Decoder<[Maybe<string>, string[]]> =>
+  parseLanguageFlag(args).chain(([language, rest]) => {
+    const unknown = rest.find((arg) => arg.startsWith("-"));
+    if (unknown !== undefined) return D.fail(`Unknown option for ${command}: ${unknown}`);
+    return rest.length > positional ? D.fail(`Usage: ${usage}`) : D.succeed([language, rest]);
+  });
+
+const parseGenerateMode = (flags: readonly string[]): D.Decoder<GenerateMode> => {
+  const unknown = flags.find((flag) => !isGenerateFlag(flag));
+  if (unknown !== undefined) return D.fail(`Unknown option for generate: ${unknown}`);
+
+  const print = flags.includes("--print");
+  const yes = flags.includes("--yes") || flags.includes("-y");
+  const push = flags.includes("--push");
+  if (print && (yes || push)) return D.fail("--print cannot be combined with --yes or --push");
+  if (push && !yes) return D.fail("--push requires --yes");
+
+  return D.succeed(
+    print ? { type: "print" }
+    : yes ? { type: "commit", push }
+    : { type: "interactive" }
+  );
+};
+
+const parseGenerateOptions = (flags: readonly string[]): D.Decoder<CliCommand> =>
+  parseLanguageFlag(flags).chain(([language, afterLanguage]) =>
+    parseCoAuthorFlags(afterLanguage).chain(([coAuthors, afterCoAuthors]) =>
+      parseCandidatesFlag(afterCoAuthors).chain(([candidates, rest]) =>
+        parseGenerateMode(rest).chain((mode) =>
+          mode.type !== "interactive" && candidates instanceof Just ?
+            D.fail(`${CANDIDATES_FLAG} needs the interactive picker and cannot be combined with --print or --yes`)
+          : D.succeed<CliCommand>({ type: "generate", options: { mode, candidates, coAuthors, language } })
+        )
+      )
+    )
+  );
+
 const cliCommandDecoder: D.Decoder<CliCommand> = D.array(D.string).chain((args) => {
+  // `commit --print` is shorthand for `commit generate --print`, matching the bare `commit` default.
+  if (args[0] !== undefined && isGenerateFlag(args[0])) return parseGenerateOptions(args);
+
   const cmd = args[0] || "generate";
 
   switch (cmd) {
     case "generate":
-      return D.succeed({ type: "generate" });
+      return parseGenerateOptions(args.slice(1));
+    case "add":
+      return parseGenerateOptions(args.slice(1)).chain((command) =>
+        command.type === "generate" && command.options.mode.type === "interactive" ?
+          D.succeed<CliCommand>({ type: "add", options: command.options })
+        : D.fail("commit add is interactive and cannot be combined with --print or --yes")
+      );
+    case "amend":
+      return parseLanguageOnly("amend", args.slice(1), 0, "commit amend [--language <language>]").map(
+        ([language]): CliCommand => ({ type: "amend", language })
+      );
+    case "reword":
+      return parseLanguageOnly("reword", args.slice(1), 1, "commit reword [range] [--language <language>]").map(
+        ([language, rest]): CliCommand => ({ type: "reword", range: fromOptional(rest[0]), language })
+      );
     case "setup":
     case "login":
       return D.succeed({ type: "setup" });
@@ -64,10 +236,16 @@ const cliCommandDecoder: D.Decoder<CliCommand> = D.array(D.string).chain((args)
       return D.succeed({ type: "effort" });
     case "branch":
     case "new-branch":
-      return D.succeed({ type: "branch" });
+      return parseLanguageOnly("branch", args.slice(1), 0, "commit branch [--language <language>]").map(
+        ([language]): CliCommand => ({ type: "branch", language })
+      );
     case "alias":
     case "aliases":
       return parseAliasAction(args);
+    case "hook":
+      return parseHookAction(args[1]);
+    case "draft":
+      return parseDraftAction(args[1]);
     case "update":
       return D.succeed({ type: "update" });
     case "--version":
@@ -89,6 +267,15 @@ Usage: commit-tools [command]
 
 Commands:
   generate (default)  Generate a commit message
+    --print           Write the message to stdout without committing (no prompts)
+    --yes, -y         Commit the message without asking (no prompts)
+    --push            With --yes, push after committing; never force-pushes or publishes
+    --candidates N    Propose N messages (2-5) and pick one
+    --co-author NAME  Add a Co-authored-by trailer for the best matching contributor (repeatable)
+    --language LANG   Write in LANG for this run (also for amend, reword and branch)
+  add                 Stage files or single hunks, then generate (takes the interactive generate options)
+  amend               Write a new message for the last commit and amend it
+  reword [range]      Rewrite the messages of unpushed commits (default: upstream..HEAD)
   branch              Suggest branch names from local changes and create one
   new-branch          Alias for branch
   setup               Configure authentication and conventions
@@ -97,9 +284,18 @@ Commands:
   model               Select a different AI model
   effort              Adjust the reasoning effort for the current model
   alias               Manage extra CLI names (list, add <name> <target>, remove <name>)
+  hook                Manage the git prepare-commit-msg hook (install, uninstall, status)
+  draft               Show or clear the message saved from the last run (show, clear)
   update              Install the latest version from npm
   --version, -v       Show version
   --help, -h          Show help
+
+Exit codes (generate --print / --yes):
+  0  Success
+  1  Generation, commit, or push failed
+  2  No staged changes
+  3  No configuration found (run 'commit setup')
+  4  Push needs confirmation (no upstream, or branch is behind remote)
   `);
 };
 
@@ -0,0 +1,275 @@
+export { Reword };
+
+import * as p from "@clack/prompts";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { loadConfig } from "@/infra/storage/config";
+import { layerRepoConfig } from "@/infra/storage/repo-config";
+import { stubIgnoredDiff } from "@/infra/git/commitignore";
+import { styleGuideFor } from "@/infra/git/style-guide";
+import { resolveCustomTemplate } from "@/infra/git/template";
+import { Setup } from "@/cli/setup";
+import { Commit } from "@/cli/commit";
+import { ignorePatterns, withLanguage, type Config, type ProviderConfig } from "@/domain/config/config";
+import { type StyleGuide } from "@/domain/commit/style-guide";
+import { checkRewordable, parseRewordRange, shortHash, type RangeCommit } from "@/domain/commit/reword";
+import { subjectOf } from "@/domain/commit/candidates";
+import { resolveProvider } from "@/domain/llm/auth-resolver";
+import { generateCommitMessage, repairCommitMessage, type GeneratedContent, type ModelDiff } from "@/domain/llm/router";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+import { loading, streaming } from "@/infra/ui/spinner";
+import { describeRequest } from "@/infra/ui/push-note";
+
+import color from "picocolors";
+
+const REWORD_ACTIONS = ["accept", "edit", "regenerate", "keep", "cancel"] as const;
+type RewordAction = (typeof REWORD_ACTIONS)[number];
+
+/** What happens to one commit: a new message, its old one, or the whole reword is called off. */
+type Decision = { type: "reword"; message: string } | { type: "keep" } | { type: "cancel" };
+
+const warn = (message: string): void => {
+  p.log.warn(color.yellow(message));
+};
+
+class Reword {
+  private constructor(
+    private readonly config: Config,
+    private readonly providerConfig: ProviderConfig,
+    private readonly guide: StyleGuide,
+    private readonly range: Maybe<string>
+  ) {}
+
+  static create(range: Maybe<string> = Nothing(), language: Maybe<string> = Nothing()): Future<Error, Reword> {
+    return loadConfig()
+      .chainRej((): Future<Error, Config> => {
+        p.log.warn(color.yellow("No configuration found. Let's set you up first."));
+        return Setup.create()
+          .chain((s) => s.run())
+          .chain(() => loadConfig());
+      })
+      .chain(layerRepoConfig)
+      .map(withLanguage(language))
+      .chain(resolveCustomTemplate)
+      .chain((config) => Future.both(resolveProvider(config), styleGuideFor(config, warn)).map(([ai, guide]) => new Reword(config, ai, guide, range)));
+  }
+
+  run(): Future<Error, void> {
+    return repo
+      .checkIsGitRepo()
+      .chain(() => this.rejectIfDirty())
+      .chain(() => this.resolveRange())
+      .chain((range) => this.loadCommits(range))
+      .chain((commits) => this.reviewFrom(commits, 0, new Map()).chain((messages) => this.rewrite(commits, messages)))
+      .mapRej((e) => {
+        p.log.error(color.red(e.message));
+        return e;
+      });
+  }
+
+  /** Checked before any message is generated: the rebase would refuse to start only after every commit was reviewed. */
+  private rejectIfDirty(): Future<Error, void> {
+    return repo
+      .hasTrackedChanges()
+      .chain((dirty) =>
+        dirty ?
+          Future.reject<Error, void>(new Error("Reword needs a clean work tree; commit or stash your changes first"))
+        : Future.resolve<Error, void>(undefined)
+      );
+  }
+
+  /** Without an explicit range: everything not yet on the upstream, or else not yet on the base branch. */
+  private resolveRange(): Future<Error, string> {
+    return this.range.unwrap(
+      () =>
+        repo
+          .getUpstream()
+          .chain((upstream) =>
+            upstream.unwrap(
+              () => repo.findBaseBranch(),
+              (ref) => Future.resolve<Error, Maybe<string>>(Just(ref))
+            )
+          )
+          .chain((base) =>
+            base.unwrap(
+              () => Future.reject<Error, string>(new Error("No upstream or base branch found; pass a range, e.g. commit reword HEAD~3..HEAD")),
+              (ref) => Future.resolve<Error, string>(`${ref}..HEAD`)
+            )
+          ),
+      (range) => Future.resolve(range)
+    );
+  }
+
+  private loadCommits(arg: string): Future<Error, readonly RangeCommit[]> {
+    return parseRewordRange(arg).either(
+      (err) => Future.reject(err),
+      ({ from, to }) => {
+        const range = `${from}..${to}`;
+        return Future.both(repo.resolveCommit(to), repo.resolveCommit("HEAD"))
+          .chain(([tip, head]) =>
+            tip === head ?
+              Future.resolve<Error, void>(undefined)
+            : Future.reject<Error, void>(new Error(`Reword only rewrites ranges that end at HEAD, not at ${to}`))
+          )
+          .chain(() => repo.listRangeCommits(range))
+          .chain((commits) =>
+            this.commitsOnBase(range, commits).chain((onBase) =>
+              checkRewordable(commits, onBase, range).either(
+                (err) => Future.reject<Error, readonly RangeCommit[]>(err),
+                (ok) => this.warnIfPushed(range, ok).map(() => ok)
+              )
+            )
+          );
+      }
+    );
+  }
+
+  private commitsOnBase(range: string, commits: readonly RangeCommit[]): Future<Error, ReadonlySet<string>> {
+    return repo.findBaseBranch().chain((base) =>
+      base.unwrap(
+        () => Future.resolve<Error, ReadonlySet<string>>(new Set()),
+        (ref) =>
+          repo
+            .listRangeHashesNotIn(range, ref)
+            .map((outside): ReadonlySet<string> => new Set(commits.map((commit) => commit.hash).filter((hash) => !outside.has(hash))))
+      )
+    );
+  }
+
+  private warnIfPushed(range: string, commits: readonly RangeCommit[]): Future<Error, void> {
+    return repo.getUpstream().chain((upstream) =>
+      upstream.unwrap(
+        () => Future.resolve<Error, void>(undefined),
+        (ref) =>
+          repo.listRangeHashesNotIn(range, ref).map((unpushed) => {
+            if (commits.some((commit) => !unpushed.has(commit.hash)))
+              warn(`Some of these commits are already on ${ref}. Pushing the rewritten branch will need a force push with lease.`);
+          })
+      )
+    );
+  }
+
+  private reviewFrom(
+    commits: readonly RangeCommit[],
+    index: number,
+    messages: ReadonlyMap<string, string>
+  ): Future<Error, Maybe<ReadonlyMap<string, string>>> {
+    const commit = commits[index];
+    if (commit === undefined) return Future.resolve(Just(messages));
+    return this.review(commit, index + 1, commits.length).chain((decision) => {
+      switch (decision.type) {
+        case "reword":
+          return this.reviewFrom(commits, index + 1, new Map([...messages, [commit.hash, decision.message]]));
+        case "keep":
+          return this.reviewFrom(commits, index + 1, messages);
+        case "cancel":
+          return Future.resolve(Nothing<ReadonlyMap<string, string>>());
+        default:
+          return absurd(decision, "Decision");
+      }
+    });
+  }
+
+  private review(commit: RangeCommit, position: number, total: number): Future<Error, Decision> {
+    return repo
+      .getCommitDiff(commit.hash)
+      .chain((raw) => stubIgnoredDiff(ignorePatterns(this.config), raw).chain((diff) => Commit.fitDiff(this.providerConfig, raw, diff)))
+      .chain((diff) => this.generate(diff, `${position}/${total} ${shortHash(commit.hash)}`).chain((generated) => this.decide(commit, diff, generated)));
+  }
+
+  private generate(diff: ModelDiff, label: string): Future<Error, GeneratedContent> {
+    return streaming(
+      `Rewording ${label}...`,
+      (generated) => `Proposed a message for ${label} (${describeRequest(generated.metadata)})`,
+      (onText) =>
+        generateCommitMessage(
+          this.providerConfig,
+          diff,
+          this.config.commit_convention,
+          this.config.custom_template,
+          this.guide,
+          "prompt",
+          Just(onText)
+        ).chain((generated) => repairCommitMessage(this.providerConfig, generated, diff, this.config.commit_convention, this.guide))
+    );
+  }
+
+  private decide(commit: RangeCommit, diff: ModelDiff, generated: GeneratedContent): Future<Error, Decision> {
+    return this.promptAction(commit, generated.text).chain((action): Future<Error, Decision> => {
+      switch (action) {
+        case "accept":
+          return Future.resolve({ type: "reword", message: generated.text });
+        case "edit":
+          return Commit.editInEditor(generated.text).chain((edited) =>
+            edited.unwrap(
+              () => this.decide(commit, diff, generated),
+              (message) => Future.resolve<Error, Decision>({ type: "reword", message })
+            )
+          );
+        case "regenerate":
+          return this.generate(diff, shortHash(commit.hash)).chain((next) => this.decide(commit, diff, next));
+        case "keep":
+          return Future.resolve({ type: "keep" });
+        case "cancel":
+          return Future.resolve({ type: "cancel" });
+        default:
+          return absurd(action, "RewordAction");
+      }
+    });
+  }
+
+  private promptAction(commit: RangeCommit, proposed: string): Future<Error, RewordAction> {
+    return Future.attemptP(async () => {
+      p.note(commit.message, `${shortHash(commit.hash)} · current`);
+      p.note(proposed, `${shortHash(commit.hash)} · proposed`);
+
+      const action = await p.select({
+        message: "Use the proposed message?",
+        options: [
+          { value: "accept" as const, label: "Accept" },
+          { value: "edit" as const, label: "Edit" },
+          { value: "regenerate" as const, label: "Regenerate" },
+          { value: "keep" as const, label: "Keep the current message" },
+          { value: "cancel" as const, label: "Cancel the reword" }
+        ]
+      });
+
+      return p.isCancel(action) ? "cancel" : action;
+    });
+  }
+
+  private rewrite(commits: readonly RangeCommit[], decided: Maybe<ReadonlyMap<string, string>>): Future<Error, void> {
+    return decided.unwrap(
+      () => {
+        p.outro("Reword cancelled. No commits were changed.");
+        return Future.resolve<Error, void>(undefined);
+      },
+      (messages) =>
+        messages.size === 0 ?
+          Future.resolve<Error, void>(p.outro("No messages changed."))
+        : this.confirmRewrite(commits, messages).chain((confirmed) =>
+            confirmed ?
+              loading("Rewriting history...", "History rewritten!", repo.performReword(commits, messages)).map(() => {
+                p.outro(color.green(`Reworded ${messages.size} commit${messages.size === 1 ? "" : "s"}.`));
+              })
+            : Future.resolve<Error, void>(p.outro("Reword cancelled. No commits were changed."))
+          )
+    );
+  }
+
+  private confirmRewrite(commits: readonly RangeCommit[], messages: ReadonlyMap<string, string>): Future<Error, boolean> {
+    return Future.attemptP(async () => {
+      const lines = commits.map((commit) => {
+        const next = messages.get(commit.hash);
+        return next === undefined ?
+            `${shortHash(commit.hash)}  ${subjectOf(commit.message)}`
+          : `${shortHash(commit.hash)}  ${color.green(subjectOf(next))}`;
+      });
+      p.note(lines.join("\n"), "New History");
+      const ok = await p.confirm({ message: `Rewrite ${messages.size} of ${commits.length} commits?` });
+      return !(p.isCancel(ok) || !ok);
+    });
+  }
+}
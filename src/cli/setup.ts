@@ -13,17 +13,34 @@ import { validateAnthropicApiKey, validateAnthropicSetupToken } from "@/infra/au
 import { Just, Nothing } from "@/libs/maybe";
 import { bracketStatus, loading } from "@/infra/ui/spinner";
 import { fetchModels } from "@/domain/commit/models";
+import { TEMPLATE_PLACEHOLDERS, templateProblem } from "@/domain/commit/template";
 import { selectModelInteractively } from "@/infra/ui/model-picker";
 import { selectEffortForProvider, seedProviderConfig } from "@/domain/llm/effort";
+import { type GitmojiStyle } from "@/domain/commit/gitmoji";
 
 import color from "picocolors";
 
 type SetupPreferences = {
   readonly convention: CommitConvention;
   readonly customTemplate: string | undefined;
+  readonly gitmojiStyle: GitmojiStyle;
   readonly provider: ProviderConfig["provider"];
   readonly authMethod: "google_oauth" | "openai_oauth" | "xai_oauth" | "api_key" | "anthropic_setup_token";
   readonly splitCommits: boolean;
+  readonly matchHistory: boolean;
+};
+
+const promptGitmojiStyle = async (): Promise<GitmojiStyle> => {
+  const style = await p.select({
+    message: "Write gitmoji as:",
+    options: [
+      { value: "unicode", label: "Emoji (✨ Add session cache)" },
+      { value: "shortcode", label: "Shortcode (:sparkles: Add session cache)" }
+    ],
+    initialValue: "unicode" as const
+  });
+  if (p.isCancel(style)) throw new Error("Setup cancelled");
+  return style;
 };
 
 class Setup {
@@ -51,6 +68,7 @@ class Setup {
         options: [
           { value: "conventional", label: "Conventional (feat:, fix:)" },
           { value: "imperative", label: "Imperative (add, fix, update)" },
+          { value: "gitmoji", label: "Gitmoji (✨ add, 🐛 fix)" },
           { value: "custom", label: "Custom template" }
         ],
         initialValue: "imperative" as const
@@ -61,13 +79,15 @@ class Setup {
       let customTemplate: string | undefined;
       if (convention === "custom") {
         const template = await p.text({
-          message: "Enter custom template (use {diff} as placeholder):",
-          validate: (value) => (!value || !value.includes("{diff}") ? "Template must include {diff}" : undefined)
+          message: `Enter custom template (placeholders: ${TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(", ")}):`,
+          validate: (value) => templateProblem(value ?? "").maybe<string | undefined>(undefined, (problem) => problem)
         });
         if (p.isCancel(template)) throw new Error("Setup cancelled");
         customTemplate = template;
       }
 
+      const gitmojiStyle = convention === "gitmoji" ? await promptGitmojiStyle() : "unicode";
+
       const splitCommits = await p.select({
         message: "Analyze staged files and split them when they look independent?",
         options: [
@@ -78,6 +98,16 @@ class Setup {
       });
       if (p.isCancel(splitCommits)) throw new Error("Setup cancelled");
 
+      const matchHistory = await p.select({
+        message: "Match the style of each repository's recent commits?",
+        options: [
+          { value: false, label: "No — use the built-in examples" },
+          { value: true, label: "Yes — learn tone and scopes from git log" }
+        ],
+        initialValue: false as const
+      });
+      if (p.isCancel(matchHistory)) throw new Error("Setup cancelled");
+
       const authMethod = await p.select({
         message: "Select authentication method:",
         options: getAuthMethodOptions(provider),
@@ -89,9 +119,11 @@ class Setup {
       return new Setup({
         convention: convention,
         customTemplate,
+        gitmojiStyle,
         provider: provider,
         authMethod: authMethod,
-        splitCommits
+        splitCommits,
+        matchHistory
       });
     });
   }
@@ -116,7 +148,14 @@ class Setup {
       ai,
       commit_convention: this.preferences.convention,
       custom_template: this.preferences.customTemplate ? Just(this.preferences.customTemplate) : Nothing(),
-      split_commits: this.preferences.splitCommits
+      split_commits: this.preferences.splitCommits,
+      ignore: Nothing(),
+      match_history: this.preferences.matchHistory,
+      ticket_pattern: Nothing(),
+      language: Nothing(),
+      gitmoji_style: this.preferences.gitmojiStyle,
+      verify_command: Nothing(),
+      detect_breaking_changes: true
     };
   }
 
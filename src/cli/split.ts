@@ -6,99 +6,205 @@ import * as repo from "@/infra/git/repo";
 
 import { Future } from "@/libs/future";
 import { Commit } from "@/cli/commit";
+import { dropDraft } from "@/infra/git/draft";
+import { isVerifyCommandTrusted, trustVerifyCommand } from "@/infra/git/verify-trust";
+import { findRepoConfig, REPO_CONFIG_FILE } from "@/infra/storage/repo-config";
 import { type Config, type ProviderConfig } from "@/domain/config/config";
-import { generateSplitPlan, type LlmRequestMetadata, type SplitPlanContent } from "@/domain/llm/router";
+import { fitDiff, generateCommitMessage, generateSplitPlan, type LlmRequestMetadata, type ModelDiff, type SplitPlanContent } from "@/domain/llm/router";
 import { type SplitPlan } from "@/domain/split/plan";
-import { Just, type Maybe } from "@/libs/maybe";
-import { loading } from "@/infra/ui/spinner";
+import { commitPatches, type HunkPatch } from "@/domain/split/hunks";
+import {
+  describeItem,
+  diffOf,
+  draftOf,
+  itemsOf,
+  record,
+  redo,
+  startHistory,
+  undo,
+  unstagedPaths,
+  withEditedMessage,
+  withMergedCommits,
+  withMovedItem,
+  withReorderedCommit,
+  withSplitOff,
+  withoutCommit,
+  type PlanDraft,
+  type PlanHistory,
+  type PlanItem
+} from "@/domain/split/edit";
+import { keepCoAuthors } from "@/domain/commit/co-authors";
+import { parseFilePatch, type FilePatch } from "@/domain/staging/hunks";
+import { EMPTY_STYLE_GUIDE, type StyleGuide } from "@/domain/commit/style-guide";
+import { Just, Nothing, fromOptional, type Maybe } from "@/libs/maybe";
+import { outputTail, type VerifyFailure, type VerifyOutcome } from "@/domain/split/verify";
+import { bracketStatus, loading } from "@/infra/ui/spinner";
 import { renderCommitNote, renderPushNote } from "@/infra/ui/push-note";
 import { absurd } from "@/libs/types";
 
 import color from "picocolors";
 
-const SPLIT_ACTIONS = ["apply_push", "apply", "edit", "move", "reorder", "regenerate", "cancel"] as const;
+const SPLIT_ACTIONS = [
+  "apply_push",
+  "apply",
+  "verify",
+  "fix",
+  "edit",
+  "edit_in_editor",
+  "move",
+  "reorder",
+  "merge",
+  "split_off",
+  "delete",
+  "undo",
+  "redo",
+  "regenerate",
+  "cancel"
+] as const;
 type SplitAction = (typeof SPLIT_ACTIONS)[number];
 
-const formatPlanNote = (plan: SplitPlan, stagedCount: number): string => {
-  const groups = plan.commits.map((commit, index) => `${index + 1}. ${commit.message}\n   ${commit.files.join("  ")}`).join("\n\n");
-  return `${plan.commits.length} commits · ${stagedCount} staged files\n\n${groups}`;
-};
+type ActionOption = { value: SplitAction; label: string; hint?: string };
 
-const commitOptions = (plan: SplitPlan): { value: number; label: string }[] =>
-  plan.commits.map((commit, index) => ({ value: index, label: `${index + 1}. ${commit.message}` }));
+const isFailed = (checked: Maybe<VerifyOutcome>): boolean => checked.maybe(false, (outcome) => outcome.type === "failed");
 
-const withEditedMessage = (plan: SplitPlan, index: number, message: string): SplitPlan => ({
-  ...plan,
-  commits: plan.commits.map((commit, i) => (i === index ? { message, files: commit.files } : commit))
-});
+/** Messages do not change what builds, so only a regrouped plan has to be verified again. */
+const keptIfSame = (draft: PlanDraft, next: PlanDraft, checked: Maybe<VerifyOutcome>): Maybe<VerifyOutcome> => (next === draft ? checked : Nothing());
 
-const withMovedFile = (plan: SplitPlan, file: string, destIndex: number): SplitPlan => {
-  const sourceIndex = plan.commits.findIndex((commit) => commit.files.includes(file));
-  if (sourceIndex === -1 || sourceIndex === destIndex) {
-    return plan;
-  }
-  const moved = plan.commits.map((commit, i) => {
-    if (i === sourceIndex) {
-      return { message: commit.message, files: commit.files.filter((path) => path !== file) };
-    }
-    if (i === destIndex) {
-      return { message: commit.message, files: [...commit.files, file] };
-    }
-    return commit;
-  });
-  return { commits: moved.filter((commit) => commit.files.length > 0), shouldSplit: plan.shouldSplit };
+const failureOf = (plan: SplitPlan, command: Maybe<string>, checked: Maybe<VerifyOutcome>): Maybe<VerifyFailure> =>
+  command.chain((cmd) =>
+    checked.chain(
+      (outcome): Maybe<VerifyFailure> =>
+        outcome.type === "failed" ? Just({ plan, command: cmd, step: outcome.step, output: outcome.output }) : Nothing()
+    )
+  );
+
+/** Ctrl+C while `run` is going aborts its signal instead of ending the session, so the command is stopped and cleaned up after. */
+const cancelledOnInterrupt = <T>(run: (signal: AbortSignal) => Future<Error, T>): Future<Error, T> => {
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  return Future.resolve<Error, void>(undefined)
+    .map(() => {
+      process.on("SIGINT", abort);
+    })
+    .chain(() => run(controller.signal))
+    .finally(
+      Future.resolve<Error, void>(undefined).map(() => {
+        process.removeListener("SIGINT", abort);
+      })
+    );
 };
 
-const withReorderedCommit = (plan: SplitPlan, fromIndex: number, toIndex: number): SplitPlan => {
-  if (fromIndex === toIndex) {
-    return plan;
-  }
-  const commits = [...plan.commits];
-  const [item] = commits.splice(fromIndex, 1);
-  if (item === undefined) {
-    return plan;
-  }
-  commits.splice(toIndex, 0, item);
-  return { commits, shouldSplit: plan.shouldSplit };
+const verifyStatus = (checked: Maybe<VerifyOutcome>, command: Maybe<string>): string =>
+  command.maybe("", (cmd) =>
+    checked.maybe("", (outcome) => (outcome.type === "passed" ? ` · every commit passes ${cmd}` : ` · commit ${outcome.step + 1} fails ${cmd}`))
+  );
+
+const formatPlanNote = (draft: PlanDraft, stagedCount: number, status: string): string => {
+  const groups = draft.plan.commits
+    .map((commit, index) => `${index + 1}. ${commit.message}\n   ${itemsOf(commit).map(describeItem).join("  ")}`)
+    .join("\n\n");
+  const unstaged = draft.unstaged.length === 0 ? "" : `\n\nBack to unstaged:\n   ${draft.unstaged.map(describeItem).join("  ")}`;
+  return `${draft.plan.commits.length} commits · ${stagedCount} staged files${status}\n\n${groups}${unstaged}`;
 };
 
+const actionOptions = (history: PlanHistory, command: Maybe<string>, blocked: boolean): ActionOption[] => {
+  const { commits } = history.present.plan;
+  return [
+    ...(blocked ?
+      []
+    : [
+        { value: "apply_push" as const, label: "Apply & Push" },
+        { value: "apply" as const, label: "Apply" }
+      ]),
+    ...command.maybe<ActionOption[]>([], (cmd) => [{ value: "verify", label: "Verify each commit", hint: cmd }]),
+    ...(blocked ? [{ value: "fix" as const, label: "Ask for a plan that passes" }] : []),
+    { value: "edit", label: "Edit message" },
+    { value: "edit_in_editor", label: "Edit message in editor" },
+    { value: "move", label: "Move file" },
+    { value: "reorder", label: "Reorder" },
+    ...(commits.length > 1 ? [{ value: "merge" as const, label: "Merge two commits" }] : []),
+    ...(commits.some((commit) => itemsOf(commit).length > 1) ? [{ value: "split_off" as const, label: "Split off a new commit" }] : []),
+    ...(commits.length > 1 ? [{ value: "delete" as const, label: "Delete commit", hint: "its changes go back to unstaged" }] : []),
+    ...(history.past.length > 0 ? [{ value: "undo" as const, label: "Undo" }] : []),
+    ...(history.future.length > 0 ? [{ value: "redo" as const, label: "Redo" }] : []),
+    { value: "regenerate", label: "Regenerate" },
+    { value: "cancel", label: "Cancel" }
+  ];
+};
+
+const commitOptions = (plan: SplitPlan): { value: number; label: string }[] =>
+  plan.commits.map((commit, index) => ({ value: index, label: `${index + 1}. ${commit.message}` }));
+
+const itemsAt = (plan: SplitPlan, indexes: readonly number[]): PlanItem[] =>
+  indexes.flatMap((index) => fromOptional(plan.commits[index]).maybe<PlanItem[]>([], itemsOf));
+
+const messageAt = (plan: SplitPlan, index: number): string => fromOptional(plan.commits[index]).maybe("", (commit) => commit.message);
+
 class Split {
   private constructor(
     private readonly config: Config,
-    private readonly providerConfig: ProviderConfig
+    private readonly providerConfig: ProviderConfig,
+    private readonly guide: StyleGuide
   ) {}
 
-  static fromResolved(config: Config, providerConfig: ProviderConfig): Split {
-    return new Split(config, providerConfig);
+  static fromResolved(config: Config, providerConfig: ProviderConfig, guide: StyleGuide = EMPTY_STYLE_GUIDE): Split {
+    return new Split(config, providerConfig, guide);
   }
 
-  runPlan(diff: string, files: readonly string[], plan: SplitPlan, meta: LlmRequestMetadata): Future<Error, void> {
-    return this.interact(diff, files, plan, meta);
+  runPlan(diff: ModelDiff, files: readonly string[], plan: SplitPlan, meta: LlmRequestMetadata): Future<Error, void> {
+    return this.interact(diff, files, startHistory(plan), meta);
   }
 
-  private generate(diff: string, files: readonly string[]): Future<Error, SplitPlanContent> {
+  private generate(diff: ModelDiff, files: readonly string[], failure: Maybe<VerifyFailure> = Nothing()): Future<Error, SplitPlanContent> {
     return loading(
       "Generating split plan...",
       "Split plan generated!",
-      generateSplitPlan(this.providerConfig, diff, files, this.config.commit_convention, this.config.custom_template)
+      generateSplitPlan(this.providerConfig, diff, files, this.config.commit_convention, this.config.custom_template, this.guide, failure)
     );
   }
 
-  private interact(diff: string, files: readonly string[], plan: SplitPlan, meta: LlmRequestMetadata): Future<Error, void> {
-    return this.promptAction(plan, files.length).chain((action) => {
+  /** `checked` is how the current plan fared in `verify_command`; while it fails, Apply is not offered. */
+  private interact(
+    diff: ModelDiff,
+    files: readonly string[],
+    history: PlanHistory,
+    meta: LlmRequestMetadata,
+    checked: Maybe<VerifyOutcome> = Nothing()
+  ): Future<Error, void> {
+    const draft = history.present;
+    const regrouped = (next: PlanDraft): Future<Error, void> => this.interact(diff, files, record(history, next), meta, keptIfSame(draft, next, checked));
+    return this.promptAction(history, files.length, checked).chain((action) => {
       switch (action) {
         case "apply_push":
-          return this.apply(plan, meta, true);
+          return this.apply(draft, meta, true);
         case "apply":
-          return this.apply(plan, meta, false);
+          return this.apply(draft, meta, false);
+        case "verify":
+          return this.verify(draft.plan).chain((outcome) => this.interact(diff, files, history, meta, outcome));
+        case "fix":
+          return this.generate(diff, files, failureOf(draft.plan, this.config.verify_command, checked)).chain((c) =>
+            this.interact(diff, files, record(history, draftOf(c.plan)), c.metadata)
+          );
         case "edit":
-          return this.editMessage(plan).chain((next) => this.interact(diff, files, next, meta));
+          return this.editMessage(draft).chain((next) => this.interact(diff, files, record(history, next), meta, checked));
+        case "edit_in_editor":
+          return this.editInEditor(draft).chain((next) => this.interact(diff, files, record(history, next), meta, checked));
         case "move":
-          return this.moveFile(plan).chain((next) => this.interact(diff, files, next, meta));
+          return this.moveItem(draft).chain(regrouped);
         case "reorder":
-          return this.reorder(plan).chain((next) => this.interact(diff, files, next, meta));
+          return this.reorder(draft).chain(regrouped);
+        case "merge":
+          return this.merge(diff, draft).chain(regrouped);
+        case "split_off":
+          return this.splitOff(diff, draft).chain(regrouped);
+        case "delete":
+          return this.deleteCommit(draft).chain(regrouped);
+        case "undo":
+          return this.interact(diff, files, undo(history), meta);
+        case "redo":
+          return this.interact(diff, files, redo(history), meta);
         case "regenerate":
-          return this.generate(diff, files).chain((c) => this.interact(diff, files, c.plan, c.metadata));
+          return this.generate(diff, files).chain((c) => this.interact(diff, files, record(history, draftOf(c.plan)), c.metadata));
         case "cancel":
           return Future.resolve(undefined);
         default:
@@ -107,21 +213,14 @@ class Split {
     });
   }
 
-  private promptAction(plan: SplitPlan, stagedCount: number): Future<Error, SplitAction> {
+  private promptAction(history: PlanHistory, stagedCount: number, checked: Maybe<VerifyOutcome>): Future<Error, SplitAction> {
+    const command = this.config.verify_command;
     return Future.attemptP(async () => {
-      p.note(formatPlanNote(plan, stagedCount), "Split Plan");
+      p.note(formatPlanNote(history.present, stagedCount, verifyStatus(checked, command)), "Split Plan");
 
-      const action = await p.select({
+      const action = await p.select<SplitAction>({
         message: "What would you like to do?",
-        options: [
-          { value: "apply_push", label: "Apply & Push" },
-          { value: "apply", label: "Apply" },
-          { value: "edit", label: "Edit message" },
-          { value: "move", label: "Move file" },
-          { value: "reorder", label: "Reorder" },
-          { value: "regenerate", label: "Regenerate" },
-          { value: "cancel", label: "Cancel" }
-        ]
+        options: actionOptions(history, command, isFailed(checked))
       });
 
       if (p.isCancel(action) || action === "cancel") {
@@ -133,90 +232,275 @@ class Split {
     });
   }
 
-  private editMessage(plan: SplitPlan): Future<Error, SplitPlan> {
+  private editMessage(draft: PlanDraft): Future<Error, PlanDraft> {
     return Future.attemptP(async () => {
       const picked = await p.select({
         message: "Which commit?",
-        options: commitOptions(plan)
+        options: commitOptions(draft.plan)
       });
       if (p.isCancel(picked)) {
-        return plan;
+        return draft;
       }
-      const current = plan.commits[picked];
+      const current = draft.plan.commits[picked];
       if (current === undefined) {
-        return plan;
+        return draft;
       }
       const next = await p.text({
         message: "New message",
         initialValue: current.message
       });
       if (p.isCancel(next)) {
-        return plan;
+        return draft;
       }
       const message = next.trim();
-      return message.length === 0 ? plan : withEditedMessage(plan, picked, message);
+      return message.length === 0 ? draft : withEditedMessage(draft, picked, message);
     });
   }
 
-  private moveFile(plan: SplitPlan): Future<Error, SplitPlan> {
+  private editInEditor(draft: PlanDraft): Future<Error, PlanDraft> {
     return Future.attemptP(async () => {
-      const file = await p.select({
-        message: "Move which file?",
-        options: plan.commits.flatMap((commit) => commit.files.map((path) => ({ value: path, label: path })))
+      const picked = await p.select({
+        message: "Which commit?",
+        options: commitOptions(draft.plan)
       });
-      if (p.isCancel(file)) {
-        return plan;
+      return p.isCancel(picked) ? Nothing<number>() : Just(picked);
+    }).chain((picked) =>
+      picked
+        .chain((index) => fromOptional(draft.plan.commits[index]).map((commit) => [index, commit.message] as const))
+        .unwrap(
+          () => Future.resolve(draft),
+          ([index, message]) => Commit.editInEditor(message).map((edited) => edited.maybe(draft, (text) => withEditedMessage(draft, index, text)))
+        )
+    );
+  }
+
+  private moveItem(draft: PlanDraft): Future<Error, PlanDraft> {
+    const { plan } = draft;
+    const items = plan.commits.flatMap(itemsOf);
+    return Future.attemptP(async () => {
+      const picked = await p.select({
+        message: plan.commits.some((commit) => commit.hunks.length > 0) ? "Move which file or hunk?" : "Move which file?",
+        options: items.map((item, index) => ({ value: index, label: describeItem(item) }))
+      });
+      const item = p.isCancel(picked) ? undefined : items[picked];
+      if (item === undefined) {
+        return draft;
       }
       const dest = await p.select({
         message: "Move to which commit?",
         options: commitOptions(plan)
       });
       if (p.isCancel(dest)) {
-        return plan;
+        return draft;
       }
-      return withMovedFile(plan, file, dest);
+      return withMovedItem(draft, item, dest);
     });
   }
 
-  private reorder(plan: SplitPlan): Future<Error, SplitPlan> {
+  private reorder(draft: PlanDraft): Future<Error, PlanDraft> {
     return Future.attemptP(async () => {
       const from = await p.select({
         message: "Which commit?",
-        options: commitOptions(plan)
+        options: commitOptions(draft.plan)
       });
       if (p.isCancel(from)) {
-        return plan;
+        return draft;
       }
       const position = await p.select({
         message: "New position",
-        options: plan.commits.map((_, index) => ({ value: index + 1, label: String(index + 1) }))
+        options: draft.plan.commits.map((_, index) => ({ value: index + 1, label: String(index + 1) }))
       });
       if (p.isCancel(position)) {
-        return plan;
+        return draft;
       }
-      return withReorderedCommit(plan, from, position - 1);
+      return withReorderedCommit(draft, from, position - 1);
     });
   }
 
-  private apply(plan: SplitPlan, meta: LlmRequestMetadata, shouldPush: boolean): Future<Error, void> {
-    return Future.traverse(
-      (group) =>
-        repo.performCommit(group.message, group.files).map((stats) => {
-          process.stdout.write(stats);
-        }),
-      [...plan.commits]
-    ).chain(() =>
-      shouldPush ?
-        this.pushAfterCommit(Just(meta)).map(() => {
-          p.outro(color.green("Done!"));
-        })
-      : repo.findCommitMetadata().map((commit) => {
-          renderCommitNote({ commit, request: Just(meta) });
-          p.outro(color.green("Committed successfully!"));
+  private merge(diff: ModelDiff, draft: PlanDraft): Future<Error, PlanDraft> {
+    const { plan } = draft;
+    return Future.attemptP(async () => {
+      const first = await p.select({
+        message: "Merge which commit?",
+        options: commitOptions(plan)
+      });
+      if (p.isCancel(first)) {
+        return Nothing<readonly [number, number]>();
+      }
+      const second = await p.select({
+        message: "With which commit?",
+        options: commitOptions(plan).filter((option) => option.value !== first)
+      });
+      return p.isCancel(second) ? Nothing<readonly [number, number]>() : Just([first, second] as const);
+    }).chain((picked) =>
+      picked.unwrap(
+        () => Future.resolve(draft),
+        ([first, second]) =>
+          this.writeMessage(diff, itemsAt(plan, [first, second]), messageAt(plan, first)).map((message) =>
+            withMergedCommits(draft, first, second, message)
+          )
+      )
+    );
+  }
+
+  private splitOff(diff: ModelDiff, draft: PlanDraft): Future<Error, PlanDraft> {
+    const { plan } = draft;
+    return Future.attemptP(async () => {
+      const index = await p.select({
+        message: "Split off from which commit?",
+        options: commitOptions(plan).filter((option) => itemsAt(plan, [option.value]).length > 1)
+      });
+      if (p.isCancel(index)) {
+        return Nothing<readonly [number, PlanItem[]]>();
+      }
+      const items = itemsAt(plan, [index]);
+      const picked = await p.multiselect({
+        message: "Which files and hunks go into the new commit?",
+        options: items.map((item, i) => ({ value: i, label: describeItem(item) }))
+      });
+      if (p.isCancel(picked)) {
+        return Nothing<readonly [number, PlanItem[]]>();
+      }
+      if (picked.length === items.length) {
+        p.log.warn(color.yellow("Leave at least one file or hunk in the commit; use Edit message to reword all of it."));
+        return Nothing<readonly [number, PlanItem[]]>();
+      }
+      return Just([index, items.filter((_, i) => picked.includes(i))] as const);
+    }).chain((picked) =>
+      picked.unwrap(
+        () => Future.resolve(draft),
+        ([index, items]) => this.writeMessage(diff, items, messageAt(plan, index)).map((message) => withSplitOff(draft, index, items, message))
+      )
+    );
+  }
+
+  private deleteCommit(draft: PlanDraft): Future<Error, PlanDraft> {
+    return Future.attemptP(async () => {
+      const picked = await p.select({
+        message: "Delete which commit? Its changes stay in the work tree, unstaged.",
+        options: commitOptions(draft.plan)
+      });
+      return p.isCancel(picked) ? draft : withoutCommit(draft, picked);
+    });
+  }
+
+  /** For a commit the plan did not have; the co-authors of the commit it came from stay credited. */
+  private writeMessage(diff: ModelDiff, items: readonly PlanItem[], from: string): Future<Error, string> {
+    return loading(
+      "Writing the commit message...",
+      "Message written!",
+      fitDiff(this.providerConfig, diffOf(diff.raw, items), diffOf(diff.full, items)).chain((fitted) =>
+        generateCommitMessage(this.providerConfig, fitted, this.config.commit_convention, this.config.custom_template, this.guide)
+      )
+    ).map((generated) => keepCoAuthors(from, generated.text.trim()));
+  }
+
+  /** Resolves to Nothing without a `verify_command`, which keeps the action out of the menu anyway, or when the user declines to run it. */
+  private verify(plan: SplitPlan): Future<Error, Maybe<VerifyOutcome>> {
+    return this.config.verify_command.unwrap(
+      () => Future.resolve(Nothing<VerifyOutcome>()),
+      (command) =>
+        this.approve(command).chain((approved) => {
+          if (approved) return this.runVerify(plan, command);
+          p.log.warn(color.yellow("Verification skipped; the plan is left unverified."));
+          return Future.resolve(Nothing<VerifyOutcome>());
         })
     );
   }
 
+  /**
+   * A `verify_command` from the repo's own config came with the clone and is arbitrary shell, so it runs only
+   * once the user has seen it and said yes; the answer is kept until the command changes.
+   */
+  private approve(command: string): Future<Error, boolean> {
+    return findRepoConfig().chain((layer) =>
+      layer.chain(({ config }) => config.verify_command).maybe(false, (fromRepo) => fromRepo === command) ?
+        isVerifyCommandTrusted(command).chain((trusted) =>
+          trusted ?
+            Future.resolve<Error, boolean>(true)
+          : Future.attemptP(async () => {
+              p.note(command, `verify_command from ${REPO_CONFIG_FILE}`);
+              const ok = await p.confirm({
+                message: "This repository asks to run this shell command on every planned commit. Run it?",
+                initialValue: false
+              });
+              return !p.isCancel(ok) && ok;
+            }).chain((ok) => (ok ? trustVerifyCommand(command).map(() => true) : Future.resolve<Error, boolean>(false)))
+        )
+      : Future.resolve<Error, boolean>(true)
+    );
+  }
+
+  private runVerify(plan: SplitPlan, command: string): Future<Error, Maybe<VerifyOutcome>> {
+    const total = plan.commits.length;
+    return this.hunkPatches(plan)
+      .chain((patches) =>
+        bracketStatus(`Verifying commit 1/${total}...`, "Verification finished.", (status) =>
+          cancelledOnInterrupt((signal) =>
+            repo.verifyCommits(
+              command,
+              plan.commits.map((commit, i) => ({ files: commit.files, patches: patches[i] ?? [] })),
+              (step) => status.message(`Verifying commit ${step + 1}/${total} with ${command}... (Ctrl+C to cancel)`),
+              signal
+            )
+          )
+        )
+      )
+      .map((outcome): Maybe<VerifyOutcome> => {
+        if (outcome.type === "cancelled") {
+          p.log.warn(color.yellow("Verification cancelled; the plan is left unverified."));
+          return Nothing();
+        }
+        if (outcome.type === "passed") p.log.success(color.green(`Every commit passes ${command}.`));
+        else {
+          p.note(outputTail(outcome.output, 20), `Commit ${outcome.step + 1} fails ${command}`);
+          p.log.warn(color.yellow("Apply stays off until the plan changes: regroup it by hand or ask for a plan that passes."));
+        }
+        return Just(outcome);
+      });
+  }
+
+  /** Reads the staged diff of every split file once, before the first commit moves HEAD. */
+  private hunkPatches(plan: SplitPlan): Future<Error, readonly (readonly HunkPatch[])[]> {
+    const paths = [...new Set(plan.commits.flatMap((commit) => commit.hunks.map((hunk) => hunk.path)))];
+    return Future.traverse(
+      (path) => repo.getStagedFileDiff(path).map((diff) => parseFilePatch(diff).maybe<[string, FilePatch][]>([], (patch) => [[path, patch]])),
+      paths
+    ).chain((found) =>
+      commitPatches(plan.commits, new Map(found.flat())).either(
+        (err) => Future.reject(err),
+        (patches) => Future.resolve(patches)
+      )
+    );
+  }
+
+  /** What deleted commits held is unstaged only once every commit is made, since their hunks were staged alongside the rest. */
+  private apply(draft: PlanDraft, meta: LlmRequestMetadata, shouldPush: boolean): Future<Error, void> {
+    const { plan } = draft;
+    return this.hunkPatches(plan)
+      .chain((patches) =>
+        Future.traverse(
+          ([group, groupPatches]) =>
+            repo.performCommit(group.message, group.files, groupPatches).map((stats) => {
+              process.stdout.write(stats);
+            }),
+          plan.commits.map((group, i) => [group, patches[i] ?? []] as const)
+        )
+      )
+      .chain(() => repo.unstagePaths(unstagedPaths(draft)))
+      .chain(dropDraft)
+      .chain(() =>
+        shouldPush ?
+          this.pushAfterCommit(Just(meta)).map(() => {
+            p.outro(color.green("Done!"));
+          })
+        : repo.findCommitMetadata().map((commit) => {
+            renderCommitNote({ commit, request: Just(meta) });
+            p.outro(color.green("Committed successfully!"));
+          })
+      );
+  }
+
   private push(request: Maybe<LlmRequestMetadata>, branch?: string, publish = false, forceWithLease = false): Future<Error, void> {
     const startMsg =
       forceWithLease ? "Force pushing with lease..."
@@ -0,0 +1,199 @@
+export {
+  detectBreakingChanges,
+  unsettledBreakingChanges,
+  describeBreakingChange,
+  describeBreakingChanges,
+  isMarkedBreaking,
+  markBreaking,
+  unmarkBreaking,
+  settleBreaking,
+  type BreakingChange,
+  type BreakingVerdict
+};
+
+import { parseDiffSections, type DiffSection } from "@/domain/llm/budget";
+import { splitTrailers } from "@/domain/commit/co-authors";
+import { absurd } from "@/libs/types";
+
+/** Something a TypeScript/JavaScript consumer of the package could have imported or called before this diff, and cannot now. */
+type BreakingChange =
+  | { readonly type: "removed_export"; readonly path: string; readonly name: string }
+  | { readonly type: "changed_signature"; readonly path: string; readonly name: string }
+  | { readonly type: "deleted_file"; readonly path: string }
+  | { readonly type: "moved_file"; readonly path: string; readonly to: string };
+
+/** `detect` trusts the static pass; the other two are the author's call from the action menu, which wins over it. */
+type BreakingVerdict = { readonly type: "detect" } | { readonly type: "breaking"; readonly description: string } | { readonly type: "not_breaking" };
+
+const DELETED_RE = /^deleted file mode /m;
+const RENAME_FROM_RE = /^rename from (.+)$/m;
+
+const DECLARATION_RE =
+  /^export\s+(?:declare\s+)?(default\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+const BARE_DEFAULT_RE = /^export\s+default\b/m;
+const LIST_RE = /^export\s+(?:type\s+)?\{([^}]*)\}/gm;
+const FUNCTION_RE = /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([\w$]+)\s*(<[^>]*>)?\s*\(([^)]*)\)\s*(?::\s*([^{;]+))?/gm;
+const ARROW_RE = /^(?:export\s+)?const\s+([\w$]+)\s*=\s*(?:async\s+)?(<[^>]*>)?\s*\(([^)]*)\)\s*(?::\s*([^=]+?))?\s*=>/gm;
+const OPTIONAL_PARAM_RE = /^[\w$]+\?:|=/;
+
+const TYPE_PREFIX_RE = /^(\w+(?:\([^()\s]+\))?)!?(: )/;
+const MARKED_SUBJECT_RE = /^\w+(\([^()\s]+\))?!: /;
+const BREAKING_FOOTER_RE = /^BREAKING[ -]CHANGE: /;
+
+/** A renamed file counts by the path it was published under. */
+const isPublic = (section: DiffSection, publicApi: ReadonlySet<string>): boolean => publicApi.has(RENAME_FROM_RE.exec(section.text)?.[1] ?? section.path);
+
+const squash = (text: string): string => text.replace(/\s+/g, " ").trim();
+
+/** The lines a section shows of the file before and after; a blank line between hunks keeps declarations from joining across them. */
+const sidesOf = (text: string): { before: string; after: string } => {
+  const lines = text.split("\n");
+  const start = lines.findIndex((line) => line.startsWith("@@"));
+  const before: string[] = [];
+  const after: string[] = [];
+  for (const line of start === -1 ? [] : lines.slice(start)) {
+    const content = line.slice(1);
+    if (line.startsWith("@@")) {
+      before.push("");
+      after.push("");
+    } else if (line.startsWith("-")) before.push(content);
+    else if (line.startsWith("+")) after.push(content);
+    else if (line.startsWith(" ")) {
+      before.push(content);
+      after.push(content);
+    }
+  }
+  return { before: before.join("\n"), after: after.join("\n") };
+};
+
+const listedName = (entry: string): string =>
+  squash(entry)
+    .replace(/^type /, "")
+    .split(" as ")
+    .at(-1) ?? "";
+
+/** Only what the diff shows: an `export { ... }` list outside every hunk is invisible, so its names count as neither kept nor removed. */
+const exportedNames = (source: string): ReadonlySet<string> =>
+  new Set(
+    [
+      ...[...source.matchAll(DECLARATION_RE)].map((m) => (m[1] === undefined ? (m[2] ?? "") : "default")),
+      ...[...source.matchAll(LIST_RE)].flatMap((m) => (m[1] ?? "").split(",").map(listedName)),
+      ...(BARE_DEFAULT_RE.test(source) ? ["default"] : [])
+    ].filter((name) => name !== "")
+  );
+
+type Signature = { readonly params: readonly string[]; readonly shape: string };
+
+const signaturesOf = (source: string): ReadonlyMap<string, Signature> =>
+  new Map(
+    [...source.matchAll(FUNCTION_RE), ...source.matchAll(ARROW_RE)].map((m) => [
+      m[1] ?? "",
+      {
+        params: (m[3] ?? "")
+          .split(",")
+          .map(squash)
+          .filter((param) => param !== ""),
+        shape: squash(`${m[2] ?? ""}:${m[4] ?? ""}`)
+      }
+    ])
+  );
+
+/** Optional parameters added at the end keep every existing call compiling; any other change may not. */
+const isCompatible = (before: Signature, after: Signature): boolean =>
+  before.shape === after.shape &&
+  before.params.every((param, i) => after.params[i] === param) &&
+  after.params.slice(before.params.length).every((param) => OPTIONAL_PARAM_RE.test(param));
+
+const changedSignature = (name: string, before: ReadonlyMap<string, Signature>, after: ReadonlyMap<string, Signature>): boolean => {
+  const old = before.get(name);
+  const next = after.get(name);
+  return old !== undefined && next !== undefined && !isCompatible(old, next);
+};
+
+const changesIn = (section: DiffSection): readonly BreakingChange[] => {
+  if (DELETED_RE.test(section.text)) return [{ type: "deleted_file", path: section.path }];
+  const renamed = RENAME_FROM_RE.exec(section.text)?.[1];
+  if (renamed !== undefined) return [{ type: "moved_file", path: renamed, to: section.path }];
+  const { before, after } = sidesOf(section.text);
+  const exportsBefore = exportedNames(before);
+  const exportsAfter = exportedNames(after);
+  const signaturesBefore = signaturesOf(before);
+  const signaturesAfter = signaturesOf(after);
+  return [
+    ...[...exportsBefore].filter((name) => !exportsAfter.has(name)).map((name): BreakingChange => ({ type: "removed_export", path: section.path, name })),
+    ...[...exportsAfter]
+      .filter((name) => changedSignature(name, signaturesBefore, signaturesAfter))
+      .map((name): BreakingChange => ({ type: "changed_signature", path: section.path, name }))
+  ];
+};
+
+/**
+ * A static pass over the files of a diff that make up the public API, from `findPublicApi`; everything else is
+ * internal and cannot break a consumer. It reads declarations and export lists line by line, so it can miss
+ * changes a type checker would catch, but what it reports is in the diff.
+ */
+const detectBreakingChanges = (diff: string, publicApi: readonly string[]): readonly BreakingChange[] => {
+  const api = new Set(publicApi);
+  return parseDiffSections(diff)
+    .sections.filter((section) => isPublic(section, api))
+    .flatMap(changesIn);
+};
+
+/** What detection found, unless the author's verdict from the action menu has replaced it. */
+const unsettledBreakingChanges = (diff: string, publicApi: readonly string[], verdict: BreakingVerdict): readonly BreakingChange[] =>
+  verdict.type === "detect" ? detectBreakingChanges(diff, publicApi) : [];
+
+const describeBreakingChange = (change: BreakingChange): string => {
+  switch (change.type) {
+    case "removed_export":
+      return `\`${change.name}\` is no longer exported from ${change.path}`;
+    case "changed_signature":
+      return `\`${change.name}\` in ${change.path} has a new signature`;
+    case "deleted_file":
+      return `${change.path} was deleted`;
+    case "moved_file":
+      return `${change.path} moved to ${change.to}`;
+    default:
+      return absurd(change, "BreakingChange");
+  }
+};
+
+/** One sentence, fit for a `BREAKING CHANGE:` footer. */
+const describeBreakingChanges = (changes: readonly BreakingChange[]): string => `${changes.map(describeBreakingChange).join("; ")}.`;
+
+const isMarkedBreaking = (message: string): boolean => {
+  const { body, trailers } = splitTrailers(message);
+  return MARKED_SUBJECT_RE.test(body) || trailers.some((line) => BREAKING_FOOTER_RE.test(line));
+};
+
+/** Adds whichever of `!` and the `BREAKING CHANGE:` footer is missing; the footer goes first in the trailer block. */
+const markBreaking = (message: string, description: string): string => {
+  const { body, trailers } = splitTrailers(message);
+  const footer = trailers.some((line) => BREAKING_FOOTER_RE.test(line)) ? [] : [`BREAKING CHANGE: ${description}`];
+  return `${body.replace(TYPE_PREFIX_RE, "$1!$2")}\n\n${[...footer, ...trailers].join("\n")}`;
+};
+
+const unmarkBreaking = (message: string): string => {
+  const { body, trailers } = splitTrailers(message);
+  const kept = trailers.filter((line) => !BREAKING_FOOTER_RE.test(line));
+  const subject = body.replace(TYPE_PREFIX_RE, "$1$2");
+  return kept.length === 0 ? subject : `${subject}\n\n${kept.join("\n")}`;
+};
+
+/**
+ * For conventional messages: makes the marks match the author's verdict whatever the model wrote, since
+ * semantic-release reads them. `detect` keeps its message: one that leaves detected changes unmarked fails
+ * validation instead, so the repair passes and Fix rule violations add the marks with a fitting description.
+ */
+const settleBreaking = (message: string, verdict: BreakingVerdict): string => {
+  switch (verdict.type) {
+    case "detect":
+      return message;
+    case "breaking":
+      return markBreaking(message, verdict.description);
+    case "not_breaking":
+      return unmarkBreaking(message);
+    default:
+      return absurd(verdict, "BreakingVerdict");
+  }
+};
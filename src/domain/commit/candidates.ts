@@ -0,0 +1,41 @@
+export { DEFAULT_CANDIDATES, MIN_CANDIDATES, MAX_CANDIDATES, MAX_SHORTLIST, parseCandidateMessages, addToShortlist, subjectOf };
+
+import * as D from "@/libs/json/decoder";
+import { Failure, Success, type Result } from "@/libs/result";
+import { stripOptionalJsonFence } from "@/domain/branch/suggestions";
+
+const DEFAULT_CANDIDATES = 3;
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 5;
+
+/** Enough to go back a few rounds of alternatives without the picker scrolling off screen. */
+const MAX_SHORTLIST = 10;
+
+const candidatesPayloadDecoder = D.object({
+  messages: D.array(D.string)
+});
+
+/** Blank and repeated messages are dropped, so the result can be shorter than `count` but never empty. */
+const parseCandidateMessages = (raw: string, count: number): Result<Error, string[]> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripOptionalJsonFence(raw));
+  } catch {
+    return Failure(new Error("Candidates: invalid JSON"));
+  }
+  return D.decode(json, candidatesPayloadDecoder)
+    .mapFailure((msg) => new Error(`Candidates: ${msg}`))
+    .chain(({ messages }) => {
+      const distinct = [...new Set(messages.map((message) => message.trim()).filter((message) => message !== ""))].slice(0, count);
+      return distinct.length === 0 ? Failure(new Error("Candidates: no messages")) : Success(distinct);
+    });
+};
+
+/** Oldest first; a message that comes back again moves to the end instead of appearing twice. */
+const addToShortlist = <T extends { readonly text: string }>(shortlist: readonly T[], added: readonly T[]): readonly T[] => {
+  const addedTexts = new Set(added.map((entry) => entry.text.trim()));
+  const unique = added.filter((entry, i) => added.findIndex((other) => other.text.trim() === entry.text.trim()) === i);
+  return [...shortlist.filter((entry) => !addedTexts.has(entry.text.trim())), ...unique].slice(-MAX_SHORTLIST);
+};
+
+const subjectOf = (message: string): string => message.trim().split("\n")[0] ?? "";
@@ -0,0 +1,98 @@
+export {
+  MAX_RECENT_CO_AUTHORS,
+  coAuthorTrailer,
+  splitTrailers,
+  coAuthorsOf,
+  withCoAuthors,
+  keepCoAuthors,
+  searchContributors,
+  resolveCoAuthor,
+  rememberCoAuthors,
+  type Contributor
+};
+
+import { search } from "@/libs/fuzzy";
+import { Failure, Success, type Result } from "@/libs/result";
+import { fromOptional, mapMaybe } from "@/libs/maybe";
+
+/** Someone who can be credited with a `Co-authored-by` trailer; the email is what identifies them. */
+type Contributor = { readonly name: string; readonly email: string };
+
+const MAX_RECENT_CO_AUTHORS = 10;
+
+// `BREAKING CHANGE` is the one key with a space, as Conventional Commits defines it.
+const TRAILER_RE = /^([A-Za-z][A-Za-z0-9-]*|BREAKING CHANGE): \S/;
+const CO_AUTHOR_RE = /^co-authored-by:\s*(.+?)\s*<([^<>\s]+)>\s*$/i;
+// Lowercase; a paragraph of other `Key: value` lines reads as prose such as `Note: ...` rather than trailers.
+const KNOWN_TRAILER_KEYS: ReadonlySet<string> = new Set([
+  "co-authored-by",
+  "signed-off-by",
+  "reviewed-by",
+  "acked-by",
+  "tested-by",
+  "reported-by",
+  "suggested-by",
+  "helped-by",
+  "cc",
+  "refs",
+  "fixes",
+  "closes",
+  "resolves",
+  "change-id",
+  "breaking change",
+  "breaking-change"
+]);
+
+const sameEmail = (a: Contributor, b: Contributor): boolean => a.email.toLowerCase() === b.email.toLowerCase();
+
+const coAuthorTrailer = (contributor: Contributor): string => `Co-authored-by: ${contributor.name} <${contributor.email}>`;
+
+const isKnownTrailer = (line: string): boolean => KNOWN_TRAILER_KEYS.has((TRAILER_RE.exec(line)?.[1] ?? "").toLowerCase());
+
+/**
+ * The last paragraph counts as trailers only when every line of it is `Key: value` and at least one key is a
+ * known trailer, much as `git interpret-trailers` asks for one it recognizes.
+ */
+const splitTrailers = (message: string): { body: string; trailers: readonly string[] } => {
+  const trimmed = message.trim();
+  const at = trimmed.lastIndexOf("\n\n");
+  const last = trimmed.slice(at + 2).split("\n");
+  return at !== -1 && last.every((line) => TRAILER_RE.test(line)) && last.some(isKnownTrailer) ?
+      { body: trimmed.slice(0, at).trimEnd(), trailers: last }
+    : { body: trimmed, trailers: [] };
+};
+
+const coAuthorsOf = (message: string): readonly Contributor[] =>
+  mapMaybe([...splitTrailers(message).trailers], (line) =>
+    fromOptional(CO_AUTHOR_RE.exec(line) ?? undefined).map((m): Contributor => ({ name: m[1] ?? "", email: m[2] ?? "" }))
+  );
+
+/** Appends a trailer for each co-author not credited yet, keeping any other trailers in place. */
+const withCoAuthors = (message: string, coAuthors: readonly Contributor[]): string => {
+  const { body, trailers } = splitTrailers(message);
+  const added = coAuthors.filter(
+    (c, i) => !coAuthorsOf(message).some((known) => sameEmail(known, c)) && coAuthors.findIndex((o) => sameEmail(o, c)) === i
+  );
+  const block = [...trailers, ...added.map(coAuthorTrailer)];
+  return block.length === 0 ? body : `${body}\n\n${block.join("\n")}`;
+};
+
+/** Carries the co-authors of `from` over to a rewritten message that may have dropped them. */
+const keepCoAuthors = (from: string, to: string): string => withCoAuthors(to, coAuthorsOf(from));
+
+/** Recent pairs come first, then everyone else in `git shortlog` order; the query reorders by fuzzy score. */
+const searchContributors = (query: string, contributors: readonly Contributor[], recent: readonly Contributor[]): readonly Contributor[] => {
+  const ordered = [...recent, ...contributors.filter((c) => !recent.some((r) => sameEmail(r, c)))];
+  return search(query, ordered, [(c) => c.name, (c) => c.email]).map(({ item }) => item);
+};
+
+/** The best match for a `--co-author` query; on a tie, a recent pair wins. */
+const resolveCoAuthor = (query: string, contributors: readonly Contributor[], recent: readonly Contributor[]): Result<Error, Contributor> =>
+  fromOptional(searchContributors(query, contributors, recent)[0]).unwrap<Result<Error, Contributor>>(
+    () => Failure(new Error(`No contributor matches '${query}'. Co-authors come from git shortlog; check the name or email.`)),
+    (contributor) => Success(contributor)
+  );
+
+/** Most recent first; picking someone again moves them to the front. */
+const rememberCoAuthors = (recent: readonly Contributor[], used: readonly Contributor[]): readonly Contributor[] =>
+  [...used, ...recent.filter((r) => !used.some((u) => sameEmail(u, r)))].slice(0, MAX_RECENT_CO_AUTHORS);
@@ -0,0 +1,181 @@
+export { parseCommitlintConfig, checkCommitlint, renderCommitlintRules, type CommitlintRules, type CaseRule };
+
+import { Failure, Success, type Result } from "@/libs/result";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { splitTrailers } from "@/domain/commit/co-authors";
+
+type CaseRule = { readonly when: "always" | "never"; readonly cases: readonly string[] };
+
+/** The subset of commitlint rules the prompt and validator understand, taken from error-level (2) rules only. */
+type CommitlintRules = {
+  readonly types: Maybe<readonly string[]>;
+  readonly scopes: Maybe<readonly string[]>;
+  readonly typeCase: Maybe<CaseRule>;
+  readonly scopeCase: Maybe<CaseRule>;
+  readonly subjectCase: Maybe<CaseRule>;
+  readonly headerMaxLength: Maybe<number>;
+  readonly bodyMaxLineLength: Maybe<number>;
+};
+
+type RawRules = Readonly<Record<string, unknown>>;
+
+// `@commitlint/config-conventional`, which nearly every config extends. Other shared configs are not resolved.
+const CONFIG_CONVENTIONAL: RawRules = {
+  "type-enum": [2, "always", ["build", "chore", "ci", "docs", "feat", "fix", "perf", "refactor", "revert", "style", "test"]],
+  "type-case": [2, "always", "lower-case"],
+  "subject-case": [2, "never", ["sentence-case", "start-case", "pascal-case", "upper-case"]],
+  "header-max-length": [2, "always", 100],
+  "body-max-line-length": [2, "always", 100]
+};
+const CONVENTIONAL_PRESETS = ["@commitlint/config-conventional", "conventional"];
+
+const HEADER_RE = /^(\w+)(?:\(([^()]*)\))?!?: (.*)$/;
+const SCOPE_DELIMITER_RE = /[/\\,] ?/;
+
+const isRecord = (v: unknown): v is RawRules => typeof v === "object" && v !== null && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+/** `[level, when, value]` with level 2; warnings, disabled rules and function-valued rules are skipped. */
+const errorRule = (rules: RawRules, name: string): Maybe<{ when: string; value: unknown }> => {
+  const rule = rules[name];
+  if (!Array.isArray(rule) || rule[0] !== 2 || typeof rule[1] !== "string") return Nothing();
+  return Just({ when: rule[1], value: rule[2] });
+};
+
+const enumRule = (rules: RawRules, name: string): Maybe<readonly string[]> =>
+  errorRule(rules, name).chain(({ when, value }) => (when === "always" && isStringArray(value) && value.length > 0 ? Just(value) : Nothing()));
+
+const numberRule = (rules: RawRules, name: string): Maybe<number> =>
+  errorRule(rules, name).chain(({ when, value }) => (when === "always" && typeof value === "number" ? Just(value) : Nothing()));
+
+const caseRule = (rules: RawRules, name: string): Maybe<CaseRule> =>
+  errorRule(rules, name).chain(({ when, value }): Maybe<CaseRule> => {
+    const cases = typeof value === "string" ? [value] : value;
+    return (when === "always" || when === "never") && isStringArray(cases) && cases.length > 0 ? Just({ when, cases }) : Nothing();
+  });
+
+const presetRules = (extendsField: unknown): RawRules => {
+  const presets =
+    typeof extendsField === "string" ? [extendsField]
+    : isStringArray(extendsField) ? extendsField
+    : [];
+  return presets.some((preset) => CONVENTIONAL_PRESETS.includes(preset)) ? CONFIG_CONVENTIONAL : {};
+};
+
+/** Takes the config object commitlint itself would load (after `export default` / `module.exports`). */
+const parseCommitlintConfig = (config: unknown): Result<Error, CommitlintRules> => {
+  if (!isRecord(config)) return Failure(new Error("commitlint config must be an object"));
+  const own = config["rules"] ?? {};
+  if (!isRecord(own)) return Failure(new Error("commitlint 'rules' must be an object"));
+  const rules: RawRules = { ...presetRules(config["extends"]), ...own };
+  return Success({
+    types: enumRule(rules, "type-enum"),
+    scopes: enumRule(rules, "scope-enum"),
+    typeCase: caseRule(rules, "type-case"),
+    scopeCase: caseRule(rules, "scope-case"),
+    subjectCase: caseRule(rules, "subject-case"),
+    headerMaxLength: numberRule(rules, "header-max-length"),
+    bodyMaxLineLength: numberRule(rules, "body-max-line-length")
+  });
+};
+
+const words = (input: string): string[] => input.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/).filter((w) => w !== "");
+const upperFirst = (input: string): string => input.charAt(0).toUpperCase() + input.slice(1);
+
+const toCase = (input: string, target: string): Maybe<string> => {
+  switch (target) {
+    case "lower-case":
+    case "lowercase":
+      return Just(input.toLowerCase());
+    case "upper-case":
+    case "uppercase":
+      return Just(input.toUpperCase());
+    case "sentence-case":
+    case "sentencecase":
+      return Just(upperFirst(input));
+    case "start-case":
+      return Just(words(input).map(upperFirst).join(" "));
+    case "camel-case":
+      return Just(
+        words(input.toLowerCase())
+          .map((w, i) => (i === 0 ? w : upperFirst(w)))
+          .join("")
+      );
+    case "pascal-case":
+      return Just(words(input.toLowerCase()).map(upperFirst).join(""));
+    case "kebab-case":
+      return Just(words(input).join("-").toLowerCase());
+    case "snake-case":
+      return Just(words(input).join("_").toLowerCase());
+    default:
+      return Nothing();
+  }
+};
+
+/** Like commitlint, a value "is" a case when converting it leaves it unchanged; unknown case names never match. */
+const isCase = (input: string, target: string): boolean => toCase(input, target).maybe(false, (converted) => converted === input);
+
+const checkCase = (label: string, input: string, rule: CaseRule): string[] => {
+  // Subjects like "2fa support" have no case to speak of.
+  if (!/^[A-Za-z]/.test(input)) return [];
+  const matches = rule.cases.some((target) => isCase(input, target));
+  if (rule.when === "always" && !matches) return [`The ${label} "${input}" must be ${rule.cases.join(" or ")}.`];
+  if (rule.when === "never" && matches) return [`The ${label} "${input}" must not be ${rule.cases.join(" or ")}.`];
+  return [];
+};
+
+const checkEnum = (label: string, values: readonly string[], allowed: readonly string[]): string[] => {
+  const rejected = values.filter((v) => !allowed.includes(v));
+  return rejected.length === 0 ? [] : [`The ${label} "${rejected.join(", ")}" is not allowed; use one of: ${allowed.join(", ")}.`];
+};
+
+const checkHeaderParts = (rules: CommitlintRules, type: string, scope: Maybe<string>, subject: string): string[] => [
+  ...rules.types.maybe<string[]>([], (allowed) => checkEnum("type", [type], allowed)),
+  ...rules.typeCase.maybe<string[]>([], (rule) => checkCase("type", type, rule)),
+  ...scope.maybe<string[]>([], (value) => [
+    ...rules.scopes.maybe<string[]>([], (allowed) => checkEnum("scope", value.split(SCOPE_DELIMITER_RE), allowed)),
+    ...rules.scopeCase.maybe<string[]>([], (rule) => checkCase("scope", value, rule))
+  ]),
+  ...rules.subjectCase.maybe<string[]>([], (rule) => checkCase("subject", subject, rule))
+];
+
+/**
+ * Violations of the commitlint rules. A header without a type prefix is left to the convention check, and
+ * trailers are footer lines, which `body-max-line-length` does not cover.
+ */
+const checkCommitlint = (message: string, rules: CommitlintRules): string[] => {
+  const [header = "", ...rest] = splitTrailers(message).body.split("\n");
+  const match = HEADER_RE.exec(header);
+  const parts =
+    match === null ? [] : checkHeaderParts(rules, match[1] ?? "", match[2] === undefined || match[2] === "" ? Nothing() : Just(match[2]), match[3] ?? "");
+  const headerLength = rules.headerMaxLength.maybe<string[]>([], (max) =>
+    header.length > max ? [`The first line is ${header.length} characters; commitlint allows at most ${max}.`] : []
+  );
+  const bodyLength = rules.bodyMaxLineLength.maybe<string[]>([], (max) =>
+    rest.some((line) => line.length > max) ? [`Wrap body lines at ${max} characters or fewer.`] : []
+  );
+  return [...parts, ...headerLength, ...bodyLength];
+};
+
+const describeCase = (label: string, rule: CaseRule): string =>
+  `- The ${label} must ${rule.when === "never" ? "never be" : "be"} ${rule.cases.join(" or ")}.`;
+
+/** An extra `<commitlint>` block for the conventional prompt; empty when no rule applies. */
+const renderCommitlintRules = (rules: CommitlintRules): string => {
+  const lines = [
+    ...rules.types.maybe<string[]>([], (types) => [`- Allowed types: ${types.join(", ")}. No other type is accepted.`]),
+    ...rules.scopes.maybe<string[]>([], (scopes) => [`- Allowed scopes: ${scopes.join(", ")}. Omit the scope when none of them fits.`]),
+    ...rules.typeCase.maybe<string[]>([], (rule) => [describeCase("type", rule)]),
+    ...rules.scopeCase.maybe<string[]>([], (rule) => [describeCase("scope", rule)]),
+    ...rules.subjectCase.maybe<string[]>([], (rule) => [describeCase("description after the prefix", rule)]),
+    ...rules.headerMaxLength.maybe<string[]>([], (max) => [`- The first line must be at most ${max} characters.`]),
+    ...rules.bodyMaxLineLength.maybe<string[]>([], (max) => [`- Body lines must be at most ${max} characters.`])
+  ];
+  if (lines.length === 0) return "";
+  return `
+      <commitlint>
+        This repository runs commitlint in CI. Follow these rules exactly; they win over any conflicting rule above.
+        ${lines.join("\n        ")}
+      </commitlint>
+`;
+};
@@ -0,0 +1,45 @@
+export { Draft, describeDraftAge };
+
+import * as s from "@/libs/json/schema";
+
+const TokenUsage = s.object({
+  input: s.maybe(s.number),
+  output: s.maybe(s.number),
+  total: s.maybe(s.number)
+});
+
+const RequestMetadata = s.object({
+  durationMs: s.number,
+  model: s.object({
+    provider: s.stringEnum(["gemini", "openai", "anthropic", "xai"]),
+    model: s.string,
+    effort: s.string
+  }),
+  tokens: s.maybe(TokenUsage)
+});
+
+/**
+ * The last message shown for a staged diff, kept until it is committed. `diffHash` ties it to the diff it
+ * describes, and `request` is the request that wrote it, so a reused draft still reports that request.
+ */
+const Draft = s.object({
+  diffHash: s.string,
+  savedAt: s.number,
+  message: s.string,
+  request: RequestMetadata
+});
+type Draft = s.Infer<typeof Draft>;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const plural = (n: number, unit: string): string => `${n} ${unit}${n === 1 ? "" : "s"} ago`;
+
+const describeDraftAge = (savedAt: number, now: number): string => {
+  const age = Math.max(0, now - savedAt);
+  if (age < MINUTE) return "just now";
+  if (age < HOUR) return plural(Math.floor(age / MINUTE), "minute");
+  if (age < DAY) return plural(Math.floor(age / HOUR), "hour");
+  return plural(Math.floor(age / DAY), "day");
+};
@@ -0,0 +1,17 @@
+export { EDITOR_HELP, editorBuffer, cleanEditedMessage };
+
+const EDITOR_HELP = ["Edit the commit message above. Lines starting with '#' are ignored.", "Save an empty message to keep the current one."] as const;
+
+/** The message followed by `#` help lines, the way `git commit` fills COMMIT_EDITMSG. */
+const editorBuffer = (message: string): string => `${message.trim()}\n\n${EDITOR_HELP.map((line) => `# ${line}`).join("\n")}\n`;
+
+/** Git's `--cleanup=strip`: drop comment lines and trailing whitespace, collapse blank runs, trim blank lines at both ends. */
+const cleanEditedMessage = (text: string): string =>
+  text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .map((line) => line.trimEnd())
+    .filter((line, i, lines) => line !== "" || (i > 0 && lines[i - 1] !== ""))
+    .join("\n")
+    .trim();
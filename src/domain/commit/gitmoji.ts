@@ -0,0 +1,100 @@
+export { GITMOJI_STYLES, GITMOJIS, gitmojiOf, renderGitmoji, startsWithGitmoji, type Gitmoji, type GitmojiStyle };
+
+import { fromOptional, type Maybe } from "@/libs/maybe";
+
+/** `unicode` writes the emoji itself; `shortcode` writes `:sparkles:`, which GitHub and GitLab render as the emoji. */
+const GITMOJI_STYLES = ["unicode", "shortcode"] as const;
+type GitmojiStyle = (typeof GITMOJI_STYLES)[number];
+
+type Gitmoji = { readonly emoji: string; readonly code: string; readonly meaning: string };
+
+/** The catalogue from gitmoji.dev, in its order. */
+const GITMOJIS: readonly Gitmoji[] = [
+  { emoji: "🎨", code: ":art:", meaning: "Improve structure / format of the code." },
+  { emoji: "⚡️", code: ":zap:", meaning: "Improve performance." },
+  { emoji: "🔥", code: ":fire:", meaning: "Remove code or files." },
+  { emoji: "🐛", code: ":bug:", meaning: "Fix a bug." },
+  { emoji: "🚑️", code: ":ambulance:", meaning: "Critical hotfix." },
+  { emoji: "✨", code: ":sparkles:", meaning: "Introduce new features." },
+  { emoji: "📝", code: ":memo:", meaning: "Add or update documentation." },
+  { emoji: "🚀", code: ":rocket:", meaning: "Deploy stuff." },
+  { emoji: "💄", code: ":lipstick:", meaning: "Add or update the UI and style files." },
+  { emoji: "🎉", code: ":tada:", meaning: "Begin a project." },
+  { emoji: "✅", code: ":white_check_mark:", meaning: "Add, update, or pass tests." },
+  { emoji: "🔒️", code: ":lock:", meaning: "Fix security or privacy issues." },
+  { emoji: "🔐", code: ":closed_lock_with_key:", meaning: "Add or update secrets." },
+  { emoji: "🔖", code: ":bookmark:", meaning: "Release / Version tags." },
+  { emoji: "🚨", code: ":rotating_light:", meaning: "Fix compiler / linter warnings." },
+  { emoji: "🚧", code: ":construction:", meaning: "Work in progress." },
+  { emoji: "💚", code: ":green_heart:", meaning: "Fix CI Build." },
+  { emoji: "⬇️", code: ":arrow_down:", meaning: "Downgrade dependencies." },
+  { emoji: "⬆️", code: ":arrow_up:", meaning: "Upgrade dependencies." },
+  { emoji: "📌", code: ":pushpin:", meaning: "Pin dependencies to specific versions." },
+  { emoji: "👷", code: ":construction_worker:", meaning: "Add or update CI build system." },
+  { emoji: "📈", code: ":chart_with_upwards_trend:", meaning: "Add or update analytics or track code." },
+  { emoji: "♻️", code: ":recycle:", meaning: "Refactor code." },
+  { emoji: "➕", code: ":heavy_plus_sign:", meaning: "Add a dependency." },
+  { emoji: "➖", code: ":heavy_minus_sign:", meaning: "Remove a dependency." },
+  { emoji: "🔧", code: ":wrench:", meaning: "Add or update configuration files." },
+  { emoji: "🔨", code: ":hammer:", meaning: "Add or update development scripts." },
+  { emoji: "🌐", code: ":globe_with_meridians:", meaning: "Internationalization and localization." },
+  { emoji: "✏️", code: ":pencil2:", meaning: "Fix typos." },
+  { emoji: "💩", code: ":poop:", meaning: "Write bad code that needs to be improved." },
+  { emoji: "⏪️", code: ":rewind:", meaning: "Revert changes." },
+  { emoji: "🔀", code: ":twisted_rightwards_arrows:", meaning: "Merge branches." },
+  { emoji: "📦️", code: ":package:", meaning: "Add or update compiled files or packages." },
+  { emoji: "👽️", code: ":alien:", meaning: "Update code due to external API changes." },
+  { emoji: "🚚", code: ":truck:", meaning: "Move or rename resources (e.g.: files, paths, routes)." },
+  { emoji: "📄", code: ":page_facing_up:", meaning: "Add or update license." },
+  { emoji: "💥", code: ":boom:", meaning: "Introduce breaking changes." },
+  { emoji: "🍱", code: ":bento:", meaning: "Add or update assets." },
+  { emoji: "♿️", code: ":wheelchair:", meaning: "Improve accessibility." },
+  { emoji: "💡", code: ":bulb:", meaning: "Add or update comments in source code." },
+  { emoji: "🍻", code: ":beers:", meaning: "Write code drunkenly." },
+  { emoji: "💬", code: ":speech_balloon:", meaning: "Add or update text and literals." },
+  { emoji: "🗃️", code: ":card_file_box:", meaning: "Perform database related changes." },
+  { emoji: "🔊", code: ":loud_sound:", meaning: "Add or update logs." },
+  { emoji: "🔇", code: ":mute:", meaning: "Remove logs." },
+  { emoji: "👥", code: ":busts_in_silhouette:", meaning: "Add or update contributor(s)." },
+  { emoji: "🚸", code: ":children_crossing:", meaning: "Improve user experience / usability." },
+  { emoji: "🏗️", code: ":building_construction:", meaning: "Make architectural changes." },
+  { emoji: "📱", code: ":iphone:", meaning: "Work on responsive design." },
+  { emoji: "🤡", code: ":clown_face:", meaning: "Mock things." },
+  { emoji: "🥚", code: ":egg:", meaning: "Add or update an easter egg." },
+  { emoji: "🙈", code: ":see_no_evil:", meaning: "Add or update a .gitignore file." },
+  { emoji: "📸", code: ":camera_flash:", meaning: "Add or update snapshots." },
+  { emoji: "⚗️", code: ":alembic:", meaning: "Perform experiments." },
+  { emoji: "🔍️", code: ":mag:", meaning: "Improve SEO." },
+  { emoji: "🏷️", code: ":label:", meaning: "Add or update types." },
+  { emoji: "🌱", code: ":seedling:", meaning: "Add or update seed files." },
+  { emoji: "🚩", code: ":triangular_flag_on_post:", meaning: "Add, update, or remove feature flags." },
+  { emoji: "🥅", code: ":goal_net:", meaning: "Catch errors." },
+  { emoji: "💫", code: ":dizzy:", meaning: "Add or update animations and transitions." },
+  { emoji: "🗑️", code: ":wastebasket:", meaning: "Deprecate code that needs to be cleaned up." },
+  { emoji: "🛂", code: ":passport_control:", meaning: "Work on code related to authorization, roles and permissions." },
+  { emoji: "🩹", code: ":adhesive_bandage:", meaning: "Simple fix for a non-critical issue." },
+  { emoji: "🧐", code: ":monocle_face:", meaning: "Data exploration/inspection." },
+  { emoji: "⚰️", code: ":coffin:", meaning: "Remove dead code." },
+  { emoji: "🧪", code: ":test_tube:", meaning: "Add a failing test." },
+  { emoji: "👔", code: ":necktie:", meaning: "Add or update business logic." },
+  { emoji: "🩺", code: ":stethoscope:", meaning: "Add or update healthcheck." },
+  { emoji: "🧱", code: ":bricks:", meaning: "Infrastructure related changes." },
+  { emoji: "🧑‍💻", code: ":technologist:", meaning: "Improve developer experience." },
+  { emoji: "💸", code: ":money_with_wings:", meaning: "Add sponsorships or money related infrastructure." },
+  { emoji: "🧵", code: ":thread:", meaning: "Add or update code related to multithreading or concurrency." },
+  { emoji: "🦺", code: ":safety_vest:", meaning: "Add or update code related to validation." },
+  { emoji: "✈️", code: ":airplane:", meaning: "Improve offline support." }
+];
+
+const renderGitmoji = (gitmoji: Gitmoji, style: GitmojiStyle): string => (style === "unicode" ? gitmoji.emoji : gitmoji.code);
+
+const gitmojiOf = (code: string): Maybe<Gitmoji> => fromOptional(GITMOJIS.find((gitmoji) => gitmoji.code === code));
+
+// Emoji are written with and without the variation selector (U+FE0F); both forms count as the same gitmoji.
+const withoutVariation = (text: string): string => text.replace(/\uFE0F/g, "");
+
+/** Either style is accepted, so a message written before switching styles still validates. */
+const startsWithGitmoji = (subject: string): boolean => {
+  const bare = withoutVariation(subject);
+  return GITMOJIS.some((gitmoji) => [gitmoji.code, withoutVariation(gitmoji.emoji)].some((prefix) => bare.startsWith(`${prefix} `)));
+};
@@ -0,0 +1,51 @@
+export { HistoryExample, HISTORY_SAMPLE_SIZE, selectHistoryExamples, renderHistoryExamples };
+
+import * as s from "@/libs/json/schema";
+
+/** One past commit shown to the model as a style reference. */
+const HistoryExample = s.object({
+  subject: s.string,
+  body: s.string,
+  files: s.array(s.string)
+});
+type HistoryExample = s.Infer<typeof HistoryExample>;
+
+const HISTORY_SAMPLE_SIZE = 6;
+const MAX_EXAMPLE_FILES = 8;
+const MAX_BODY_LINES = 12;
+
+// Tool-generated subjects say nothing about the team's own voice.
+const NOISE_SUBJECT_RE = /^(Merge |Revert "|fixup! |squash! |amend! |Initial commit$)/i;
+
+const trimExample = (example: HistoryExample): HistoryExample => ({
+  subject: example.subject.trim(),
+  body: example.body.trim().split("\n").slice(0, MAX_BODY_LINES).join("\n"),
+  files:
+    example.files.length > MAX_EXAMPLE_FILES ?
+      [...example.files.slice(0, MAX_EXAMPLE_FILES), `(+${example.files.length - MAX_EXAMPLE_FILES} more)`]
+    : example.files
+});
+
+/** Newest first, skipping merges, reverts and autosquash commits. */
+const selectHistoryExamples = (commits: readonly HistoryExample[]): HistoryExample[] =>
+  commits
+    .filter((commit) => commit.subject.trim() !== "" && !NOISE_SUBJECT_RE.test(commit.subject))
+    .slice(0, HISTORY_SAMPLE_SIZE)
+    .map(trimExample);
+
+const renderHistoryExamples = (examples: readonly HistoryExample[]): string => {
+  if (examples.length === 0) return "";
+  const commits = examples
+    .map((example) => {
+      const message = example.body === "" ? example.subject : `${example.subject}\n\n${example.body}`;
+      return `        <commit>\n          <files>${example.files.join(", ")}</files>\n          <message>\n${message}\n          </message>\n        </commit>`;
+    })
+    .join("\n");
+  return `
+      <repository_history>
+        Recent commits from this repository. Match their tone, wording, scope names, capitalization and bullet style.
+        The rules and output format below still take precedence, and your message must describe only the diff you are given.
+${commits}
+      </repository_history>
+`;
+};
@@ -1,15 +1,60 @@
-export { getPrompt, getRefinePrompt, getBranchNamePrompt, getSplitPrompt };
+export { getPrompt, getRefinePrompt, getBranchNamePrompt, getSplitPrompt, getCandidatesPrompt, getFileSummaryPrompt };
 
 import { CommitConvention } from "@/domain/config/config";
 import { Just, Nothing, type Maybe } from "@/libs/maybe";
 import { absurd } from "@/libs/types";
+import { renderHistoryExamples } from "@/domain/commit/history";
+import { renderCommitlintRules } from "@/domain/commit/commitlint";
+import { renderPackageGroups, renderScopeHints } from "@/domain/commit/workspace";
+import { parseDiffSections } from "@/domain/llm/budget";
+import { fillDiff } from "@/domain/commit/template";
+import { EMPTY_STYLE_GUIDE, type StyleGuide } from "@/domain/commit/style-guide";
+import { type RefineTurn } from "@/domain/commit/refinement";
+import { GITMOJIS, gitmojiOf, renderGitmoji, type GitmojiStyle } from "@/domain/commit/gitmoji";
+import { describeBreakingChange, type BreakingChange, type BreakingVerdict } from "@/domain/commit/breaking";
+import { describeSplitHunk, type SplitHunk } from "@/domain/split/hunks";
+import { serializeSplitPlan } from "@/domain/split/plan";
+import { outputTail, type VerifyFailure } from "@/domain/split/verify";
+
+/** `breaking` is what `detectBreakingChanges` found in the full diff, which `diff` may only summarize. */
+function getPrompt(
+  diff: string,
+  convention: CommitConvention,
+  customTemplate: Maybe<string> = Nothing(),
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  breaking: readonly BreakingChange[] = []
+): string {
+  // Prepended rather than woven into each template, so getSplitPrompt's cut at <output_instructions> keeps it.
+  // The language comes after the history, whose own language it overrides.
+  return renderHistoryExamples(guide.history) + renderLanguage(guide.language) + conventionPrompt(diff, convention, customTemplate, guide, breaking);
+}
 
-function getPrompt(diff: string, convention: CommitConvention, customTemplate: Maybe<string> = Nothing()): string {
+/** Prefixes, scopes and trailer keys stay English: the convention check and tools such as commitlint read them. */
+const renderLanguage = (language: Maybe<string>): string =>
+  language.maybe(
+    "",
+    (name) => `
+      <language>
+        Write the subject and body in ${name}.
+        Keep these exactly as the rules give them: the type prefix or gitmoji and the scope (e.g. "feat(api): "), code identifiers, file paths, and trailer keys such as "Co-authored-by".
+      </language>
+`
+  );
+
+function conventionPrompt(
+  diff: string,
+  convention: CommitConvention,
+  customTemplate: Maybe<string>,
+  guide: StyleGuide,
+  breaking: readonly BreakingChange[]
+): string {
   switch (convention) {
     case "conventional":
-      return promptConventional(diff);
+      return promptConventional(diff, guide, breaking);
     case "imperative":
       return promptImperative(diff);
+    case "gitmoji":
+      return promptGitmoji(diff, guide.gitmojiStyle);
     case "custom":
       return promptCustom(diff, customTemplate);
     default:
@@ -17,7 +62,41 @@ function getPrompt(diff: string, convention: CommitConvention, customTemplate: M
   }
 }
 
-function promptConventional(gitDiff: string): string {
+const BREAKING_MARKS = `Mark the type with "!" (e.g. "feat(api)!: ..."). End the message with a blank line and a one-line footer
+        "BREAKING CHANGE: <what breaks and what callers must change>", even for a SMALL change.`;
+
+const renderBreakingChanges = (verdict: BreakingVerdict, changes: readonly BreakingChange[]): string => {
+  switch (verdict.type) {
+    case "detect":
+      return changes.length === 0 ?
+          ""
+        : `
+      <breaking_changes>
+        A static check of the full diff found changes that break the public API. These are facts, not guesses:
+        ${changes.map((change) => `- ${describeBreakingChange(change)}`).join("\n        ")}
+        ${BREAKING_MARKS}
+      </breaking_changes>
+`;
+    case "breaking":
+      return `
+      <breaking_changes>
+        The author marked this change as breaking: ${verdict.description}
+        ${BREAKING_MARKS}
+      </breaking_changes>
+`;
+    case "not_breaking":
+      return `
+      <breaking_changes>
+        The author confirmed this change is not breaking. Do not add "!" after the type or a BREAKING CHANGE footer.
+      </breaking_changes>
+`;
+    default:
+      return absurd(verdict, "BreakingVerdict");
+  }
+};
+
+function promptConventional(gitDiff: string, guide: StyleGuide, breaking: readonly BreakingChange[]): string {
+  const files = parseDiffSections(gitDiff).sections.map((section) => section.path);
   return `
       <system>
         You are an expert software engineer and version control specialist.
@@ -53,7 +132,7 @@ function promptConventional(gitDiff: string): string {
           - Keep language concise and concrete. Prefer what the change DOES over HOW it is implemented.
           - End each bullet with a period for consistency with the project's existing history.
       </rules>
-
+${renderScopeHints(guide.packages, files)}${guide.commitlint.maybe("", renderCommitlintRules)}${renderBreakingChanges(guide.breaking, breaking)}
       <examples>
         <example>
           <git_diff>
@@ -240,12 +319,74 @@ function promptImperative(gitDiff: string): string {
 `;
 }
 
+/** The whole catalogue goes in: picking the closest gitmoji is the model's job, and it needs the meanings to do it. */
+function promptGitmoji(gitDiff: string, style: GitmojiStyle): string {
+  const example = (code: string): string => gitmojiOf(code).maybe(code, (gitmoji) => renderGitmoji(gitmoji, style));
+  return `
+      <system>
+        You are an expert software engineer and version control specialist.
+        Your job is to read git diffs and output high-quality commit messages
+        in the gitmoji convention.
+      </system>
+
+      <gitmoji_catalogue>
+${GITMOJIS.map((gitmoji) => `        ${renderGitmoji(gitmoji, style)} ${style === "unicode" ? gitmoji.code : ""} ${gitmoji.meaning}`.replace(/  +/g, " ")).join("\n")}
+      </gitmoji_catalogue>
+
+      <rules>
+        1. Analyze only the provided diff. Do not guess about unrelated changes.
+        2. Classify the change size:
+          - SMALL: changes in 1 file, and total changes are minor.
+          - MEDIUM: multiple files OR a substantial change in 1 file.
+          - LARGE: many files and/or broad impact.
+        3. Title:
+          - Start with exactly ONE gitmoji from the catalogue, the one whose meaning fits the main change best, then a space.
+          - ${style === "unicode" ? "Write the gitmoji as the emoji character itself, never as a :shortcode:." : "Write the gitmoji as its :shortcode:, never as the emoji character."}
+          - After the gitmoji, a present-tense imperative summary starting with a capital letter (e.g. "${example(":sparkles:")} Add session cache").
+          - Do NOT add conventional commit prefixes like \`feat:\` or \`fix:\`.
+        4. Output format:
+          - For SMALL changes: ONLY the title line.
+          - For MEDIUM or LARGE changes: title, blank line, then bullet points each starting with "- ".
+        5. Body: inline code with single backticks is fine; no code fences. Prefer what the change DOES over HOW.
+      </rules>
+
+      <examples>
+        <example>
+          <commit_message>
+            ${example(":bug:")} Handle empty responses in the retry loop
+          </commit_message>
+        </example>
+        <example>
+          <commit_message>
+            ${example(":sparkles:")} Add prompt helper for git diff analysis
+
+            - Generate commit messages from staged diffs.
+            - Cover the helper with unit tests.
+          </commit_message>
+        </example>
+      </examples>
+
+      <input>
+        <git_diff>
+          ${gitDiff}
+        </git_diff>
+      </input>
+
+      <output_instructions>
+        1. Decide internally if the change is SMALL, MEDIUM, or LARGE; do NOT output the classification.
+        2. Output ONLY the final commit message text, with no explanation.
+        3. The first characters are the gitmoji${style === "unicode" ? "" : " shortcode"}, followed by one space.
+        4. Do NOT wrap the commit message in quotes or code fences.
+      </output_instructions>
+`;
+}
+
 function promptCustom(gitDiff: string, template: Maybe<string>): string {
   switch (true) {
     case template instanceof Nothing:
       return promptImperative(gitDiff);
     case template instanceof Just: {
-      const processedTemplate = template.value.replace("{diff}", gitDiff);
+      const processedTemplate = fillDiff(template.value, gitDiff);
       return `
       <system>
         You are an expert software engineer and version control specialist.
@@ -264,8 +405,9 @@ function promptCustom(gitDiff: string, template: Maybe<string>): string {
       <output_instructions>
         1. Follow the user's template style and format.
         2. Analyze the content and create a commit message that matches the template pattern.
-        3. Output ONLY the final commit message text, with no explanation.
-        4. Do NOT wrap the commit message in quotes or code fences.
+        3. Values such as the branch or ticket are already filled in. Where one was unavailable, drop the brackets or separators left empty around it.
+        4. Output ONLY the final commit message text, with no explanation.
+        5. Do NOT wrap the commit message in quotes or code fences.
       </output_instructions>
 `;
     }
@@ -275,10 +417,49 @@ function promptCustom(gitDiff: string, template: Maybe<string>): string {
   }
 }
 
-function getSplitPrompt(diff: string, files: readonly string[], convention: CommitConvention, customTemplate: Maybe<string> = Nothing()): string {
-  const basePrompt = getPrompt(diff, convention, customTemplate);
-  const outputInstructionsStart = basePrompt.lastIndexOf("<output_instructions>");
-  const conventionPrompt = outputInstructionsStart >= 0 ? basePrompt.slice(0, outputInstructionsStart) : basePrompt;
+/** Only files with two or more hunks are offered by hunk; `hunks` lists them from `splittableHunks`. */
+const renderStagedHunks = (hunks: readonly SplitHunk[]): string =>
+  hunks.length === 0 ?
+    ""
+  : `
+      <staged_hunks>
+        ${hunks.map(describeSplitHunk).join("\n        ")}
+      </staged_hunks>
+      <hunk_rules>
+        - A path from <staged_hunks> whose hunks serve different concerns may be split: leave it out of "files" and list each of its hunks under "hunks" of the commit it belongs to, e.g. {"file":"src/a.ts","header":"@@ -10,4 +10,6 @@"}.
+        - Copy the header exactly as listed. Every hunk of a split path in exactly one commit.
+        - Keep a path whole when its hunks are one concern; most files should stay whole.
+      </hunk_rules>
+`;
+
+const renderVerifyFailure = (failure: Maybe<VerifyFailure>): string =>
+  failure.maybe(
+    "",
+    ({ plan, command, step, output }) => `
+      <failed_plan>
+        Your previous plan was replayed commit by commit, running \`${command}\` after each. Commit ${step + 1} failed, so it does not work without something a later commit adds.
+        <previous_plan>${serializeSplitPlan(plan)}</previous_plan>
+        <output>
+${outputTail(output)}
+        </output>
+        Make a new plan in which every commit passes on its own: move what commit ${step + 1} needs into it or an earlier commit, or merge the commits that depend on each other.
+      </failed_plan>
+`
+  );
+
+/** `failure` is a plan of the model's own that failed `verify_command`, sent back for another try. */
+function getSplitPrompt(
+  diff: string,
+  files: readonly string[],
+  convention: CommitConvention,
+  customTemplate: Maybe<string> = Nothing(),
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  hunks: readonly SplitHunk[] = [],
+  failure: Maybe<VerifyFailure> = Nothing()
+): string {
+  const conventionPrompt = withoutOutputInstructions(getPrompt(diff, convention, customTemplate, guide));
+  const setupMessage = exampleSubject(convention, guide, { type: "feat(setup)", gitmoji: ":sparkles:" }, "Add split option to setup");
+  const planMessage = exampleSubject(convention, guide, { type: "feat(split)", gitmoji: ":sparkles:" }, "Parse should_split in split plans");
   return `
       <task>
         Partition staged files into reviewable commits. Do not write one message for the whole diff.
@@ -289,10 +470,10 @@ function getSplitPrompt(diff: string, files: readonly string[], convention: Comm
       <staged_files>
         ${files.join("\n")}
       </staged_files>
-
+${renderPackageGroups(guide.packages, files)}${renderStagedHunks(hunks)}${renderVerifyFailure(failure)}
       <output_shape>
         Return ONE JSON object. First character "{", last "}".
-        {"should_split":<true|false>,"commits":[{"message":"<commit message>","files":["<exact path>",...]}]}
+        {"should_split":<true|false>,"commits":[{"message":"<commit message>","files":["<exact path>",...]${hunks.length === 0 ? "" : `,"hunks":[{"file":"<path from staged_hunks>","header":"<exact header>"},...]`}}]}
       </output_shape>
       <partition_rules>
         - Use only paths from <staged_files>. Exact strings.
@@ -307,13 +488,13 @@ function getSplitPrompt(diff: string, files: readonly string[], convention: Comm
         <example>
           <staged_files>src/cli/setup.ts
 test/cli/setup.test.ts</staged_files>
-          <output>{"should_split":false,"commits":[{"message":"Add split option to setup","files":["src/cli/setup.ts","test/cli/setup.test.ts"]}]}</output>
+          <output>{"should_split":false,"commits":[{"message":"${setupMessage}","files":["src/cli/setup.ts","test/cli/setup.test.ts"]}]}</output>
         </example>
         <example>
           <staged_files>src/cli/setup.ts
 src/domain/split/plan.ts
 test/domain/split/plan.test.ts</staged_files>
-          <output>{"should_split":true,"commits":[{"message":"Add split option to setup","files":["src/cli/setup.ts"]},{"message":"Parse should_split in split plans","files":["src/domain/split/plan.ts","test/domain/split/plan.test.ts"]}]}</output>
+          <output>{"should_split":true,"commits":[{"message":"${setupMessage}","files":["src/cli/setup.ts"]},{"message":"${planMessage}","files":["src/domain/split/plan.ts","test/domain/split/plan.test.ts"]}]}</output>
         </example>
       </examples>
       <output_instructions>
@@ -322,7 +503,54 @@ test/domain/split/plan.test.ts</staged_files>
   `;
 }
 
-function getBranchNamePrompt(context: string): string {
+/** An example subject in the active convention, so split plans do not pick up the examples' style instead. */
+function exampleSubject(convention: CommitConvention, guide: StyleGuide, prefix: { type: string; gitmoji: string }, summary: string): string {
+  switch (convention) {
+    case "conventional":
+      return `${prefix.type}: ${summary.charAt(0).toLowerCase()}${summary.slice(1)}`;
+    case "gitmoji":
+      return `${gitmojiOf(prefix.gitmoji).maybe(prefix.gitmoji, (gitmoji) => renderGitmoji(gitmoji, guide.gitmojiStyle))} ${summary}`;
+    case "imperative":
+    case "custom":
+      return summary;
+    default:
+      return absurd(convention, "CommitConvention");
+  }
+}
+
+/** The convention prompt up to its own output instructions, for callers that ask for JSON instead of a bare message. */
+function withoutOutputInstructions(basePrompt: string): string {
+  const outputInstructionsStart = basePrompt.lastIndexOf("<output_instructions>");
+  return outputInstructionsStart >= 0 ? basePrompt.slice(0, outputInstructionsStart) : basePrompt;
+}
+
+function getCandidatesPrompt(
+  diff: string,
+  count: number,
+  convention: CommitConvention,
+  customTemplate: Maybe<string> = Nothing(),
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  breaking: readonly BreakingChange[] = []
+): string {
+  return `
+      ${withoutOutputInstructions(getPrompt(diff, convention, customTemplate, guide, breaking))}
+      <candidates>
+        Write ${count} different commit messages for this diff. Each one must follow the convention above on its own.
+        Make them differ in substance: which change leads the subject, the scope, or the level of detail. Synonyms of one message do not count.
+      </candidates>
+      <output_shape>
+        Return ONE JSON object. First character "{", last "}".
+        {"messages":["<commit message>",...]}
+        Use \\n inside a message for its line breaks.
+      </output_shape>
+      <output_instructions>
+        Emit ONLY the JSON object. No prose, no markdown fences, no commentary.
+      </output_instructions>
+  `;
+}
+
+/** Only the rationale follows `language`; slugs stay English ASCII whatever it is. */
+function getBranchNamePrompt(context: string, language: Maybe<string> = Nothing()): string {
   return `
       <work_snapshot>
         ${context}
@@ -371,7 +599,7 @@ function getBranchNamePrompt(context: string): string {
       <rationale_rules>
         - One short clause, no more than 80 characters, lowercase start, no trailing period.
         - Explains WHY this framing — what facet of the change it emphasizes.
-        - Do not repeat the slug verbatim. Do not just restate file names.
+        - Do not repeat the slug verbatim. Do not just restate file names.${language.maybe("", (name) => `\n        - Write the rationale in ${name}. The slug itself stays in English.`)}
       </rationale_rules>
 
       <diversity_axes>
@@ -416,17 +644,80 @@ function getBranchNamePrompt(context: string): string {
   `;
 }
 
-function getRefinePrompt(params: { diff: string; currentMessage: string; adjustment: string }): {
+const renderEarlierAdjustments = (turns: readonly RefineTurn[]): string =>
+  turns.length === 0 ?
+    ""
+  : `<earlier_adjustments>\n${turns
+      .map((turn) => `<turn>\n<adjustment>\n${turn.adjustment}\n</adjustment>\n<result>\n${turn.message}\n</result>\n</turn>`)
+      .join("\n")}\n</earlier_adjustments>\n`;
+
+/** The adjustment changes the content, never the convention the repo asked for. */
+const refineConventionRule = (convention: CommitConvention, style: GitmojiStyle): string => {
+  switch (convention) {
+    case "conventional":
+      return (
+        "Keep the Conventional Commits subject: a type (feat, fix, refactor, chore, docs, style, test, perf, ci, build), an optional scope, then ': ' and an imperative summary. " +
+        "Keep a '!' after the type and a 'BREAKING CHANGE:' footer if the current message has them, unless the adjustment asks to drop them. "
+      );
+    case "imperative":
+      return "Keep the imperative subject: it starts with a capitalized present-tense verb such as 'Add' or 'Fix', with no type prefix and no gitmoji. ";
+    case "gitmoji":
+      return (
+        "Keep exactly one gitmoji at the start of the subject, followed by a space and a capitalized imperative summary. " +
+        (style === "unicode" ?
+          "Write the gitmoji as the emoji character itself, never as a :shortcode:. "
+        : "Write the gitmoji as its :shortcode:, never as the emoji character. ")
+      );
+    case "custom":
+      return "Keep the format of the current message, which follows the repository's own template. ";
+    default:
+      return absurd(convention, "CommitConvention");
+  }
+};
+
+/** Earlier turns go in before the current message, so instructions from several rounds back still hold. */
+function getRefinePrompt(params: {
+  diff: string;
+  currentMessage: string;
+  adjustment: string;
+  convention: CommitConvention;
+  gitmojiStyle?: GitmojiStyle;
+  earlier?: readonly RefineTurn[];
+  language?: Maybe<string>;
+}): {
   prompt: string;
   systemInstruction: string;
 } {
   return {
     prompt:
-      `<diff>\n${params.diff}\n</diff>\n` + `<current>\n${params.currentMessage}\n</current>\n` + `<adjustment>\n${params.adjustment}\n</adjustment>`,
+      `<diff>\n${params.diff}\n</diff>\n` +
+      renderLanguage(params.language ?? Nothing()) +
+      renderEarlierAdjustments(params.earlier ?? []) +
+      `<current>\n${params.currentMessage}\n</current>\n` +
+      `<adjustment>\n${params.adjustment}\n</adjustment>`,
     systemInstruction:
       "You revise commit messages. Use the diff and the user's adjustment to produce a polished commit message. " +
+      "Every earlier adjustment still applies unless the latest one contradicts it. " +
       "Preserve required formatting rules: SMALL=single line; MEDIUM/LARGE=title, blank line, bullets prefixed with '- '. " +
-      "Preserve the original convention: if the current message starts with a Conventional Commits prefix (feat, fix, refactor, chore, docs, style, test, perf, ci, build), keep it; otherwise keep the imperative style. " +
+      refineConventionRule(params.convention, params.gitmojiStyle ?? "unicode") +
       "Output ONLY the revised commit message. No preamble, no explanation, no code fences, no surrounding quotes."
   };
 }
+
+/** The map step for oversized diffs: one file in, a few factual lines out, ready to stand in for that file's diff. */
+function getFileSummaryPrompt(
+  path: string,
+  fileDiff: string
+): {
+  prompt: string;
+  systemInstruction: string;
+} {
+  return {
+    prompt: `<path>\n${path}\n</path>\n<diff>\n${fileDiff}\n</diff>`,
+    systemInstruction:
+      "You summarize one file's git diff so another model can write a commit message without seeing it. " +
+      "Write at most 5 short lines, each starting with '- ', describing what changed: added, removed, or renamed symbols, behavior changes, and whether the file looks generated or vendored. " +
+      "Mention line counts only when the change is mostly mechanical. " +
+      "Output ONLY the lines. No preamble, no code fences."
+  };
+}
@@ -0,0 +1,53 @@
+export { entryPointsOf, resolveEntryPoint, resolveImport, reExportsOf };
+
+import { fromOptional, type Maybe } from "@/libs/maybe";
+import { posix } from "node:path";
+
+const ENTRY_FIELDS: ReadonlySet<string> = new Set(["main", "module", "types", "typings", "exports"]);
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"] as const;
+const BUILD_DIR_RE = /(^|\/)(dist|lib|build|out)\//;
+const OUTPUT_EXT_RE = /(\.d)?\.[cm]?[jt]sx?$/;
+const RE_EXPORT_RE = /^export\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*["']([^"']+)["']/gm;
+
+/** Every path an `exports` map can lead to, whatever the conditions; subpath patterns with `*` are skipped. */
+const exportTargets = (value: unknown): string[] => {
+  if (typeof value === "string") return value.includes("*") ? [] : [value];
+  if (Array.isArray(value)) return value.flatMap(exportTargets);
+  if (typeof value === "object" && value !== null) return Object.values(value).flatMap(exportTargets);
+  return [];
+};
+
+/** The entry points a `package.json` declares, relative to the work tree root; `dir` is the package's directory. */
+const entryPointsOf = (manifest: unknown, dir: string): string[] => {
+  if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) return [];
+  const targets = Object.entries(manifest).flatMap(([field, value]) => (ENTRY_FIELDS.has(field) ? exportTargets(value) : []));
+  return [...new Set(targets.map((target) => posix.join(dir, target)))];
+};
+
+const withExtensions = (stem: string): string[] => [
+  stem,
+  ...SOURCE_EXTENSIONS.map((ext) => `${stem}${ext}`),
+  ...SOURCE_EXTENSIONS.map((ext) => `${stem}/index${ext}`)
+];
+
+const firstIndexed = (candidates: readonly string[], indexed: ReadonlySet<string>): Maybe<string> =>
+  fromOptional(candidates.find((candidate) => indexed.has(candidate)));
+
+/**
+ * The tracked source file behind an entry point. Manifests usually name build output such as
+ * `dist/index.d.ts`, so the same path under `src/` and with any source extension counts as well.
+ */
+const resolveEntryPoint = (entry: string, indexed: ReadonlySet<string>): Maybe<string> => {
+  const stem = entry.replace(OUTPUT_EXT_RE, "");
+  return firstIndexed([entry, ...withExtensions(stem), ...withExtensions(stem.replace(BUILD_DIR_RE, "$1src/"))], indexed);
+};
+
+/** A relative import from `from`, resolved the way TypeScript does: `./x.js` may be `./x.ts`, and a directory means its index. */
+const resolveImport = (from: string, specifier: string, indexed: ReadonlySet<string>): Maybe<string> => {
+  const target = posix.join(posix.dirname(from), specifier);
+  return firstIndexed([target, ...withExtensions(target.replace(OUTPUT_EXT_RE, "")), ...withExtensions(target)], indexed);
+};
+
+/** The relative modules a file re-exports from (`export * from`, `export { x } from`); package imports are not followed. */
+const reExportsOf = (source: string): string[] =>
+  [...source.matchAll(RE_EXPORT_RE)].map((match) => match[1] ?? "").filter((specifier) => specifier.startsWith("./") || specifier.startsWith("../"));
@@ -0,0 +1,62 @@
+export {
+  startRefinement,
+  currentVersion,
+  addTurn,
+  reviseCurrent,
+  undoTo,
+  earlierVersions,
+  conversationOf,
+  type Refinement,
+  type RefineTurn,
+  type Version
+};
+
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+
+/** One round of the adjust loop as the model sees it: the instruction and the message it produced. */
+type RefineTurn = { readonly adjustment: string; readonly message: string };
+
+/**
+ * The adjust conversation about one message: where it started and every adjustment since, oldest first.
+ * Each turn keeps its own version, so stepping back needs no request.
+ */
+type Refinement<T> = {
+  readonly base: T;
+  readonly turns: readonly { readonly adjustment: string; readonly result: T }[];
+};
+
+const startRefinement = <T>(base: T): Refinement<T> => ({ base, turns: [] });
+
+const currentVersion = <T>(refinement: Refinement<T>): T => refinement.turns.at(-1)?.result ?? refinement.base;
+
+const addTurn = <T>(refinement: Refinement<T>, adjustment: string, result: T): Refinement<T> => ({
+  ...refinement,
+  turns: [...refinement.turns, { adjustment, result }]
+});
+
+/** Replaces the current version in place, for changes made outside the model such as a hand edit; earlier instructions still apply. */
+const reviseCurrent = <T>(refinement: Refinement<T>, next: T): Refinement<T> => {
+  const last = refinement.turns.at(-1);
+  return last === undefined ? { ...refinement, base: next } : { ...refinement, turns: [...refinement.turns.slice(0, -1), { ...last, result: next }] };
+};
+
+/** Version 0 is the message the conversation started from; version n is the result of the n-th adjustment. */
+const undoTo = <T>(refinement: Refinement<T>, version: number): Refinement<T> => ({
+  ...refinement,
+  turns: refinement.turns.slice(0, Math.max(0, version))
+});
+
+/** A version Undo can go back to; `adjustment` is Nothing for the message the conversation started from. */
+type Version<T> = { readonly version: number; readonly adjustment: Maybe<string>; readonly result: T };
+
+/** Every version before the current one, newest first. */
+const earlierVersions = <T>(refinement: Refinement<T>): readonly Version<T>[] =>
+  [
+    { version: 0, adjustment: Nothing<string>(), result: refinement.base },
+    ...refinement.turns.map(({ adjustment, result }, i) => ({ version: i + 1, adjustment: Just(adjustment), result }))
+  ]
+    .slice(0, -1)
+    .reverse();
+
+const conversationOf = <T extends { readonly text: string }>(refinement: Refinement<T>): readonly RefineTurn[] =>
+  refinement.turns.map(({ adjustment, result }) => ({ adjustment, message: result.text }));
@@ -0,0 +1,45 @@
+export { parseRewordRange, checkRewordable, renderRewordTodo, shortHash, type RangeCommit, type RewordRange };
+
+import { Failure, Success, type Result } from "@/libs/result";
+import { fromOptional } from "@/libs/maybe";
+import { shellQuote } from "@/libs/shell";
+
+type RangeCommit = { readonly hash: string; readonly parents: readonly string[]; readonly message: string };
+
+/** `from..to`, where `to` defaults to HEAD like in git. */
+type RewordRange = { readonly from: string; readonly to: string };
+
+const shortHash = (hash: string): string => hash.slice(0, 7);
+
+/** Accepts `A..B`, `A..` and a bare `A` (meaning `A..HEAD`); anything that looks like an option is refused. */
+const parseRewordRange = (arg: string): Result<Error, RewordRange> => {
+  if (arg.includes("...")) return Failure(new Error(`Symmetric ranges are not supported: ${arg}. Use A..B`));
+  const [from = "", to = ""] = arg.split("..");
+  if (from === "" || from.startsWith("-") || to.startsWith("-")) return Failure(new Error(`Invalid range: ${arg}. Use A..B, e.g. HEAD~3..HEAD`));
+  return Success({ from, to: to === "" ? "HEAD" : to });
+};
+
+/** `onBase` holds the hashes already reachable from the base branch; rewriting those would fork shared history. */
+const checkRewordable = (commits: readonly RangeCommit[], onBase: ReadonlySet<string>, range: string): Result<Error, readonly RangeCommit[]> => {
+  if (commits.length === 0) return Failure(new Error(`No commits in ${range}`));
+  const merge = commits.find((commit) => commit.parents.length > 1);
+  if (merge !== undefined) return Failure(new Error(`${shortHash(merge.hash)} is a merge commit; reword only rewrites linear history`));
+  const shared = commits.find((commit) => onBase.has(commit.hash));
+  if (shared !== undefined) return Failure(new Error(`${shortHash(shared.hash)} is already on the base branch; pick a range of your own commits`));
+  return Success(commits);
+};
+
+/**
+ * The rebase todo: every commit is picked as is, oldest first, and those with a new message are amended right after.
+ * `--no-verify` because only messages change: pre-commit hooks would recheck content they already passed, once per
+ * commit, and the new messages were checked against the convention and commitlint rules before the rebase.
+ */
+const renderRewordTodo = (commits: readonly RangeCommit[], messageFiles: ReadonlyMap<string, string>): string =>
+  commits
+    .flatMap((commit) => [
+      `pick ${commit.hash}`,
+      ...fromOptional(messageFiles.get(commit.hash)).maybe<string[]>([], (path) => [
+        `exec git commit --amend --allow-empty --no-verify --quiet -F ${shellQuote(path)}`
+      ])
+    ])
+    .join("\n") + "\n";
@@ -0,0 +1,33 @@
+export { EMPTY_STYLE_GUIDE, type StyleGuide };
+
+import { Nothing, type Maybe } from "@/libs/maybe";
+import { type HistoryExample } from "@/domain/commit/history";
+import { type CommitlintRules } from "@/domain/commit/commitlint";
+import { type WorkspacePackage } from "@/domain/commit/workspace";
+import { type GitmojiStyle } from "@/domain/commit/gitmoji";
+import { type BreakingVerdict } from "@/domain/commit/breaking";
+
+/** What the repository says about its own commit style, on top of the configured convention. */
+type StyleGuide = {
+  readonly history: readonly HistoryExample[];
+  readonly commitlint: Maybe<CommitlintRules>;
+  readonly packages: readonly WorkspacePackage[];
+  /** The configured `language`; Nothing leaves messages in English. */
+  readonly language: Maybe<string>;
+  /** How the gitmoji convention writes its emoji; other conventions ignore it. */
+  readonly gitmojiStyle: GitmojiStyle;
+  /** Whether conventional messages mark a breaking change; set per session from the action menu. */
+  readonly breaking: BreakingVerdict;
+  /** The files HEAD publishes, where breaking changes are looked for; empty when detection is off. */
+  readonly publicApi: readonly string[];
+};
+
+const EMPTY_STYLE_GUIDE: StyleGuide = {
+  history: [],
+  commitlint: Nothing(),
+  packages: [],
+  language: Nothing(),
+  gitmojiStyle: "unicode",
+  breaking: { type: "detect" },
+  publicApi: []
+};
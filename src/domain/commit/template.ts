@@ -0,0 +1,129 @@
+export {
+  TEMPLATE_PLACEHOLDERS,
+  DEFAULT_TICKET_PATTERN,
+  templatePlaceholders,
+  unknownPlaceholders,
+  templateProblem,
+  extractTicket,
+  fillTemplate,
+  fillDiff,
+  fillDiffValues,
+  fillPlanValues,
+  diffShortStat,
+  type TemplateContext
+};
+
+import { Failure, Success, type Result } from "@/libs/result";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+import { parseDiffSections } from "@/domain/llm/budget";
+
+const TEMPLATE_PLACEHOLDERS = ["diff", "branch", "ticket", "author", "files", "stats", "base_branch"] as const;
+type Placeholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/** JIRA-style keys such as `PROJ-123`, as they usually appear in branch names like `feat/PROJ-123-login`. */
+const DEFAULT_TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+
+// Lowercase identifiers only, so JSON or code snippets in a template are not mistaken for placeholders.
+const PLACEHOLDER_RE = /\{([a-z_]+)\}/g;
+
+/**
+ * The values that hold for the whole repository. `{files}` and `{stats}` depend on the diff a message
+ * describes, so they are filled at generation time, and `{diff}` once the (possibly summarized) diff is known.
+ */
+type TemplateContext = {
+  readonly branch: Maybe<string>;
+  readonly ticket: Maybe<string>;
+  readonly author: Maybe<string>;
+  readonly baseBranch: Maybe<string>;
+};
+
+const isPlaceholder = (name: string): name is Placeholder => (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+
+const templatePlaceholders = (template: string): string[] => [...new Set([...template.matchAll(PLACEHOLDER_RE)].map((m) => m[1] ?? ""))];
+
+const unknownPlaceholders = (template: string): string[] => templatePlaceholders(template).filter((name) => !isPlaceholder(name));
+
+/** Why `commit setup` should reject the template, if it should. */
+const templateProblem = (template: string): Maybe<string> => {
+  if (!template.includes("{diff}")) return Just("Template must include {diff}");
+  const unknown = unknownPlaceholders(template);
+  return unknown.length > 0 ? Just(`Unknown placeholder ${unknown.map((name) => `{${name}}`).join(", ")}`) : Nothing();
+};
+
+/** The first match in the branch name; the first capture group wins when the pattern has one. */
+const extractTicket = (branch: string, pattern: string): Result<Error, Maybe<string>> => {
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern);
+  } catch (e) {
+    return Failure(new Error(`Invalid ticket_pattern '${pattern}': ${e instanceof Error ? e.message : String(e)}`));
+  }
+  const match = re.exec(branch);
+  return Success(match === null ? Nothing() : Just(match[1] ?? match[0]));
+};
+
+const valueOf = (name: Placeholder, context: TemplateContext): Maybe<string> => {
+  switch (name) {
+    case "diff":
+    case "files":
+    case "stats":
+      return Just(`{${name}}`);
+    case "branch":
+      return context.branch;
+    case "ticket":
+      return context.ticket;
+    case "author":
+      return context.author;
+    case "base_branch":
+      return context.baseBranch;
+    default:
+      return absurd(name, "Placeholder");
+  }
+};
+
+/** Unknown placeholders are left as written, as are the diff's own; known ones without a value become empty. */
+const fillTemplate = (template: string, context: TemplateContext): string =>
+  template.replace(PLACEHOLDER_RE, (token, name: string) => (isPlaceholder(name) ? valueOf(name, context).withDefault("") : token));
+
+const fillDiff = (template: string, diff: string): string => template.replaceAll("{diff}", () => diff);
+
+const countLines = (text: string): { insertions: number; deletions: number } => {
+  const hunks = text.slice(Math.max(text.indexOf("\n@@"), 0)).split("\n");
+  return {
+    insertions: hunks.filter((line) => line.startsWith("+")).length,
+    deletions: hunks.filter((line) => line.startsWith("-")).length
+  };
+};
+
+const plural = (count: number, one: string, many: string): string => `${count} ${count === 1 ? one : many}`;
+
+/** What `git diff --shortstat` prints for `diff`; Nothing when it changes no file. */
+const diffShortStat = (diff: string): Maybe<string> => {
+  const sections = parseDiffSections(diff).sections;
+  if (sections.length === 0) return Nothing();
+  const { insertions, deletions } = sections
+    .map((section) => countLines(section.text))
+    .reduce((sum, n) => ({ insertions: sum.insertions + n.insertions, deletions: sum.deletions + n.deletions }));
+  return Just(
+    [
+      plural(sections.length, "file changed", "files changed"),
+      ...(insertions > 0 ? [plural(insertions, "insertion(+)", "insertions(+)")] : []),
+      ...(deletions > 0 ? [plural(deletions, "deletion(-)", "deletions(-)")] : [])
+    ].join(", ")
+  );
+};
+
+/** Fills `{files}` and `{stats}` from the diff the message describes, whether staged, amended or one commit of a split. */
+const fillDiffValues = (template: string, diff: string): string =>
+  template
+    .replaceAll("{files}", () =>
+      parseDiffSections(diff)
+        .sections.map((section) => section.path)
+        .join(", ")
+    )
+    .replaceAll("{stats}", () => diffShortStat(diff).withDefault(""));
+
+/** A split plan writes one message per commit, so the model fills `{files}` and `{stats}` for each commit itself. */
+const fillPlanValues = (template: string): string =>
+  template.replaceAll("{files}", "<the paths in that commit, comma-separated>").replaceAll("{stats}", "<that commit's `git diff --shortstat`>");
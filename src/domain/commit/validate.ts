@@ -0,0 +1,96 @@
+export { CONVENTIONAL_TYPES, MAX_SUBJECT_LENGTH, validateCommitMessage, describeViolations };
+
+import { type CommitConvention } from "@/domain/config/config";
+import { checkCommitlint, type CommitlintRules } from "@/domain/commit/commitlint";
+import { splitTrailers } from "@/domain/commit/co-authors";
+import { startsWithGitmoji } from "@/domain/commit/gitmoji";
+import { describeBreakingChanges, isMarkedBreaking, type BreakingChange } from "@/domain/commit/breaking";
+import { Nothing, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+
+/** The types `promptConventional` asks for; anything else is a violation, not a creative choice. */
+const CONVENTIONAL_TYPES = ["feat", "fix", "refactor", "chore", "docs", "style", "test", "perf", "ci", "build"] as const;
+
+const MAX_SUBJECT_LENGTH = 72;
+
+const CONVENTIONAL_SUBJECT_RE = new RegExp(`^(${CONVENTIONAL_TYPES.join("|")})(\\([^()\\s]+\\))?!?: \\S`);
+// With a commitlint type-enum the type itself is checked by `checkCommitlint`, so only the shape matters here.
+const ANY_CONVENTIONAL_SUBJECT_RE = /^\w+(\([^()\s]+\))?!?: \S/;
+const ANY_TYPE_PREFIX_RE = /^[a-z]+(\([^()]*\))?!?:/;
+// A bullet, or an indented continuation of a wrapped one.
+const BODY_LINE_RE = /^(- | {2})/;
+
+const checkShape = (lines: readonly string[]): string[] => {
+  const [subject = "", second, ...body] = lines;
+  const violations: string[] = [];
+  if (subject.trim() === "") violations.push("The subject line is empty.");
+  // Counted in code points, so accented and non-Latin subjects are not charged twice for a character.
+  const length = [...subject.normalize("NFC")].length;
+  if (length > MAX_SUBJECT_LENGTH) violations.push(`The subject is ${length} characters; keep it at ${MAX_SUBJECT_LENGTH} or fewer.`);
+  if (second !== undefined && second.trim() !== "") violations.push("Line 2 must be blank, separating the subject from the body.");
+  const badBullets = body.filter((line) => line.trim() !== "" && !BODY_LINE_RE.test(line));
+  if (badBullets.length > 0) violations.push(`Every body line must be a bullet starting with "- " (found: "${badBullets[0]}").`);
+  return violations;
+};
+
+const checkConventional = (message: string, subject: string, commitlint: Maybe<CommitlintRules>): string[] =>
+  commitlint.unwrap(
+    () =>
+      CONVENTIONAL_SUBJECT_RE.test(subject) ?
+        []
+      : [`The subject must start with a type prefix such as "feat: " or "fix(scope): " (${CONVENTIONAL_TYPES.join(", ")}).`],
+    (rules) => [
+      ...(ANY_CONVENTIONAL_SUBJECT_RE.test(subject) ? [] : ['The subject must start with a type prefix such as "feat: " or "fix(scope): ".']),
+      ...checkCommitlint(message, rules)
+    ]
+  );
+
+/** semantic-release only sees a break that the message marks. */
+const checkBreaking = (message: string, breaking: readonly BreakingChange[]): string[] =>
+  breaking.length === 0 || isMarkedBreaking(message) ?
+    []
+  : [
+      `The diff breaks the public API (${describeBreakingChanges(breaking).slice(0, -1)}): add "!" after the type and a "BREAKING CHANGE: <what breaks>" footer.`
+    ];
+
+const checkPrefix = (
+  message: string,
+  subject: string,
+  convention: CommitConvention,
+  commitlint: Maybe<CommitlintRules>,
+  breaking: readonly BreakingChange[]
+): string[] => {
+  switch (convention) {
+    case "conventional":
+      return [...checkConventional(message, subject, commitlint), ...checkBreaking(message, breaking)];
+    case "imperative":
+      return ANY_TYPE_PREFIX_RE.test(subject) ? ['The subject must start with a verb, without a type prefix such as "feat:".'] : [];
+    case "gitmoji":
+      return startsWithGitmoji(subject) ? [] : ['The subject must start with a gitmoji and a space, such as "✨ " or ":sparkles: ".'];
+    case "custom":
+      return [];
+    default:
+      return absurd(convention, "CommitConvention");
+  }
+};
+
+/**
+ * Returns human-readable violations, empty when the message is fine. Custom templates define their
+ * own shape, so only the convention-independent checks (fences, empty subject) apply to them.
+ * Commitlint rules and `breaking`, the detected changes the message must mark, only apply to the conventional
+ * convention, as in the prompt. Trailers such as `Co-authored-by` are not body lines, so the shape check stops before them.
+ */
+const validateCommitMessage = (
+  message: string,
+  convention: CommitConvention,
+  commitlint: Maybe<CommitlintRules> = Nothing(),
+  breaking: readonly BreakingChange[] = []
+): string[] => {
+  const lines = splitTrailers(message).body.split("\n");
+  const fences = message.includes("```") ? ["Remove code fences (```); inline `code` is fine."] : [];
+  const shape =
+    convention === "custom" ? lines.slice(0, 1).flatMap((line) => (line.trim() === "" ? ["The subject line is empty."] : [])) : checkShape(lines);
+  return [...fences, ...shape, ...checkPrefix(message, lines[0] ?? "", convention, commitlint, breaking)];
+};
+
+const describeViolations = (violations: readonly string[]): string => violations.map((v) => `- ${v}`).join("\n");
@@ -0,0 +1,124 @@
+export {
+  parsePnpmWorkspace,
+  packageJsonWorkspaces,
+  isWorkspaceDir,
+  scopeOf,
+  groupByPackage,
+  renderScopeHints,
+  renderPackageGroups,
+  type WorkspacePackage,
+  type PackageGroup
+};
+
+import { compileGlob } from "@/libs/gitignore";
+import { fromOptional, Just, Nothing, type Maybe } from "@/libs/maybe";
+
+/** A workspace package; `dir` is relative to the work tree root, `/`-separated. */
+type WorkspacePackage = { readonly name: string; readonly dir: string };
+
+/** Staged files grouped by owning package; `Nothing` collects files outside every package. */
+type PackageGroup = { readonly scope: Maybe<string>; readonly files: readonly string[] };
+
+const unquote = (value: string): string => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+/** Just the `packages:` list of `pnpm-workspace.yaml`, in block or flow style; the rest of the file is ignored. */
+const parsePnpmWorkspace = (yaml: string): string[] => {
+  const lines = yaml.split(/\r?\n/).map((line) => line.replace(/\s+#.*$/, ""));
+  const start = lines.findIndex((line) => line.startsWith("packages:"));
+  if (start < 0) return [];
+  const inline = (lines[start] ?? "").slice("packages:".length).trim();
+  if (inline.startsWith("[")) {
+    return inline
+      .replace(/^\[|\]$/g, "")
+      .split(",")
+      .map(unquote)
+      .filter((item) => item !== "");
+  }
+  const items: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() === "") continue;
+    const item = /^\s+-\s+(.+)$/.exec(line);
+    if (item?.[1] === undefined) break;
+    items.push(unquote(item[1]));
+  }
+  return items;
+};
+
+/** npm and yarn accept both `"workspaces": [...]` and yarn's `"workspaces": { "packages": [...] }`. */
+const packageJsonWorkspaces = (pkg: unknown): string[] => {
+  if (typeof pkg !== "object" || pkg === null || !("workspaces" in pkg)) return [];
+  const { workspaces } = pkg;
+  const list = typeof workspaces === "object" && workspaces !== null && "packages" in workspaces ? workspaces.packages : workspaces;
+  return Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : [];
+};
+
+/** A directory belongs to the workspace when a pattern matches it and no `!pattern` excludes it. */
+const isWorkspaceDir = (patterns: readonly string[], dir: string): boolean => {
+  const includes = patterns.filter((p) => !p.startsWith("!")).map(compileGlob);
+  const excludes = patterns.filter((p) => p.startsWith("!")).map((p) => compileGlob(p.slice(1)));
+  return includes.some((re) => re.test(dir)) && !excludes.some((re) => re.test(dir));
+};
+
+/** `@acme/web-app` is scoped as `web-app`: the npm scope is the same for every package and says nothing. */
+const scopeOf = (pkg: WorkspacePackage): string => pkg.name.replace(/^@[^/]+\//, "");
+
+/** The deepest package containing the path, so nested packages win over their parents. */
+const packageOfPath = (packages: readonly WorkspacePackage[], path: string): Maybe<WorkspacePackage> =>
+  fromOptional(
+    packages
+      .filter((pkg) => path.startsWith(`${pkg.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)
+      .at(0)
+  );
+
+/** Groups in first-seen order, files outside any package last. */
+const groupByPackage = (packages: readonly WorkspacePackage[], files: readonly string[]): PackageGroup[] => {
+  const groups = new Map<string, string[]>();
+  const loose: string[] = [];
+  for (const file of files) {
+    const pkg = packageOfPath(packages, file);
+    if (pkg instanceof Just) {
+      const scope = scopeOf(pkg.value);
+      groups.set(scope, [...(groups.get(scope) ?? []), file]);
+    } else {
+      loose.push(file);
+    }
+  }
+  const scoped = [...groups].map(([scope, grouped]): PackageGroup => ({ scope: Just(scope), files: grouped }));
+  return loose.length > 0 ? [...scoped, { scope: Nothing(), files: loose }] : scoped;
+};
+
+const suggestion = (touched: readonly string[]): string => {
+  if (touched.length === 0) return "This diff touches no package; omit the scope.";
+  if (touched.length === 1) return `Suggested scope for this diff: ${touched[0]}.`;
+  return `This diff touches several packages (${touched.join(", ")}); use the one the change is mainly about, or omit the scope if none dominates.`;
+};
+
+/** A `<workspace_scopes>` block for the conventional prompt; empty outside a workspace. */
+const renderScopeHints = (packages: readonly WorkspacePackage[], files: readonly string[]): string => {
+  if (packages.length === 0) return "";
+  const allowed = [...new Set(packages.map(scopeOf))].sort();
+  const touched = groupByPackage(packages, files).flatMap((group) => group.scope.maybe<string[]>([], (scope) => [scope]));
+  return `
+      <workspace_scopes>
+        This repository is a monorepo. Use the package name as the scope, never a folder or file name.
+        Allowed scopes: ${allowed.join(", ")}. Omit the scope for changes outside every package, such as root tooling.
+        ${suggestion(touched)}
+      </workspace_scopes>
+`;
+};
+
+/** The file-to-package map for split planning; empty unless files span at least two groups. */
+const renderPackageGroups = (packages: readonly WorkspacePackage[], files: readonly string[]): string => {
+  const groups = groupByPackage(packages, files);
+  if (groups.length < 2) return "";
+  const lines = groups.map((group) => `- ${group.scope.withDefault("(no package)")}: ${group.files.join(", ")}`);
+  return `
+      <workspace_packages>
+        Staged files by workspace package:
+        ${lines.join("\n        ")}
+        Prefer one commit per package. Only put files from different packages in one commit when the change does not make sense apart,
+        such as a shared type and the code that adopts it.
+      </workspace_packages>
+`;
+};
@@ -17,7 +17,11 @@ export {
   schema_AuthMethod,
   schema_ProviderConfig,
   resolveAuthMethod,
+  withLanguage,
+  ignorePatterns,
   COMMIT_CONVENTIONS,
+  LOCKFILES,
+  DEFAULT_IGNORE_PATTERNS,
   OPENAI_EFFORTS,
   XAI_EFFORTS,
   ANTHROPIC_EFFORTS,
@@ -28,14 +32,32 @@ import * as s from "@/libs/json/schema";
 
 import { absurd } from "@/libs/types";
 import { type Maybe } from "@/libs/maybe";
+import { GITMOJI_STYLES, type GitmojiStyle } from "@/domain/commit/gitmoji";
 import { ThinkingLevel } from "@google/genai";
 
 import type OpenAIPkg from "openai";
 import type AnthropicPkg from "@anthropic-ai/sdk";
 
-const COMMIT_CONVENTIONS = ["conventional", "imperative", "custom"] as const;
+const COMMIT_CONVENTIONS = ["conventional", "imperative", "gitmoji", "custom"] as const;
 type CommitConvention = (typeof COMMIT_CONVENTIONS)[number];
 
+const LOCKFILES = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lock",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "composer.lock",
+  "go.sum"
+] as const;
+
+/** Gitignore-syntax paths whose diffs never reach the model; a repo's `.commitignore` is applied after these. */
+const DEFAULT_IGNORE_PATTERNS = [...LOCKFILES, "dist/", "*.min.js", "*.min.css", "*.map", "*.snap"] as const;
+
 const schema_OAuthTokens = s.object({
   access_token: s.string,
   refresh_token: s.string,
@@ -139,10 +161,25 @@ const Config = s.object({
   ai: schema_ProviderConfig,
   commit_convention: s.stringEnum([...COMMIT_CONVENTIONS]),
   custom_template: s.optionalMaybe(s.string),
-  split_commits: s.optionalDefault(false, s.boolean)
+  split_commits: s.optionalDefault(false, s.boolean),
+  ignore: s.optionalMaybe(s.array(s.string)),
+  match_history: s.optionalDefault(false, s.boolean),
+  ticket_pattern: s.optionalMaybe(s.string),
+  language: s.optionalMaybe(s.string),
+  gitmoji_style: s.optionalDefault<GitmojiStyle>("unicode", s.stringEnum([...GITMOJI_STYLES])),
+  verify_command: s.optionalMaybe(s.string),
+  detect_breaking_changes: s.optionalDefault(true, s.boolean)
 });
 type Config = s.Infer<typeof Config>;
 
+/** A `--language` given for one run wins over the configured one. */
+const withLanguage =
+  (language: Maybe<string>) =>
+  (config: Config): Config => ({ ...config, language: language.alt(config.language) });
+
+/** An `ignore` array replaces the defaults; without one the config follows them as they change between releases. */
+const ignorePatterns = (config: Config): readonly string[] => config.ignore.withDefault([...DEFAULT_IGNORE_PATTERNS]);
+
 type Model = {
   readonly id: string;
   readonly description: string;
@@ -0,0 +1,102 @@
+export { RepoConfig, applyRepoConfig, repoOverrides };
+
+import * as s from "@/libs/json/schema";
+
+import {
+  ANTHROPIC_EFFORTS,
+  COMMIT_CONVENTIONS,
+  GEMINI_EFFORTS,
+  OPENAI_EFFORTS,
+  XAI_EFFORTS,
+  type Config,
+  type ProviderConfig
+} from "@/domain/config/config";
+import { GITMOJI_STYLES } from "@/domain/commit/gitmoji";
+import { withModel } from "@/domain/llm/effort";
+import { templateProblem } from "@/domain/commit/template";
+import { Failure, Success, type Result } from "@/libs/result";
+import { Just, type Maybe } from "@/libs/maybe";
+import { absurd } from "@/libs/types";
+
+/**
+ * The per-repository layer. Every field is optional and wins over the global config when set.
+ * There is deliberately no `ai` block: provider and credentials only ever come from the global file.
+ */
+const RepoConfig = s.object({
+  commit_convention: s.optionalMaybe(s.stringEnum([...COMMIT_CONVENTIONS])),
+  custom_template: s.optionalMaybe(s.string),
+  split_commits: s.optionalMaybe(s.boolean),
+  match_history: s.optionalMaybe(s.boolean),
+  ticket_pattern: s.optionalMaybe(s.string),
+  language: s.optionalMaybe(s.string),
+  gitmoji_style: s.optionalMaybe(s.stringEnum([...GITMOJI_STYLES])),
+  verify_command: s.optionalMaybe(s.string),
+  detect_breaking_changes: s.optionalMaybe(s.boolean),
+  model: s.optionalMaybe(s.string),
+  effort: s.optionalMaybe(s.string)
+});
+type RepoConfig = s.Infer<typeof RepoConfig>;
+
+const pickEffort = <T extends string>(efforts: readonly T[], effort: string, provider: string): Result<Error, Maybe<T>> => {
+  const found = efforts.find((e) => e === effort);
+  return found === undefined ?
+      Failure(new Error(`Effort '${effort}' is not valid for ${provider}. Use one of: ${efforts.join(", ")}`))
+    : Success(Just(found));
+};
+
+/** Effort names differ per provider, so the repo file's plain string is checked against the globally configured one. */
+const withEffort = (ai: ProviderConfig, effort: string): Result<Error, ProviderConfig> => {
+  switch (ai.provider) {
+    case "openai":
+      return pickEffort(OPENAI_EFFORTS, effort, ai.provider).map((e): ProviderConfig => ({ ...ai, effort: e }));
+    case "anthropic":
+      return pickEffort(ANTHROPIC_EFFORTS, effort, ai.provider).map((e): ProviderConfig => ({ ...ai, effort: e }));
+    case "gemini":
+      return pickEffort(GEMINI_EFFORTS, effort, ai.provider).map((e): ProviderConfig => ({ ...ai, effort: e }));
+    case "xai":
+      return pickEffort(XAI_EFFORTS, effort, ai.provider).map((e): ProviderConfig => ({ ...ai, effort: e }));
+    default:
+      return absurd(ai, "ProviderConfig");
+  }
+};
+
+/** `commit setup` checks the global template as it is typed; a committed one is checked here instead of sending `{tikcet}` to the model. */
+const checkTemplate = (template: Maybe<string>): Result<Error, Maybe<string>> =>
+  template.chain(templateProblem).maybe<Result<Error, Maybe<string>>>(Success(template), (problem) => Failure(new Error(`custom_template: ${problem}`)));
+
+const applyRepoConfig = (config: Config, repo: RepoConfig): Result<Error, Config> => {
+  const ai = repo.model.maybe(config.ai, (model) => withModel(config.ai, model));
+  return checkTemplate(repo.custom_template)
+    .chain(() => repo.effort.maybe<Result<Error, ProviderConfig>>(Success(ai), (effort) => withEffort(ai, effort)))
+    .map((resolved) => ({
+      ...config,
+      ai: resolved,
+      commit_convention: repo.commit_convention.withDefault(config.commit_convention),
+      custom_template: repo.custom_template.alt(config.custom_template),
+      split_commits: repo.split_commits.withDefault(config.split_commits),
+      match_history: repo.match_history.withDefault(config.match_history),
+      ticket_pattern: repo.ticket_pattern.alt(config.ticket_pattern),
+      language: repo.language.alt(config.language),
+      gitmoji_style: repo.gitmoji_style.withDefault(config.gitmoji_style),
+      verify_command: repo.verify_command.alt(config.verify_command),
+      detect_breaking_changes: repo.detect_breaking_changes.withDefault(config.detect_breaking_changes)
+    }));
+};
+
+/** The keys the repo file sets, for `commit doctor`. */
+const repoOverrides = (repo: RepoConfig): string[] =>
+  (
+    [
+      "commit_convention",
+      "custom_template",
+      "split_commits",
+      "match_history",
+      "ticket_pattern",
+      "language",
+      "gitmoji_style",
+      "verify_command",
+      "detect_breaking_changes",
+      "model",
+      "effort"
+    ] as const
+  ).filter((key) => repo[key].isJust());
@@ -0,0 +1,90 @@
+export {
+  type DiffSection,
+  type ParsedDiff,
+  SUMMARY_TOKENS,
+  DIFF_BUDGET_TOKENS,
+  estimateTokens,
+  parseDiffSections,
+  sectionsToSummarize,
+  truncateToTokens,
+  renderBudgetedDiff
+};
+
+/** One `diff --git` block, keyed by its post-image path. */
+type DiffSection = { readonly path: string; readonly text: string };
+
+/** `preamble` and `trailer` hold non-diff context (e.g. the `git status` block branch suggestions append) and are never summarized. */
+type ParsedDiff = { readonly preamble: string; readonly sections: readonly DiffSection[]; readonly trailer: string };
+
+// Code and diff markup tokenize denser than prose; 3.5 chars/token errs towards summarizing early.
+const CHARS_PER_TOKEN = 3.5;
+
+/**
+ * The diff part of a prompt, for every model: each supported one has a window of 128k tokens or more, so
+ * the cost and latency of a long prompt bind long before the window does.
+ */
+const DIFF_BUDGET_TOKENS = 48_000;
+
+/** Rough size of one per-file summary, used to decide how many files must be summarized. */
+const SUMMARY_TOKENS = 200;
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const DIFF_HEADER_RE = /^diff --git a\/(.*) b\/(.*)$/;
+const TRAILER_RE = /^--- [\w -]+ ---$/;
+
+const parseDiffSections = (diff: string): ParsedDiff => {
+  const lines = diff.split("\n");
+  const trailerStart = lines.findIndex((line) => TRAILER_RE.test(line));
+  const body = trailerStart >= 0 ? lines.slice(0, trailerStart) : lines;
+  const trailer = trailerStart >= 0 ? lines.slice(trailerStart).join("\n") : "";
+
+  const preamble: string[] = [];
+  const sections: { path: string; lines: string[] }[] = [];
+  for (const line of body) {
+    const header = DIFF_HEADER_RE.exec(line);
+    const current = sections.at(-1);
+    if (header) sections.push({ path: header[2] ?? "", lines: [line] });
+    else if (current) current.lines.push(line);
+    else preamble.push(line);
+  }
+
+  return { preamble: preamble.join("\n"), sections: sections.map((s) => ({ path: s.path, text: s.lines.join("\n") })), trailer };
+};
+
+/**
+ * Largest files first, until the rest fits next to their summaries, so a single vendored file
+ * costs one extra call while the hand-written changes still reach the model verbatim.
+ */
+const sectionsToSummarize = (parsed: ParsedDiff, budget: number): readonly DiffSection[] => {
+  let total = estimateTokens(parsed.preamble) + estimateTokens(parsed.trailer) + parsed.sections.reduce((sum, s) => sum + estimateTokens(s.text), 0);
+  const picked: DiffSection[] = [];
+  for (const section of [...parsed.sections].sort((a, b) => b.text.length - a.text.length)) {
+    if (total <= budget) break;
+    total += SUMMARY_TOKENS - estimateTokens(section.text);
+    picked.push(section);
+  }
+  return picked;
+};
+
+const truncateToTokens = (text: string, tokens: number): string => {
+  const limit = Math.floor(tokens * CHARS_PER_TOKEN);
+  return text.length <= limit ? text : `${text.slice(0, limit)}\n[... truncated ${text.length - limit} characters ...]`;
+};
+
+const renderBudgetedDiff = (parsed: ParsedDiff, summaries: ReadonlyMap<string, string>, budget: number): string => {
+  const sections = parsed.sections.map((section) => {
+    const summary = summaries.get(section.path);
+    return summary === undefined ? section.text : `--- summary of ${section.path} (diff too large to include) ---\n${summary}\n`;
+  });
+  const rendered = [
+    "[Some files are summarized instead of shown line by line because the full diff exceeds the model budget.]",
+    parsed.preamble,
+    ...sections,
+    parsed.trailer
+  ]
+    .filter((part) => part.length > 0)
+    .join("\n");
+  // Thousands of files can still overflow after summarizing each one; cut rather than fail the request.
+  return truncateToTokens(rendered, budget);
+};
@@ -0,0 +1,44 @@
+export { stubIgnoredFiles, describeIgnoredFile };
+
+import { type IgnoreMatcher } from "@/libs/gitignore";
+import { parseDiffSections, type DiffSection } from "@/domain/llm/budget";
+import { LOCKFILES } from "@/domain/config/config";
+
+const LOCKFILE_NAMES: ReadonlySet<string> = new Set(LOCKFILES);
+
+const changeKind = (text: string): string =>
+  /^new file mode/m.test(text) ? "added"
+  : /^deleted file mode/m.test(text) ? "deleted"
+  : /^rename from/m.test(text) ? "renamed"
+  : "updated";
+
+const lineCounts = (text: string): { added: number; removed: number } => {
+  const lines = text.split("\n").filter((line) => !line.startsWith("+++") && !line.startsWith("---"));
+  return { added: lines.filter((line) => line.startsWith("+")).length, removed: lines.filter((line) => line.startsWith("-")).length };
+};
+
+/** One line in place of the hunks, e.g. `pnpm-lock.yaml: lockfile updated, +312/-40`. */
+const describeIgnoredFile = (section: DiffSection): string => {
+  const name = section.path.split("/").at(-1) ?? section.path;
+  const noun =
+    LOCKFILE_NAMES.has(name) ? "lockfile"
+    : /^Binary files /m.test(section.text) ? "binary file"
+    : "file";
+  const { added, removed } = lineCounts(section.text);
+  return `${section.path}: ${noun} ${changeKind(section.text)}, +${added}/-${removed} (diff omitted by ignore rules)`;
+};
+
+/**
+ * Swaps ignored files' hunks for a stub so they cost one line of prompt. Only the prompt changes:
+ * the files stay staged, get committed, and remain valid paths in split plans.
+ */
+const stubIgnoredFiles = (diff: string, isIgnored: IgnoreMatcher): string => {
+  const parsed = parseDiffSections(diff);
+  if (!parsed.sections.some((section) => isIgnored(section.path))) return diff;
+
+  // The `diff --git` header stays so later layers (budgeting, split prompts) still see one section per file.
+  const sections = parsed.sections.map((section) =>
+    isIgnored(section.path) ? `${section.text.split("\n")[0] ?? ""}\n${describeIgnoredFile(section)}` : section.text
+  );
+  return [parsed.preamble, ...sections, parsed.trailer].filter((part) => part.length > 0).join("\n");
+};
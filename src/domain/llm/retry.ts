@@ -1,4 +1,4 @@
-export { withTransientRetry, isTransientLlmError };
+export { withTransientRetry, withBatchRetry, isTransientLlmError, type RetryPolicy };
 
 import * as p from "@clack/prompts";
 import color from "picocolors";
@@ -6,6 +6,9 @@ import { Future } from "@/libs/future";
 
 const MAX_AUTO_ATTEMPTS = 3;
 
+/** What happens once the automatic attempts are used up: ask the user, or give up so headless runs never block on a prompt. */
+type RetryPolicy = "prompt" | "fail";
+
 const TRANSIENT_PATTERNS = [
   /terminated/i,
   /ECONNRESET/,
@@ -25,22 +28,35 @@ const isTransientLlmError = (err: Error): boolean => {
 
 const backoffMs = (attempt: number): number => Math.min(8_000, 500 * 2 ** attempt);
 
-const promptRetry = (err: Error): Future<Error, boolean> =>
+const promptRetry = (err: Error, beforePrompt: () => void): Future<Error, boolean> =>
   Future.attemptP(async () => {
+    beforePrompt();
     p.log.warn(color.yellow(`Transient LLM error after ${MAX_AUTO_ATTEMPTS} retries: ${err.message}`));
     const ok = await p.confirm({ message: "Retry?" });
     return !(p.isCancel(ok) || !ok);
   });
 
-const withTransientRetry = <T>(make: () => Future<Error, T>): Future<Error, T> => {
+/** `beforePrompt` runs right before the user is asked, e.g. to clear a streamed preview the prompt would be drawn under. */
+const withTransientRetry = <T>(make: () => Future<Error, T>, policy: RetryPolicy = "prompt", beforePrompt: () => void = () => {}): Future<Error, T> => {
   const attemptN = (n: number): Future<Error, T> =>
     make().chainRej((err): Future<Error, T> => {
       if (!isTransientLlmError(err)) return Future.reject(err);
       if (n + 1 < MAX_AUTO_ATTEMPTS) {
         return Future.resolveAfter<Error, void>(backoffMs(n), undefined).chain(() => attemptN(n + 1));
       }
-      return promptRetry(err).chain((retry) => (retry ? attemptN(0) : Future.reject(err)));
+      if (policy === "fail") return Future.reject(err);
+      return promptRetry(err, beforePrompt).chain((retry) => (retry ? attemptN(0) : Future.reject(err)));
     });
 
   return attemptN(0);
 };
+
+/**
+ * For requests sent side by side, each made with the "fail" policy: once one gives up, the user is asked once
+ * for the whole batch instead of once per request, and a yes sends the batch again.
+ */
+const withBatchRetry = <T>(make: () => Future<Error, T>, policy: RetryPolicy = "prompt"): Future<Error, T> =>
+  make().chainRej((err): Future<Error, T> => {
+    if (!isTransientLlmError(err) || policy === "fail") return Future.reject(err);
+    return promptRetry(err, () => {}).chain((retry) => (retry ? withBatchRetry(make, policy) : Future.reject(err)));
+  });
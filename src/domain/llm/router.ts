@@ -1,5 +1,6 @@
 export {
   type GenerateContentParams,
+  type OnText,
   type GeneratedContent,
   type LlmRequestMetadata,
   type ModelRequestMetadata,
@@ -7,8 +8,15 @@ export {
   type TokenUsage,
   type BranchNameSuggestions,
   type BranchSuggestion,
+  type ModelDiff,
+  fitDiff,
+  diffFitsBudget,
   generateCommitMessage,
+  generateCandidateMessages,
   refineCommitMessage,
+  repairCommitMessage,
+  MAX_REPAIR_ATTEMPTS,
+  type RepairedContent,
   generateBranchNameSuggestions,
   generateSplitPlan,
   type SplitPlanContent
@@ -21,16 +29,33 @@ import { generateContentWithGemini } from "@/infra/llm/gemini";
 import { generateContentWithOpenAI } from "@/infra/llm/openai";
 import { generateContentWithAnthropic } from "@/infra/llm/anthropic";
 import { generateContentWithXai } from "@/infra/llm/xai";
-import { getPrompt, getRefinePrompt, getBranchNamePrompt, getSplitPrompt } from "@/domain/commit/prompts";
+import { getPrompt, getRefinePrompt, getBranchNamePrompt, getSplitPrompt, getCandidatesPrompt, getFileSummaryPrompt } from "@/domain/commit/prompts";
+import { parseCandidateMessages } from "@/domain/commit/candidates";
+import { keepCoAuthors } from "@/domain/commit/co-authors";
+import { type RefineTurn } from "@/domain/commit/refinement";
+import { detectBreakingChanges, settleBreaking, unsettledBreakingChanges } from "@/domain/commit/breaking";
+import { fillDiffValues, fillPlanValues } from "@/domain/commit/template";
 import { parseAndValidateBranchSuggestions, type BranchSuggestion } from "@/domain/branch/suggestions";
 import { parseAndValidateSplitPlan, type SplitPlan } from "@/domain/split/plan";
-import { withTransientRetry } from "@/domain/llm/retry";
+import { splittableHunks } from "@/domain/split/hunks";
+import { type VerifyFailure } from "@/domain/split/verify";
+import { withBatchRetry, withTransientRetry, type RetryPolicy } from "@/domain/llm/retry";
 import { withMinEffort } from "@/domain/llm/effort";
+import { DIFF_BUDGET_TOKENS, parseDiffSections, renderBudgetedDiff, sectionsToSummarize, truncateToTokens, type DiffSection } from "@/domain/llm/budget";
 import { Maybe, Nothing } from "@/libs/maybe";
+import { EMPTY_STYLE_GUIDE, type StyleGuide } from "@/domain/commit/style-guide";
+import { describeViolations, validateCommitMessage } from "@/domain/commit/validate";
+
+/**
+ * Receives the whole reply so far on every streamed chunk; a retried request starts again from its first chunk.
+ * An empty snapshot clears what was shown, so a retry prompt is not drawn under a stale preview.
+ */
+type OnText = (snapshot: string) => void;
 
 type GenerateContentParams = {
   readonly prompt: string;
   readonly systemInstruction?: string;
+  readonly onText?: OnText;
 };
 
 type TokenUsage = {
@@ -113,15 +138,183 @@ const generateContent = (config: ProviderConfig, params: GenerateContentParams):
   }
 };
 
+/** Only requests whose reply is shown as it is written ask the provider to stream. */
+const streamingTo = (onText: Maybe<OnText>): Pick<GenerateContentParams, "onText"> =>
+  onText.maybe<Pick<GenerateContentParams, "onText">>({}, (f) => ({ onText: f }));
+
+const clearPreview = (onText: Maybe<OnText>) => (): void => onText.maybe(undefined, (f) => f(""));
+
+const SUMMARY_CONCURRENCY = 4;
+
+const summarizeSection = (config: ProviderConfig, section: DiffSection): Future<Error, [string, string]> =>
+  withTransientRetry(() => generateContent(config, getFileSummaryPrompt(section.path, truncateToTokens(section.text, DIFF_BUDGET_TOKENS))), "fail").map(
+    (gc): [string, string] => [section.path, gc.text.trim()]
+  );
+
+/**
+ * Map-reduce for diffs over the budget: the largest files are summarized by cheap calls, and the
+ * caller's prompt then sees those summaries in their place. "Cheap" is the configured model at its lowest
+ * effort (`withMinEffort`), not a smaller model, so summaries never need a second set of credentials.
+ * The summaries run side by side under one spinner, so a retry is offered once for all of them.
+ */
+const fitDiffToBudget = (config: ProviderConfig, diff: string, retry: RetryPolicy = "prompt"): Future<Error, string> => {
+  const parsed = parseDiffSections(diff);
+  const oversized = sectionsToSummarize(parsed, DIFF_BUDGET_TOKENS);
+  if (oversized.length === 0) return Future.resolve(diff);
+
+  const cheap = withMinEffort(config);
+  return withBatchRetry(
+    () =>
+      Future.parallel(
+        SUMMARY_CONCURRENCY,
+        oversized.map((section) => summarizeSection(cheap, section))
+      ),
+    retry
+  ).map((summaries) => renderBudgetedDiff(parsed, new Map(summaries), DIFF_BUDGET_TOKENS));
+};
+
+/**
+ * A diff ready for requests: `raw` is the diff as git printed it, which template values count; `full` has
+ * ignored files stubbed and is what local checks read (breaking changes, split hunks); `fitted` is what the
+ * model sees. Fitted once per diff, so Adjust and the repair passes never summarize again.
+ */
+type ModelDiff = { readonly raw: string; readonly full: string; readonly fitted: string };
+
+/** `full` is `raw` with ignored files stubbed. */
+const fitDiff = (config: ProviderConfig, raw: string, full: string, retry: RetryPolicy = "prompt"): Future<Error, ModelDiff> =>
+  fitDiffToBudget(config, full, retry).map((fitted) => ({ raw, full, fitted }));
+
+/** Whether `fitDiff` resolves without a request, for callers that only show progress when it does not. */
+const diffFitsBudget = (diff: string): boolean => sectionsToSummarize(parseDiffSections(diff), DIFF_BUDGET_TOKENS).length === 0;
+
+/** Conventional messages carry the breaking-change marks the author's verdict calls for; other conventions have none. */
+const settleMarks = (generated: GeneratedContent, convention: CommitConvention, guide: StyleGuide): GeneratedContent =>
+  convention === "conventional" ? { ...generated, text: settleBreaking(generated.text, guide.breaking) } : generated;
+
 const generateCommitMessage = (
   config: ProviderConfig,
-  diff: string,
+  diff: ModelDiff,
   convention: CommitConvention,
-  customTemplate: Maybe<string> = Nothing()
-): Future<Error, GeneratedContent> => withTransientRetry(() => generateContent(config, { prompt: getPrompt(diff, convention, customTemplate) }));
+  customTemplate: Maybe<string> = Nothing(),
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  retry: RetryPolicy = "prompt",
+  onText: Maybe<OnText> = Nothing()
+): Future<Error, GeneratedContent> => {
+  // Read from the whole diff: fitting it to the budget may summarize the very lines that remove an export.
+  const breaking = detectBreakingChanges(diff.full, guide.publicApi);
+  const template = customTemplate.map((t) => fillDiffValues(t, diff.raw));
+  return withTransientRetry(
+    () => generateContent(config, { prompt: getPrompt(diff.fitted, convention, template, guide, breaking), ...streamingTo(onText) }),
+    retry,
+    clearPreview(onText)
+  ).map((generated) => settleMarks(generated, convention, guide));
+};
 
-const refineCommitMessage = (config: ProviderConfig, currentMessage: string, adjustment: string, diff: string): Future<Error, GeneratedContent> =>
-  withTransientRetry(() => generateContent(config, getRefinePrompt({ diff, currentMessage, adjustment })));
+/**
+ * One request shares the diff's input tokens across every candidate. When its reply is not usable JSON,
+ * the candidates come from parallel plain generations instead, which cost more but cannot fail to parse;
+ * those share one retry prompt.
+ */
+const generateCandidateMessages = (
+  config: ProviderConfig,
+  diff: ModelDiff,
+  count: number,
+  convention: CommitConvention,
+  customTemplate: Maybe<string> = Nothing(),
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  retry: RetryPolicy = "prompt"
+): Future<Error, readonly GeneratedContent[]> => {
+  const breaking = detectBreakingChanges(diff.full, guide.publicApi);
+  const template = customTemplate.map((t) => fillDiffValues(t, diff.raw));
+  return withTransientRetry(
+    () => generateContent(config, { prompt: getCandidatesPrompt(diff.fitted, count, convention, template, guide, breaking) }),
+    retry
+  )
+    .chain((gc) =>
+      parseCandidateMessages(gc.text, count).either(
+        () =>
+          withBatchRetry(
+            () =>
+              Future.parallel(
+                count,
+                Array.from({ length: count }, () =>
+                  withTransientRetry(() => generateContent(config, { prompt: getPrompt(diff.fitted, convention, template, guide, breaking) }), "fail")
+                )
+              ),
+            retry
+          ),
+        (texts) => Future.resolve<Error, readonly GeneratedContent[]>(texts.map((text) => ({ text, metadata: gc.metadata })))
+      )
+    )
+    .map((found) => found.map((generated) => settleMarks(generated, convention, guide)));
+};
+
+/**
+ * Co-author trailers on `currentMessage` survive even when the model leaves them out. `earlier` is the adjust
+ * conversation so far, oldest first, so earlier instructions keep applying; `language` is the configured one.
+ */
+const refineCommitMessage = (
+  config: ProviderConfig,
+  currentMessage: string,
+  adjustment: string,
+  diff: ModelDiff,
+  convention: CommitConvention,
+  retry: RetryPolicy = "prompt",
+  onText: Maybe<OnText> = Nothing(),
+  earlier: readonly RefineTurn[] = [],
+  guide: StyleGuide = EMPTY_STYLE_GUIDE
+): Future<Error, GeneratedContent> =>
+  withTransientRetry(
+    () =>
+      generateContent(config, {
+        ...getRefinePrompt({
+          diff: diff.fitted,
+          currentMessage,
+          adjustment,
+          convention,
+          gitmojiStyle: guide.gitmojiStyle,
+          earlier,
+          language: guide.language
+        }),
+        ...streamingTo(onText)
+      }),
+    retry,
+    clearPreview(onText)
+  ).map((refined) => ({
+    ...refined,
+    text: keepCoAuthors(currentMessage, refined.text)
+  }));
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** A message after auto-repair, with whatever violations the model could not fix. */
+type RepairedContent = GeneratedContent & { readonly violations: readonly string[] };
+
+/**
+ * Feeds convention violations back through the refine prompt until the message validates or the attempts run out.
+ * The metadata is the last request's, so the request note describes the message actually shown.
+ */
+const repairCommitMessage = (
+  config: ProviderConfig,
+  generated: GeneratedContent,
+  diff: ModelDiff,
+  convention: CommitConvention,
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  attempts: number = MAX_REPAIR_ATTEMPTS,
+  retry: RetryPolicy = "prompt"
+): Future<Error, RepairedContent> => {
+  const violations = validateCommitMessage(
+    generated.text,
+    convention,
+    guide.commitlint,
+    unsettledBreakingChanges(diff.full, guide.publicApi, guide.breaking)
+  );
+  if (violations.length === 0 || attempts <= 0) return Future.resolve({ ...generated, violations });
+  const adjustment = `The message breaks these rules. Fix every one of them and change nothing else:\n${describeViolations(violations)}`;
+  return refineCommitMessage(config, generated.text, adjustment, diff, convention, retry, Nothing(), [], guide).chain((refined) =>
+    repairCommitMessage(config, refined, diff, convention, guide, attempts - 1, retry)
+  );
+};
 
 const resultToFuture = <T>(r: Result<Error, T>): Future<Error, T> =>
   r.either(
@@ -129,25 +322,36 @@ const resultToFuture = <T>(r: Result<Error, T>): Future<Error, T> =>
     (value) => Future.resolve(value)
   );
 
-const generateBranchNameSuggestions = (config: ProviderConfig, context: string): Future<Error, BranchNameSuggestions> =>
-  withTransientRetry(() =>
-    generateContent(config, { prompt: getBranchNamePrompt(context) }).chain((gc) =>
-      resultToFuture(parseAndValidateBranchSuggestions(gc.text)).map((names) => ({
-        names,
-        metadata: gc.metadata
-      }))
+const generateBranchNameSuggestions = (
+  config: ProviderConfig,
+  context: string,
+  language: Maybe<string> = Nothing()
+): Future<Error, BranchNameSuggestions> =>
+  fitDiffToBudget(config, context).chain((fitted) =>
+    withTransientRetry(() =>
+      generateContent(config, { prompt: getBranchNamePrompt(fitted, language) }).chain((gc) =>
+        resultToFuture(parseAndValidateBranchSuggestions(gc.text)).map((names) => ({
+          names,
+          metadata: gc.metadata
+        }))
+      )
     )
   );
 
 const generateSplitPlan = (
   config: ProviderConfig,
-  diff: string,
+  diff: ModelDiff,
   files: readonly string[],
   convention: CommitConvention,
-  customTemplate: Maybe<string>
-): Future<Error, SplitPlanContent> =>
-  withTransientRetry(() =>
-    generateContent(withMinEffort(config), { prompt: getSplitPrompt(diff, files, convention, customTemplate) }).chain((gc) =>
-      resultToFuture(parseAndValidateSplitPlan(gc.text, files)).map((plan) => ({ plan, metadata: gc.metadata }))
-    )
+  customTemplate: Maybe<string>,
+  guide: StyleGuide = EMPTY_STYLE_GUIDE,
+  failure: Maybe<VerifyFailure> = Nothing()
+): Future<Error, SplitPlanContent> => {
+  // Listed from the full diff: a file the budget summarizes can still be split by the headers alone.
+  const hunks = splittableHunks(diff.full);
+  return withTransientRetry(() =>
+    generateContent(withMinEffort(config), {
+      prompt: getSplitPrompt(diff.fitted, files, convention, customTemplate.map(fillPlanValues), guide, hunks, failure)
+    }).chain((gc) => resultToFuture(parseAndValidateSplitPlan(gc.text, files, hunks)).map((plan) => ({ plan, metadata: gc.metadata })))
   );
+};
@@ -0,0 +1,199 @@
+export {
+  itemsOf,
+  describeItem,
+  draftOf,
+  diffOf,
+  withEditedMessage,
+  withMovedItem,
+  withReorderedCommit,
+  withMergedCommits,
+  withSplitOff,
+  withoutCommit,
+  startHistory,
+  record,
+  undo,
+  redo,
+  unstagedPaths,
+  type PlanItem,
+  type PlanDraft,
+  type PlanHistory
+};
+
+import { parseDiffSections } from "@/domain/llm/budget";
+import { joinWholeFiles, type SplitCommit, type SplitPlan } from "@/domain/split/plan";
+import { describeSplitHunk, hunkHeader, sameHunk, type SplitHunk } from "@/domain/split/hunks";
+import { parseFilePatch, renderPatch } from "@/domain/staging/hunks";
+
+/** What a commit of the plan holds, one entry at a time: a whole file or one hunk of a split file. */
+type PlanItem = { type: "file"; path: string } | { type: "hunk"; hunk: SplitHunk };
+
+/** The plan being edited, with what deleted commits held; that goes back to unstaged when the plan is applied. */
+type PlanDraft = { readonly plan: SplitPlan; readonly unstaged: readonly PlanItem[] };
+
+/** Oldest first in `past`, next first in `future`. */
+type PlanHistory = { readonly past: readonly PlanDraft[]; readonly present: PlanDraft; readonly future: readonly PlanDraft[] };
+
+const itemsOf = (commit: SplitCommit): PlanItem[] => [
+  ...commit.files.map((path): PlanItem => ({ type: "file", path })),
+  ...commit.hunks.map((hunk): PlanItem => ({ type: "hunk", hunk }))
+];
+
+const describeItem = (item: PlanItem): string => (item.type === "file" ? item.path : describeSplitHunk(item.hunk));
+
+const draftOf = (plan: SplitPlan): PlanDraft => ({ plan, unstaged: [] });
+
+const pathOf = (item: PlanItem): string => (item.type === "file" ? item.path : item.hunk.path);
+
+const hunksOf = (items: readonly PlanItem[]): SplitHunk[] => items.flatMap((item) => (item.type === "hunk" ? [item.hunk] : []));
+
+/** The part of the staged diff that `items` cover, to write a message for a commit holding them. */
+const diffOf = (diff: string, items: readonly PlanItem[]): string => {
+  const whole = new Set(items.flatMap((item) => (item.type === "file" ? [item.path] : [])));
+  const hunks = hunksOf(items);
+  return parseDiffSections(diff)
+    .sections.flatMap((section) => {
+      if (whole.has(section.path)) return [section.text];
+      const picked = hunks.filter((hunk) => hunk.path === section.path).map((hunk) => hunk.header);
+      return picked.length === 0 ?
+          []
+        : parseFilePatch(section.text).maybe<string[]>([], (patch) => [
+            renderPatch(patch, new Set(patch.hunks.flatMap((hunk, i) => (picked.includes(hunkHeader(hunk)) ? [i] : []))))
+          ]);
+    })
+    .join("\n");
+};
+
+const holds = (commit: SplitCommit, item: PlanItem): boolean =>
+  item.type === "file" ? commit.files.includes(item.path) : commit.hunks.some((hunk) => sameHunk(hunk, item.hunk));
+
+const withoutItem = (commit: SplitCommit, item: PlanItem): SplitCommit =>
+  item.type === "file" ?
+    { ...commit, files: commit.files.filter((path) => path !== item.path) }
+  : { ...commit, hunks: commit.hunks.filter((hunk) => !sameHunk(hunk, item.hunk)) };
+
+const withItem = (commit: SplitCommit, item: PlanItem): SplitCommit =>
+  item.type === "file" ? { ...commit, files: [...commit.files, item.path] } : { ...commit, hunks: [...commit.hunks, item.hunk] };
+
+/**
+ * Drops emptied commits and joins files whose hunks all ended up in one commit. The unstaged hunks count as
+ * one more holder, so a file that lost a hunk to a deleted commit is never committed whole.
+ */
+const settle = (draft: PlanDraft, commits: readonly SplitCommit[], unstaged: readonly PlanItem[] = draft.unstaged): PlanDraft => {
+  const held: SplitCommit = { message: "", files: [], hunks: hunksOf(unstaged) };
+  const joined = joinWholeFiles({
+    shouldSplit: draft.plan.shouldSplit,
+    commits: [...commits.filter((commit) => commit.files.length > 0 || commit.hunks.length > 0), held]
+  });
+  const back = joined.commits.at(-1) ?? held;
+  return {
+    plan: { shouldSplit: draft.plan.shouldSplit, commits: joined.commits.slice(0, -1) },
+    unstaged: [...unstaged.filter((item) => item.type === "file"), ...itemsOf(back)]
+  };
+};
+
+const withCommits = (draft: PlanDraft, commits: readonly SplitCommit[]): PlanDraft => ({
+  ...draft,
+  plan: { shouldSplit: draft.plan.shouldSplit, commits }
+});
+
+const withEditedMessage = (draft: PlanDraft, index: number, message: string): PlanDraft =>
+  withCommits(
+    draft,
+    draft.plan.commits.map((commit, i) => (i === index ? { ...commit, message } : commit))
+  );
+
+const withMovedItem = (draft: PlanDraft, item: PlanItem, destIndex: number): PlanDraft => {
+  const sourceIndex = draft.plan.commits.findIndex((commit) => holds(commit, item));
+  if (sourceIndex === -1 || sourceIndex === destIndex) {
+    return draft;
+  }
+  const moved = draft.plan.commits.map((commit, i) => {
+    if (i === sourceIndex) {
+      return withoutItem(commit, item);
+    }
+    if (i === destIndex) {
+      return withItem(commit, item);
+    }
+    return commit;
+  });
+  return settle(draft, moved);
+};
+
+const withReorderedCommit = (draft: PlanDraft, fromIndex: number, toIndex: number): PlanDraft => {
+  if (fromIndex === toIndex) {
+    return draft;
+  }
+  const commits = [...draft.plan.commits];
+  const [item] = commits.splice(fromIndex, 1);
+  if (item === undefined) {
+    return draft;
+  }
+  commits.splice(toIndex, 0, item);
+  return withCommits(draft, commits);
+};
+
+/** The merged commit takes the place of the earlier of the two. */
+const withMergedCommits = (draft: PlanDraft, first: number, second: number, message: string): PlanDraft => {
+  const [at, from] = first < second ? [first, second] : [second, first];
+  const target = draft.plan.commits[at];
+  const source = draft.plan.commits[from];
+  if (target === undefined || source === undefined || at === from) {
+    return draft;
+  }
+  const merged: SplitCommit = { message, files: [...target.files, ...source.files], hunks: [...target.hunks, ...source.hunks] };
+  return settle(
+    draft,
+    draft.plan.commits.flatMap((commit, i) =>
+      i === at ? [merged]
+      : i === from ? []
+      : [commit]
+    )
+  );
+};
+
+/** Moves `items` out of commit `index` into a new commit right after it; taking all of it or nothing changes nothing. */
+const withSplitOff = (draft: PlanDraft, index: number, items: readonly PlanItem[], message: string): PlanDraft => {
+  const source = draft.plan.commits[index];
+  if (source === undefined) {
+    return draft;
+  }
+  const taken = items.filter((item) => holds(source, item));
+  const rest = taken.reduce(withoutItem, source);
+  if (taken.length === 0 || (rest.files.length === 0 && rest.hunks.length === 0)) {
+    return draft;
+  }
+  const split = taken.reduce(withItem, { message, files: [], hunks: [] });
+  return withCommits(draft, [...draft.plan.commits.slice(0, index), rest, split, ...draft.plan.commits.slice(index + 1)]);
+};
+
+/** The last commit cannot be deleted: a plan commits something or is cancelled. */
+const withoutCommit = (draft: PlanDraft, index: number): PlanDraft => {
+  const deleted = draft.plan.commits[index];
+  if (deleted === undefined || draft.plan.commits.length < 2) {
+    return draft;
+  }
+  return settle(
+    draft,
+    draft.plan.commits.filter((_, i) => i !== index),
+    [...draft.unstaged, ...itemsOf(deleted)]
+  );
+};
+
+/** The paths to put back to HEAD in the index once the plan is committed; only what deleted commits held is left staged there. */
+const unstagedPaths = (draft: PlanDraft): readonly string[] => [...new Set(draft.unstaged.map(pathOf))];
+
+const startHistory = (plan: SplitPlan): PlanHistory => ({ past: [], present: draftOf(plan), future: [] });
+
+/** An edit that changed nothing leaves the history alone, so Undo never steps back to the same plan. */
+const record = (history: PlanHistory, next: PlanDraft): PlanHistory =>
+  next === history.present ? history : { past: [...history.past, history.present], present: next, future: [] };
+
+const undo = (history: PlanHistory): PlanHistory => {
+  const previous = history.past.at(-1);
+  return previous === undefined ? history : { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future] };
+};
+
+const redo = (history: PlanHistory): PlanHistory => {
+  const [next, ...rest] = history.future;
+  return next === undefined ? history : { past: [...history.past, history.present], present: next, future: rest };
+};
@@ -0,0 +1,69 @@
+export { splittableHunks, hunkHeader, canonicalHeader, sameHunk, describeSplitHunk, commitPatches, type SplitHunk, type HunkPatch };
+
+import { parseDiffSections } from "@/domain/llm/budget";
+import { parseFilePatch, renderPatch, type FilePatch, type Hunk } from "@/domain/staging/hunks";
+import { Failure, Success, traverse_, type Result } from "@/libs/result";
+
+/** One hunk of a staged file as plans name it: the path and its `@@ -a,b +c,d @@` header from the staged diff. */
+type SplitHunk = { readonly path: string; readonly header: string };
+
+/** What one commit takes of a file it only has some hunks of, as a patch for `git apply --cached`. */
+type HunkPatch = { readonly path: string; readonly patch: string };
+
+const HEADER_RE = /@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// New, deleted, renamed and mode-changed files go into one commit whole; so do binary files, which have no hunks.
+const WHOLE_FILE_RE = /^(new file mode|deleted file mode|rename from|copy from|old mode) /m;
+
+const hunkHeader = (hunk: Hunk): string => `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`;
+
+/** The header without its function context and with both counts spelled out, so it matches `hunkHeader` however it was copied. */
+const canonicalHeader = (text: string): string => {
+  const match = HEADER_RE.exec(text);
+  return match === null ? text.trim() : `@@ -${match[1]},${match[2] ?? "1"} +${match[3]},${match[4] ?? "1"} @@`;
+};
+
+const sameHunk = (a: SplitHunk, b: SplitHunk): boolean => a.path === b.path && a.header === b.header;
+
+const describeSplitHunk = (hunk: SplitHunk): string => `${hunk.path} ${hunk.header}`;
+
+/** The hunks a plan may hand to different commits: those of modified files with two or more of them. */
+const splittableHunks = (diff: string): readonly SplitHunk[] =>
+  parseDiffSections(diff)
+    .sections.filter((section) => !WHOLE_FILE_RE.test(section.text))
+    .flatMap((section) =>
+      parseFilePatch(section.text).maybe([], (patch) =>
+        patch.hunks.length < 2 ? [] : patch.hunks.map((hunk) => ({ path: section.path, header: hunkHeader(hunk) }))
+      )
+    );
+
+type Pick = { readonly path: string; readonly index: number; readonly source: FilePatch };
+
+const pickHunk = (sources: ReadonlyMap<string, FilePatch>, hunk: SplitHunk): Result<Error, Pick> => {
+  const source = sources.get(hunk.path);
+  const index = source?.hunks.findIndex((candidate) => hunkHeader(candidate) === hunk.header) ?? -1;
+  return source === undefined || index === -1 ?
+      Failure(new Error(`The staged changes of ${hunk.path} changed after the split plan was made; regenerate it`))
+    : Success({ path: hunk.path, index, source });
+};
+
+const indexesIn = (picks: readonly Pick[], path: string): ReadonlySet<number> =>
+  new Set(picks.filter((pick) => pick.path === path).map((pick) => pick.index));
+
+const patchesFor = (picked: readonly Pick[], before: readonly Pick[]): readonly HunkPatch[] =>
+  [...new Map(picked.map((pick) => [pick.path, pick.source]))].map(([path, source]) => ({
+    path,
+    patch: renderPatch(source, indexesIn(picked, path), indexesIn(before, path))
+  }));
+
+/**
+ * The patches of each commit, in plan order. `sources` is the staged diff of every split file from before
+ * the first commit; each patch goes onto what the commits before it already took of the file.
+ */
+const commitPatches = (
+  commits: readonly { readonly hunks: readonly SplitHunk[] }[],
+  sources: ReadonlyMap<string, FilePatch>
+): Result<Error, readonly (readonly HunkPatch[])[]> =>
+  traverse_([...commits], (commit) => traverse_([...commit.hunks], (hunk) => pickHunk(sources, hunk))).map((picks) =>
+    picks.map((picked, i) => patchesFor(picked, picks.slice(0, i).flat()))
+  );
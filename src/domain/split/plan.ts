@@ -1,9 +1,11 @@
-export { parseAndValidateSplitPlan, type SplitCommit, type SplitPlan };
+export { parseAndValidateSplitPlan, joinWholeFiles, serializeSplitPlan, type SplitCommit, type SplitPlan };
 
 import * as D from "@/libs/json/decoder";
 import { Failure, Success, type Result } from "@/libs/result";
+import { canonicalHeader, type SplitHunk } from "@/domain/split/hunks";
 
-type SplitCommit = { readonly message: string; readonly files: readonly string[] };
+/** `files` go into the commit whole; `hunks` are parts of files that other commits take the rest of. */
+type SplitCommit = { readonly message: string; readonly files: readonly string[]; readonly hunks: readonly SplitHunk[] };
 type SplitPlan = { readonly commits: readonly SplitCommit[]; readonly shouldSplit: boolean };
 
 const REMAINING_STAGED_MESSAGE = "Commit remaining staged changes";
@@ -14,14 +16,16 @@ const nonEmptyString = (label: string): D.Decoder<string> =>
     return t.length === 0 ? D.fail(`${label} must be non-empty`) : D.succeed(t);
   });
 
-const nonEmptyFiles: D.Decoder<readonly string[]> = D.array(nonEmptyString("file")).chain((xs) =>
-  xs.length === 0 ? D.fail("files must be non-empty") : D.succeed(xs)
-);
+const splitHunkDecoder: D.Decoder<SplitHunk> = D.object({
+  file: nonEmptyString("hunk file"),
+  header: nonEmptyString("hunk header")
+}).map(({ file, header }) => ({ path: file, header: canonicalHeader(header) }));
 
 const splitCommitDecoder: D.Decoder<SplitCommit> = D.object({
   message: nonEmptyString("message"),
-  files: nonEmptyFiles
-});
+  files: D.array(nonEmptyString("file")),
+  hunks: D.optionalDefault([], D.array(splitHunkDecoder))
+}).chain((commit) => (commit.files.length === 0 && commit.hunks.length === 0 ? D.fail("files must be non-empty") : D.succeed(commit)));
 
 const nonEmptyCommits: D.Decoder<readonly SplitCommit[]> = D.array(splitCommitDecoder).chain((xs) =>
   xs.length === 0 ? D.fail<readonly SplitCommit[]>("expected at least 1 commit") : D.succeed(xs)
@@ -72,13 +76,33 @@ const collapseToSingleCommit = (commits: readonly SplitCommit[], leftover: reado
   if (first === undefined) {
     return Failure(new Error("Split plan: expected at least 1 commit"));
   }
+  const split = commits.flatMap((commit) => commit.hunks.map((hunk) => hunk.path));
   return Success({
     shouldSplit: false,
-    commits: [{ message: first.message, files: [...first.files, ...rest.flatMap((commit) => commit.files), ...leftover] }]
+    commits: [
+      { message: first.message, files: [...new Set([...first.files, ...rest.flatMap((commit) => commit.files), ...split, ...leftover])], hunks: [] }
+    ]
+  });
+};
+
+/** A file whose hunks all ended up in one commit is simply part of that commit. */
+const joinWholeFiles = (plan: SplitPlan): SplitPlan => {
+  const owners = new Map<string, ReadonlySet<number>>();
+  plan.commits.forEach((commit, i) => {
+    for (const hunk of commit.hunks) owners.set(hunk.path, new Set([...(owners.get(hunk.path) ?? []), i]));
   });
+  const whole = (hunk: SplitHunk): boolean => owners.get(hunk.path)?.size === 1;
+  return {
+    shouldSplit: plan.shouldSplit,
+    commits: plan.commits.map((commit) => ({
+      message: commit.message,
+      files: [...commit.files, ...new Set(commit.hunks.filter(whole).map((hunk) => hunk.path))],
+      hunks: commit.hunks.filter((hunk) => !whole(hunk))
+    }))
+  };
 };
 
-const takePath = (file: string, staged: Set<string>, seen: Set<string>): Result<Error, void> => {
+const takePath = (file: string, staged: ReadonlySet<string>, seen: Set<string>): Result<Error, void> => {
   if (seen.has(file)) {
     return Failure(new Error(`Split plan: duplicate path: ${file}`));
   }
@@ -89,33 +113,89 @@ const takePath = (file: string, staged: Set<string>, seen: Set<string>): Result<
   return Success(undefined);
 };
 
-const leftoverStagedPaths = (plan: SplitPlan, stagedFiles: readonly string[]): Result<Error, readonly string[]> => {
+const hunkKey = (hunk: SplitHunk): string => `${hunk.path}\0${hunk.header}`;
+
+const takeHunk = (hunk: SplitHunk, known: ReadonlySet<string>, seen: Set<string>): Result<Error, void> => {
+  const key = hunkKey(hunk);
+  if (seen.has(key)) {
+    return Failure(new Error(`Split plan: duplicate hunk: ${hunk.path} ${hunk.header}`));
+  }
+  if (!known.has(key)) {
+    return Failure(new Error(`Split plan: unknown hunk: ${hunk.path} ${hunk.header}`));
+  }
+  seen.add(key);
+  return Success(undefined);
+};
+
+type Taken = { readonly paths: Set<string>; readonly hunks: Set<string> };
+
+const takeCommit = (commit: SplitCommit, staged: ReadonlySet<string>, known: ReadonlySet<string>, taken: Taken): Result<Error, void> => {
+  for (const file of commit.files) {
+    const took = takePath(file, staged, taken.paths);
+    if (took instanceof Failure) {
+      return took;
+    }
+  }
+  for (const hunk of commit.hunks) {
+    const took = takeHunk(hunk, known, taken.hunks);
+    if (took instanceof Failure) {
+      return took;
+    }
+  }
+  return Success(undefined);
+};
+
+/** What no commit took: whole files, and the hunks of files that commits took only part of. */
+type Leftover = { readonly files: readonly string[]; readonly hunks: readonly SplitHunk[] };
+
+const leftoverOf = (plan: SplitPlan, stagedFiles: readonly string[], hunks: readonly SplitHunk[]): Result<Error, Leftover> => {
   const staged = new Set(stagedFiles);
-  const seen = new Set<string>();
+  const known = new Set(hunks.map(hunkKey));
+  const taken: Taken = { paths: new Set(), hunks: new Set() };
   for (const commit of plan.commits) {
-    for (const file of commit.files) {
-      const taken = takePath(file, staged, seen);
-      if (taken instanceof Failure) {
-        return Failure<Error, readonly string[]>(taken.error);
-      }
+    const took = takeCommit(commit, staged, known, taken);
+    if (took instanceof Failure) {
+      return Failure<Error, Leftover>(took.error);
     }
   }
-  return Success(stagedFiles.filter((file) => !seen.has(file)));
+  const split = new Set(plan.commits.flatMap((commit) => commit.hunks.map((hunk) => hunk.path)));
+  const both = [...split].find((path) => taken.paths.has(path));
+  if (both !== undefined) {
+    return Failure(new Error(`Split plan: path given both whole and by hunk: ${both}`));
+  }
+  return Success({
+    files: stagedFiles.filter((file) => !taken.paths.has(file) && !split.has(file)),
+    hunks: hunks.filter((hunk) => split.has(hunk.path) && !taken.hunks.has(hunkKey(hunk)))
+  });
 };
 
-const validateSplitPlan = (plan: SplitPlan, stagedFiles: readonly string[]): Result<Error, SplitPlan> =>
-  leftoverStagedPaths(plan, stagedFiles).chain((leftover) => {
+const validateSplitPlan = (plan: SplitPlan, stagedFiles: readonly string[], hunks: readonly SplitHunk[]): Result<Error, SplitPlan> =>
+  leftoverOf(plan, stagedFiles, hunks).chain((leftover) => {
     if (!plan.shouldSplit) {
-      return collapseToSingleCommit(plan.commits, leftover);
+      return collapseToSingleCommit(plan.commits, leftover.files);
     }
-    if (leftover.length === 0) {
-      return Success(plan);
+    if (leftover.files.length === 0 && leftover.hunks.length === 0) {
+      return Success(joinWholeFiles(plan));
     }
-    return Success({
-      shouldSplit: true,
-      commits: [...plan.commits, { message: REMAINING_STAGED_MESSAGE, files: leftover }]
-    });
+    return Success(
+      joinWholeFiles({
+        shouldSplit: true,
+        commits: [...plan.commits, { message: REMAINING_STAGED_MESSAGE, files: leftover.files, hunks: leftover.hunks }]
+      })
+    );
   });
 
-const parseAndValidateSplitPlan = (raw: string, stagedFiles: readonly string[]): Result<Error, SplitPlan> =>
-  parseSplitPlan(raw).chain((plan) => validateSplitPlan(plan, stagedFiles));
+/** `hunks` are the ones a commit may take on their own, from `splittableHunks`; every other change goes by whole file. */
+const parseAndValidateSplitPlan = (raw: string, stagedFiles: readonly string[], hunks: readonly SplitHunk[] = []): Result<Error, SplitPlan> =>
+  parseSplitPlan(raw).chain((plan) => validateSplitPlan(plan, stagedFiles, hunks));
+
+/** The plan in the JSON shape the planner answers with, to show the model a plan it made before. */
+const serializeSplitPlan = (plan: SplitPlan): string =>
+  JSON.stringify({
+    should_split: plan.shouldSplit,
+    commits: plan.commits.map((commit) => ({
+      message: commit.message,
+      files: commit.files,
+      ...(commit.hunks.length === 0 ? {} : { hunks: commit.hunks.map((hunk) => ({ file: hunk.path, header: hunk.header })) })
+    }))
+  });
@@ -0,0 +1,25 @@
+export { VERIFY_TIMEOUT_MS, outputTail, timedOutNote, type PlannedCommit, type VerifyOutcome, type VerifyRun, type VerifyFailure };
+
+import { type HunkPatch } from "@/domain/split/hunks";
+import { type SplitPlan } from "@/domain/split/plan";
+
+/** One commit of a plan as verification replays it: whole files from the index, then the patches of its split files. */
+type PlannedCommit = { readonly files: readonly string[]; readonly patches: readonly HunkPatch[] };
+
+/** `step` is the index of the first commit after which `verify_command` failed; later commits were not tried. */
+type VerifyOutcome = { readonly type: "passed" } | { readonly type: "failed"; readonly step: number; readonly output: string };
+
+/** A run the user cancelled checked nothing, so it leaves the plan unverified rather than failed. */
+type VerifyRun = VerifyOutcome | { readonly type: "cancelled" };
+
+/** Long enough for a full test suite; a command that hangs, e.g. on a prompt, fails the commit instead. */
+const VERIFY_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Appended to the output of a command stopped by the timeout, so the failure says why. */
+const timedOutNote = (command: string, timeoutMs: number): string => `\n${command} was stopped after ${Math.round(timeoutMs / 1000)}s without finishing.`;
+
+/** A plan that failed verification, as the model is shown it when asked for a better one. */
+type VerifyFailure = { readonly plan: SplitPlan; readonly command: string; readonly step: number; readonly output: string };
+
+// Compilers and test runners put the summary last; the head of a long log is mostly noise.
+const outputTail = (output: string, lines = 40): string => output.trimEnd().split("\n").slice(-lines).join("\n");
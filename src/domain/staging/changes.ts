@@ -0,0 +1,15 @@
+export { CHANGE_KINDS, describeChange, hasHunks, type ChangeKind, type WorkingChange };
+
+const CHANGE_KINDS = ["modified", "deleted", "untracked", "conflicted"] as const;
+type ChangeKind = (typeof CHANGE_KINDS)[number];
+
+/**
+ * A path with work the index does not have yet, as `git status --porcelain` reports it. `partlyStaged` is
+ * set when the index already holds some of the file's changes.
+ */
+type WorkingChange = { readonly path: string; readonly kind: ChangeKind; readonly partlyStaged: boolean };
+
+/** Only a tracked file with edits has hunks to pick from; everything else is staged whole. */
+const hasHunks = (change: WorkingChange): boolean => change.kind === "modified";
+
+const describeChange = (change: WorkingChange): string => (change.partlyStaged ? `${change.kind}, partly staged` : change.kind);
@@ -0,0 +1,68 @@
+export { parseFilePatch, renderPatch, describeHunk, type FilePatch, type Hunk };
+
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+
+/** One `@@` block; the starts and counts come from its header, `lines` are the body lines after it. */
+type Hunk = {
+  readonly oldStart: number;
+  readonly oldCount: number;
+  readonly newStart: number;
+  readonly newCount: number;
+  readonly context: string;
+  readonly lines: readonly string[];
+};
+
+/** One file's `git diff`: the header lines up to the first hunk, then the hunks in file order. */
+type FilePatch = { readonly header: readonly string[]; readonly hunks: readonly Hunk[] };
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+const toCount = (raw: string | undefined): number => (raw === undefined ? 1 : Number(raw));
+
+/** Nothing for a diff without hunks, such as a mode change or a binary file. */
+const parseFilePatch = (diff: string): Maybe<FilePatch> => {
+  const header: string[] = [];
+  const hunks: (Omit<Hunk, "lines"> & { lines: string[] })[] = [];
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    const match = HUNK_HEADER_RE.exec(line);
+    const current = hunks.at(-1);
+    if (match)
+      hunks.push({
+        oldStart: Number(match[1]),
+        oldCount: toCount(match[2]),
+        newStart: Number(match[3]),
+        newCount: toCount(match[4]),
+        context: match[5] ?? "",
+        lines: []
+      });
+    else if (current) current.lines.push(line);
+    else header.push(line);
+  }
+  return hunks.length === 0 ? Nothing() : Just({ header, hunks });
+};
+
+/**
+ * A patch of only the `picked` hunks, for `git apply --cached`. Each new-side start is moved by what the
+ * picked hunks before it add or remove, since the skipped ones never reach the index. The `applied` hunks
+ * are already in the file the patch goes onto, so they move both sides.
+ */
+const renderPatch = (patch: FilePatch, picked: ReadonlySet<number>, applied: ReadonlySet<number> = new Set()): string => {
+  let base = 0;
+  let shift = 0;
+  const hunks = patch.hunks.flatMap((hunk, i) => {
+    const delta = hunk.newCount - hunk.oldCount;
+    if (applied.has(i)) base += delta;
+    if (!picked.has(i)) return [];
+    const oldStart = hunk.oldStart + base;
+    const newStart = hunk.newCount === 0 ? oldStart + shift - 1 : oldStart + shift + (hunk.oldCount === 0 ? 1 : 0);
+    shift += delta;
+    return [`@@ -${oldStart},${hunk.oldCount} +${newStart},${hunk.newCount} @@${hunk.context}`, ...hunk.lines];
+  });
+  return `${[...patch.header, ...hunks].join("\n")}\n`;
+};
+
+const describeHunk = (hunk: Hunk): string => {
+  const added = hunk.lines.filter((line) => line.startsWith("+")).length;
+  const removed = hunk.lines.filter((line) => line.startsWith("-")).length;
+  return `+${added} -${removed}`;
+};
@@ -2,6 +2,7 @@ export { aliasBinDir, findConflictingBinary, reconcileShims, removeShim, shimPat
 
 import { Future } from "@/libs/future";
 import { fromOptional, type Maybe } from "@/libs/maybe";
+import { shellQuote } from "@/libs/shell";
 import { type Alias, type AliasName } from "@/domain/alias/alias";
 import { configDir } from "@/infra/storage/config";
 import { access, chmod, mkdir, rm, writeFile } from "node:fs/promises";
@@ -13,9 +14,6 @@ const aliasBinDir = (): string => resolve(configDir(), "bin");
 /** Safe to join: `AliasName.parse` already excluded separators and traversal segments. */
 const shimPath = (name: AliasName): string => resolve(aliasBinDir(), name.value);
 
-/** POSIX single-quote escaping. JSON quoting would leave a `$` in the path expandable by the shell. */
-const shellQuote = (value: string): string => `'${value.replaceAll("'", "'\\''")}'`;
-
 /** Absolute node + absolute entry script: no dependency on `commit` being on PATH, and no risk of recursion. */
 const shimSource = (alias: Alias): string =>
   ["#!/bin/sh", `exec ${shellQuote(process.execPath)} ${shellQuote(process.argv[1] ?? "")} ${alias.target} "$@"`, ""].join("\n");
@@ -0,0 +1,42 @@
+export { resolveEditor, editCommitMessage };
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { getGitEditor } from "@/infra/git/repo";
+import { execBinInteractive } from "@/infra/shell";
+import { cleanEditedMessage, editorBuffer } from "@/domain/commit/edit";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const fromEnv = (name: string): Maybe<string> => {
+  const value = process.env[name]?.trim();
+  return value ? Just(value) : Nothing();
+};
+
+const resolveEditor = (): Future<Error, string> =>
+  fromEnv("VISUAL")
+    .alt(fromEnv("EDITOR"))
+    .unwrap(getGitEditor, (editor) => Future.resolve<Error, string>(editor));
+
+/** Runs through `sh -c` like git does, so values such as `code --wait` keep their arguments. */
+const runEditor = (editor: string, path: string): Future<Error, void> =>
+  execBinInteractive("sh", ["-c", `${editor} "$@"`, editor, path]).mapRej((err) => new Error(`Editor '${editor}' failed: ${err.message}`));
+
+/**
+ * Opens the message in the user's editor and reads it back with git's comment stripping.
+ * `Nothing` means the saved message was empty. The file is named COMMIT_EDITMSG so editors pick their git syntax.
+ */
+const editCommitMessage = (message: string): Future<Error, Maybe<string>> =>
+  Future.attemptP(() => mkdtemp(join(tmpdir(), "commit-tools-edit-"))).chain((dir) => {
+    const path = join(dir, "COMMIT_EDITMSG");
+    return Future.attemptP(() => writeFile(path, editorBuffer(message)))
+      .chain(resolveEditor)
+      .chain((editor) => runEditor(editor, path))
+      .chain(() => Future.attemptP(() => readFile(path, "utf-8")))
+      .map((text): Maybe<string> => {
+        const cleaned = cleanEditedMessage(text);
+        return cleaned === "" ? Nothing() : Just(cleaned);
+      })
+      .finally(Future.attemptP(() => rm(dir, { recursive: true, force: true })));
+  });
@@ -0,0 +1,16 @@
+export { isMissingFile, readOptionalFile };
+
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { readFile } from "node:fs/promises";
+
+const isMissingFile = (err: unknown): boolean => err instanceof Error && "code" in err && err.code === "ENOENT";
+
+/** Nothing when the file does not exist; any other read error still rejects. */
+const readOptionalFile = async (path: string): Promise<Maybe<string>> => {
+  try {
+    return Just(await readFile(path, "utf-8"));
+  } catch (err) {
+    if (isMissingFile(err)) return Nothing();
+    throw err;
+  }
+};
@@ -0,0 +1,72 @@
+export { CO_AUTHORS_FILE, findContributors, loadRecentCoAuthors, saveRecentCoAuthors, resolveCoAuthors };
+
+import * as s from "@/libs/json/schema";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { rememberCoAuthors, resolveCoAuthor, type Contributor } from "@/domain/commit/co-authors";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** Recent pairs are per clone, next to the history cache in the git dir. */
+const CO_AUTHORS_FILE = "commit-tools-co-authors.json";
+
+const CoAuthorsFile = s.object({
+  recent: s.array(s.object({ name: s.string, email: s.string }))
+});
+
+const coAuthorsPath = (): Future<Error, string> => repo.getGitDir().map((gitDir) => join(gitDir, CO_AUTHORS_FILE));
+
+/** Everyone but the committer; an empty repository has no contributors yet. */
+const findContributors = (): Future<Error, readonly Contributor[]> =>
+  Future.both(
+    repo.listContributors().chainRej(() => Future.resolve<Error, Contributor[]>([])),
+    repo.findGitConfig("user.email")
+  ).map(([contributors, self]) =>
+    self.maybe(contributors, (email) => contributors.filter((contributor) => contributor.email.toLowerCase() !== email.toLowerCase()))
+  );
+
+/** A missing or unreadable file means no recent pairs. */
+const loadRecentCoAuthors = (): Future<Error, readonly Contributor[]> =>
+  coAuthorsPath()
+    .chain((path) => Future.attemptP(() => readFile(path, "utf-8")))
+    .map((raw): readonly Contributor[] => {
+      try {
+        return s.decode(CoAuthorsFile, JSON.parse(raw)).either(
+          () => [],
+          (file) => file.recent
+        );
+      } catch {
+        return [];
+      }
+    })
+    .chainRej(() => Future.resolve<Error, readonly Contributor[]>([]));
+
+/** Remembering is best effort: a read-only git dir must not fail the commit that was just made. */
+const saveRecentCoAuthors = (used: readonly Contributor[]): Future<Error, void> =>
+  used.length === 0 ?
+    Future.resolve(undefined)
+  : loadRecentCoAuthors()
+      .chain((recent) =>
+        coAuthorsPath().chain((path) =>
+          Future.attemptP(() =>
+            writeFile(path, JSON.stringify(s.encode(CoAuthorsFile, { recent: [...rememberCoAuthors(recent, used)] }), null, 2), "utf-8")
+          )
+        )
+      )
+      .chainRej(() => Future.resolve<Error, void>(undefined));
+
+/** `--co-author` queries, each resolved to its best match; no queries costs no git calls. */
+const resolveCoAuthors = (queries: readonly string[]): Future<Error, readonly Contributor[]> =>
+  queries.length === 0 ?
+    Future.resolve([])
+  : Future.both(findContributors(), loadRecentCoAuthors()).chain(([contributors, recent]) =>
+      Future.traverse(
+        (query: string) =>
+          resolveCoAuthor(query, contributors, recent).either(
+            (err) => Future.reject<Error, Contributor>(err),
+            (contributor) => Future.resolve<Error, Contributor>(contributor)
+          ),
+        [...queries]
+      )
+    );
@@ -0,0 +1,19 @@
+export { COMMITIGNORE_FILE, loadIgnoreMatcher, stubIgnoredDiff };
+
+import { Future } from "@/libs/future";
+import { getWorkTreeRoot } from "@/infra/git/repo";
+import { readOptionalFile } from "@/infra/fs";
+import { compileIgnore, type IgnoreMatcher } from "@/libs/gitignore";
+import { stubIgnoredFiles } from "@/domain/llm/ignore";
+import { join } from "node:path";
+
+const COMMITIGNORE_FILE = ".commitignore";
+
+/** Global patterns first, so the repo's `.commitignore` can re-include a default with `!pattern`. */
+const loadIgnoreMatcher = (globalPatterns: readonly string[]): Future<Error, IgnoreMatcher> =>
+  getWorkTreeRoot().chain((root) =>
+    Future.attemptP(() => readOptionalFile(join(root, COMMITIGNORE_FILE))).map((local) => compileIgnore([...globalPatterns, local.withDefault("")]))
+  );
+
+const stubIgnoredDiff = (globalPatterns: readonly string[], diff: string): Future<Error, string> =>
+  loadIgnoreMatcher(globalPatterns).map((isIgnored) => stubIgnoredFiles(diff, isIgnored));
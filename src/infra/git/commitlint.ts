@@ -0,0 +1,116 @@
+export { COMMITLINT_FILES, findCommitlintRules, type CommitlintSource };
+
+import * as s from "@/libs/json/schema";
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { readExportedLiteral } from "@/libs/js-literal";
+import { getWorkTreeRoot } from "@/infra/git/repo";
+import { parseCommitlintConfig, type CommitlintRules } from "@/domain/commit/commitlint";
+import { access, readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+/** Checked in this order after the `commitlint` key of `package.json`, mirroring commitlint's own lookup. */
+const COMMITLINT_FILES = [
+  ".commitlintrc",
+  ".commitlintrc.json",
+  ".commitlintrc.yaml",
+  ".commitlintrc.yml",
+  ".commitlintrc.js",
+  ".commitlintrc.cjs",
+  ".commitlintrc.mjs",
+  ".commitlintrc.ts",
+  ".commitlintrc.cts",
+  ".commitlintrc.mts",
+  "commitlint.config.js",
+  "commitlint.config.cjs",
+  "commitlint.config.mjs",
+  "commitlint.config.ts",
+  "commitlint.config.cts",
+  "commitlint.config.mts"
+];
+
+const DATA_EXTENSIONS: ReadonlySet<string> = new Set(["", ".json", ".yaml", ".yml"]);
+const JS_EXTENSIONS: ReadonlySet<string> = new Set([".js", ".cjs", ".mjs"]);
+
+const PackageJson = s.object({ commitlint: s.optionalMaybe(s.json) });
+
+type CommitlintSource = { readonly path: string; readonly rules: CommitlintRules };
+
+const exists = (path: string): Promise<boolean> =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Only data is read. Running a JavaScript or TypeScript config would execute code on every commit, from the git
+ * hook too, in whatever repository was just cloned; a JavaScript config is read statically when it exports a plain
+ * object literal, and any other is reported instead. YAML is a superset of JSON, which also covers the
+ * extensionless `.commitlintrc`.
+ */
+const loadConfigFile = async (path: string): Promise<unknown> => {
+  const ext = extname(path);
+  if (JS_EXTENSIONS.has(ext)) {
+    return readExportedLiteral(await readFile(path, "utf-8")).either(
+      (err) => {
+        throw new Error(
+          `${path} is not read, as it does not export a plain object literal (${err.message}) and running it would execute repository code; use .commitlintrc.json or .commitlintrc.yaml.`
+        );
+      },
+      (config) => config
+    );
+  }
+  if (!DATA_EXTENSIONS.has(ext)) {
+    throw new Error(`${path} is not read, as running it would execute repository code; use .commitlintrc.json or .commitlintrc.yaml.`);
+  }
+  const raw = await readFile(path, "utf-8");
+  try {
+    return ext === ".json" ? JSON.parse(raw) : parseYaml(raw);
+  } catch (e) {
+    throw new Error(`${path} could not be parsed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const fromPackageJson = async (root: string): Promise<Maybe<[string, unknown]>> => {
+  const path = join(root, "package.json");
+  if (!(await exists(path))) return Nothing();
+  try {
+    return s.decode(PackageJson, JSON.parse(await readFile(path, "utf-8"))).either(
+      () => Nothing(),
+      (pkg) => pkg.commitlint.map((config): [string, unknown] => [`${path} (commitlint)`, config])
+    );
+  } catch {
+    // A broken package.json is some other tool's problem; it just holds no commitlint config.
+    return Nothing();
+  }
+};
+
+const locateConfig = async (root: string): Promise<Maybe<[string, unknown]>> => {
+  const fromPackage = await fromPackageJson(root);
+  if (fromPackage.isJust()) return fromPackage;
+  for (const name of COMMITLINT_FILES) {
+    const path = join(root, name);
+    if (await exists(path)) return Just([path, await loadConfigFile(path)]);
+  }
+  return Nothing();
+};
+
+/** `Nothing` outside a git repository or when the repository has no commitlint config. */
+const findCommitlintRules = (): Future<Error, Maybe<CommitlintSource>> =>
+  getWorkTreeRoot()
+    .map((root): Maybe<string> => Just(root))
+    .chainRej(() => Future.resolve<Error, Maybe<string>>(Nothing()))
+    .chain((maybeRoot) =>
+      maybeRoot.maybe<Future<Error, Maybe<CommitlintSource>>>(Future.resolve(Nothing()), (root) =>
+        Future.attemptP(() => locateConfig(root)).chain((found) =>
+          found.maybe<Future<Error, Maybe<CommitlintSource>>>(Future.resolve(Nothing()), ([path, raw]) =>
+            parseCommitlintConfig(raw).either(
+              (err) => Future.reject(new Error(`${path}: ${err.message}`)),
+              (rules) => Future.resolve(Just({ path, rules }))
+            )
+          )
+        )
+      )
+    );
@@ -0,0 +1,78 @@
+export { DRAFT_FILE, loadDraft, findDraftFor, saveDraft, clearDraft, dropDraft };
+
+import * as s from "@/libs/json/schema";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { Draft } from "@/domain/commit/draft";
+import { isMissingFile } from "@/infra/fs";
+import { type GeneratedContent } from "@/domain/llm/router";
+import { createHash } from "node:crypto";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** One draft per clone, in the git dir like the history cache. */
+const DRAFT_FILE = "commit-tools-draft.json";
+
+const draftPath = (): Future<Error, string> => repo.getGitDir().map((gitDir) => join(gitDir, DRAFT_FILE));
+
+const hashDiff = (diff: string): string => createHash("sha256").update(diff).digest("hex");
+
+/** A missing or unreadable draft is no draft. */
+const loadDraft = (): Future<Error, Maybe<Draft>> =>
+  draftPath()
+    .chain((path) => Future.attemptP(() => readFile(path, "utf-8")))
+    .map((raw): Maybe<Draft> => {
+      try {
+        return s.decode(Draft, JSON.parse(raw)).either(
+          () => Nothing<Draft>(),
+          (draft) => Just(draft)
+        );
+      } catch {
+        return Nothing();
+      }
+    })
+    .chainRej(() => Future.resolve(Nothing<Draft>()));
+
+/** Only a draft written for exactly this diff; anything staged or unstaged since makes it stale. */
+const findDraftFor = (diff: string): Future<Error, Maybe<Draft>> =>
+  loadDraft().map((draft) => draft.chain((found) => (found.diffHash === hashDiff(diff) ? Just(found) : Nothing<Draft>())));
+
+/** Best effort, like every write to the git dir: losing a draft must never cost the user the session. */
+const saveDraft = (diff: string, generated: GeneratedContent): Future<Error, void> =>
+  draftPath()
+    .chain((path) =>
+      Future.attemptP(() =>
+        writeFile(
+          path,
+          JSON.stringify(
+            s.encode(Draft, { diffHash: hashDiff(diff), savedAt: Date.now(), message: generated.text, request: generated.metadata }),
+            null,
+            2
+          ),
+          "utf-8"
+        )
+      )
+    )
+    .chainRej(() => Future.resolve<Error, void>(undefined));
+
+/** Resolves to whether there was a draft to remove. */
+const clearDraft = (): Future<Error, boolean> =>
+  draftPath().chain((path) =>
+    Future.attemptP(async () => {
+      try {
+        await rm(path);
+        return true;
+      } catch (err) {
+        if (isMissingFile(err)) return false;
+        throw err;
+      }
+    })
+  );
+
+/** After any commit of the staged changes: the draft is stale now, and failing to remove it must not fail the commit. */
+const dropDraft = (): Future<Error, void> =>
+  clearDraft()
+    .map((): void => undefined)
+    .chainRej(() => Future.resolve<Error, void>(undefined));
@@ -0,0 +1,67 @@
+export { HISTORY_CACHE_FILE, loadHistoryExamples, findHistoryExamples, historyExamplesFor };
+
+import * as s from "@/libs/json/schema";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { type Config } from "@/domain/config/config";
+import { HistoryExample, HISTORY_SAMPLE_SIZE, selectHistoryExamples } from "@/domain/commit/history";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** Lives in the git dir, so it is per-clone and can never be committed. */
+const HISTORY_CACHE_FILE = "commit-tools-history.json";
+
+// Enough headroom that filtering out merges-by-subject, reverts and fixups still leaves a full sample.
+const HISTORY_SCAN_DEPTH = HISTORY_SAMPLE_SIZE * 8;
+
+const HistoryCache = s.object({
+  ref: s.string,
+  head: s.string,
+  examples: s.array(HistoryExample)
+});
+type HistoryCache = s.Infer<typeof HistoryCache>;
+
+/** A missing, unreadable or outdated-schema cache is just a miss. */
+const readCache = (path: string): Future<Error, Maybe<HistoryCache>> =>
+  Future.attemptP(() => readFile(path, "utf-8"))
+    .map((raw): Maybe<HistoryCache> => {
+      try {
+        return s.decode(HistoryCache, JSON.parse(raw)).either(
+          () => Nothing<HistoryCache>(),
+          (cache) => Just(cache)
+        );
+      } catch {
+        return Nothing();
+      }
+    })
+    .chainRej(() => Future.resolve(Nothing<HistoryCache>()));
+
+const writeCache = (path: string, cache: HistoryCache): Future<Error, void> =>
+  Future.attemptP(() => writeFile(path, JSON.stringify(s.encode(HistoryCache, cache), null, 2), "utf-8"));
+
+/** Sampled from the base branch (HEAD when there is none) and recomputed only when that branch moves. */
+const loadHistoryExamples = (): Future<Error, readonly HistoryExample[]> =>
+  repo.findBaseBranch().chain((base) => {
+    const ref = base.withDefault("HEAD");
+    return Future.both(repo.resolveCommit(ref), repo.getGitDir()).chain(([head, gitDir]) => {
+      const path = join(gitDir, HISTORY_CACHE_FILE);
+      return readCache(path).chain((cached) =>
+        cached instanceof Just && cached.value.ref === ref && cached.value.head === head ?
+          Future.resolve<Error, readonly HistoryExample[]>(cached.value.examples)
+        : repo
+            .getCommitHistory(ref, HISTORY_SCAN_DEPTH)
+            .map(selectHistoryExamples)
+            .chain((examples) => writeCache(path, { ref, head, examples }).map((): readonly HistoryExample[] => examples))
+      );
+    });
+  });
+
+/** Style examples are a nicety: any failure (empty repo, detached worktree, read-only git dir) means none. */
+const findHistoryExamples = (): Future<Error, readonly HistoryExample[]> =>
+  loadHistoryExamples().chainRej(() => Future.resolve<Error, readonly HistoryExample[]>([]));
+
+/** Only repositories (or users) that opted into `match_history` pay for the `git log` scan. */
+const historyExamplesFor = (config: Config): Future<Error, readonly HistoryExample[]> =>
+  config.match_history ? findHistoryExamples() : Future.resolve<Error, readonly HistoryExample[]>([]);
@@ -0,0 +1,127 @@
+export {
+  HOOK_NAME,
+  CHAINED_HOOK_NAME,
+  commitHookSource,
+  installCommitHook,
+  uninstallCommitHook,
+  inspectCommitHook,
+  type CommitHookStatus,
+  type HookInstallResult,
+  type HookUninstallResult
+};
+
+import { Future } from "@/libs/future";
+import { getHooksDir } from "@/infra/git/repo";
+import { readOptionalFile } from "@/infra/fs";
+import { absurd } from "@/libs/types";
+import { shellQuote } from "@/libs/shell";
+import { access, chmod, mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const HOOK_NAME = "prepare-commit-msg";
+
+/** Where a pre-existing hook is parked while ours is installed; ours runs it first with the same arguments. */
+const CHAINED_HOOK_NAME = `${HOOK_NAME}.commit-tools-chained`;
+
+/** Identifies a hook we wrote, so uninstall never deletes someone else's script. */
+const HOOK_MARKER = "# commit-tools prepare-commit-msg hook";
+
+type CommitHookStatus = { type: "absent" } | { type: "foreign" } | { type: "installed"; chained: boolean };
+
+type HookInstallResult = { path: string; chained: boolean };
+type HookUninstallResult = { path: string; restored: boolean };
+
+/**
+ * Only a blank message is filled: `$2` is set for `-m`/`-F`, templates, merges, squashes and
+ * `-c`/`-C`/`--amend`, and commit-tools' own commits pass `-F`, so the hook never recurses.
+ * A failed generation exits 0 so `git commit` still opens the editor with git's usual text.
+ * The `commit` on PATH is called, so upgrades and reinstalls elsewhere keep working; the node and entry
+ * script that installed the hook are only the fallback for a PATH without it, such as a GUI client's.
+ */
+const commitHookSource = (): string =>
+  [
+    "#!/bin/sh",
+    HOOK_MARKER,
+    "# Installed by `commit hook install`; remove it with `commit hook uninstall`.",
+    `chained="$(dirname "$0")/${CHAINED_HOOK_NAME}"`,
+    'if [ -x "$chained" ]; then',
+    '  "$chained" "$@" || exit $?',
+    "fi",
+    '[ -z "$2" ] || exit 0',
+    'echo "commit-tools: generating commit message..." >&2',
+    "if command -v commit >/dev/null 2>&1; then",
+    "  message=$(commit generate --print) || exit 0",
+    "else",
+    `  message=$(${shellQuote(process.execPath)} ${shellQuote(process.argv[1] ?? "")} generate --print) || exit 0`,
+    "fi",
+    '[ -n "$message" ] || exit 0',
+    `{ printf '%s\\n' "$message"; cat "$1"; } > "$1.commit-tools" && mv "$1.commit-tools" "$1"`,
+    ""
+  ].join("\n");
+
+const exists = (path: string): Promise<boolean> =>
+  access(path).then(
+    () => true,
+    () => false
+  );
+
+const statusAt = async (dir: string): Promise<CommitHookStatus> => {
+  const source = (await readOptionalFile(join(dir, HOOK_NAME))).asNullable();
+  if (source === null) return { type: "absent" };
+  if (!source.includes(HOOK_MARKER)) return { type: "foreign" };
+  return { type: "installed", chained: await exists(join(dir, CHAINED_HOOK_NAME)) };
+};
+
+const writeHook = async (path: string): Promise<void> => {
+  await writeFile(path, commitHookSource(), "utf-8");
+  // writeFile's `mode` is ignored when the file already exists, so set it explicitly.
+  await chmod(path, 0o755);
+};
+
+const inspectCommitHook = (): Future<Error, CommitHookStatus> => getHooksDir().chain((dir) => Future.attemptP(() => statusAt(dir)));
+
+/** Reinstalling rewrites the script in place, so stale fallback paths heal. */
+const installCommitHook = (): Future<Error, HookInstallResult> =>
+  getHooksDir().chain((dir) =>
+    Future.attemptP(async () => {
+      const path = join(dir, HOOK_NAME);
+      const chainedPath = join(dir, CHAINED_HOOK_NAME);
+      await mkdir(dir, { recursive: true });
+      const status = await statusAt(dir);
+      switch (status.type) {
+        case "installed":
+        case "absent":
+          await writeHook(path);
+          return { path, chained: status.type === "installed" && status.chained };
+        case "foreign":
+          if (await exists(chainedPath)) {
+            throw new Error(`Cannot chain the existing ${HOOK_NAME} hook: ${chainedPath} already exists. Move one of them away first.`);
+          }
+          await rename(path, chainedPath);
+          await writeHook(path);
+          return { path, chained: true };
+        default:
+          return absurd(status, "CommitHookStatus");
+      }
+    })
+  );
+
+const uninstallCommitHook = (): Future<Error, HookUninstallResult> =>
+  getHooksDir().chain((dir) =>
+    Future.attemptP(async () => {
+      const path = join(dir, HOOK_NAME);
+      const status = await statusAt(dir);
+      switch (status.type) {
+        case "absent":
+          throw new Error(`No ${HOOK_NAME} hook is installed in ${dir}.`);
+        case "foreign":
+          throw new Error(`${path} was not installed by commit-tools; leaving it alone.`);
+        case "installed":
+          await rm(path, { force: true });
+          if (status.chained) await rename(join(dir, CHAINED_HOOK_NAME), path);
+          return { path, restored: status.chained };
+        default:
+          return absurd(status, "CommitHookStatus");
+      }
+    })
+  );
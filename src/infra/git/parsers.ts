@@ -9,6 +9,12 @@ export {
   splitCommitFields,
   commandFailureMessage,
   parseHookInterpreter,
+  parseHistoryLog,
+  HISTORY_LOG_FORMAT,
+  parseRangeLog,
+  RANGE_LOG_FORMAT,
+  parseShortlog,
+  parseStatusPorcelain,
   CREATED_FROM_RE,
   COMMIT_KEYS,
   type BaseLookupError
@@ -17,6 +23,10 @@ export {
 import { Just, Nothing, type Maybe } from "@/libs/maybe";
 import { type Result, Success, Failure } from "@/libs/result";
 import { type CommandFailure } from "@/infra/shell";
+import { type HistoryExample } from "@/domain/commit/history";
+import { type RangeCommit } from "@/domain/commit/reword";
+import { type Contributor } from "@/domain/commit/co-authors";
+import { type ChangeKind, type WorkingChange } from "@/domain/staging/changes";
 
 type PushRange = { before: string; after: string };
 
@@ -81,3 +91,77 @@ const splitCommitFields = (stdout: string): Result<string, Record<string, unknow
       Success(Object.fromEntries(COMMIT_KEYS.map((k, i) => [k, parts[i]])))
     : Failure(`expected ${COMMIT_KEYS.length} fields, got ${parts.length}`);
 };
+
+/** Record separator before each commit, unit separators between fields; `--name-only` appends the paths after the last one. */
+const HISTORY_LOG_FORMAT = "%x1e%s%x1f%b%x1f";
+
+const parseHistoryLog = (stdout: string): HistoryExample[] =>
+  stdout
+    .split("\x1e")
+    .filter((record) => record.trim() !== "")
+    .map((record) => {
+      const [subject = "", body = "", names = ""] = record.split("\x1f");
+      return { subject, body, files: names.split("\n").filter((line) => line.trim() !== "") };
+    });
+
+const RANGE_LOG_FORMAT = "%x1e%H%x1f%P%x1f%B";
+
+const parseRangeLog = (stdout: string): RangeCommit[] =>
+  stdout
+    .split("\x1e")
+    .filter((record) => record.trim() !== "")
+    .map((record) => {
+      const [hash = "", parents = "", message = ""] = record.split("\x1f");
+      return { hash: hash.trim(), parents: parents.split(" ").filter((parent) => parent !== ""), message: message.trim() };
+    });
+
+const SHORTLOG_LINE_RE = /^\s*\d+\t(.+?)\s*<([^<>\s]*)>\s*$/;
+
+/** `git shortlog -sne` output, most commits first; an email seen under several names keeps the busiest one. */
+const parseShortlog = (stdout: string): Contributor[] =>
+  stdout
+    .split("\n")
+    .flatMap((line): Contributor[] => {
+      const m = SHORTLOG_LINE_RE.exec(line);
+      return m?.[1] !== undefined && m[2] ? [{ name: m[1], email: m[2] }] : [];
+    })
+    .filter((contributor, i, all) => all.findIndex((other) => other.email.toLowerCase() === contributor.email.toLowerCase()) === i);
+
+// Both sides changed the path in a merge: the `XY` pairs git uses for unmerged entries.
+const UNMERGED = new Set(["DD", "AU", "UD", "UA", "DU", "AA", "UU"]);
+
+const changeKindOf = (xy: string): Maybe<ChangeKind> => {
+  if (xy === "??") return Just("untracked");
+  if (UNMERGED.has(xy)) return Just("conflicted");
+  switch (xy[1]) {
+    case "M":
+    case "T":
+      return Just("modified");
+    case "D":
+      return Just("deleted");
+    default:
+      return Nothing();
+  }
+};
+
+/**
+ * `git status --porcelain=v1 -z` down to the paths with work left to stage. Renames and copies carry their
+ * source path as an extra field, which is skipped; paths already fully staged are left out.
+ */
+const parseStatusPorcelain = (stdout: string): WorkingChange[] => {
+  const fields = stdout.split("\0");
+  const changes: WorkingChange[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const entry = fields[i] ?? "";
+    if (entry.length < 4) continue;
+    const xy = entry.slice(0, 2);
+    if (xy[0] === "R" || xy[0] === "C") i++;
+    const path = entry.slice(3);
+    changes.push(
+      ...changeKindOf(xy).maybe<WorkingChange[]>([], (kind) => [
+        { path, kind, partlyStaged: (kind === "modified" || kind === "deleted") && xy[0] !== " " }
+      ])
+    );
+  }
+  return changes;
+};
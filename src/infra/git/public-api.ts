@@ -0,0 +1,55 @@
+export { findPublicApi };
+
+import { Future } from "@/libs/future";
+import { listHeadPaths, readHeadFile } from "@/infra/git/repo";
+import { findWorkspacePackages } from "@/infra/git/workspace";
+import { entryPointsOf, reExportsOf, resolveEntryPoint, resolveImport } from "@/domain/commit/public-api";
+import { posix } from "node:path";
+
+const parseManifest = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const manifestEntries = (tracked: ReadonlySet<string>, dir: string): Future<Error, readonly string[]> => {
+  const manifest = posix.join(dir, "package.json");
+  return tracked.has(manifest) ?
+      readHeadFile(manifest).map((text) =>
+        entryPointsOf(parseManifest(text), dir).flatMap((entry) => resolveEntryPoint(entry, tracked).maybe<string[]>([], (found) => [found]))
+      )
+    : Future.resolve([]);
+};
+
+/** Breadth first through relative re-exports; `seen` already holds `frontier`, and every file is read once. */
+const followReExports = (tracked: ReadonlySet<string>, seen: ReadonlySet<string>, frontier: readonly string[]): Future<Error, readonly string[]> =>
+  frontier.length === 0 ?
+    Future.resolve([...seen])
+  : Future.traverse(
+      (path: string) =>
+        readHeadFile(path).map((source) =>
+          reExportsOf(source).flatMap((specifier) => resolveImport(path, specifier, tracked).maybe<string[]>([], (found) => [found]))
+        ),
+      [...frontier]
+    ).chain((found) => {
+      const next = [...new Set(found.flat())].filter((path) => !seen.has(path));
+      return followReExports(tracked, new Set([...seen, ...next]), next);
+    });
+
+/**
+ * The files HEAD publishes: the entry points of the root and workspace manifests and the modules they
+ * re-export. Read from HEAD because a breaking change breaks what was public before it. An application
+ * whose manifests declare no entry points has no public API.
+ */
+const findPublicApi = (): Future<Error, readonly string[]> =>
+  Future.both(listHeadPaths(), findWorkspacePackages())
+    .chain(([paths, packages]) => {
+      const tracked = new Set(paths);
+      return Future.traverse((dir: string) => manifestEntries(tracked, dir), [".", ...packages.map((pkg) => pkg.dir)]).chain((entries) => {
+        const roots = [...new Set(entries.flat())];
+        return followReExports(tracked, new Set(roots), roots);
+      });
+    })
+    .chainRej(() => Future.resolve<Error, readonly string[]>([]));
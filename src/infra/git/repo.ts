@@ -1,10 +1,37 @@
 export {
   checkIsGitRepo,
+  getWorkTreeRoot,
   getStagedDiff,
   listStagedPaths,
+  listIndexedPaths,
+  listHeadPaths,
+  readHeadFile,
+  listWorkingChanges,
+  hasTrackedChanges,
+  stagePaths,
+  unstagePaths,
+  getUnstagedFileDiff,
+  getStagedFileDiff,
+  applyToIndex,
+  getAmendDiff,
+  getHeadMessage,
+  isHeadPushed,
+  listRangeCommits,
+  listRangeHashesNotIn,
+  getCommitDiff,
+  performReword,
+  verifyCommits,
+  findGitConfig,
+  getGitEditor,
   getLocalChangeContext,
   createAndSwitchBranch,
+  getHooksDir,
+  getGitDir,
+  resolveCommit,
+  getCommitHistory,
+  listContributors,
   performCommit,
+  performAmend,
   performPush,
   getCurrentBranch,
   findCurrentBranch,
@@ -19,6 +46,8 @@ export {
   findTrackingRemoteUrl,
   NO_LOCAL_CHANGES_MESSAGE,
   isNoLocalChangesError,
+  NO_STAGED_CHANGES_MESSAGE,
+  isNoStagedChangesError,
   type CommitMetadata,
   type PushResult,
   type PushRange
@@ -28,12 +57,13 @@ import { Future } from "@/libs/future";
 import { Just, Nothing, type Maybe } from "@/libs/maybe";
 import { type Result, Failure, Success } from "@/libs/result";
 import { absurd } from "@/libs/types";
+import { shellQuote } from "@/libs/shell";
 import { type BaseLookupError } from "@/infra/git/parsers";
 import { execBin, type CommandFailure, type ExecResult } from "@/infra/shell";
 import { spawn } from "node:child_process";
 import * as Decoder from "@/libs/json/decoder";
 import { constants as fsConstants } from "node:fs";
-import { access, chmod, copyFile, cp, lstat, mkdir, readdir, readFile, readlink, rm, symlink, unlink, writeFile } from "node:fs/promises";
+import { access, chmod, copyFile, cp, lstat, mkdir, mkdtemp, readdir, readFile, readlink, rm, symlink, unlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { dirname, isAbsolute, join } from "node:path";
 import {
@@ -43,8 +73,20 @@ import {
   parseRemoteFromUpstream,
   splitCommitFields,
   commandFailureMessage,
-  parseHookInterpreter
+  parseHookInterpreter,
+  parseHistoryLog,
+  HISTORY_LOG_FORMAT,
+  parseRangeLog,
+  RANGE_LOG_FORMAT,
+  parseShortlog,
+  parseStatusPorcelain
 } from "@/infra/git/parsers";
+import { type HistoryExample } from "@/domain/commit/history";
+import { renderRewordTodo, type RangeCommit } from "@/domain/commit/reword";
+import { type Contributor } from "@/domain/commit/co-authors";
+import { type WorkingChange } from "@/domain/staging/changes";
+import { type HunkPatch } from "@/domain/split/hunks";
+import { VERIFY_TIMEOUT_MS, timedOutNote, type PlannedCommit, type VerifyRun } from "@/domain/split/verify";
 
 type CommitMetadata = {
   hash: string;
@@ -72,11 +114,15 @@ const execGitChecked = (args: string[], fallbackMsg: string, env?: NodeJS.Proces
 
 const splitNulPaths = (stdout: string): readonly string[] => stdout.split("\0").filter((p) => p.length > 0);
 
+const NO_STAGED_CHANGES_MESSAGE = "No staged changes found";
+
+const isNoStagedChangesError = (err: unknown): err is Error => err instanceof Error && err.message === NO_STAGED_CHANGES_MESSAGE;
+
 const checkIsGitRepo = (): Future<Error, void> => execGitChecked(["rev-parse", "--is-inside-work-tree"], "Not a git repository").map(() => {});
 
 const getStagedDiff = (): Future<Error, string> =>
   execGitChecked(["diff", "--staged"], "Failed to get staged changes").chain((stdout) =>
-    stdout.trim() ? Future.resolve<Error, string>(stdout) : Future.reject<Error, string>(new Error("No staged changes found"))
+    stdout.trim() ? Future.resolve<Error, string>(stdout) : Future.reject<Error, string>(new Error(NO_STAGED_CHANGES_MESSAGE))
   );
 
 const listStagedPaths = (): Future<Error, readonly string[]> =>
@@ -84,9 +130,129 @@ const listStagedPaths = (): Future<Error, readonly string[]> =>
     const files = splitNulPaths(stdout);
     return files.length > 0 ?
         Future.resolve<Error, readonly string[]>(files)
-      : Future.reject<Error, readonly string[]>(new Error("No staged changes found"));
+      : Future.reject<Error, readonly string[]>(new Error(NO_STAGED_CHANGES_MESSAGE));
+  });
+
+/** Git's empty tree object: the parent to diff a root commit against. */
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+const getAmendBase = (): Future<Error, string> =>
+  resolveCommit("HEAD")
+    .mapRej(() => new Error("Nothing to amend: there is no commit yet"))
+    .chain(() => resolveCommit("HEAD^").chainRej(() => Future.resolve<Error, string>(EMPTY_TREE)));
+
+/** What `git commit --amend` would record: the last commit's changes plus anything staged since. */
+const getAmendDiff = (): Future<Error, string> =>
+  getAmendBase().chain((base) =>
+    execGitChecked(["diff", "--staged", base], "Failed to diff the last commit").chain((stdout) =>
+      stdout.trim() ?
+        Future.resolve<Error, string>(stdout)
+      : Future.reject<Error, string>(new Error("The last commit and the index have no changes to describe"))
+    )
+  );
+
+const getHeadMessage = (): Future<Error, string> =>
+  execGitChecked(["log", "-1", "--format=%B", "HEAD"], "Failed to read the last commit message").map((s) => s.trim());
+
+/** False without an upstream; otherwise whether the upstream already contains HEAD. */
+const isHeadPushed = (): Future<Error, boolean> =>
+  execBin("git", ["merge-base", "--is-ancestor", "HEAD", "@{u}"]).map((result) =>
+    result.either(
+      () => false,
+      () => true
+    )
+  );
+
+/** Oldest first, so the order matches a rebase todo. */
+const listRangeCommits = (range: string): Future<Error, RangeCommit[]> =>
+  execGitChecked(["log", "--reverse", `--format=${RANGE_LOG_FORMAT}`, range, "--"], `Failed to list commits in '${range}'`).map(parseRangeLog);
+
+const listRangeHashesNotIn = (range: string, ref: string): Future<Error, ReadonlySet<string>> =>
+  execGitChecked(["rev-list", range, "--not", ref, "--"], `Failed to compare '${range}' with '${ref}'`).map(
+    (stdout): ReadonlySet<string> => new Set(stdout.split("\n").filter((line) => line.trim() !== ""))
+  );
+
+/** The change a single commit introduced; a root commit diffs against the empty tree. */
+const getCommitDiff = (hash: string): Future<Error, string> =>
+  execGitChecked(["show", "--format=", "--no-ext-diff", hash, "--"], `Failed to read commit ${hash}`);
+
+/** `Nothing` when the key is unset; `git config` exits 1 for that. */
+const findGitConfig = (key: string): Future<Error, Maybe<string>> =>
+  execGitChecked(["config", "--get", key], `Failed to read git config '${key}'`)
+    .map((value): Maybe<string> => Just(value.trim()))
+    .chainRej(() => Future.resolve<Error, Maybe<string>>(Nothing()));
+
+/** Git's own choice of editor: `GIT_EDITOR`, `core.editor`, `VISUAL`, `EDITOR`, then its built-in default. */
+const getGitEditor = (): Future<Error, string> => execGitChecked(["var", "GIT_EDITOR"], "Failed to resolve git editor").map((s) => s.trim());
+
+/** Every index entry (tracked or newly staged), relative to the work tree root. */
+const listIndexedPaths = (): Future<Error, readonly string[]> =>
+  getWorkTreeRoot().chain((root) =>
+    execGitChecked(["-C", root, "ls-files", "-z"], "Failed to list indexed files").map((stdout): readonly string[] => splitNulPaths(stdout))
+  );
+
+/** The files HEAD tracks; none on an unborn branch. */
+const listHeadPaths = (): Future<Error, readonly string[]> =>
+  getWorkTreeRoot().chain((root) =>
+    execBin("git", ["-C", root, "ls-tree", "-r", "-z", "--name-only", "HEAD"]).map((result) =>
+      result.either(
+        (): readonly string[] => [],
+        ({ stdout }) => splitNulPaths(stdout)
+      )
+    )
+  );
+
+const readHeadFile = (path: string): Future<Error, string> =>
+  getWorkTreeRoot().chain((root) => execGitChecked(["-C", root, "show", `HEAD:${path}`], `Failed to read ${path} at HEAD`));
+
+/** Paths with work left to stage, untracked files included, relative to the work tree root like every path below. */
+const listWorkingChanges = (): Future<Error, readonly WorkingChange[]> =>
+  getWorkTreeRoot().chain((root) =>
+    execGitChecked(["-C", root, "status", "--porcelain=v1", "-z", "--untracked-files=all"], "Failed to read git status").map(parseStatusPorcelain)
+  );
+
+/** Staged or unstaged edits to tracked files, the changes that keep `git rebase` from starting; untracked files do not count. */
+const hasTrackedChanges = (): Future<Error, boolean> =>
+  getWorkTreeRoot().chain((root) =>
+    execGitChecked(["-C", root, "status", "--porcelain=v1", "--untracked-files=no"], "Failed to read git status").map(
+      (stdout) => stdout.trim().length > 0
+    )
+  );
+
+/** Whole files, deletions included. */
+const stagePaths = (paths: readonly string[]): Future<Error, void> =>
+  paths.length === 0 ?
+    Future.resolve(undefined)
+  : getWorkTreeRoot().chain((root) => execGitChecked(["-C", root, "add", "-A", "--", ...paths], "Failed to stage files").map(() => {}));
+
+/** Puts the index entries of `paths` back to HEAD; the work tree keeps the changes. */
+const unstagePaths = (paths: readonly string[]): Future<Error, void> =>
+  paths.length === 0 ? Future.resolve(undefined) : getWorkTreeRoot().chain((root) => reconcileCommittedIndex(root, paths));
+
+/** What is left to stage of one tracked file: the work tree against the index. */
+const getUnstagedFileDiff = (path: string): Future<Error, string> =>
+  getWorkTreeRoot().chain((root) => execGitChecked(["-C", root, "diff", "--no-ext-diff", "--no-color", "--", path], `Failed to diff '${path}'`));
+
+/** One staged file against HEAD, renames split into a deletion and an addition as in `listStagedPathsNoRenames`. */
+const getStagedFileDiff = (path: string): Future<Error, string> =>
+  getWorkTreeRoot().chain((root) =>
+    execGitChecked(["-C", root, "diff", "--staged", "--no-ext-diff", "--no-color", "--no-renames", "--", path], `Failed to diff '${path}'`)
+  );
+
+/** `--cached` applies to the index only, `--index` to the index and the work tree. */
+const applyPatchFile = (root: string, target: "--cached" | "--index", patch: string, failMsg: string, env?: NodeJS.ProcessEnv): Future<Error, void> =>
+  Future.attemptP(() => mkdtemp(join(tmpdir(), "commit-tools-patch-"))).chain((dir) => {
+    const file = join(dir, "staged.patch");
+    return Future.attemptP(() => writeFile(file, patch))
+      .chain(() => execGitChecked(["-C", root, "apply", target, file], failMsg, env))
+      .map(() => {})
+      .finally(Future.attemptP(() => rm(dir, { recursive: true, force: true })));
   });
 
+/** Stages a patch the way `git add -p` does: the index takes it, the work tree is left alone. */
+const applyToIndex = (patch: string): Future<Error, void> =>
+  getWorkTreeRoot().chain((root) => applyPatchFile(root, "--cached", patch, "Failed to stage the picked hunks"));
+
 const NO_LOCAL_CHANGES_MESSAGE = "No local changes to infer a branch name from";
 
 const isNoLocalChangesError = (err: unknown): err is Error => err instanceof Error && err.message === NO_LOCAL_CHANGES_MESSAGE;
@@ -124,7 +290,23 @@ const resolveHooksDir = (root: string): Future<Error, string> =>
     return isAbsolute(trimmed) ? trimmed : join(root, trimmed);
   });
 
-const shellSingleQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+const getHooksDir = (): Future<Error, string> => getWorkTreeRoot().chain(resolveHooksDir);
+
+/** Per-worktree `.git` directory, for tool state that must never be committed. */
+const getGitDir = (): Future<Error, string> =>
+  execGitChecked(["rev-parse", "--absolute-git-dir"], "Failed to resolve git directory").map((s) => s.trim());
+
+const resolveCommit = (ref: string): Future<Error, string> =>
+  execGitChecked(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], `Unknown revision '${ref}'`).map((s) => s.trim());
+
+const getCommitHistory = (ref: string, limit: number): Future<Error, HistoryExample[]> =>
+  execGitChecked(["log", ref, "--no-merges", `-n${limit}`, `--format=${HISTORY_LOG_FORMAT}`, "--name-only"], `Failed to read history of '${ref}'`).map(
+    parseHistoryLog
+  );
+
+/** Authors of HEAD's history with `.mailmap` applied, most commits first. */
+const listContributors = (): Future<Error, Contributor[]> =>
+  execGitChecked(["shortlog", "-sne", "HEAD", "--"], "Failed to list contributors").map(parseShortlog);
 
 const copyHookEntry = async (src: string, dest: string): Promise<void> => {
   const st = await lstat(src);
@@ -134,7 +316,7 @@ const copyHookEntry = async (src: string, dest: string): Promise<void> => {
     await Promise.all(names.map((name) => copyHookEntry(join(src, name), join(dest, name))));
     return;
   }
-  await writeFile(dest, `#!/bin/sh\nexec ${shellSingleQuote(src)} "$@"\n`);
+  await writeFile(dest, `#!/bin/sh\nexec ${shellQuote(src)} "$@"\n`);
   await chmod(dest, st.mode);
 };
 
@@ -490,17 +672,35 @@ const finishIsolatedCommit = (root: string, paths: readonly string[], result: Ex
     () => reconcileCommittedIndex(root, paths).map(() => result)
   );
 
-const isolateAndCommit = (root: string, messageFile: string, tmpIndex: string, paths: readonly string[]): Future<Error, ExecResult> =>
+/** Each patch goes onto the HEAD version of its file, which `resetIndexPaths` has just put back. */
+const applyIndexPatches = (root: string, tmpIndex: string, patches: readonly HunkPatch[]): Future<Error, void> =>
+  Future.traverse(
+    ({ path, patch }) => applyPatchFile(root, "--cached", patch, `Failed to stage the planned hunks of '${path}'`, indexEnv(tmpIndex)),
+    [...patches]
+  ).map(() => {});
+
+/**
+ * Files in `patches` are left staged in the real index after the commit: the commit took only part of them,
+ * and the index now differs from the new HEAD by the rest.
+ */
+const isolateAndCommit = (
+  root: string,
+  messageFile: string,
+  tmpIndex: string,
+  paths: readonly string[],
+  patches: readonly HunkPatch[]
+): Future<Error, ExecResult> =>
   listStagedPathsNoRenames(root).chain((staged) => {
     const stagedSet = new Set(staged);
     const keep = new Set(paths.filter((path) => stagedSet.has(path)));
-    if (keep.size === 0) {
+    if (keep.size === 0 && patches.length === 0) {
       return Future.resolve<Error, ExecResult>(Success({ stdout: "", stderr: "" }));
     }
     const unselected = staged.filter((path) => !keep.has(path));
-    return resetIndexPaths(root, tmpIndex, unselected, keep).chain(() =>
-      commitIsolatedIndex(root, messageFile, tmpIndex, [...keep]).chain((result) => finishIsolatedCommit(root, [...keep], result))
-    );
+    const selected = [...keep, ...patches.map((patch) => patch.path)];
+    return resetIndexPaths(root, tmpIndex, unselected, keep)
+      .chain(() => applyIndexPatches(root, tmpIndex, patches))
+      .chain(() => commitIsolatedIndex(root, messageFile, tmpIndex, selected).chain((result) => finishIsolatedCommit(root, [...keep], result)));
   });
 
 const SEQUENCER_REFS = ["MERGE_HEAD", "REBASE_HEAD", "CHERRY_PICK_HEAD", "REVERT_HEAD"] as const;
@@ -527,25 +727,25 @@ const rejectIfSequencerInProgress = (root: string): Future<Error, void> =>
     : rejectIfUnmergedPaths(root)
   );
 
-const commitIsolatedPaths = (root: string, messageFile: string, paths: readonly string[]): Future<Error, ExecResult> => {
+const commitIsolatedPaths = (root: string, messageFile: string, paths: readonly string[], patches: readonly HunkPatch[]): Future<Error, ExecResult> => {
   const tmpIndex = join(tmpdir(), `commit-index-${Date.now()}`);
   return rejectIfSequencerInProgress(root).chain(() =>
     Future.bracket(
       copyIndexFile(root, tmpIndex),
       () => Future.attemptP(() => unlink(tmpIndex).catch(() => {})),
-      () => isolateAndCommit(root, messageFile, tmpIndex, paths)
+      () => isolateAndCommit(root, messageFile, tmpIndex, paths, patches)
     )
   );
 };
 
-const performCommit = (message: string, paths: readonly string[] = []): Future<Error, string> => {
+const commitFromFile = (message: string, run: (root: string, messageFile: string) => Future<Error, ExecResult>): Future<Error, string> => {
   const tmpPath = join(tmpdir(), `commit-msg-${Date.now()}.txt`);
   return getWorkTreeRoot()
     .chain((root) =>
       Future.bracket(
         Future.attemptP(() => writeFile(tmpPath, message, "utf-8")),
         () => Future.attemptP(() => unlink(tmpPath).catch(() => {})),
-        () => (paths.length > 0 ? commitIsolatedPaths(root, tmpPath, paths) : execBin("git", ["-C", root, "commit", "-F", tmpPath]))
+        () => run(root, tmpPath)
       )
     )
     .chain((result) =>
@@ -556,6 +756,213 @@ const performCommit = (message: string, paths: readonly string[] = []): Future<E
     );
 };
 
+/** With `paths` or `patches`, commits only those out of everything staged; `patches` take part of a file each. */
+const performCommit = (message: string, paths: readonly string[] = [], patches: readonly HunkPatch[] = []): Future<Error, string> =>
+  commitFromFile(message, (root, messageFile) =>
+    paths.length > 0 || patches.length > 0 ?
+      commitIsolatedPaths(root, messageFile, paths, patches)
+    : execBin("git", ["-C", root, "commit", "-F", messageFile])
+  );
+
+/** Replaces HEAD with `message`, folding in whatever is staged. */
+const performAmend = (message: string): Future<Error, string> =>
+  commitFromFile(message, (root, messageFile) => execBin("git", ["-C", root, "commit", "--amend", "-F", messageFile]));
+
+const REBASE_STATE_DIRS = ["rebase-merge", "rebase-apply"] as const;
+
+const gitPathExists = (root: string, name: string): Future<Error, boolean> =>
+  execGitChecked(["-C", root, "rev-parse", "--git-path", name], `Failed to resolve ${name}`).chain((path) =>
+    Future.attemptP(() => access(isAbsolute(path.trim()) ? path.trim() : join(root, path.trim())))
+      .map(() => true)
+      .chainRej(() => Future.resolve<Error, boolean>(false))
+  );
+
+/** Checked up front, because a failed reword aborts its rebase and must never abort one the user started. */
+const rebaseInProgress = (root: string): Future<Error, boolean> =>
+  Future.traverse((name) => gitPathExists(root, name), [...REBASE_STATE_DIRS]).map((present) => present.some(Boolean));
+
+const rejectIfRebaseInProgress = (root: string): Future<Error, void> =>
+  rebaseInProgress(root).chain((inProgress) =>
+    inProgress ?
+      Future.reject<Error, void>(new Error("A rebase is already in progress; finish it with `git rebase --continue` or run `git rebase --abort` first"))
+    : Future.resolve<Error, void>(undefined)
+  );
+
+const runRewordRebase = (root: string, dir: string, commits: readonly RangeCommit[], messages: ReadonlyMap<string, string>): Future<Error, void> => {
+  const files = new Map([...messages.keys()].map((hash, i) => [hash, join(dir, `message-${i}.txt`)]));
+  const todoPath = join(dir, "git-rebase-todo");
+  const onto = commits[0]?.parents[0];
+  return Future.attemptP(async () => {
+    await Promise.all([...files].map(([hash, path]) => writeFile(path, messages.get(hash) ?? "", "utf-8")));
+    await writeFile(todoPath, renderRewordTodo(commits, files), "utf-8");
+  })
+    .chain(() =>
+      execBin("git", ["-C", root, "rebase", "-i", ...(onto === undefined ? ["--root"] : [onto])], {
+        GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoPath)}`,
+        GIT_EDITOR: "true"
+      })
+    )
+    .chain((result) =>
+      result.either(
+        (failure) =>
+          execBin("git", ["-C", root, "rebase", "--abort"])
+            .chain(() => rebaseInProgress(root))
+            .chain((stuck) =>
+              Future.reject<Error, void>(
+                new Error(
+                  commandFailureMessage(
+                    failure,
+                    stuck ?
+                      "Reword failed mid-rebase and the rebase could not be aborted; run `git rebase --abort` to put the branch back as it was"
+                    : "Reword failed; the branch was left as it was"
+                  )
+                )
+              )
+            ),
+        () => Future.resolve<Error, void>(undefined)
+      )
+    );
+};
+
+/**
+ * Rewrites the messages of `commits` (a linear range ending at HEAD) without opening an editor:
+ * a scripted `git rebase -i` picks every commit and amends the ones listed in `messages`.
+ */
+const performReword = (commits: readonly RangeCommit[], messages: ReadonlyMap<string, string>): Future<Error, void> =>
+  getWorkTreeRoot().chain((root) =>
+    rejectIfRebaseInProgress(root).chain(() =>
+      Future.attemptP(() => mkdtemp(join(tmpdir(), "commit-tools-reword-"))).chain((dir) =>
+        runRewordRebase(root, dir, commits, messages).finally(Future.attemptP(() => rm(dir, { recursive: true, force: true })))
+      )
+    )
+  );
+
+/** A fresh worktree has no installed dependencies; the clone's own `node_modules` is linked in when there is one. */
+const linkDependencies = (root: string, tree: string): Future<Error, void> =>
+  Future.attemptP(() => access(join(root, "node_modules")))
+    .chain(() => Future.attemptP(() => symlink(join(root, "node_modules"), join(tree, "node_modules"), "junction")))
+    .chainRej(() => Future.resolve<Error, void>(undefined));
+
+const replayCommit = (root: string, tree: string, commit: PlannedCommit): Future<Error, void> =>
+  (commit.files.length === 0 ?
+    Future.resolve<Error, string>("")
+  : execGitChecked(["-C", root, "diff", "--staged", "--binary", "--no-renames", "--", ...commit.files], "Failed to diff the planned files")
+  )
+    .chain((whole) =>
+      whole === "" ? Future.resolve<Error, void>(undefined) : applyPatchFile(tree, "--index", whole, "Failed to replay the planned files")
+    )
+    .chain(() =>
+      Future.traverse(({ path, patch }) => applyPatchFile(tree, "--index", patch, `Failed to replay the planned hunks of '${path}'`), [...commit.patches])
+    )
+    .map(() => {});
+
+type VerifyLimits = { readonly signal: AbortSignal; readonly timeoutMs: number };
+
+type CommandRun =
+  | { readonly type: "exited"; readonly code: number | null; readonly output: string }
+  | { readonly type: "stopped"; readonly by: "timeout" | "cancel"; readonly output: string };
+
+// What a command that ignores SIGTERM gets once this grace period is over.
+const KILL_GRACE_MS = 5000;
+
+/**
+ * `sh -c` in its own process group, so the timeout or a cancel also stops what the command started, such as the
+ * test runner behind `npm test`. Detached, it does not get the terminal's Ctrl+C either: only the signal stops it.
+ */
+const runVerifyCommand = (command: string, cwd: string, limits: VerifyLimits): Future<Error, CommandRun> =>
+  Future.create<Error, CommandRun>((reject, resolve) => {
+    const proc = spawn("sh", ["-c", command], { cwd, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+    let output = "";
+    let stoppedBy: "timeout" | "cancel" | undefined;
+
+    const killGroup = (signal: NodeJS.Signals): void => {
+      try {
+        if (proc.pid !== undefined) process.kill(-proc.pid, signal);
+      } catch {
+        // The group is already gone.
+      }
+    };
+    const stop = (by: "timeout" | "cancel"): void => {
+      stoppedBy ??= by;
+      killGroup("SIGTERM");
+      setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS).unref();
+    };
+    const onAbort = (): void => stop("cancel");
+    const timer = setTimeout(() => stop("timeout"), limits.timeoutMs);
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      limits.signal.removeEventListener("abort", onAbort);
+    };
+
+    if (limits.signal.aborted) stop("cancel");
+    else limits.signal.addEventListener("abort", onAbort, { once: true });
+    proc.stdout.on("data", (d: Buffer) => (output += d.toString()));
+    proc.stderr.on("data", (d: Buffer) => (output += d.toString()));
+    proc.on("error", (err) => {
+      cleanup();
+      reject(new Error(`Failed to start verify_command: ${err.message}`));
+    });
+    proc.on("close", (code) => {
+      cleanup();
+      resolve(stoppedBy === undefined ? { type: "exited", code, output } : { type: "stopped", by: stoppedBy, output });
+    });
+
+    return () => stop("cancel");
+  });
+
+const verifyFrom = (
+  root: string,
+  tree: string,
+  command: string,
+  commits: readonly PlannedCommit[],
+  step: number,
+  onStep: (step: number) => void,
+  limits: VerifyLimits
+): Future<Error, VerifyRun> => {
+  const commit = commits[step];
+  if (commit === undefined) return Future.resolve({ type: "passed" });
+  return Future.resolve<Error, void>(undefined)
+    .map(() => onStep(step))
+    .chain(() => replayCommit(root, tree, commit))
+    .chain(() => runVerifyCommand(command, tree, limits))
+    .chain((run): Future<Error, VerifyRun> => {
+      if (run.type === "stopped") {
+        return Future.resolve(
+          run.by === "cancel" ? { type: "cancelled" } : { type: "failed", step, output: `${run.output}${timedOutNote(command, limits.timeoutMs)}` }
+        );
+      }
+      return run.code === 0 ?
+          verifyFrom(root, tree, command, commits, step + 1, onStep, limits)
+        : Future.resolve({ type: "failed", step, output: run.output });
+    });
+};
+
+/**
+ * Replays `commits` in order in a temporary worktree at HEAD and runs `command` there after each one,
+ * through `sh -c` like git runs its hooks. The real index, work tree and branch are never touched.
+ * A run longer than `timeoutMs` fails that commit; aborting `signal` stops the command and cancels the rest.
+ */
+const verifyCommits = (
+  command: string,
+  commits: readonly PlannedCommit[],
+  onStep: (step: number) => void,
+  signal: AbortSignal,
+  timeoutMs: number = VERIFY_TIMEOUT_MS
+): Future<Error, VerifyRun> =>
+  getWorkTreeRoot().chain((root) =>
+    Future.attemptP(() => mkdtemp(join(tmpdir(), "commit-tools-verify-"))).chain((dir) => {
+      const tree = join(dir, "tree");
+      return execGitChecked(["-C", root, "worktree", "add", "--detach", "--quiet", tree, "HEAD"], "Failed to create a worktree to verify in")
+        .chain(() => linkDependencies(root, tree))
+        .chain(() => verifyFrom(root, tree, command, commits, 0, onStep, { signal, timeoutMs }))
+        .finally(
+          execBin("git", ["-C", root, "worktree", "remove", "--force", tree]).chain(() =>
+            Future.attemptP(() => rm(dir, { recursive: true, force: true }))
+          )
+        );
+    })
+  );
+
 const performPush = (branch?: string, publish = false, forceWithLease = false): Future<Error, PushResult> => {
   const args = publish && branch ? ["push", "--set-upstream", "origin", branch] : ["push"];
   if (forceWithLease) args.push("--force-with-lease");
@@ -0,0 +1,42 @@
+export { styleGuideFor };
+
+import { Future } from "@/libs/future";
+import { Nothing, type Maybe } from "@/libs/maybe";
+import { type Config } from "@/domain/config/config";
+import { type CommitlintRules } from "@/domain/commit/commitlint";
+import { type StyleGuide } from "@/domain/commit/style-guide";
+import { historyExamplesFor } from "@/infra/git/history";
+import { findCommitlintRules } from "@/infra/git/commitlint";
+import { findWorkspacePackages } from "@/infra/git/workspace";
+import { findPublicApi } from "@/infra/git/public-api";
+import { type WorkspacePackage } from "@/domain/commit/workspace";
+
+/**
+ * Commitlint only shapes conventional messages, so other conventions never load its config.
+ * A config that cannot be read is reported through `warn` and then ignored rather than blocking the commit.
+ */
+const commitlintRulesFor = (config: Config, warn: (message: string) => void): Future<Error, Maybe<CommitlintRules>> =>
+  config.commit_convention === "conventional" ?
+    findCommitlintRules()
+      .map((found) => found.map(({ rules }) => rules))
+      .chainRej((err) => {
+        warn(`Ignoring commitlint config: ${err.message}`);
+        return Future.resolve<Error, Maybe<CommitlintRules>>(Nothing());
+      })
+  : Future.resolve<Error, Maybe<CommitlintRules>>(Nothing());
+
+/** Packages become scopes in conventional messages and commit boundaries in split plans; nothing else uses them. */
+const workspacePackagesFor = (config: Config): Future<Error, readonly WorkspacePackage[]> =>
+  config.commit_convention === "conventional" || config.split_commits ? findWorkspacePackages() : Future.resolve<Error, readonly WorkspacePackage[]>([]);
+
+/** Only conventional messages mark breaking changes, and `detect_breaking_changes` turns looking for them off. */
+const publicApiFor = (config: Config): Future<Error, readonly string[]> =>
+  config.commit_convention === "conventional" && config.detect_breaking_changes ? findPublicApi() : Future.resolve<Error, readonly string[]>([]);
+
+const styleGuideFor = (config: Config, warn: (message: string) => void): Future<Error, StyleGuide> =>
+  Future.concurrently<Error, Omit<StyleGuide, "language" | "gitmojiStyle" | "breaking">>({
+    history: historyExamplesFor(config),
+    commitlint: commitlintRulesFor(config, warn),
+    packages: workspacePackagesFor(config),
+    publicApi: publicApiFor(config)
+  }).map((found) => ({ ...found, language: config.language, gitmojiStyle: config.gitmoji_style, breaking: { type: "detect" } }));
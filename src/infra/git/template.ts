@@ -0,0 +1,41 @@
+export { loadTemplateContext, resolveCustomTemplate };
+
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { Success } from "@/libs/result";
+import { type Config } from "@/domain/config/config";
+import { DEFAULT_TICKET_PATTERN, extractTicket, fillTemplate, templatePlaceholders, type TemplateContext } from "@/domain/commit/template";
+
+/** Each value is optional: a detached HEAD has no branch, a fresh clone may have no base branch or `user.name`. */
+const loadTemplateContext = (ticketPattern: string): Future<Error, TemplateContext> =>
+  Future.concurrently<Error, Omit<TemplateContext, "ticket">>({
+    branch: repo.findCurrentBranch().map((branch) => branch.chain((name) => (name === "HEAD" ? Nothing<string>() : Just(name)))),
+    author: repo.findGitConfig("user.name"),
+    baseBranch: repo.findBaseBranch()
+  }).chain((parts) =>
+    parts.branch
+      .maybe(Success<Error, Maybe<string>>(Nothing()), (branch) => extractTicket(branch, ticketPattern))
+      .either(
+        (err) => Future.reject<Error, TemplateContext>(err),
+        (ticket) => Future.resolve<Error, TemplateContext>({ ...parts, ticket })
+      )
+  );
+
+const DIFF_PLACEHOLDERS: ReadonlySet<string> = new Set(["diff", "files", "stats"]);
+
+/**
+ * Fills the repository's values into `custom_template` up front; `{diff}`, `{files}` and `{stats}` stay for
+ * generation time. Templates using only those cost no git calls.
+ */
+const resolveCustomTemplate = (config: Config): Future<Error, Config> =>
+  config.commit_convention === "custom" ?
+    config.custom_template.maybe(Future.resolve<Error, Config>(config), (template) =>
+      templatePlaceholders(template).some((name) => !DIFF_PLACEHOLDERS.has(name)) ?
+        loadTemplateContext(config.ticket_pattern.withDefault(DEFAULT_TICKET_PATTERN)).map(
+          (context): Config => ({ ...config, custom_template: Just(fillTemplate(template, context)) })
+        )
+      : Future.resolve<Error, Config>(config)
+    )
+  : Future.resolve(config);
@@ -0,0 +1,40 @@
+export { VERIFY_TRUST_FILE, isVerifyCommandTrusted, trustVerifyCommand };
+
+import * as s from "@/libs/json/schema";
+import * as repo from "@/infra/git/repo";
+
+import { Future } from "@/libs/future";
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * The repo-supplied `verify_command` the user approved, per clone in the git dir: a pull can change
+ * `.commit-tools.json` but never this file, so a changed command asks again.
+ */
+const VERIFY_TRUST_FILE = "commit-tools-verify-trust.json";
+
+const VerifyTrustFile = s.object({ command: s.string });
+
+const trustPath = (): Future<Error, string> => repo.getGitDir().map((gitDir) => join(gitDir, VERIFY_TRUST_FILE));
+
+/** A missing or unreadable file trusts nothing. */
+const isVerifyCommandTrusted = (command: string): Future<Error, boolean> =>
+  trustPath()
+    .chain((path) => Future.attemptP(() => readFile(path, "utf-8")))
+    .map((raw) => {
+      try {
+        return s.decode(VerifyTrustFile, JSON.parse(raw)).either(
+          () => false,
+          (file) => file.command === command
+        );
+      } catch {
+        return false;
+      }
+    })
+    .chainRej(() => Future.resolve<Error, boolean>(false));
+
+/** Best effort: a read-only git dir only means the user is asked again next time. */
+const trustVerifyCommand = (command: string): Future<Error, void> =>
+  trustPath()
+    .chain((path) => Future.attemptP(() => writeFile(path, JSON.stringify(s.encode(VerifyTrustFile, { command }), null, 2), "utf-8")))
+    .chainRej(() => Future.resolve<Error, void>(undefined));
@@ -0,0 +1,52 @@
+export { findWorkspacePackages, loadWorkspacePackages };
+
+import { Future } from "@/libs/future";
+import { getWorkTreeRoot, listIndexedPaths } from "@/infra/git/repo";
+import { readOptionalFile } from "@/infra/fs";
+import { isWorkspaceDir, packageJsonWorkspaces, parsePnpmWorkspace, type WorkspacePackage } from "@/domain/commit/workspace";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+const readJson = async (path: string): Promise<unknown> => JSON.parse(await readFile(path, "utf-8"));
+
+const readOptional = async (path: string): Promise<string> => (await readOptionalFile(path)).withDefault("");
+
+/** pnpm ignores `package.json` workspaces, so its own file wins whenever it lists any package. */
+const readWorkspacePatterns = async (root: string): Promise<string[]> => {
+  const pnpm = parsePnpmWorkspace(await readOptional(join(root, "pnpm-workspace.yaml")));
+  if (pnpm.length > 0) return pnpm;
+  const pkg = await readOptional(join(root, "package.json"));
+  return pkg === "" ? [] : packageJsonWorkspaces(JSON.parse(pkg));
+};
+
+/** Unnamed (or unreadable) manifests fall back to the directory name, which is what people would type anyway. */
+const readPackage = async (root: string, dir: string): Promise<WorkspacePackage> => {
+  const manifest = await readJson(join(root, dir, "package.json")).catch(() => null);
+  const name =
+    typeof manifest === "object" && manifest !== null && "name" in manifest && typeof manifest.name === "string" ? manifest.name : basename(dir);
+  return { name, dir };
+};
+
+/** Packages come from manifests in the index, so `node_modules` and other untracked trees never count. */
+const loadWorkspacePackages = (): Future<Error, readonly WorkspacePackage[]> =>
+  getWorkTreeRoot().chain((root) =>
+    Future.attemptP(() => readWorkspacePatterns(root)).chain((patterns) =>
+      patterns.length === 0 ?
+        Future.resolve<Error, readonly WorkspacePackage[]>([])
+      : listIndexedPaths().chain((paths) =>
+          Future.attemptP(() =>
+            Promise.all(
+              paths
+                .filter((path) => basename(path) === "package.json")
+                .map((manifest) => dirname(manifest))
+                .filter((dir) => dir !== "." && isWorkspaceDir(patterns, dir))
+                .map((dir) => readPackage(root, dir))
+            )
+          )
+        )
+    )
+  );
+
+/** Scope hints are a nicety: a broken workspace file or a repo outside git just means no hints. */
+const findWorkspacePackages = (): Future<Error, readonly WorkspacePackage[]> =>
+  loadWorkspacePackages().chainRej(() => Future.resolve<Error, readonly WorkspacePackage[]>([]));
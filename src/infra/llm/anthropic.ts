@@ -1,6 +1,7 @@
 export { generateContentWithAnthropic };
 
 import Anthropic from "@anthropic-ai/sdk";
+import { type MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
 
 import { type Config, type AnthropicEffort } from "@/domain/config/config";
 import { type GenerateContentParams, type ProviderGeneratedContent, type TokenUsage } from "@/domain/llm/router";
@@ -45,6 +46,12 @@ const buildParams = (
   return system.maybe(core, (s) => ({ ...core, system: s }));
 };
 
+const readAnthropicStream = (stream: MessageStream, params: GenerateContentParams): Promise<Anthropic.Message> => {
+  const onText = params.onText;
+  if (onText !== undefined) stream.on("text", (_delta, snapshot) => onText(snapshot));
+  return stream.finalMessage();
+};
+
 const buildSetupTokenSystem = (instruction: Maybe<string>): SystemParam =>
   instruction.maybe<Anthropic.TextBlockParam[]>([{ type: "text", text: CLAUDE_CODE_SYSTEM_PROMPT }], (text) => [
     { type: "text", text: CLAUDE_CODE_SYSTEM_PROMPT },
@@ -59,8 +66,7 @@ const callAnthropicWithApiKey = (
 ): Future<Error, ProviderGeneratedContent> =>
   Future.attemptP(async () => {
     const client = new Anthropic({ apiKey, maxRetries: 3, timeout: 120_000 });
-    const stream = client.messages.stream(buildParams(model, fromOptional(params.systemInstruction), effort, params));
-    return await stream.finalMessage();
+    return await readAnthropicStream(client.messages.stream(buildParams(model, fromOptional(params.systemInstruction), effort, params)), params);
   })
     .mapRej((error) => new Error(`Failed to create Anthropic message: ${error instanceof Error ? error.message : String(error)}`, { cause: error }))
     .chain((message) =>
@@ -86,8 +92,7 @@ const callAnthropicWithSetupToken = (
       timeout: 120_000
     });
     const system = Just<SystemParam>(buildSetupTokenSystem(fromOptional(params.systemInstruction)));
-    const stream = client.messages.stream(buildParams(model, system, effort, params));
-    return await stream.finalMessage();
+    return await readAnthropicStream(client.messages.stream(buildParams(model, system, effort, params)), params);
   })
     .mapRej((error) => new Error(`Failed to create Anthropic message: ${error instanceof Error ? error.message : String(error)}`, { cause: error }))
     .chain((message) =>
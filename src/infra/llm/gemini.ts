@@ -1,9 +1,9 @@
 export { type GeminiAuthCredentials, generateContentWithGemini, getAuthCredentials };
 
-import { GoogleGenAI, ThinkingLevel, type GenerateContentConfig, type GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, ThinkingLevel, type GenerateContentConfig, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
 
 import { type Config, type OAuthTokens, type GeminiEffort } from "@/domain/config/config";
-import { type GenerateContentParams, type ProviderGeneratedContent, type TokenUsage } from "@/domain/llm/router";
+import { type GenerateContentParams, type OnText, type ProviderGeneratedContent, type TokenUsage } from "@/domain/llm/router";
 import { Future } from "@/libs/future";
 import { getAccessToken } from "@/infra/auth/google";
 import { Just, Nothing, fromOptional, type Maybe } from "@/libs/maybe";
@@ -30,6 +30,23 @@ const toGeneratedContent = (response: GenerateContentResponse): ProviderGenerate
   effectiveEffort: Nothing()
 });
 
+/** Chunks carry only their own text; usage arrives with the last ones. */
+const readGeminiStream = async (ai: GoogleGenAI, request: GenerateContentParameters, onText: OnText): Promise<ProviderGeneratedContent> => {
+  let text = "";
+  let usage: GenerateContentResponse["usageMetadata"];
+  for await (const chunk of await ai.models.generateContentStream(request)) {
+    text += extractGeminiText(chunk);
+    usage = chunk.usageMetadata ?? usage;
+    onText(text);
+  }
+  return { text, tokens: toTokenUsage(usage), effectiveEffort: Nothing() };
+};
+
+const requestGemini = (ai: GoogleGenAI, model: string, effort: Maybe<GeminiEffort>, params: GenerateContentParams): Promise<ProviderGeneratedContent> => {
+  const request = { model, contents: params.prompt, config: buildSDKConfig(effort, params) };
+  return params.onText === undefined ? ai.models.generateContent(request).then(toGeneratedContent) : readGeminiStream(ai, request, params.onText);
+};
+
 const getAuthCredentials = (config: Config): Maybe<GeminiAuthCredentials> => {
   switch (config.ai.auth_method.type) {
     case "google_oauth":
@@ -80,8 +97,7 @@ const generateContentWithApiKey = (
       apiKey,
       httpOptions: geminiHttpOptions
     });
-    const response = await ai.models.generateContent({ model, contents: params.prompt, config: buildSDKConfig(effort, params) });
-    return toGeneratedContent(response);
+    return await requestGemini(ai, model, effort, params);
   })
     .mapRej((error) => new Error(`Failed to create Gemini content: ${error instanceof Error ? error.message : String(error)}`))
     .chain((content) => extractResponse({ text: fromOptional(content.text) }).map((text) => ({ ...content, text })));
@@ -101,8 +117,7 @@ const generateContentWithOAuth = (
             headers: { Authorization: `Bearer ${accessToken}` }
           }
         });
-        const response = await ai.models.generateContent({ model, contents: params.prompt, config: buildSDKConfig(effort, params) });
-        return toGeneratedContent(response);
+        return await requestGemini(ai, model, effort, params);
       })
     )
       .mapRej((error) => new Error(`Failed to create Gemini content: ${error instanceof Error ? error.message : String(error)}`))
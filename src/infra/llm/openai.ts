@@ -67,6 +67,7 @@ const readOpenAIStream = async (client: OpenAI, model: string, effort: Maybe<Ope
 
   stream.on("response.output_text.delta", (event) => {
     deltaSnapshotText = event.snapshot;
+    params.onText?.(event.snapshot);
   });
 
   stream.on("response.output_text.done", (event) => {
@@ -3,7 +3,7 @@ export { generateContentWithXai };
 import OpenAI, { type ClientOptions } from "openai";
 
 import { type Config, type XaiEffort } from "@/domain/config/config";
-import { type GenerateContentParams, type ProviderGeneratedContent, type TokenUsage } from "@/domain/llm/router";
+import { type GenerateContentParams, type OnText, type ProviderGeneratedContent, type TokenUsage } from "@/domain/llm/router";
 import { Future } from "@/libs/future";
 import { xaiApiKeyOptions, xaiOAuthOptions, getXaiAccessToken } from "@/infra/auth/xai";
 import { extractResponse } from "@/domain/llm/response-parser";
@@ -12,7 +12,8 @@ import { absurd } from "@/libs/types";
 import { Just, Nothing, fromOptional, type Maybe } from "@/libs/maybe";
 
 type XaiConfig = Extract<Config["ai"], { provider: "xai" }>;
-type Attempt = { readonly completion: OpenAI.Chat.ChatCompletion; readonly attemptedEffort: Maybe<XaiEffort> };
+type Reply = { readonly text: string | undefined; readonly usage: OpenAI.CompletionUsage | undefined };
+type Attempt = { readonly reply: Reply; readonly attemptedEffort: Maybe<XaiEffort> };
 
 const toTokenUsage = (usage: OpenAI.CompletionUsage): TokenUsage => ({
   input: Just(usage.prompt_tokens),
@@ -42,11 +43,33 @@ const describeFailure = (error: unknown): string =>
     `xAI rejected the client version. Bump XAI_CLIENT_VERSION in src/infra/auth/xai.ts to the version named here: ${error instanceof Error ? error.message : String(error)}`
   : `Failed to create xAI completion: ${error instanceof Error ? error.message : String(error)}`;
 
+const complete = async (client: OpenAI, request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming): Promise<Reply> => {
+  const completion = await client.chat.completions.create(request);
+  return { text: completion.choices[0]?.message?.content ?? undefined, usage: completion.usage };
+};
+
+/** Usage only comes with `include_usage`, on a final chunk without choices. */
+const completeStreaming = async (client: OpenAI, request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, onText: OnText): Promise<Reply> => {
+  const stream = await client.chat.completions.create({ ...request, stream: true, stream_options: { include_usage: true } });
+  let text = "";
+  let usage: OpenAI.CompletionUsage | undefined;
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content ?? "";
+    if (delta !== "") {
+      text += delta;
+      onText(text);
+    }
+    usage = chunk.usage ?? usage;
+  }
+  return { text, usage };
+};
+
 const requestCompletion = async (client: OpenAI, model: string, effort: Maybe<XaiEffort>, params: GenerateContentParams): Promise<Attempt> => {
-  const attempt = async (attemptedEffort: Maybe<XaiEffort>): Promise<Attempt> => ({
-    completion: await client.chat.completions.create(buildParams(model, attemptedEffort, params)),
-    attemptedEffort
-  });
+  const onText = params.onText;
+  const attempt = async (attemptedEffort: Maybe<XaiEffort>): Promise<Attempt> => {
+    const request = buildParams(model, attemptedEffort, params);
+    return { reply: await (onText === undefined ? complete(client, request) : completeStreaming(client, request, onText)), attemptedEffort };
+  };
 
   try {
     return await attempt(effort);
@@ -64,10 +87,10 @@ const callXai = (
 ): Future<Error, ProviderGeneratedContent> =>
   Future.attemptP(() => requestCompletion(new OpenAI(options), model, effort, params))
     .mapRej((error) => new Error(describeFailure(error), { cause: error }))
-    .chain(({ completion, attemptedEffort }) =>
-      extractResponse({ text: fromOptional(completion.choices[0]?.message?.content ?? undefined) }).map((text) => ({
+    .chain(({ reply, attemptedEffort }) =>
+      extractResponse({ text: fromOptional(reply.text) }).map((text) => ({
         text,
-        tokens: fromOptional(completion.usage).map(toTokenUsage),
+        tokens: fromOptional(reply.usage).map(toTokenUsage),
         effectiveEffort: Just(attemptedEffort.maybe<string>("provider default", (value) => value))
       }))
     );
@@ -0,0 +1,59 @@
+export { REPO_CONFIG_FILE, findRepoConfig, layerRepoConfig, type RepoConfigLayer };
+
+import * as s from "@/libs/json/schema";
+
+import { Future } from "@/libs/future";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+import { getWorkTreeRoot } from "@/infra/git/repo";
+import { readOptionalFile } from "@/infra/fs";
+import { RepoConfig, applyRepoConfig } from "@/domain/config/repo-config";
+import { type Config } from "@/domain/config/config";
+import { join } from "node:path";
+
+const REPO_CONFIG_FILE = ".commit-tools.json";
+
+type RepoConfigLayer = { readonly path: string; readonly config: RepoConfig };
+
+const decodeRepoConfig = (raw: string, path: string): Future<Error, RepoConfig> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    const detail = e instanceof Error ? e.message : String(e);
+    return Future.reject(new Error(`${path} is not valid JSON: ${detail}`));
+  }
+  // Extra keys are otherwise ignored by the decoder; a committed `ai` block would be a leaked credential, so say so.
+  if (typeof json === "object" && json !== null && "ai" in json) {
+    return Future.reject(new Error(`${path} must not contain 'ai': provider and credentials stay in the global config.`));
+  }
+  return s.decode(RepoConfig, json).either(
+    (err) => Future.reject<Error, RepoConfig>(new Error(`Invalid ${path}: ${err}`)),
+    (config) => Future.resolve<Error, RepoConfig>(config)
+  );
+};
+
+/** `Nothing` outside a git repository or when the repo has no `.commit-tools.json`. */
+const findRepoConfig = (): Future<Error, Maybe<RepoConfigLayer>> =>
+  getWorkTreeRoot()
+    .map((root): Maybe<string> => Just(join(root, REPO_CONFIG_FILE)))
+    .chainRej(() => Future.resolve<Error, Maybe<string>>(Nothing()))
+    .chain((maybePath) =>
+      maybePath.maybe<Future<Error, Maybe<RepoConfigLayer>>>(Future.resolve(Nothing()), (path) =>
+        Future.attemptP(() => readOptionalFile(path)).chain((raw) =>
+          raw.maybe<Future<Error, Maybe<RepoConfigLayer>>>(Future.resolve(Nothing()), (text) =>
+            decodeRepoConfig(text, path).map((config) => Just({ path, config }))
+          )
+        )
+      )
+    );
+
+/** Puts the repository layer over an already-loaded global config. Commands that save config must skip this. */
+const layerRepoConfig = (config: Config): Future<Error, Config> =>
+  findRepoConfig().chain((layer) =>
+    layer.maybe<Future<Error, Config>>(Future.resolve(config), ({ path, config: repoConfig }) =>
+      applyRepoConfig(config, repoConfig).either(
+        (err) => Future.reject(new Error(`${path}: ${err.message}`)),
+        (merged) => Future.resolve(merged)
+      )
+    )
+  );
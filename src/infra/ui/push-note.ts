@@ -1,4 +1,4 @@
-export { renderBranchNote, renderCommitNote, renderPushNote, type BranchNoteMetadata, type CommitNoteMetadata, type PushMetadata };
+export { describeRequest, renderBranchNote, renderCommitNote, renderPushNote, type BranchNoteMetadata, type CommitNoteMetadata, type PushMetadata };
 
 import * as p from "@clack/prompts";
 
@@ -37,6 +37,13 @@ const formatDuration = (ms: number): string => (ms < 1000 ? `${Math.round(ms)}ms
 
 const formatNumber = (n: number): string => n.toLocaleString("en-US");
 
+/** One-line summary for a finished request, e.g. `2.4s, 1,234 tokens`. */
+const describeRequest = (metadata: LlmRequestMetadata): string =>
+  [
+    formatDuration(metadata.durationMs),
+    ...metadata.tokens.chain((tokens) => tokens.total).maybe<string[]>([], (total) => [`${formatNumber(total)} tokens`])
+  ].join(", ");
+
 const renderModelLine = (metadata: LlmRequestMetadata): string => `model    ${metadata.model.model} with ${metadata.model.effort} effort`;
 
 const renderPrLine = (lookup: PrLookup): string[] => {
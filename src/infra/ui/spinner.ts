@@ -1,8 +1,11 @@
-export { loading, bracketStatus, type StatusMessageSink, type BracketStatus };
+export { loading, streaming, bracketStatus, type StatusMessageSink, type BracketStatus };
 
 import * as p from "@clack/prompts";
 
 import { Future } from "@/libs/future";
+import { type OnText } from "@/domain/llm/router";
+
+import color from "picocolors";
 
 type StatusMessageSink = {
   readonly message: (msg: string) => void;
@@ -42,3 +45,52 @@ const bracketStatus: BracketStatus = <T>(
       return e;
     });
 };
+
+// Rows the preview takes on screen, so the next snapshot can be drawn over it. Each line is indented by the 3-column bar.
+const previewRows = (lines: readonly string[], columns: number): number =>
+  lines.reduce((rows, line) => rows + Math.max(1, Math.ceil((line.length + 3) / columns)), 0);
+
+/**
+ * Like `loading`, but the reply is drawn below the spinner as it streams in and erased once it is complete,
+ * so whatever shows the final text next does not repeat it. An empty snapshot erases it early, before a retry
+ * prompt is drawn below; the redraw only ever erases its own rows. Without a TTY the preview cannot be
+ * redrawn, so the text only appears once the request is done.
+ */
+const streaming = <T>(label: string, stopLabel: (value: T) => string, body: (onText: OnText) => Future<Error, T>): Future<Error, T> => {
+  const s = p.spinner();
+  s.start(label);
+  let spinning = true;
+  let rows = 0;
+
+  const erase = (): void => {
+    if (rows > 0) process.stdout.write(`\x1b[${rows}A\r\x1b[J`);
+    rows = 0;
+  };
+  const stop = (message: string): void => {
+    erase();
+    if (spinning) s.stop(message);
+    else p.log.step(message);
+  };
+  const draw: OnText = (snapshot) => {
+    if (snapshot === "") {
+      erase();
+      return;
+    }
+    if (spinning) s.stop(label);
+    spinning = false;
+    erase();
+    const lines = snapshot.trimEnd().split("\n");
+    process.stdout.write(`${lines.map((line) => `${color.gray("│")}  ${color.dim(line)}`).join("\n")}\n`);
+    rows = previewRows(lines, process.stdout.columns || 80);
+  };
+
+  return body(process.stdout.isTTY ? draw : () => {})
+    .map((v) => {
+      stop(stopLabel(v));
+      return v;
+    })
+    .mapRej((e) => {
+      stop("Failed.");
+      return e;
+    });
+};
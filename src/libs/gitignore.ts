@@ -0,0 +1,75 @@
+export { compileIgnore, compileGlob, type IgnoreMatcher };
+
+import { type Maybe, Just, Nothing, mapMaybe } from "@/libs/maybe";
+
+/** True when a repo-relative, `/`-separated path is ignored. */
+type IgnoreMatcher = (path: string) => boolean;
+
+type Rule = { readonly negate: boolean; readonly dirOnly: boolean; readonly regex: RegExp };
+
+const REGEX_SPECIAL = /[.+^${}()|[\]\\]/;
+
+const GLOB_TOKEN_RE = /\*\*\/|\*\*|\*|\?|\[[^\]]+\]|[\s\S]/g;
+
+const tokenToRegex = (token: string): string => {
+  switch (token) {
+    case "**/":
+      return "(?:.*/)?";
+    case "**":
+      return ".*";
+    case "*":
+      return "[^/]*";
+    case "?":
+      return "[^/]";
+    default:
+      if (token.length > 1) return `[${token.slice(1, -1).replace(/^!/, "^").replaceAll("\\", "\\\\")}]`;
+      return REGEX_SPECIAL.test(token) ? `\\${token}` : token;
+  }
+};
+
+const globToRegexSource = (glob: string): string => (glob.match(GLOB_TOKEN_RE) ?? []).map(tokenToRegex).join("");
+
+/** A whole-path glob such as `packages/*`, without gitignore's anchoring or parent-directory rules. */
+const compileGlob = (glob: string): RegExp => new RegExp(`^${globToRegexSource(glob.replace(/^\.\//, "").replace(/\/+$/, ""))}$`);
+
+/** Parses one line of gitignore syntax; `Nothing` for blanks and comments. */
+const compileRule = (line: string): Maybe<Rule> => {
+  const trimmed = line.trimEnd();
+  if (trimmed === "" || trimmed.startsWith("#")) return Nothing();
+
+  const negate = trimmed.startsWith("!");
+  const unprefixed = (negate ? trimmed.slice(1) : trimmed).replace(/^\\([#!])/, "$1");
+  const dirOnly = unprefixed.endsWith("/");
+  const pattern = dirOnly ? unprefixed.slice(0, -1) : unprefixed;
+  if (pattern === "") return Nothing();
+
+  // As in git, a slash anywhere but the end anchors the pattern to the root; otherwise it matches at any depth.
+  const anchored = pattern.includes("/");
+  const body = globToRegexSource(pattern.replace(/^\//, ""));
+  return Just({ negate, dirOnly, regex: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}$`) });
+};
+
+/** The path itself plus every parent directory, since ignoring a directory ignores everything under it. */
+const candidates = (path: string): { dirs: readonly string[]; file: string } => {
+  const parts = path.split("/");
+  return { dirs: parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join("/")), file: path };
+};
+
+/** Later rules win, so a `!pattern` re-includes what an earlier line ignored. */
+const lastMatchIgnores = (rules: readonly Rule[], path: string, isDir: boolean): boolean =>
+  rules.reduce((ignored, rule) => ((isDir || !rule.dirOnly) && rule.regex.test(path) ? !rule.negate : ignored), false);
+
+/**
+ * As in git, a path under an excluded directory stays ignored whatever follows: git never looks inside that
+ * directory, so `!dist/keep.js` cannot re-include a file once `dist/` is excluded (`dist/*` would let it).
+ */
+const compileIgnore = (patterns: readonly string[]): IgnoreMatcher => {
+  const rules = mapMaybe(
+    patterns.flatMap((p) => p.split(/\r?\n/)),
+    compileRule
+  );
+  return (path) => {
+    const { dirs, file } = candidates(path);
+    return dirs.some((dir) => lastMatchIgnores(rules, dir, true)) || lastMatchIgnores(rules, file, false);
+  };
+};
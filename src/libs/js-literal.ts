@@ -0,0 +1,250 @@
+export { readExportedLiteral };
+
+import { type Result, Success, Failure } from "@/libs/result";
+import { absurd } from "@/libs/types";
+
+type Token = { readonly kind: "ident" | "string" | "template" | "number" | "punct"; readonly text: string };
+
+type Cursor = { readonly tokens: readonly Token[]; pos: number; readonly bindings: ReadonlyMap<string, number>; readonly resolving: Set<string> };
+
+const IDENT_RE = /[A-Za-z_$][\w$]*/y;
+const NUMBER_RE = /0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?/y;
+const PUNCT_RE = /\.\.\.|=>|[\s\S]/y;
+const BLANK_RE = /(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))*/y;
+const QUOTES: ReadonlySet<string> = new Set(['"', "'", "`"]);
+
+const ESCAPES: Readonly<Record<string, string>> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", 0: "\0" };
+
+const matchAt = (re: RegExp, source: string, at: number): string | undefined => {
+  re.lastIndex = at;
+  return re.exec(source)?.[0];
+};
+
+const readEscape = (source: string, at: number): [string, number] => {
+  const c = source[at] ?? "";
+  if (c === "\n") return ["", at + 1];
+  if (c === "x") return [String.fromCharCode(parseInt(source.slice(at + 1, at + 3), 16)), at + 3];
+  if (c === "u" && source[at + 1] === "{") {
+    const end = source.indexOf("}", at);
+    return [String.fromCodePoint(parseInt(source.slice(at + 2, end), 16)), end + 1];
+  }
+  if (c === "u") return [String.fromCharCode(parseInt(source.slice(at + 1, at + 5), 16)), at + 5];
+  return [ESCAPES[c] ?? c, at + 1];
+};
+
+/** A template literal with a `${}` substitution is kept as "template", which no value accepts. */
+const readString = (source: string, start: number): [Token, number] => {
+  const quote = source[start];
+  let text = "";
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === "\\") {
+      const [escaped, next] = readEscape(source, i + 1);
+      text += escaped;
+      i = next;
+    } else if (quote === "`" && source.startsWith("${", i)) {
+      return [{ kind: "template", text }, source.indexOf("`", i) + 1 || source.length];
+    } else {
+      text += source[i];
+      i++;
+    }
+  }
+  return [{ kind: "string", text }, i + 1];
+};
+
+const skipBlank = (source: string, at: number): number => at + (matchAt(BLANK_RE, source, at)?.length ?? 0);
+
+const readToken = (source: string, at: number): [Token, number] => {
+  if (QUOTES.has(source[at] ?? "")) return readString(source, at);
+  const ident = matchAt(IDENT_RE, source, at);
+  if (ident !== undefined) return [{ kind: "ident", text: ident }, at + ident.length];
+  const number = matchAt(NUMBER_RE, source, at);
+  if (number !== undefined) return [{ kind: "number", text: number }, at + number.length];
+  const punct = matchAt(PUNCT_RE, source, at) ?? "";
+  return [{ kind: "punct", text: punct }, at + punct.length];
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  for (let i = skipBlank(source, 0); i < source.length; ) {
+    const [token, next] = readToken(source, i);
+    tokens.push(token);
+    i = skipBlank(source, next);
+  }
+  return tokens;
+};
+
+const isToken = (token: Token | undefined, kind: Token["kind"], text: string): boolean => token?.kind === kind && token.text === text;
+
+/** Where each top-level `const`/`let`/`var` name's value starts; the first declaration wins. */
+const findBindings = (tokens: readonly Token[]): Map<string, number> => {
+  const bindings = new Map<string, number>();
+  tokens.forEach((token, i) => {
+    const name = tokens[i + 1];
+    if (token.kind === "ident" && ["const", "let", "var"].includes(token.text) && name?.kind === "ident" && isToken(tokens[i + 2], "punct", "=")) {
+      if (!bindings.has(name.text)) bindings.set(name.text, i + 3);
+    }
+  });
+  return bindings;
+};
+
+/** Where the exported value starts: after the last `module.exports =` or `export default`. */
+const findExport = (tokens: readonly Token[]): number | undefined => {
+  let found: number | undefined;
+  tokens.forEach((token, i) => {
+    if (isToken(token, "ident", "export") && isToken(tokens[i + 1], "ident", "default")) found = i + 2;
+    if (
+      isToken(token, "ident", "module") &&
+      isToken(tokens[i + 1], "punct", ".") &&
+      isToken(tokens[i + 2], "ident", "exports") &&
+      isToken(tokens[i + 3], "punct", "=") &&
+      !isToken(tokens[i + 4], "punct", "=")
+    ) {
+      found = i + 4;
+    }
+  });
+  return found;
+};
+
+const next = (cursor: Cursor): Token => {
+  const token = cursor.tokens[cursor.pos];
+  if (token === undefined) throw new Error("unexpected end of file");
+  cursor.pos++;
+  return token;
+};
+
+const expectPunct = (cursor: Cursor, text: string): void => {
+  const token = next(cursor);
+  if (!isToken(token, "punct", text)) throw new Error(`expected "${text}" but found "${token.text}"`);
+};
+
+/** Consumes a "," before another item, and tells whether `close` ends the list. */
+const listEnds = (cursor: Cursor, close: string, first: boolean): boolean => {
+  if (isToken(cursor.tokens[cursor.pos], "punct", close)) {
+    cursor.pos++;
+    return true;
+  }
+  if (!first) expectPunct(cursor, ",");
+  if (isToken(cursor.tokens[cursor.pos], "punct", close)) {
+    cursor.pos++;
+    return true;
+  }
+  return false;
+};
+
+const resolveBinding = (cursor: Cursor, name: string): unknown => {
+  const at = cursor.bindings.get(name);
+  if (at === undefined || cursor.resolving.has(name)) throw new Error(`"${name}" is not a literal declared in the file`);
+  cursor.resolving.add(name);
+  const value = parseValue({ ...cursor, pos: at });
+  cursor.resolving.delete(name);
+  return value;
+};
+
+/** Plain assignment would let a `__proto__` key swap the object's prototype. */
+const define = (object: Record<string, unknown>, key: string, value: unknown): void => {
+  Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+/** One `key: value`, or a shorthand `key` naming a top-level binding. */
+const parseEntry = (cursor: Cursor, object: Record<string, unknown>): void => {
+  const key = next(cursor);
+  if (key.kind !== "ident" && key.kind !== "string" && key.kind !== "number") throw new Error(`unexpected "${key.text}" as an object key`);
+  const following = cursor.tokens[cursor.pos];
+  if (key.kind === "ident" && (isToken(following, "punct", ",") || isToken(following, "punct", "}"))) {
+    define(object, key.text, resolveBinding(cursor, key.text));
+    return;
+  }
+  expectPunct(cursor, ":");
+  define(object, key.kind === "number" ? String(parseNumber(key)) : key.text, parseValue(cursor));
+};
+
+const parseObject = (cursor: Cursor): Record<string, unknown> => {
+  const object: Record<string, unknown> = {};
+  for (let first = true; !listEnds(cursor, "}", first); first = false) parseEntry(cursor, object);
+  return object;
+};
+
+const parseArray = (cursor: Cursor): unknown[] => {
+  const array: unknown[] = [];
+  for (let first = true; !listEnds(cursor, "]", first); first = false) array.push(parseValue(cursor));
+  return array;
+};
+
+const parseNumber = (token: Token): number => {
+  if (token.kind !== "number") throw new Error(`unexpected "${token.text}"`);
+  return Number(token.text.replaceAll("_", ""));
+};
+
+const parseIdent = (cursor: Cursor, name: string): unknown => {
+  switch (name) {
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "null":
+      return null;
+    case "undefined":
+      return undefined;
+    default:
+      return resolveBinding(cursor, name);
+  }
+};
+
+const parsePunct = (cursor: Cursor, punct: string): unknown => {
+  switch (punct) {
+    case "{":
+      return parseObject(cursor);
+    case "[":
+      return parseArray(cursor);
+    case "-":
+      return -parseNumber(next(cursor));
+    case "(": {
+      const value = parseValue(cursor);
+      expectPunct(cursor, ")");
+      return value;
+    }
+    default:
+      throw new Error(`unexpected "${punct}"`);
+  }
+};
+
+const parseValue = (cursor: Cursor): unknown => {
+  const token = next(cursor);
+  switch (token.kind) {
+    case "string":
+      return token.text;
+    case "number":
+      return parseNumber(token);
+    case "template":
+      throw new Error("template literals with substitutions are not read");
+    case "ident":
+      return parseIdent(cursor, token.text);
+    case "punct":
+      return parsePunct(cursor, token.text);
+    default:
+      return absurd(token.kind, "Token");
+  }
+};
+
+/**
+ * Reads the value a JavaScript module exports through `module.exports =` or `export default`, without running
+ * anything: only literals are understood (objects, arrays, strings, numbers, booleans, `null`), plus names bound to
+ * one by a top-level `const`, `let` or `var`. Calls, spreads, functions and everything else are a `Failure`.
+ */
+const readExportedLiteral = (source: string): Result<Error, unknown> => {
+  const tokens = tokenize(source);
+  const start = findExport(tokens);
+  if (start === undefined) return Failure(new Error("no `module.exports =` or `export default` found"));
+  const cursor: Cursor = { tokens, pos: start, bindings: findBindings(tokens), resolving: new Set() };
+  try {
+    const value = parseValue(cursor);
+    const after = cursor.tokens[cursor.pos];
+    if (after?.kind === "punct" && after.text !== ";") {
+      throw new Error(`unexpected "${after.text}" after the exported value`);
+    }
+    return Success(value);
+  } catch (e) {
+    return Failure(e instanceof Error ? e : new Error(String(e)));
+  }
+};
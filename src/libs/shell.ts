@@ -0,0 +1,4 @@
+export { shellQuote };
+
+/** POSIX single-quote escaping. JSON quoting would leave a `$` in the value expandable by the shell. */
+const shellQuote = (value: string): string => `'${value.replaceAll("'", "'\\''")}'`;
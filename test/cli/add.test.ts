@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AddCommand } from "@/cli/add";
+import { Future } from "@/libs/future";
+import { runFuture } from "@test/helpers/run-future";
+
+vi.mock("@/infra/git/repo", () => ({
+  NO_STAGED_CHANGES_MESSAGE: "No staged changes",
+  isNoStagedChangesError: vi.fn((err: unknown) => err instanceof Error && err.message === "No staged changes"),
+  checkIsGitRepo: vi.fn(() => Future.resolve(undefined)),
+  listWorkingChanges: vi.fn(),
+  listStagedPaths: vi.fn(),
+  stagePaths: vi.fn(() => Future.resolve(undefined)),
+  getUnstagedFileDiff: vi.fn(),
+  applyToIndex: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@clack/prompts", () => ({
+  note: vi.fn(),
+  select: vi.fn(),
+  autocomplete: vi.fn(),
+  autocompleteMultiselect: vi.fn(),
+  isCancel: vi.fn(() => false),
+  outro: vi.fn(),
+  log: { success: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}));
+
+import * as repo from "@/infra/git/repo";
+import * as p from "@clack/prompts";
+
+const DIFF = [
+  "diff --git a/a.ts b/a.ts",
+  "--- a/a.ts",
+  "+++ b/a.ts",
+  "@@ -1,2 +1,3 @@",
+  " one",
+  "+first",
+  " two",
+  "@@ -20,2 +21,3 @@",
+  " twenty",
+  "+second",
+  " twenty-one",
+  ""
+].join("\n");
+
+const nothingStaged = () => Future.reject<Error, readonly string[]>(new Error("No staged changes"));
+
+describe("AddCommand", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stages the picked files and goes on once the tree is clean", async () => {
+    vi.mocked(repo.listWorkingChanges)
+      .mockReturnValueOnce(
+        Future.resolve([
+          { path: "a.ts", kind: "modified", partlyStaged: false },
+          { path: "b.ts", kind: "untracked", partlyStaged: false }
+        ])
+      )
+      .mockReturnValueOnce(Future.resolve([]));
+    vi.mocked(repo.listStagedPaths)
+      .mockReturnValueOnce(nothingStaged())
+      .mockReturnValueOnce(Future.resolve(["a.ts", "b.ts"]));
+    vi.mocked(p.select).mockResolvedValueOnce("files");
+    vi.mocked(p.autocompleteMultiselect).mockResolvedValueOnce(["a.ts", "b.ts"]);
+
+    await expect(runFuture(AddCommand.create().run())).resolves.toBe(true);
+    expect(repo.stagePaths).toHaveBeenCalledWith(["a.ts", "b.ts"]);
+  });
+
+  it("stages only the hunks picked from a file", async () => {
+    vi.mocked(repo.listWorkingChanges)
+      .mockReturnValueOnce(Future.resolve([{ path: "a.ts", kind: "modified", partlyStaged: false }]))
+      .mockReturnValueOnce(Future.resolve([{ path: "a.ts", kind: "modified", partlyStaged: true }]));
+    vi.mocked(repo.listStagedPaths)
+      .mockReturnValueOnce(nothingStaged())
+      .mockReturnValueOnce(Future.resolve(["a.ts"]));
+    vi.mocked(repo.getUnstagedFileDiff).mockReturnValueOnce(Future.resolve(DIFF));
+    vi.mocked(p.select).mockResolvedValueOnce("hunks").mockResolvedValueOnce("skip").mockResolvedValueOnce("stage").mockResolvedValueOnce("continue");
+    vi.mocked(p.autocomplete).mockResolvedValueOnce("a.ts");
+
+    await expect(runFuture(AddCommand.create().run())).resolves.toBe(true);
+    const patch = vi.mocked(repo.applyToIndex).mock.calls[0]?.[0] ?? "";
+    expect(patch).toContain("@@ -20,2 +20,3 @@\n twenty\n+second");
+    expect(patch).not.toContain("+first");
+  });
+
+  it("fails when there is nothing to stage and nothing staged", async () => {
+    vi.mocked(repo.listWorkingChanges).mockReturnValueOnce(Future.resolve([]));
+    vi.mocked(repo.listStagedPaths).mockReturnValueOnce(nothingStaged());
+
+    await expect(runFuture(AddCommand.create().run())).rejects.toThrow(/Nothing to stage/);
+  });
+});
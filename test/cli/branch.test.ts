@@ -25,6 +25,12 @@ vi.mock("@/infra/storage/config", () => ({
 vi.mock("@/domain/llm/auth-resolver", () => ({
   resolveProvider: vi.fn((c: ConfigValue) => Future.resolve(c.ai))
 }));
+vi.mock("@/infra/storage/repo-config", () => ({
+  layerRepoConfig: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/commitignore", () => ({
+  stubIgnoredDiff: vi.fn((_patterns: readonly string[], diff: string) => Future.resolve(diff))
+}));
 vi.mock("@/infra/git/repo", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/infra/git/repo")>();
   return {
@@ -66,6 +72,13 @@ const config = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
 });
 
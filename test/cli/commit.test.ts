@@ -11,6 +11,10 @@ import { Failure, Success } from "@/libs/result";
 import { runFuture } from "@test/helpers/run-future";
 import * as s from "@/libs/json/schema";
 import { Config } from "@/domain/config/config";
+import { parseCommitlintConfig } from "@/domain/commit/commitlint";
+import { type Draft } from "@/domain/commit/draft";
+import { type GeneratedContent } from "@/domain/llm/router";
+import { type AddCommand, type StagingOutcome } from "@/cli/add";
 
 type ConfigValue = s.Infer<typeof Config>;
 
@@ -20,14 +24,45 @@ vi.mock("@/infra/storage/config", () => ({
 vi.mock("@/domain/llm/auth-resolver", () => ({
   resolveProvider: vi.fn((c: ConfigValue) => Future.resolve(c.ai))
 }));
+vi.mock("@/infra/storage/repo-config", () => ({
+  layerRepoConfig: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/template", () => ({
+  resolveCustomTemplate: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/workspace", () => ({
+  findWorkspacePackages: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/public-api", () => ({
+  findPublicApi: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/commitlint", () => ({
+  findCommitlintRules: vi.fn(() => Future.resolve(Nothing()))
+}));
+vi.mock("@/infra/git/commitignore", () => ({
+  stubIgnoredDiff: vi.fn((_patterns: readonly string[], diff: string) => Future.resolve(diff))
+}));
 vi.mock("@/infra/git/repo", () => ({
+  isNoStagedChangesError: vi.fn((err: unknown) => err instanceof Error && err.message === "No staged changes"),
   checkIsGitRepo: vi.fn(() => Future.resolve(undefined)),
   getStagedDiff: vi.fn(() => Future.resolve("staged diff")),
   listStagedPaths: vi.fn(() => Future.resolve(["a.ts"])),
   performCommit: vi.fn(() => Future.resolve("\n 1 file changed\n")),
+  unstagePaths: vi.fn(() => Future.resolve(undefined)),
+  performAmend: vi.fn(() => Future.resolve("\n 1 file changed\n")),
+  getAmendDiff: vi.fn(() => Future.resolve("amend diff")),
+  getHeadMessage: vi.fn(() => Future.resolve("wip")),
+  isHeadPushed: vi.fn(() => Future.resolve(false)),
   findCommitMetadata: vi.fn()
 }));
+vi.mock("@/cli/add", () => ({
+  AddCommand: { create: vi.fn(() => ({ stage: vi.fn(() => Future.resolve("cancelled")) })) }
+}));
 vi.mock("@/domain/llm/router", () => ({
+  fitDiff: vi.fn((_config: unknown, raw: string, diff: string) => Future.resolve({ raw, full: diff, fitted: diff })),
+  diffFitsBudget: vi.fn(() => true),
+  MAX_REPAIR_ATTEMPTS: 2,
+  repairCommitMessage: vi.fn(<T>(_config: unknown, generated: T) => Future.resolve({ ...generated, violations: [] })),
   generateCommitMessage: vi.fn(() =>
     Future.resolve({
       text: "feat: generated",
@@ -38,34 +73,75 @@ vi.mock("@/domain/llm/router", () => ({
     Future.resolve({
       plan: {
         shouldSplit: false,
-        commits: [{ message: "feat: one", files: ["a.ts", "b.ts"] }]
+        commits: [{ message: "feat: one", files: ["a.ts", "b.ts"], hunks: [] }]
       },
       metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
     })
   ),
+  generateCandidateMessages: vi.fn(() =>
+    Future.resolve(
+      ["feat: a", "fix: b"].map((text) => ({
+        text,
+        metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+      }))
+    )
+  ),
   refineCommitMessage: vi.fn()
 }));
+vi.mock("@/infra/git/draft", () => ({
+  findDraftFor: vi.fn(() => Future.resolve(Nothing())),
+  saveDraft: vi.fn(() => Future.resolve(undefined)),
+  dropDraft: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@/infra/git/co-authors", () => ({
+  findContributors: vi.fn(() =>
+    Future.resolve([
+      { name: "Ada Lovelace", email: "ada@example.com" },
+      { name: "Grace Hopper", email: "grace@example.com" }
+    ])
+  ),
+  loadRecentCoAuthors: vi.fn(() => Future.resolve([])),
+  saveRecentCoAuthors: vi.fn(() => Future.resolve(undefined)),
+  resolveCoAuthors: vi.fn((queries: readonly string[]) =>
+    Future.resolve(queries.map((query) => ({ name: query, email: `${query.toLowerCase()}@example.com` })))
+  )
+}));
+vi.mock("@/infra/editor", () => ({
+  editCommitMessage: vi.fn(() => Future.resolve(Just("fix: edited by hand")))
+}));
 vi.mock("@clack/prompts", () => ({
   note: vi.fn(),
   select: vi.fn(async () => "commit"),
   text: vi.fn(),
+  multiselect: vi.fn(),
   confirm: vi.fn(),
   isCancel: vi.fn(() => false),
   outro: vi.fn(),
-  log: { warn: vi.fn(), error: vi.fn() }
+  log: { warn: vi.fn(), error: vi.fn(), info: vi.fn() }
 }));
 vi.mock("@/infra/ui/push-note", () => ({
+  describeRequest: vi.fn(() => "1ms"),
   renderCommitNote: vi.fn(),
   renderPushNote: vi.fn()
 }));
 vi.mock("@/infra/ui/spinner", () => ({
-  loading: vi.fn((_a: string, _b: string, f: Future<Error, unknown>) => f as Future<Error, never>)
+  loading: vi.fn((_a: string, _b: string, f: Future<Error, unknown>) => f as Future<Error, never>),
+  streaming: vi.fn(
+    (_a: string, _b: unknown, body: (onText: (snapshot: string) => void) => Future<Error, unknown>) => body(() => {}) as Future<Error, never>
+  )
 }));
 
 const config = (split_commits = false): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
 });
 
@@ -84,7 +160,7 @@ describe("Commit.run", () => {
       Future.resolve({
         plan: {
           shouldSplit: false,
-          commits: [{ message: "feat: one", files: ["a.ts", "b.ts"] }]
+          commits: [{ message: "feat: one", files: ["a.ts", "b.ts"], hunks: [] }]
         },
         metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
       })
@@ -99,6 +175,30 @@ describe("Commit.run", () => {
     expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
   });
 
+  it("offers staging when nothing is staged and generates from what was staged", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.getStagedDiff).mockReturnValueOnce(Future.reject(new Error("No staged changes")));
+    const { AddCommand } = await import("@/cli/add");
+    const stage = vi.fn(() => Future.resolve<Error, StagingOutcome>("staged"));
+    vi.mocked(AddCommand.create).mockReturnValueOnce({ stage } as unknown as AddCommand);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    expect(stage).toHaveBeenCalled();
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+
+  it("stops quietly when staging is cancelled", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.getStagedDiff).mockReturnValueOnce(Future.reject(new Error("No staged changes")));
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    expect(router.generateCommitMessage).not.toHaveBeenCalled();
+    expect(repo.performCommit).not.toHaveBeenCalled();
+  });
+
   it("does not analyze when split is disabled and two files are staged", async () => {
     const repo = await import("@/infra/git/repo");
     vi.mocked(repo.listStagedPaths).mockReturnValue(Future.resolve(["a.ts", "b.ts"]));
@@ -122,8 +222,8 @@ describe("Commit.run", () => {
         plan: {
           shouldSplit: true,
           commits: [
-            { message: "msg one", files: ["a.ts"] },
-            { message: "msg two", files: ["b.ts"] }
+            { message: "msg one", files: ["a.ts"], hunks: [] },
+            { message: "msg two", files: ["b.ts"], hunks: [] }
           ]
         },
         metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
@@ -136,8 +236,8 @@ describe("Commit.run", () => {
 
     expect(router.generateSplitPlan).toHaveBeenCalled();
     expect(router.generateCommitMessage).not.toHaveBeenCalled();
-    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"]);
-    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg two", ["b.ts"]);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"], []);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg two", ["b.ts"], []);
   });
 
   it("commits the single analysis message when shouldSplit is false", async () => {
@@ -169,12 +269,517 @@ describe("Commit.run", () => {
     expect(router.generateCommitMessage).toHaveBeenCalled();
     expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
   });
+
+  it("repairs the generated message before showing it", async () => {
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    expect(vi.mocked(router.repairCommitMessage).mock.calls[0]?.[1]).toMatchObject({ text: "feat: generated" });
+    expect(vi.mocked(router.repairCommitMessage).mock.calls[0]?.[3]).toBe("conventional");
+  });
+
+  it("warns about violations the repair could not fix", async () => {
+    const router = await import("@/domain/llm/router");
+    vi.mocked(router.generateCommitMessage).mockReturnValueOnce(
+      Future.resolve({
+        text: "added things",
+        metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+      })
+    );
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const prompts = await import("@clack/prompts");
+    expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("type prefix"));
+  });
+});
+
+describe("Commit edit", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+  });
+
+  it("returns to the menu with the edited message", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("edit").mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const editor = await import("@/infra/editor");
+    const repo = await import("@/infra/git/repo");
+    expect(editor.editCommitMessage).toHaveBeenCalledWith("feat: generated");
+    expect(prompts.note).toHaveBeenLastCalledWith("fix: edited by hand", "Proposed Commit Message");
+    expect(repo.performCommit).toHaveBeenCalledWith("fix: edited by hand");
+  });
+
+  it("keeps the current message when the editor fails", async () => {
+    const editor = await import("@/infra/editor");
+    vi.mocked(editor.editCommitMessage).mockReturnValueOnce(Future.reject(new Error("Editor 'nope' failed: exit code 127")));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("edit").mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(prompts.log.error).toHaveBeenCalledWith(expect.stringContaining("Editor 'nope' failed"));
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+});
+
+describe("Commit adjust", () => {
+  const refined = (text: string) =>
+    Future.resolve<Error, GeneratedContent>({
+      text,
+      metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+  });
+
+  const adjustTwice = async (): Promise<void> => {
+    const router = await import("@/domain/llm/router");
+    vi.mocked(router.refineCommitMessage).mockReturnValueOnce(refined("feat: short")).mockReturnValueOnce(refined("feat: short, cached"));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.text).mockResolvedValueOnce("keep it short").mockResolvedValueOnce("mention the cache");
+  };
+
+  it("sends earlier adjustments along with the new one", async () => {
+    await adjustTwice();
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("adjust").mockResolvedValueOnce("adjust").mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    const calls = vi.mocked(router.refineCommitMessage).mock.calls;
+    expect(calls[0]?.[7]).toEqual([]);
+    expect(calls[1]?.[1]).toBe("feat: short");
+    expect(calls[1]?.[2]).toBe("mention the cache");
+    expect(calls[1]?.[7]).toEqual([{ adjustment: "keep it short", message: "feat: short" }]);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: short, cached");
+  });
+
+  it("leaves an adjusted message that breaks the convention to the user", async () => {
+    const router = await import("@/domain/llm/router");
+    vi.mocked(router.refineCommitMessage).mockReturnValueOnce(refined("Shorter message"));
+    vi.mocked(router.repairCommitMessage)
+      .mockImplementationOnce((_config, generated) => Future.resolve({ ...generated, violations: [] }))
+      .mockImplementationOnce((_config, generated) => Future.resolve({ ...generated, text: "feat: shorter message", violations: [] }));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.text).mockResolvedValueOnce("make it shorter");
+    vi.mocked(prompts.select).mockResolvedValueOnce("adjust").mockResolvedValueOnce("fix_rules").mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    const first = vi.mocked(prompts.select).mock.calls[0]?.[0].options.map((o) => o.value);
+    const adjusted = vi.mocked(prompts.select).mock.calls[1]?.[0].options.map((o) => o.value);
+    expect(first).not.toContain("fix_rules");
+    expect(adjusted).toContain("fix_rules");
+    expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("still breaks the conventional convention"));
+    expect(vi.mocked(router.repairCommitMessage).mock.calls.map((call) => call[1].text)).toEqual(["feat: generated", "Shorter message"]);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: shorter message");
+  });
+
+  it("offers Undo only after an adjustment", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const options = vi.mocked(prompts.select).mock.calls[0]?.[0].options.map((o) => o.value);
+    expect(options).not.toContain("undo");
+  });
+
+  it("goes back to an earlier version without a request and forgets the later adjustments", async () => {
+    await adjustTwice();
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select)
+      .mockResolvedValueOnce("adjust")
+      .mockResolvedValueOnce("adjust")
+      .mockResolvedValueOnce("undo")
+      .mockResolvedValueOnce(0)
+      .mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    const undo = vi.mocked(prompts.select).mock.calls[3]?.[0].options.map((o) => o.value);
+    expect(undo).toEqual([1, 0, "back"]);
+    expect(router.refineCommitMessage).toHaveBeenCalledTimes(2);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+});
+
+describe("Commit co-authors", () => {
+  const trailer = "Co-authored-by: Grace Hopper <grace@example.com>";
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+  });
+
+  it("appends the picked contributors and remembers them after committing", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("co_authors").mockResolvedValueOnce("commit");
+    vi.mocked(prompts.text).mockResolvedValueOnce("grace");
+    vi.mocked(prompts.multiselect).mockResolvedValueOnce([0]);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    const coAuthors = await import("@/infra/git/co-authors");
+    expect(prompts.multiselect).toHaveBeenCalledWith(
+      expect.objectContaining({ options: [{ value: 0, label: "Grace Hopper", hint: "grace@example.com" }] })
+    );
+    expect(repo.performCommit).toHaveBeenCalledWith(`feat: generated\n\n${trailer}`);
+    expect(coAuthors.saveRecentCoAuthors).toHaveBeenCalledWith([{ name: "Grace Hopper", email: "grace@example.com" }]);
+  });
+
+  it("keeps the trailers when the message is regenerated", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("co_authors").mockResolvedValueOnce("regenerate").mockResolvedValueOnce("commit");
+    vi.mocked(prompts.text).mockResolvedValueOnce("grace");
+    vi.mocked(prompts.multiselect).mockResolvedValueOnce([0]);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledWith(`feat: generated\n\n${trailer}`);
+  });
+
+  it("keeps the trailers when an alternative is picked", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select)
+      .mockResolvedValueOnce("co_authors")
+      .mockResolvedValueOnce("alternatives")
+      .mockResolvedValueOnce("more")
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce("commit");
+    vi.mocked(prompts.text).mockResolvedValueOnce("grace");
+    vi.mocked(prompts.multiselect).mockResolvedValueOnce([0]);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledWith(`fix: b\n\n${trailer}`);
+  });
+
+  it("credits --co-author matches on every generated message", async () => {
+    await runFuture(Commit.create(Nothing(), "new", ["Ada"]).chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    const coAuthors = await import("@/infra/git/co-authors");
+    expect(coAuthors.resolveCoAuthors).toHaveBeenCalledWith(["Ada"]);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated\n\nCo-authored-by: Ada <ada@example.com>");
+  });
+});
+
+describe("Commit breaking changes", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+  });
+
+  it("marks the message with the author's description and keeps the verdict for regenerations", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("breaking").mockResolvedValueOnce("regenerate").mockResolvedValueOnce("commit");
+    vi.mocked(prompts.text).mockResolvedValueOnce("Drops the v1 API.");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    expect(prompts.select).toHaveBeenCalledWith(
+      expect.objectContaining({ options: expect.arrayContaining([{ value: "breaking", label: "Mark as breaking change" }]) })
+    );
+    expect(vi.mocked(router.generateCommitMessage).mock.calls[1]?.[4]).toEqual(
+      expect.objectContaining({ breaking: { type: "breaking", description: "Drops the v1 API." } })
+    );
+  });
+
+  it("commits the marked message", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("breaking").mockResolvedValueOnce("commit");
+    vi.mocked(prompts.text).mockResolvedValueOnce("Drops the v1 API.");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledWith("feat!: generated\n\nBREAKING CHANGE: Drops the v1 API.");
+  });
+
+  it("drops the marks when the author says the change is not breaking", async () => {
+    const router = await import("@/domain/llm/router");
+    vi.mocked(router.generateCommitMessage).mockReturnValueOnce(
+      Future.resolve({
+        text: "feat!: generated\n\nBREAKING CHANGE: src/a.ts was deleted.",
+        metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+      })
+    );
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("breaking").mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(prompts.select).toHaveBeenCalledWith(
+      expect.objectContaining({ options: expect.arrayContaining([{ value: "breaking", label: "Not a breaking change" }]) })
+    );
+    expect(prompts.text).not.toHaveBeenCalled();
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+});
+
+describe("Commit drafts", () => {
+  const draft: Draft = {
+    diffHash: "h",
+    savedAt: Date.now(),
+    message: "fix: from the draft",
+    request: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValue("commit");
+  });
+
+  it("saves each proposed message and clears it once committed", async () => {
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const drafts = await import("@/infra/git/draft");
+    expect(drafts.findDraftFor).toHaveBeenCalledWith("staged diff");
+    expect(drafts.saveDraft).toHaveBeenCalledWith("staged diff", expect.objectContaining({ text: "feat: generated" }));
+    expect(drafts.dropDraft).toHaveBeenCalled();
+  });
+
+  it("continues with a matching draft without a new request", async () => {
+    const drafts = await import("@/infra/git/draft");
+    vi.mocked(drafts.findDraftFor).mockReturnValueOnce(Future.resolve(Just(draft)));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.confirm).mockResolvedValueOnce(true);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    expect(router.generateCommitMessage).not.toHaveBeenCalled();
+    expect(repo.performCommit).toHaveBeenCalledWith("fix: from the draft");
+  });
+
+  it("credits this run's --co-author matches on a reused draft", async () => {
+    const drafts = await import("@/infra/git/draft");
+    vi.mocked(drafts.findDraftFor).mockReturnValueOnce(Future.resolve(Just(draft)));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.confirm).mockResolvedValueOnce(true);
+
+    await runFuture(Commit.create(Nothing(), "new", ["Ada"]).chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledWith("fix: from the draft\n\nCo-authored-by: Ada <ada@example.com>");
+  });
+
+  it("generates a new message when the draft is declined", async () => {
+    const drafts = await import("@/infra/git/draft");
+    vi.mocked(drafts.findDraftFor).mockReturnValueOnce(Future.resolve(Just(draft)));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.confirm).mockResolvedValueOnce(false);
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+
+  it("keeps the draft when the commit fails", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.performCommit).mockReturnValueOnce(Future.reject(new Error("pre-commit hook failed")));
+
+    await expect(runFuture(Commit.create().chain((c) => c.run()))).rejects.toThrow("pre-commit hook failed");
+
+    const drafts = await import("@/infra/git/draft");
+    const prompts = await import("@clack/prompts");
+    expect(drafts.dropDraft).not.toHaveBeenCalled();
+    expect(prompts.log.info).toHaveBeenCalledWith(expect.stringContaining("kept as a draft"));
+  });
+
+  it("never touches the draft when amending", async () => {
+    await runFuture(Commit.create(Nothing(), "amend").chain((c) => c.run()));
+
+    const drafts = await import("@/infra/git/draft");
+    expect(drafts.findDraftFor).not.toHaveBeenCalled();
+    expect(drafts.saveDraft).not.toHaveBeenCalled();
+    expect(drafts.dropDraft).not.toHaveBeenCalled();
+  });
+});
+
+describe("Commit amend", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config(true)));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValue("commit");
+  });
+
+  it("describes the last commit's diff and amends it", async () => {
+    await runFuture(Commit.create(Nothing(), "amend").chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    const prompts = await import("@clack/prompts");
+    expect(router.generateSplitPlan).not.toHaveBeenCalled();
+    expect(vi.mocked(router.generateCommitMessage).mock.calls[0]?.[1]).toEqual({ raw: "amend diff", full: "amend diff", fitted: "amend diff" });
+    expect(prompts.note).toHaveBeenCalledWith("wip", "Current Message");
+    expect(repo.performAmend).toHaveBeenCalledWith("feat: generated");
+    expect(repo.performCommit).not.toHaveBeenCalled();
+  });
+
+  it("warns when the last commit is already pushed", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.isHeadPushed).mockReturnValueOnce(Future.resolve(true));
+
+    await runFuture(Commit.create(Nothing(), "amend").chain((c) => c.run()));
+
+    const prompts = await import("@clack/prompts");
+    expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("force push with lease"));
+    expect(repo.performAmend).toHaveBeenCalled();
+  });
+});
+
+describe("Commit alternatives", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+  });
+
+  it("commits the candidate picked from the alternatives", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("alternatives").mockResolvedValueOnce(2).mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    expect(vi.mocked(router.generateCandidateMessages).mock.calls[0]?.[2]).toBe(3);
+    expect(router.repairCommitMessage).toHaveBeenCalledTimes(3);
+    expect(prompts.note).toHaveBeenCalledWith("fix: b", "Candidate 3");
+    expect(repo.performCommit).toHaveBeenCalledWith("fix: b");
+  });
+
+  it("goes back to an earlier candidate without another request", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select)
+      .mockResolvedValueOnce("alternatives")
+      .mockResolvedValueOnce(1)
+      .mockResolvedValueOnce("alternatives")
+      .mockResolvedValueOnce(0)
+      .mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    expect(router.generateCandidateMessages).toHaveBeenCalledTimes(1);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+
+  it("starts from the picker with --candidates", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce(0).mockResolvedValueOnce("commit");
+
+    await runFuture(Commit.create(Just(2)).chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    const repo = await import("@/infra/git/repo");
+    expect(router.generateCommitMessage).not.toHaveBeenCalled();
+    expect(vi.mocked(router.generateCandidateMessages).mock.calls[0]?.[2]).toBe(2);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: a");
+  });
+
+  it("cancels when the first picker is left", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("back");
+
+    await runFuture(Commit.create(Just(2)).chain((c) => c.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).not.toHaveBeenCalled();
+    expect(prompts.outro).toHaveBeenCalledWith("Operation cancelled.");
+  });
+});
+
+describe("Commit commitlint rules", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.findCommitMetadata).mockReturnValue(Future.resolve(Nothing()));
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValue("commit");
+  });
+
+  it("warns and carries on when the commitlint config cannot be read", async () => {
+    const commitlint = await import("@/infra/git/commitlint");
+    vi.mocked(commitlint.findCommitlintRules).mockReturnValueOnce(Future.reject(new Error(".commitlintrc.yml: YAML is not supported")));
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const prompts = await import("@clack/prompts");
+    const repo = await import("@/infra/git/repo");
+    expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("Ignoring commitlint config"));
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+  });
+
+  it("passes the rules to generation and repair", async () => {
+    const rules = parseCommitlintConfig({ extends: "@commitlint/config-conventional" }).either(
+      (e) => {
+        throw e;
+      },
+      (r) => r
+    );
+    const commitlint = await import("@/infra/git/commitlint");
+    vi.mocked(commitlint.findCommitlintRules).mockReturnValueOnce(Future.resolve(Just({ path: "/repo/.commitlintrc", rules })));
+
+    await runFuture(Commit.create().chain((c) => c.run()));
+
+    const router = await import("@/domain/llm/router");
+    expect(vi.mocked(router.generateCommitMessage).mock.calls[0]?.[4]?.commitlint).toEqual(Just(rules));
+    expect(vi.mocked(router.repairCommitMessage).mock.calls[0]?.[4]?.commitlint).toEqual(Just(rules));
+  });
 });
 
 describe("routeAnalysis", () => {
   const twoCommits = [
-    { message: "msg one", files: ["a.ts"] },
-    { message: "msg two", files: ["b.ts"] }
+    { message: "msg one", files: ["a.ts"], hunks: [] },
+    { message: "msg two", files: ["b.ts"], hunks: [] }
   ] as const;
 
   it("routes a multi-commit split plan to split", () => {
@@ -187,7 +792,7 @@ describe("routeAnalysis", () => {
   });
 
   it("routes a single-commit plan to that message", () => {
-    const r = routeAnalysis({ shouldSplit: false, commits: [{ message: "feat: one", files: ["a.ts"] }] });
+    const r = routeAnalysis({ shouldSplit: false, commits: [{ message: "feat: one", files: ["a.ts"], hunks: [] }] });
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value).toEqual({ tag: "single", message: "feat: one" });
@@ -195,7 +800,7 @@ describe("routeAnalysis", () => {
   });
 
   it("does not split when shouldSplit is true but only one commit exists", () => {
-    const r = routeAnalysis({ shouldSplit: true, commits: [{ message: "feat: one", files: ["a.ts"] }] });
+    const r = routeAnalysis({ shouldSplit: true, commits: [{ message: "feat: one", files: ["a.ts"], hunks: [] }] });
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value).toEqual({ tag: "single", message: "feat: one" });
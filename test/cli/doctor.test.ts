@@ -6,7 +6,7 @@ vi.mock("@/infra/env", () => ({
 
 import { Doctor } from "@/cli/doctor";
 import { Future } from "@/libs/future";
-import { Just } from "@/libs/maybe";
+import { Just, Nothing } from "@/libs/maybe";
 import { runFuture } from "@test/helpers/run-future";
 
 vi.mock("@/infra/storage/config", async (importOriginal) => {
@@ -19,6 +19,16 @@ vi.mock("@/infra/git/repo", () => ({
   findBaseBranch: vi.fn(() => Future.resolve(Just("main"))),
   findTrackingRemoteUrl: vi.fn(() => Future.resolve(Just("https://github.com/o/r.git")))
 }));
+vi.mock("@/infra/git/hooks", () => ({
+  inspectCommitHook: vi.fn(() => Future.resolve({ type: "absent" as const }))
+}));
+vi.mock("@/infra/storage/repo-config", () => ({
+  REPO_CONFIG_FILE: ".commit-tools.json",
+  findRepoConfig: vi.fn(() => Future.resolve(Nothing()))
+}));
+vi.mock("@/infra/git/commitlint", () => ({
+  findCommitlintRules: vi.fn(() => Future.resolve(Nothing()))
+}));
 vi.mock("@/infra/github/pr", () => ({
   getOpenPullRequest: vi.fn(() => Future.resolve({ type: "not-found" as const }))
 }));
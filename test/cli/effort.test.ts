@@ -39,6 +39,13 @@ describe("EffortCommand", () => {
         commit_convention: "conventional",
         custom_template: Nothing(),
         split_commits: false,
+        ignore: Just([]),
+        match_history: false,
+        ticket_pattern: Nothing(),
+        language: Nothing(),
+        gitmoji_style: "unicode",
+        verify_command: Nothing(),
+        detect_breaking_changes: true,
         ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
       } satisfies ConfigValue)
     );
@@ -55,6 +62,13 @@ describe("EffortCommand", () => {
       commit_convention: "conventional",
       custom_template: Nothing(),
       split_commits: false,
+      ignore: Just([]),
+      match_history: false,
+      ticket_pattern: Nothing(),
+      language: Nothing(),
+      gitmoji_style: "unicode",
+      verify_command: Nothing(),
+      detect_breaking_changes: true,
       ai: {
         provider: "openai",
         model: "gpt-5.6-sol",
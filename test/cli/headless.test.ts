@@ -0,0 +1,184 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/infra/env", () => ({
+  environment: { GOOGLE_CLIENT_ID: "test", GOOGLE_CLIENT_SECRET: "test" }
+}));
+
+import { Headless, HeadlessError, exitCodeOf, EXIT_CODES } from "@/cli/headless";
+import { Future } from "@/libs/future";
+import { Just, Nothing } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+import * as s from "@/libs/json/schema";
+import { Config } from "@/domain/config/config";
+
+type ConfigValue = s.Infer<typeof Config>;
+
+vi.mock("@/infra/storage/config", () => ({
+  loadConfig: vi.fn()
+}));
+vi.mock("@/domain/llm/auth-resolver", () => ({
+  resolveProvider: vi.fn((c: ConfigValue) => Future.resolve(c.ai))
+}));
+vi.mock("@/infra/storage/repo-config", () => ({
+  layerRepoConfig: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/template", () => ({
+  resolveCustomTemplate: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/workspace", () => ({
+  findWorkspacePackages: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/public-api", () => ({
+  findPublicApi: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/commitlint", () => ({
+  findCommitlintRules: vi.fn(() => Future.resolve(Nothing()))
+}));
+vi.mock("@/infra/git/draft", () => ({
+  dropDraft: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@/infra/git/commitignore", () => ({
+  stubIgnoredDiff: vi.fn((_patterns: readonly string[], diff: string) => Future.resolve(diff))
+}));
+vi.mock("@/infra/git/repo", () => ({
+  checkIsGitRepo: vi.fn(() => Future.resolve(undefined)),
+  getStagedDiff: vi.fn(() => Future.resolve("staged diff")),
+  isNoStagedChangesError: vi.fn((e: Error) => e.message === "No staged changes found"),
+  performCommit: vi.fn(() => Future.resolve("\n 1 file changed\n")),
+  hasUpstream: vi.fn(() => Future.resolve(true)),
+  performPush: vi.fn(() => Future.resolve({ output: "", range: Nothing() })),
+  getCurrentBranch: vi.fn(() => Future.resolve("feature"))
+}));
+vi.mock("@/domain/llm/router", () => ({
+  fitDiff: vi.fn((_config: unknown, raw: string, diff: string) => Future.resolve({ raw, full: diff, fitted: diff })),
+  diffFitsBudget: vi.fn(() => true),
+  MAX_REPAIR_ATTEMPTS: 2,
+  repairCommitMessage: vi.fn(<T>(_config: unknown, generated: T) => Future.resolve({ ...generated, violations: [] })),
+  generateCommitMessage: vi.fn(() =>
+    Future.resolve({
+      text: "feat: generated",
+      metadata: { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+    })
+  )
+}));
+vi.mock("@clack/prompts", () => ({
+  note: vi.fn(),
+  select: vi.fn(),
+  text: vi.fn(),
+  confirm: vi.fn(),
+  spinner: vi.fn(),
+  isCancel: vi.fn(() => false),
+  outro: vi.fn(),
+  log: { warn: vi.fn(), error: vi.fn() }
+}));
+
+const config = (): ConfigValue => ({
+  commit_convention: "conventional",
+  custom_template: Nothing(),
+  split_commits: true,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
+  ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
+});
+
+const run = (mode: Parameters<typeof Headless.create>[0]) => runFuture(Headless.create(mode).chain((h) => h.run()));
+
+const rejection = async (mode: Parameters<typeof Headless.create>[0]): Promise<Error> => {
+  try {
+    await run(mode);
+  } catch (e) {
+    return e as Error;
+  }
+  throw new Error("expected the run to fail");
+};
+
+describe("Headless.run", () => {
+  let stdout: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    stdout = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("--print writes only the message and does not commit", async () => {
+    await run({ type: "print" });
+    const repo = await import("@/infra/git/repo");
+    expect(stdout).toHaveBeenCalledWith("feat: generated\n");
+    expect(repo.performCommit).not.toHaveBeenCalled();
+  });
+
+  it("asks the router to fail instead of prompting on exhausted retries", async () => {
+    await run({ type: "print" });
+    const router = await import("@/domain/llm/router");
+    expect(vi.mocked(router.generateCommitMessage).mock.calls[0]?.[5]).toBe("fail");
+  });
+
+  it("--yes commits without any prompt", async () => {
+    await run({ type: "commit", push: false });
+    const repo = await import("@/infra/git/repo");
+    const prompts = await import("@clack/prompts");
+    const drafts = await import("@/infra/git/draft");
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: generated");
+    expect(drafts.dropDraft).toHaveBeenCalled();
+    expect(repo.performPush).not.toHaveBeenCalled();
+    expect(prompts.select).not.toHaveBeenCalled();
+  });
+
+  it("--yes --push pushes after committing", async () => {
+    await run({ type: "commit", push: true });
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performPush).toHaveBeenCalledWith();
+  });
+
+  it("fails with a push exit code instead of offering force-with-lease", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.performPush).mockReturnValue(Future.reject(new Error("! [rejected] main -> main (non-fast-forward)")));
+    const err = await rejection({ type: "commit", push: true });
+    const prompts = await import("@clack/prompts");
+    expect(exitCodeOf(err)).toBe(EXIT_CODES.pushNeedsConfirmation);
+    expect(prompts.confirm).not.toHaveBeenCalled();
+  });
+
+  it("fails with a push exit code instead of offering to publish", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.hasUpstream).mockReturnValue(Future.resolve(false));
+    const err = await rejection({ type: "commit", push: true });
+    expect(exitCodeOf(err)).toBe(EXIT_CODES.pushNeedsConfirmation);
+    expect(err.message).toContain("feature");
+    expect(repo.performPush).not.toHaveBeenCalled();
+  });
+
+  it("maps an empty index to its own exit code", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.getStagedDiff).mockReturnValue(Future.reject(new Error("No staged changes found")));
+    const err = await rejection({ type: "print" });
+    expect(exitCodeOf(err)).toBe(EXIT_CODES.noStagedChanges);
+  });
+
+  it("does not run setup when no configuration exists", async () => {
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.reject(new Error("ENOENT")));
+    const err = await rejection({ type: "print" });
+    expect(exitCodeOf(err)).toBe(EXIT_CODES.notConfigured);
+  });
+});
+
+describe("exitCodeOf", () => {
+  it("maps plain errors to the generic failure code", () => {
+    expect(exitCodeOf(new Error("boom"))).toBe(EXIT_CODES.failure);
+    expect(exitCodeOf(new HeadlessError("none", "noStagedChanges"))).toBe(2);
+  });
+});
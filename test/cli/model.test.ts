@@ -12,6 +12,13 @@ const config = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: { provider: "openai", model: "old", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
 });
 
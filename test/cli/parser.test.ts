@@ -2,10 +2,17 @@ import { describe, expect, it } from "vitest";
 import { parseArgs } from "@/cli/parser";
 import { ALIAS_TARGETS } from "@/domain/alias/alias";
 import { Failure, Success } from "@/libs/result";
+import { Just, Nothing } from "@/libs/maybe";
 
 describe("parseArgs", () => {
   it.each([
     [["generate"], "generate"],
+    [["amend"], "amend"],
+    [["reword"], "reword"],
+    [["draft"], "draft"],
+    [["add"], "add"],
+    [["draft", "clear"], "draft"],
+    [["reword", "HEAD~3..HEAD"], "reword"],
     [["branch"], "branch"],
     [["new-branch"], "branch"],
     [["setup"], "setup"],
@@ -41,6 +48,43 @@ describe("parseArgs", () => {
   });
 });
 
+describe("parseArgs hook", () => {
+  it.each([
+    [["hook"], "status"],
+    [["hook", "status"], "status"],
+    [["hook", "install"], "install"],
+    [["hook", "uninstall"], "uninstall"]
+  ] as const)("maps %j to %s", (argv, action) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "hook") expect(result.value.action).toBe(action);
+  });
+
+  it("rejects unknown hook subcommands", () => {
+    const result = parseArgs(["hook", "enable"]);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toContain("Unknown hook subcommand");
+  });
+});
+
+describe("parseArgs draft", () => {
+  it.each([
+    [["draft"], "show"],
+    [["draft", "show"], "show"],
+    [["draft", "clear"], "clear"]
+  ] as const)("maps %j to %s", (argv, action) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "draft") expect(result.value.action).toBe(action);
+  });
+
+  it("rejects unknown draft subcommands", () => {
+    const result = parseArgs(["draft", "drop"]);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toContain("Unknown draft subcommand");
+  });
+});
+
 describe("parseArgs alias", () => {
   // A shim passes its bound target straight back as argv[0], so every target must parse as a command.
   it.each(ALIAS_TARGETS)("target %s parses as a command", (target) => {
@@ -71,3 +115,99 @@ describe("parseArgs alias", () => {
     if (result instanceof Failure) expect(result.error.message).toMatch(message);
   });
 });
+
+describe("parseArgs generate", () => {
+  it.each([
+    [["generate"], { type: "interactive" }],
+    [[], { type: "interactive" }],
+    [["generate", "--print"], { type: "print" }],
+    [["--print"], { type: "print" }],
+    [["generate", "--yes"], { type: "commit", push: false }],
+    [["generate", "-y", "--push"], { type: "commit", push: true }],
+    [["--yes", "--push"], { type: "commit", push: true }]
+  ] as const)("maps %j to mode %j", (argv, mode) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "generate") expect(result.value.options.mode).toEqual(mode);
+  });
+
+  it.each([
+    [["generate", "--print", "--yes"], /cannot be combined/],
+    [["generate", "--push"], /--push requires --yes/],
+    [["generate", "--force"], /Unknown option for generate/],
+    [["generate", "--candidates"], /takes a number from 2 to 5/],
+    [["--candidates=9"], /takes a number from 2 to 5/],
+    [["generate", "--candidates", "3", "--print"], /needs the interactive picker/],
+    [["add", "--print"], /commit add is interactive/],
+    [["add", "--yes"], /commit add is interactive/]
+  ] as const)("rejects %j", (argv, message) => {
+    const result = parseArgs([...argv]);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toMatch(message);
+  });
+});
+
+describe("parseArgs generate --candidates", () => {
+  it.each([
+    [["generate"], Nothing()],
+    [["generate", "--candidates", "3"], Just(3)],
+    [["--candidates=2"], Just(2)]
+  ] as const)("maps %j to %j candidates", (argv, candidates) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "generate")
+      expect(result.value.options).toEqual({ mode: { type: "interactive" }, candidates, coAuthors: [], language: Nothing() });
+  });
+});
+
+describe("parseArgs generate --co-author", () => {
+  it.each([
+    [["--co-author", "alice"], ["alice"], { type: "interactive" }],
+    [["generate", "--co-author=bob@example.com", "--co-author", "Carol D"], ["bob@example.com", "Carol D"], { type: "interactive" }],
+    [["generate", "--yes", "--co-author", "alice", "--push"], ["alice"], { type: "commit", push: true }]
+  ] as const)("maps %j to %j", (argv, coAuthors, mode) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "generate")
+      expect(result.value.options).toEqual({ mode, candidates: Nothing(), coAuthors, language: Nothing() });
+  });
+
+  it.each([[["--co-author"]], [["generate", "--co-author", "--print"]], [["--co-author="]]] as const)("rejects %j", (argv) => {
+    const result = parseArgs([...argv]);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toMatch(/takes a name or email/);
+  });
+});
+
+describe("parseArgs --language", () => {
+  it.each([
+    [["--language", "pt-BR"], "pt-BR"],
+    [["generate", "--print", "--language=Brazilian Portuguese"], "Brazilian Portuguese"]
+  ] as const)("reads %j for generate", (argv, language) => {
+    const result = parseArgs([...argv]);
+    expect(result.isSuccess()).toBe(true);
+    if (result instanceof Success && result.value.type === "generate") expect(result.value.options.language).toEqual(Just(language));
+  });
+
+  it.each([
+    [["amend", "--language", "en"], { type: "amend", language: Just("en") }],
+    [["reword", "HEAD~2", "--language", "pt-BR"], { type: "reword", range: Just("HEAD~2"), language: Just("pt-BR") }],
+    [["reword", "--language=pt-BR"], { type: "reword", range: Nothing(), language: Just("pt-BR") }],
+    [["branch", "--language", "pt-BR"], { type: "branch", language: Just("pt-BR") }],
+    [["branch"], { type: "branch", language: Nothing() }]
+  ] as const)("reads %j", (argv, command) => {
+    expect(parseArgs([...argv])).toEqual(Success(command));
+  });
+
+  it.each([
+    [["--language"], /takes a language/],
+    [["amend", "--language", "--print"], /takes a language/],
+    [["--language", "en", "--language", "pt"], /only be given once/],
+    [["amend", "--force"], /Unknown option for amend/],
+    [["reword", "a..b", "c"], /Usage: commit reword/]
+  ] as const)("rejects %j", (argv, message) => {
+    const result = parseArgs([...argv]);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toMatch(message);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi, beforeEach } from "vitest";
+
+vi.mock("@/infra/env", () => ({
+  environment: { GOOGLE_CLIENT_ID: "test", GOOGLE_CLIENT_SECRET: "test" }
+}));
+
+import { Reword } from "@/cli/reword";
+import { Future } from "@/libs/future";
+import { Just, Nothing } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+import * as s from "@/libs/json/schema";
+import { Config } from "@/domain/config/config";
+
+type ConfigValue = s.Infer<typeof Config>;
+
+const metadata = { durationMs: 1, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() };
+
+vi.mock("@/infra/storage/config", () => ({
+  loadConfig: vi.fn()
+}));
+vi.mock("@/domain/llm/auth-resolver", () => ({
+  resolveProvider: vi.fn((c: ConfigValue) => Future.resolve(c.ai))
+}));
+vi.mock("@/infra/storage/repo-config", () => ({
+  layerRepoConfig: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/template", () => ({
+  resolveCustomTemplate: vi.fn(<T>(config: T) => Future.resolve(config))
+}));
+vi.mock("@/infra/git/workspace", () => ({
+  findWorkspacePackages: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/public-api", () => ({
+  findPublicApi: vi.fn(() => Future.resolve([]))
+}));
+vi.mock("@/infra/git/commitlint", () => ({
+  findCommitlintRules: vi.fn(() => Future.resolve(Nothing()))
+}));
+vi.mock("@/infra/git/commitignore", () => ({
+  stubIgnoredDiff: vi.fn((_patterns: readonly string[], diff: string) => Future.resolve(diff))
+}));
+vi.mock("@/infra/git/repo", () => ({
+  checkIsGitRepo: vi.fn(() => Future.resolve(undefined)),
+  hasTrackedChanges: vi.fn(() => Future.resolve(false)),
+  getUpstream: vi.fn(() => Future.resolve(Nothing())),
+  findBaseBranch: vi.fn(() => Future.resolve(Just("origin/main"))),
+  resolveCommit: vi.fn(() => Future.resolve("head")),
+  listRangeCommits: vi.fn(),
+  listRangeHashesNotIn: vi.fn(() => Future.resolve(new Set(["c1", "c2"]))),
+  getCommitDiff: vi.fn((hash: string) => Future.resolve(`diff of ${hash}`)),
+  performReword: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@/domain/llm/router", () => ({
+  fitDiff: vi.fn((_config: unknown, raw: string, diff: string) => Future.resolve({ raw, full: diff, fitted: diff })),
+  diffFitsBudget: vi.fn(() => true),
+  MAX_REPAIR_ATTEMPTS: 2,
+  repairCommitMessage: vi.fn(<T>(_config: unknown, generated: T) => Future.resolve({ ...generated, violations: [] })),
+  generateCommitMessage: vi.fn((_config: unknown, diff: { full: string }) => Future.resolve({ text: `feat: ${diff.full}`, metadata }))
+}));
+vi.mock("@clack/prompts", () => ({
+  note: vi.fn(),
+  select: vi.fn(async () => "accept"),
+  confirm: vi.fn(async () => true),
+  isCancel: vi.fn(() => false),
+  outro: vi.fn(),
+  log: { warn: vi.fn(), error: vi.fn() }
+}));
+vi.mock("@/infra/ui/spinner", () => ({
+  loading: vi.fn((_a: string, _b: string, f: Future<Error, unknown>) => f as Future<Error, never>),
+  streaming: vi.fn(
+    (_a: string, _b: unknown, body: (onText: (snapshot: string) => void) => Future<Error, unknown>) => body(() => {}) as Future<Error, never>
+  )
+}));
+
+const config = (): ConfigValue => ({
+  commit_convention: "conventional",
+  custom_template: Nothing(),
+  split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
+  ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
+});
+
+const commits = [
+  { hash: "c1", parents: ["base"], message: "wip" },
+  { hash: "c2", parents: ["c1"], message: "fix" }
+];
+
+describe("Reword.run", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const storage = await import("@/infra/storage/config");
+    vi.mocked(storage.loadConfig).mockReturnValue(Future.resolve(config()));
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.listRangeCommits).mockReturnValue(Future.resolve(commits));
+  });
+
+  it("defaults to the base branch and rewrites the accepted messages", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("accept").mockResolvedValueOnce("keep");
+
+    await runFuture(Reword.create().chain((r) => r.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.listRangeCommits).toHaveBeenCalledWith("origin/main..HEAD");
+    expect(repo.getCommitDiff).toHaveBeenCalledWith("c2");
+    expect(repo.performReword).toHaveBeenCalledWith(commits, new Map([["c1", "feat: diff of c1"]]));
+  });
+
+  it("rewrites nothing when cancelled part way", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("accept").mockResolvedValueOnce("cancel");
+
+    await runFuture(Reword.create().chain((r) => r.run()));
+
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performReword).not.toHaveBeenCalled();
+    expect(prompts.outro).toHaveBeenCalledWith("Reword cancelled. No commits were changed.");
+  });
+
+  it("refuses commits that are already on the base branch", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.listRangeHashesNotIn).mockReturnValueOnce(Future.resolve(new Set(["c2"])));
+
+    await expect(runFuture(Reword.create(Just("HEAD~2")).chain((r) => r.run()))).rejects.toThrow("c1 is already on the base branch");
+    expect(repo.listRangeCommits).toHaveBeenCalledWith("HEAD~2..HEAD");
+    expect(repo.performReword).not.toHaveBeenCalled();
+  });
+
+  it("refuses a dirty work tree before generating any message", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.hasTrackedChanges).mockReturnValueOnce(Future.resolve(true));
+
+    await expect(runFuture(Reword.create().chain((r) => r.run()))).rejects.toThrow("Reword needs a clean work tree");
+    const router = await import("@/domain/llm/router");
+    expect(router.generateCommitMessage).not.toHaveBeenCalled();
+    expect(repo.performReword).not.toHaveBeenCalled();
+  });
+
+  it("refuses ranges that do not end at HEAD", async () => {
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(repo.resolveCommit).mockImplementation((ref: string) => Future.resolve(ref === "HEAD" ? "head" : "other"));
+
+    await expect(runFuture(Reword.create(Just("HEAD~3..HEAD~1")).chain((r) => r.run()))).rejects.toThrow("end at HEAD");
+    expect(repo.listRangeCommits).not.toHaveBeenCalled();
+  });
+});
@@ -13,7 +13,7 @@ vi.mock("@/infra/auth/openai", () => ({
 
 import { Setup } from "@/cli/setup";
 import { Future } from "@/libs/future";
-import { Just } from "@/libs/maybe";
+import { Just, Nothing } from "@/libs/maybe";
 import { runFuture } from "@test/helpers/run-future";
 
 vi.mock("@clack/prompts", () => ({
@@ -62,11 +62,16 @@ vi.mock("@/infra/auth/anthropic", () => ({
   validateAnthropicSetupToken: vi.fn()
 }));
 
-/** The wizard asks provider, then convention, then split, then auth method — in that order. */
-const scriptWizard = async (provider: string, convention: string, split: boolean, authMethod: string) => {
+/** The wizard asks provider, then convention, then split, then match history, then auth method — in that order. */
+const scriptWizard = async (provider: string, convention: string, split: boolean, authMethod: string, matchHistory = false) => {
   const p = await import("@clack/prompts");
   vi.mocked(p.select).mockReset();
-  vi.mocked(p.select).mockResolvedValueOnce(provider).mockResolvedValueOnce(convention).mockResolvedValueOnce(split).mockResolvedValueOnce(authMethod);
+  vi.mocked(p.select)
+    .mockResolvedValueOnce(provider)
+    .mockResolvedValueOnce(convention)
+    .mockResolvedValueOnce(split)
+    .mockResolvedValueOnce(matchHistory)
+    .mockResolvedValueOnce(authMethod);
 };
 
 describe("Setup.run", () => {
@@ -81,6 +86,15 @@ describe("Setup.run", () => {
     expect(saveConfig).toHaveBeenCalled();
   });
 
+  it("leaves the ignore patterns out, so the saved config keeps following the defaults", async () => {
+    await scriptWizard("openai", "conventional", false, "api_key");
+    const { saveConfig } = await import("@/infra/storage/config");
+
+    await runFuture(Setup.create().chain((s) => s.run()));
+
+    expect(vi.mocked(saveConfig).mock.calls[0]?.[0].ignore).toEqual(Nothing());
+  });
+
   it("saves an xai api_key config", async () => {
     await scriptWizard("xai", "conventional", false, "api_key");
     const { saveConfig } = await import("@/infra/storage/config");
@@ -91,4 +105,30 @@ describe("Setup.run", () => {
       expect.objectContaining({ ai: expect.objectContaining({ provider: "xai", auth_method: { type: "api_key", content: "sk-test" } }) })
     );
   });
+
+  it("saves the match history choice", async () => {
+    await scriptWizard("openai", "conventional", false, "api_key", true);
+    const { saveConfig } = await import("@/infra/storage/config");
+
+    await runFuture(Setup.create().chain((s) => s.run()));
+
+    expect(saveConfig).toHaveBeenCalledWith(expect.objectContaining({ match_history: true }));
+  });
+
+  it("asks how to write gitmoji only for the gitmoji convention", async () => {
+    const p = await import("@clack/prompts");
+    vi.mocked(p.select).mockReset();
+    vi.mocked(p.select)
+      .mockResolvedValueOnce("openai")
+      .mockResolvedValueOnce("gitmoji")
+      .mockResolvedValueOnce("shortcode")
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce("api_key");
+    const { saveConfig } = await import("@/infra/storage/config");
+
+    await runFuture(Setup.create().chain((s) => s.run()));
+
+    expect(saveConfig).toHaveBeenCalledWith(expect.objectContaining({ commit_convention: "gitmoji", gitmoji_style: "shortcode" }));
+  });
 });
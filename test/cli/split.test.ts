@@ -11,45 +11,121 @@ import { runFuture } from "@test/helpers/run-future";
 import * as s from "@/libs/json/schema";
 import { Config } from "@/domain/config/config";
 import { type LlmRequestMetadata } from "@/domain/llm/router";
+import { type RepoConfigLayer } from "@/infra/storage/repo-config";
 
 type ConfigValue = s.Infer<typeof Config>;
 
 vi.mock("@/infra/git/repo", () => ({
   performCommit: vi.fn(() => Future.resolve("\n 1 file changed\n")),
+  getStagedFileDiff: vi.fn(() => Future.resolve(C_DIFF)),
+  verifyCommits: vi.fn(),
+  unstagePaths: vi.fn(() => Future.resolve(undefined)),
   findCommitMetadata: vi.fn()
 }));
+vi.mock("@/infra/git/draft", () => ({
+  dropDraft: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@/infra/git/verify-trust", () => ({
+  isVerifyCommandTrusted: vi.fn(() => Future.resolve(false)),
+  trustVerifyCommand: vi.fn(() => Future.resolve(undefined))
+}));
+vi.mock("@/infra/storage/repo-config", () => ({
+  REPO_CONFIG_FILE: ".commit-tools.json",
+  findRepoConfig: vi.fn(() => Future.resolve(Nothing()))
+}));
+vi.mock("@/infra/editor", () => ({
+  editCommitMessage: vi.fn(() => Future.resolve(Just("msg edited")))
+}));
 vi.mock("@clack/prompts", () => ({
   note: vi.fn(),
   select: vi.fn(async () => "apply"),
+  multiselect: vi.fn(),
   text: vi.fn(),
   confirm: vi.fn(),
   isCancel: vi.fn(() => false),
   outro: vi.fn(),
-  log: { warn: vi.fn(), error: vi.fn() }
+  log: { warn: vi.fn(), error: vi.fn(), success: vi.fn() }
 }));
 vi.mock("@/infra/ui/push-note", () => ({
   renderCommitNote: vi.fn(),
   renderPushNote: vi.fn()
 }));
 vi.mock("@/infra/ui/spinner", () => ({
-  loading: vi.fn((_a: string, _b: string, f: Future<Error, unknown>) => f as Future<Error, never>)
+  loading: vi.fn((_a: string, _b: string, f: Future<Error, unknown>) => f as Future<Error, never>),
+  bracketStatus: vi.fn((_a: string, _b: string, body: (status: { message: (msg: string) => void }) => Future<Error, unknown>) =>
+    body({ message: vi.fn() })
+  )
+}));
+vi.mock("@/domain/llm/router", () => ({
+  fitDiff: vi.fn((_config: unknown, raw: string, diff: string) => Future.resolve({ raw, full: diff, fitted: diff })),
+  diffFitsBudget: vi.fn(() => true),
+  generateSplitPlan: vi.fn(),
+  generateCommitMessage: vi.fn()
 }));
 
 const config = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } }
 });
 
 const plan = {
   shouldSplit: true,
   commits: [
-    { message: "msg one", files: ["a.ts"] },
-    { message: "msg two", files: ["b.ts"] }
+    { message: "msg one", files: ["a.ts"], hunks: [] },
+    { message: "msg two", files: ["b.ts"], hunks: [] }
   ]
 };
 
+const C_DIFF = [
+  "diff --git a/c.ts b/c.ts",
+  "--- a/c.ts",
+  "+++ b/c.ts",
+  "@@ -1,2 +1,3 @@",
+  " one",
+  "+first",
+  " two",
+  "@@ -20,2 +21,3 @@",
+  " x",
+  "+second",
+  " y",
+  ""
+].join("\n");
+
+const hunkPlan = {
+  shouldSplit: true,
+  commits: [
+    { message: "msg one", files: ["a.ts"], hunks: [{ path: "c.ts", header: "@@ -1,2 +1,3 @@" }] },
+    { message: "msg two", files: ["b.ts"], hunks: [{ path: "c.ts", header: "@@ -20,2 +21,3 @@" }] }
+  ]
+};
+
+/** A `.commit-tools.json` that sets only the verify command. */
+const repoLayer: RepoConfigLayer = {
+  path: ".commit-tools.json",
+  config: {
+    commit_convention: Nothing(),
+    custom_template: Nothing(),
+    split_commits: Nothing(),
+    match_history: Nothing(),
+    ticket_pattern: Nothing(),
+    language: Nothing(),
+    gitmoji_style: Nothing(),
+    verify_command: Just("pnpm typecheck"),
+    detect_breaking_changes: Nothing(),
+    model: Nothing(),
+    effort: Nothing()
+  }
+};
+
 const meta: LlmRequestMetadata = {
   durationMs: 1,
   model: { provider: "openai", model: "m", effort: "medium" },
@@ -58,7 +134,7 @@ const meta: LlmRequestMetadata = {
 
 const runPlan = () => {
   const cfg = config();
-  return Split.fromResolved(cfg, cfg.ai).runPlan("staged diff", ["a.ts", "b.ts"], plan, meta);
+  return Split.fromResolved(cfg, cfg.ai).runPlan({ raw: "staged diff", full: "staged diff", fitted: "staged diff" }, ["a.ts", "b.ts"], plan, meta);
 };
 
 describe("Split.runPlan", () => {
@@ -76,8 +152,10 @@ describe("Split.runPlan", () => {
   it("applies each commit group with pathspecs when user selects apply", async () => {
     await runFuture(runPlan());
     const repo = await import("@/infra/git/repo");
-    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"]);
-    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg two", ["b.ts"]);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"], []);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg two", ["b.ts"], []);
+    const drafts = await import("@/infra/git/draft");
+    expect(drafts.dropDraft).toHaveBeenCalledTimes(1);
   });
 
   it("does not commit when user selects cancel", async () => {
@@ -87,5 +165,191 @@ describe("Split.runPlan", () => {
     await runFuture(runPlan());
     const repo = await import("@/infra/git/repo");
     expect(repo.performCommit).not.toHaveBeenCalled();
+    const drafts = await import("@/infra/git/draft");
+    expect(drafts.dropDraft).not.toHaveBeenCalled();
+  });
+
+  it("replaces the picked commit's message with the one saved in the editor", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("edit_in_editor").mockResolvedValueOnce(1).mockResolvedValueOnce("apply");
+
+    await runFuture(runPlan());
+    const editor = await import("@/infra/editor");
+    const repo = await import("@/infra/git/repo");
+    expect(editor.editCommitMessage).toHaveBeenCalledWith("msg two");
+    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"], []);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg edited", ["b.ts"], []);
+  });
+
+  it("commits the planned hunks of a split file as patches", async () => {
+    const cfg = config();
+    await runFuture(
+      Split.fromResolved(cfg, cfg.ai).runPlan(
+        { raw: "staged diff", full: "staged diff", fitted: "staged diff" },
+        ["a.ts", "b.ts", "c.ts"],
+        hunkPlan,
+        meta
+      )
+    );
+    const repo = await import("@/infra/git/repo");
+    expect(repo.getStagedFileDiff).toHaveBeenCalledTimes(1);
+    const [first, second] = vi.mocked(repo.performCommit).mock.calls;
+    expect(first?.[2]?.map((patch) => patch.path)).toEqual(["c.ts"]);
+    expect(first?.[2]?.[0]?.patch).not.toContain("+second");
+    expect(second?.[2]?.[0]?.patch).toContain("@@ -21,2 +21,3 @@\n x\n+second");
+  });
+
+  it("joins a split file back together when its last hunk is moved", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.select).mockResolvedValueOnce("move").mockResolvedValueOnce(1).mockResolvedValueOnce(1).mockResolvedValueOnce("apply");
+    const cfg = config();
+    await runFuture(
+      Split.fromResolved(cfg, cfg.ai).runPlan(
+        { raw: "staged diff", full: "staged diff", fitted: "staged diff" },
+        ["a.ts", "b.ts", "c.ts"],
+        hunkPlan,
+        meta
+      )
+    );
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenNthCalledWith(1, "msg one", ["a.ts"], []);
+    expect(repo.performCommit).toHaveBeenNthCalledWith(2, "msg two", ["b.ts", "c.ts"], []);
+  });
+
+  it("merges two commits under a newly written message", async () => {
+    const prompts = await import("@clack/prompts");
+    const router = await import("@/domain/llm/router");
+    vi.mocked(prompts.select).mockResolvedValueOnce("merge").mockResolvedValueOnce(1).mockResolvedValueOnce(0).mockResolvedValueOnce("apply");
+    vi.mocked(router.generateCommitMessage).mockReturnValue(Future.resolve({ text: "feat: both", metadata: meta }));
+
+    await runFuture(runPlan());
+    const repo = await import("@/infra/git/repo");
+    expect(repo.performCommit).toHaveBeenCalledTimes(1);
+    expect(repo.performCommit).toHaveBeenCalledWith("feat: both", ["a.ts", "b.ts"], []);
+  });
+
+  it("unstages a deleted commit once the rest is committed, unless the delete is undone", async () => {
+    const prompts = await import("@clack/prompts");
+    const repo = await import("@/infra/git/repo");
+    vi.mocked(prompts.select).mockResolvedValueOnce("delete").mockResolvedValueOnce(1).mockResolvedValueOnce("apply");
+
+    await runFuture(runPlan());
+    expect(repo.performCommit).toHaveBeenCalledTimes(1);
+    expect(repo.unstagePaths).toHaveBeenCalledWith(["b.ts"]);
+
+    vi.clearAllMocks();
+    vi.mocked(prompts.select).mockResolvedValueOnce("delete").mockResolvedValueOnce(1).mockResolvedValueOnce("undo").mockResolvedValueOnce("apply");
+    await runFuture(runPlan());
+    expect(repo.performCommit).toHaveBeenCalledTimes(2);
+    expect(repo.unstagePaths).toHaveBeenCalledWith([]);
+  });
+
+  describe("with verify_command", () => {
+    const verified = () => {
+      const cfg = { ...config(), verify_command: Just("pnpm typecheck") };
+      return Split.fromResolved(cfg, cfg.ai).runPlan({ raw: "staged diff", full: "staged diff", fitted: "staged diff" }, ["a.ts", "b.ts"], plan, meta);
+    };
+
+    const offered = async (call: number): Promise<readonly unknown[]> => {
+      const prompts = await import("@clack/prompts");
+      const options = vi.mocked(prompts.select).mock.calls[call]?.[0].options ?? [];
+      return options.map((option) => option.value);
+    };
+
+    it("replays each planned commit and applies once they all pass", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("apply");
+      vi.mocked(repo.verifyCommits).mockReturnValue(Future.resolve({ type: "passed" }));
+
+      await runFuture(verified());
+      expect(repo.verifyCommits).toHaveBeenCalledWith(
+        "pnpm typecheck",
+        [
+          { files: ["a.ts"], patches: [] },
+          { files: ["b.ts"], patches: [] }
+        ],
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
+      expect(repo.performCommit).toHaveBeenCalledTimes(2);
+    });
+
+    it("blocks apply after a failure and sends the failing plan back to the model", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      const router = await import("@/domain/llm/router");
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("fix").mockResolvedValueOnce("apply");
+      vi.mocked(repo.verifyCommits).mockReturnValue(Future.resolve({ type: "failed", step: 0, output: "a.ts(1,1): error TS2304" }));
+      vi.mocked(router.generateSplitPlan).mockReturnValue(Future.resolve({ plan, metadata: meta }));
+
+      await runFuture(verified());
+      expect(await offered(0)).toContain("apply");
+      expect(await offered(1)).not.toContain("apply");
+      expect(await offered(1)).toContain("fix");
+      expect(await offered(2)).toContain("apply");
+      const failure = vi.mocked(router.generateSplitPlan).mock.calls[0]?.[6];
+      expect(failure).toEqual(Just({ plan, command: "pnpm typecheck", step: 0, output: "a.ts(1,1): error TS2304" }));
+      expect(repo.performCommit).toHaveBeenCalledTimes(2);
+    });
+
+    it("leaves the plan unverified when the run is cancelled", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("apply");
+      vi.mocked(repo.verifyCommits).mockReturnValue(Future.resolve({ type: "cancelled" }));
+
+      await runFuture(verified());
+      expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("Verification cancelled"));
+      expect(await offered(1)).toContain("apply");
+      expect(repo.performCommit).toHaveBeenCalledTimes(2);
+    });
+
+    it("asks before running a command that came from the repo config, and remembers a yes", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      const repoConfig = await import("@/infra/storage/repo-config");
+      const trust = await import("@/infra/git/verify-trust");
+      vi.mocked(repoConfig.findRepoConfig).mockReturnValueOnce(Future.resolve(Just(repoLayer)));
+      vi.mocked(prompts.confirm).mockResolvedValueOnce(true);
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("apply");
+      vi.mocked(repo.verifyCommits).mockReturnValue(Future.resolve({ type: "passed" }));
+
+      await runFuture(verified());
+      expect(prompts.note).toHaveBeenCalledWith("pnpm typecheck", "verify_command from .commit-tools.json");
+      expect(trust.trustVerifyCommand).toHaveBeenCalledWith("pnpm typecheck");
+      expect(repo.verifyCommits).toHaveBeenCalledTimes(1);
+    });
+
+    it("runs nothing when the user declines a repo-supplied command", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      const repoConfig = await import("@/infra/storage/repo-config");
+      const trust = await import("@/infra/git/verify-trust");
+      vi.mocked(repoConfig.findRepoConfig).mockReturnValueOnce(Future.resolve(Just(repoLayer)));
+      vi.mocked(prompts.confirm).mockResolvedValueOnce(false);
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("apply");
+
+      await runFuture(verified());
+      expect(repo.verifyCommits).not.toHaveBeenCalled();
+      expect(trust.trustVerifyCommand).not.toHaveBeenCalled();
+      expect(prompts.log.warn).toHaveBeenCalledWith(expect.stringContaining("Verification skipped"));
+    });
+
+    it("runs a global or already approved command without asking", async () => {
+      const prompts = await import("@clack/prompts");
+      const repo = await import("@/infra/git/repo");
+      vi.mocked(prompts.select).mockResolvedValueOnce("verify").mockResolvedValueOnce("apply");
+      vi.mocked(repo.verifyCommits).mockReturnValue(Future.resolve({ type: "passed" }));
+
+      await runFuture(verified());
+      expect(prompts.confirm).not.toHaveBeenCalled();
+      expect(repo.verifyCommits).toHaveBeenCalledTimes(1);
+    });
+
+    it("offers no verify action without a command", async () => {
+      await runFuture(runPlan());
+      expect(await offered(0)).not.toContain("verify");
+    });
   });
 });
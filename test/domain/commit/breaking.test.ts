@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectBreakingChanges,
+  describeBreakingChanges,
+  isMarkedBreaking,
+  markBreaking,
+  settleBreaking,
+  unmarkBreaking,
+  unsettledBreakingChanges
+} from "@/domain/commit/breaking";
+
+const section = (path: string, hunk: string, header = ""): string =>
+  `diff --git a/${path} b/${path}\n${header}index 1111111..2222222 100644\n--- a/${path}\n+++ b/${path}\n@@ -1,5 +1,5 @@\n${hunk}`;
+
+const publicApi = ["src/config.ts", "src/index.ts", "src/run.ts", "src/old.ts", "src/a.ts"];
+
+describe("detectBreakingChanges", () => {
+  it("finds exports that were removed or renamed", () => {
+    const diff = [
+      section(
+        "src/config.ts",
+        "-export const loadConfig = (): Config => read();\n+export const readConfig = (): Config => read();\n export type Config = {};"
+      ),
+      section("src/index.ts", "-export { run, type Options };\n+export { run };")
+    ].join("\n");
+
+    expect(detectBreakingChanges(diff, publicApi)).toEqual([
+      { type: "removed_export", path: "src/config.ts", name: "loadConfig" },
+      { type: "removed_export", path: "src/index.ts", name: "Options" }
+    ]);
+  });
+
+  it("finds changed signatures of exported functions", () => {
+    const diff = section(
+      "src/run.ts",
+      "-export function run(path: string): void {\n+export function run(path: string, force: boolean): void {\n   go();"
+    );
+    expect(detectBreakingChanges(diff, publicApi)).toEqual([{ type: "changed_signature", path: "src/run.ts", name: "run" }]);
+  });
+
+  it("lets optional parameters added at the end through", () => {
+    const diff = section("src/run.ts", "-export const run = (path: string) => go();\n+export const run = (path: string, force = false) => go();");
+    expect(detectBreakingChanges(diff, publicApi)).toEqual([]);
+  });
+
+  it("finds deleted and moved files", () => {
+    const diff = [
+      "diff --git a/src/old.ts b/src/old.ts\ndeleted file mode 100644\nindex 1111111..0000000\n--- a/src/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-export const x = 1;",
+      "diff --git a/src/a.ts b/src/lib/a.ts\nsimilarity index 100%\nrename from src/a.ts\nrename to src/lib/a.ts"
+    ].join("\n");
+
+    expect(detectBreakingChanges(diff, publicApi)).toEqual([
+      { type: "deleted_file", path: "src/old.ts" },
+      { type: "moved_file", path: "src/a.ts", to: "src/lib/a.ts" }
+    ]);
+  });
+
+  it("ignores files outside the public API and additions", () => {
+    const diff = [
+      section("test/run.test.ts", "-export const helper = () => 1;"),
+      section("src/cli/internal.ts", "-export const helper = () => 1;"),
+      section("README.md", "-export { run };"),
+      section("src/run.ts", "+export const added = () => 1;\n export const run = () => 1;")
+    ].join("\n");
+
+    expect(detectBreakingChanges(diff, publicApi)).toEqual([]);
+    expect(detectBreakingChanges(section("src/run.ts", "-export const run = () => 1;"), [])).toEqual([]);
+  });
+
+  it("leaves the findings to the author once they have given a verdict", () => {
+    const diff = section("src/run.ts", "-export const run = () => 1;");
+    expect(unsettledBreakingChanges(diff, publicApi, { type: "detect" })).toEqual([{ type: "removed_export", path: "src/run.ts", name: "run" }]);
+    expect(unsettledBreakingChanges(diff, publicApi, { type: "not_breaking" })).toEqual([]);
+    expect(unsettledBreakingChanges(diff, publicApi, { type: "breaking", description: "Run is gone." })).toEqual([]);
+  });
+});
+
+describe("breaking-change marks", () => {
+  const footer = "BREAKING CHANGE: `run` takes a force flag.";
+
+  it("adds the bang and a footer ahead of the other trailers", () => {
+    const marked = markBreaking("feat(cli): add force\n\n- Skip checks.\n\nCo-authored-by: Ana <ana@x.io>", "`run` takes a force flag.");
+    expect(marked).toBe(`feat(cli)!: add force\n\n- Skip checks.\n\n${footer}\nCo-authored-by: Ana <ana@x.io>`);
+    expect(isMarkedBreaking(marked)).toBe(true);
+    expect(markBreaking(marked, "other")).toBe(marked);
+  });
+
+  it("removes both marks and keeps the other trailers", () => {
+    expect(unmarkBreaking(`feat!: add force\n\n${footer}\nCo-authored-by: Ana <ana@x.io>`)).toBe("feat: add force\n\nCo-authored-by: Ana <ana@x.io>");
+    expect(unmarkBreaking(`fix!: handle null\n\n${footer}`)).toBe("fix: handle null");
+    expect(isMarkedBreaking("feat: add force")).toBe(false);
+  });
+
+  it("settles the message on the author's verdict and leaves the model's call alone otherwise", () => {
+    expect(settleBreaking("feat: drop old", { type: "detect" })).toBe("feat: drop old");
+    expect(settleBreaking("feat!: drop old\n\nBREAKING CHANGE: Old is gone.", { type: "detect" })).toBe(
+      "feat!: drop old\n\nBREAKING CHANGE: Old is gone."
+    );
+    expect(settleBreaking("feat!: drop old", { type: "not_breaking" })).toBe("feat: drop old");
+    expect(settleBreaking("feat: drop old", { type: "breaking", description: "Old is gone." })).toBe("feat!: drop old\n\nBREAKING CHANGE: Old is gone.");
+  });
+
+  it("joins several findings into one footer sentence", () => {
+    expect(
+      describeBreakingChanges([
+        { type: "removed_export", path: "src/a.ts", name: "a" },
+        { type: "changed_signature", path: "src/b.ts", name: "b" }
+      ])
+    ).toBe("`a` is no longer exported from src/a.ts; `b` in src/b.ts has a new signature.");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SHORTLIST, addToShortlist, parseCandidateMessages, subjectOf } from "@/domain/commit/candidates";
+import { Failure, Success } from "@/libs/result";
+
+describe("parseCandidateMessages", () => {
+  it("reads fenced JSON, drops blanks and repeats, and caps the count", () => {
+    const raw = '```json\n{"messages":["feat: a", " ", "feat: a ", "fix: b", "docs: c"]}\n```';
+    expect(parseCandidateMessages(raw, 2)).toEqual(Success(["feat: a", "fix: b"]));
+  });
+
+  it.each([
+    ["feat: plain text", "invalid JSON"],
+    ['{"message":"feat: a"}', "Candidates:"],
+    ['{"messages":[""]}', "no messages"]
+  ])("rejects %s", (raw, error) => {
+    const result = parseCandidateMessages(raw, 3);
+    expect(result.isFailure()).toBe(true);
+    if (result instanceof Failure) expect(result.error.message).toContain(error);
+  });
+});
+
+describe("addToShortlist", () => {
+  const entry = (text: string) => ({ text });
+
+  it("moves a repeated message to the end instead of listing it twice", () => {
+    const list = addToShortlist([entry("a"), entry("b")], [entry("a\n"), entry("c"), entry("c")]);
+    expect(list.map((e) => e.text)).toEqual(["b", "a\n", "c"]);
+  });
+
+  it("keeps only the most recent entries", () => {
+    const list = addToShortlist(
+      [],
+      Array.from({ length: MAX_SHORTLIST + 2 }, (_, i) => entry(`m${i}`))
+    );
+    expect(list).toHaveLength(MAX_SHORTLIST);
+    expect(list[0]?.text).toBe("m2");
+  });
+});
+
+describe("subjectOf", () => {
+  it("returns the first line", () => {
+    expect(subjectOf("\nfeat: a\n\n- detail")).toBe("feat: a");
+  });
+});
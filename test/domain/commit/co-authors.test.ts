@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_RECENT_CO_AUTHORS,
+  coAuthorsOf,
+  keepCoAuthors,
+  rememberCoAuthors,
+  resolveCoAuthor,
+  searchContributors,
+  splitTrailers,
+  withCoAuthors
+} from "@/domain/commit/co-authors";
+import { Failure, Success } from "@/libs/result";
+
+const ada = { name: "Ada Lovelace", email: "ada@example.com" };
+const grace = { name: "Grace Hopper", email: "grace@example.com" };
+const alan = { name: "Alan Turing", email: "alan@example.com" };
+
+describe("splitTrailers", () => {
+  it("splits off a final paragraph of Key: value lines", () => {
+    expect(splitTrailers("feat: x\n\n- Add x.\n\nCo-authored-by: Ada <a@b.c>\nRefs: #1\n")).toEqual({
+      body: "feat: x\n\n- Add x.",
+      trailers: ["Co-authored-by: Ada <a@b.c>", "Refs: #1"]
+    });
+  });
+
+  it("never takes the subject or a paragraph with other lines", () => {
+    expect(splitTrailers("feat: x").trailers).toEqual([]);
+    expect(splitTrailers("feat: x\n\nRefs: #1\n- not a trailer").trailers).toEqual([]);
+  });
+
+  it("needs a known trailer key, so a paragraph of Word: text lines stays in the body", () => {
+    expect(splitTrailers("feat: x\n\nNote: the cache is rebuilt on start.\nWhy: it was stale.")).toEqual({
+      body: "feat: x\n\nNote: the cache is rebuilt on start.\nWhy: it was stale.",
+      trailers: []
+    });
+    expect(splitTrailers("feat: x\n\nNote: see below.\nsigned-off-by: Ada <a@b.c>").trailers).toEqual(["Note: see below.", "signed-off-by: Ada <a@b.c>"]);
+  });
+});
+
+describe("withCoAuthors", () => {
+  it("appends trailers after a blank line", () => {
+    expect(withCoAuthors("feat: x\n\n- Add x.", [ada, grace])).toBe(
+      "feat: x\n\n- Add x.\n\nCo-authored-by: Ada Lovelace <ada@example.com>\nCo-authored-by: Grace Hopper <grace@example.com>"
+    );
+  });
+
+  it("joins an existing trailer block and skips people already credited", () => {
+    const message = "feat: x\n\nRefs: #1\nCo-authored-by: Ada <ADA@example.com>";
+    expect(withCoAuthors(message, [ada, grace, grace])).toBe(`${message}\nCo-authored-by: Grace Hopper <grace@example.com>`);
+  });
+
+  it("leaves a message without co-authors as it was", () => {
+    expect(withCoAuthors("feat: x\n", [])).toBe("feat: x");
+  });
+});
+
+describe("keepCoAuthors", () => {
+  it("carries the trailers over to a rewritten message", () => {
+    const before = withCoAuthors("feat: x", [ada]);
+    expect(coAuthorsOf(keepCoAuthors(before, "feat: shorter"))).toEqual([ada]);
+    expect(keepCoAuthors(before, before)).toBe(before);
+  });
+});
+
+describe("searchContributors", () => {
+  it("puts recent pairs first when there is no query", () => {
+    expect(searchContributors("", [ada, grace, alan], [alan])).toEqual([alan, ada, grace]);
+  });
+
+  it("fuzzy matches names and emails", () => {
+    expect(searchContributors("grho", [ada, grace, alan], [])).toEqual([grace]);
+    expect(searchContributors("alan@", [ada, grace, alan], [])[0]).toEqual(alan);
+  });
+});
+
+describe("resolveCoAuthor", () => {
+  it("picks the best match or explains that nobody matched", () => {
+    expect(resolveCoAuthor("ada", [grace, ada], [])).toEqual(Success(ada));
+    expect(resolveCoAuthor("zed", [grace, ada], [])).toBeInstanceOf(Failure);
+  });
+});
+
+describe("rememberCoAuthors", () => {
+  it("moves repeats to the front and keeps a bounded list", () => {
+    expect(rememberCoAuthors([ada, grace], [grace])).toEqual([grace, ada]);
+    const many = Array.from({ length: MAX_RECENT_CO_AUTHORS }, (_, i) => ({ name: `P${i}`, email: `p${i}@example.com` }));
+    expect(rememberCoAuthors(many, [ada])).toHaveLength(MAX_RECENT_CO_AUTHORS);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { checkCommitlint, parseCommitlintConfig, renderCommitlintRules, type CommitlintRules } from "@/domain/commit/commitlint";
+import { Just } from "@/libs/maybe";
+
+const parse = (config: unknown): CommitlintRules =>
+  parseCommitlintConfig(config).either(
+    (e) => {
+      throw e;
+    },
+    (rules) => rules
+  );
+
+describe("parseCommitlintConfig", () => {
+  it("expands config-conventional and lets local rules override it", () => {
+    const rules = parse({ extends: ["@commitlint/config-conventional"], rules: { "header-max-length": [2, "always", 72] } });
+    expect(rules.types.withDefault([])).toContain("revert");
+    expect(rules.headerMaxLength).toEqual(Just(72));
+    expect(rules.subjectCase.isJust()).toBe(true);
+  });
+
+  it("ignores warnings, disabled rules and function-valued rules", () => {
+    const rules = parse({
+      rules: { "type-enum": [1, "always", ["feat"]], "scope-enum": [0], "subject-case": () => [2, "always", "lower-case"] }
+    });
+    expect(rules.types.isNothing()).toBe(true);
+    expect(rules.scopes.isNothing()).toBe(true);
+    expect(rules.subjectCase.isNothing()).toBe(true);
+  });
+
+  it("rejects configs that are not objects", () => {
+    expect(
+      parseCommitlintConfig([]).either(
+        () => "failed",
+        () => "ok"
+      )
+    ).toBe("failed");
+    expect(
+      parseCommitlintConfig({ rules: [] }).either(
+        () => "failed",
+        () => "ok"
+      )
+    ).toBe("failed");
+  });
+});
+
+describe("checkCommitlint", () => {
+  const rules = parse({
+    extends: "@commitlint/config-conventional",
+    rules: { "scope-enum": [2, "always", ["api", "cli"]], "body-max-line-length": [2, "always", 20] }
+  });
+
+  it("accepts a message that follows every rule", () => {
+    expect(checkCommitlint("fix(api,cli): handle null\n\n- Short bullet.", rules)).toEqual([]);
+  });
+
+  it("reports disallowed types and scopes", () => {
+    expect(checkCommitlint("feature: add x", rules)).toEqual([expect.stringContaining('type "feature" is not allowed')]);
+    expect(checkCommitlint("feat(web/api): add x", rules)).toEqual([expect.stringContaining('scope "web" is not allowed')]);
+  });
+
+  it("applies case rules the way commitlint does", () => {
+    expect(checkCommitlint("feat: Add x", rules)).toEqual([expect.stringContaining("must not be sentence-case")]);
+    expect(checkCommitlint("feat: add OAuth login", rules)).toEqual([]);
+    expect(checkCommitlint("Feat: add x", rules)).toContainEqual(expect.stringContaining("must be lower-case"));
+  });
+
+  it("checks header and body line lengths", () => {
+    expect(checkCommitlint(`feat: ${"x".repeat(100)}`, rules)).toEqual([expect.stringContaining("at most 100")]);
+    expect(checkCommitlint("feat: add x\n\n- This bullet is far too long.", rules)).toEqual([expect.stringContaining("20 characters")]);
+  });
+
+  it("leaves trailers out of the body line length", () => {
+    expect(checkCommitlint("feat: add x\n\n- Short.\n\nCo-authored-by: Ada Lovelace <ada@example.com>", rules)).toEqual([]);
+  });
+});
+
+describe("renderCommitlintRules", () => {
+  it("renders nothing when no rule applies", () => {
+    expect(renderCommitlintRules(parse({}))).toBe("");
+  });
+
+  it("lists scopes and case rules", () => {
+    const rendered = renderCommitlintRules(parse({ rules: { "scope-enum": [2, "always", ["api"]], "subject-case": [2, "always", "lower-case"] } }));
+    expect(rendered).toContain("Allowed scopes: api.");
+    expect(rendered).toContain("must be lower-case");
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { describeDraftAge } from "@/domain/commit/draft";
+
+const MINUTE = 60_000;
+
+describe("describeDraftAge", () => {
+  it.each([
+    [0, "just now"],
+    [59_000, "just now"],
+    [MINUTE, "1 minute ago"],
+    [5 * MINUTE, "5 minutes ago"],
+    [60 * MINUTE, "1 hour ago"],
+    [3 * 60 * MINUTE, "3 hours ago"],
+    [2 * 24 * 60 * MINUTE, "2 days ago"]
+  ])("describes an age of %i ms as %s", (age, expected) => {
+    expect(describeDraftAge(1_000_000_000 - age, 1_000_000_000)).toBe(expected);
+  });
+
+  it("treats a clock that went backwards as just now", () => {
+    expect(describeDraftAge(2 * MINUTE, MINUTE)).toBe("just now");
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { cleanEditedMessage, editorBuffer } from "@/domain/commit/edit";
+
+describe("cleanEditedMessage", () => {
+  it("strips comments and trailing whitespace and collapses blank lines like git", () => {
+    const text = "\n\nfeat: add x   \n# a comment\n\n\n\n- detail\n# trailing\n\n";
+    expect(cleanEditedMessage(text)).toBe("feat: add x\n\n- detail");
+  });
+
+  it("keeps a hash that does not start the line", () => {
+    expect(cleanEditedMessage("fix: handle #42\r\n")).toBe("fix: handle #42");
+  });
+
+  it("reads back an untouched buffer as the original message", () => {
+    const message = "feat: add x\n\n- one\n- two";
+    expect(cleanEditedMessage(editorBuffer(message))).toBe(message);
+  });
+
+  it("treats a buffer of comments as empty", () => {
+    expect(cleanEditedMessage(editorBuffer(""))).toBe("");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { GITMOJIS, gitmojiOf, renderGitmoji, startsWithGitmoji } from "@/domain/commit/gitmoji";
+
+describe("gitmoji catalogue", () => {
+  it("has one entry per shortcode", () => {
+    expect(new Set(GITMOJIS.map((gitmoji) => gitmoji.code)).size).toBe(GITMOJIS.length);
+  });
+
+  it("renders a gitmoji in either style", () => {
+    const sparkles = gitmojiOf(":sparkles:");
+    expect(sparkles.maybe("", (gitmoji) => renderGitmoji(gitmoji, "unicode"))).toBe("✨");
+    expect(sparkles.maybe("", (gitmoji) => renderGitmoji(gitmoji, "shortcode"))).toBe(":sparkles:");
+    expect(gitmojiOf(":nope:").isNothing()).toBe(true);
+  });
+});
+
+describe("startsWithGitmoji", () => {
+  it.each(["✨ Add x", ":sparkles: Add x", "⚡️ Speed up x", "⚡ Speed up x", "🧑‍💻 Improve scripts"])("accepts %s", (subject) => {
+    expect(startsWithGitmoji(subject)).toBe(true);
+  });
+
+  it.each(["Add x", "✨Add x", ":sparkle: Add x", "feat: add x"])("rejects %s", (subject) => {
+    expect(startsWithGitmoji(subject)).toBe(false);
+  });
+});
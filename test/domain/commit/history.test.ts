@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { HISTORY_SAMPLE_SIZE, selectHistoryExamples } from "@/domain/commit/history";
+
+const commit = (subject: string, files: string[] = ["a.ts"]) => ({ subject, body: "", files });
+
+describe("selectHistoryExamples", () => {
+  it("skips merges, reverts and autosquash commits", () => {
+    const picked = selectHistoryExamples([commit("Merge branch 'x'"), commit('Revert "feat: a"'), commit("fixup! feat: a"), commit("feat: keep me")]);
+    expect(picked.map((c) => c.subject)).toEqual(["feat: keep me"]);
+  });
+
+  it("keeps the newest commits up to the sample size", () => {
+    const picked = selectHistoryExamples(Array.from({ length: 20 }, (_, i) => commit(`feat: ${i}`)));
+    expect(picked).toHaveLength(HISTORY_SAMPLE_SIZE);
+    expect(picked[0]?.subject).toBe("feat: 0");
+  });
+
+  it("caps long file lists", () => {
+    const [picked] = selectHistoryExamples([
+      commit(
+        "feat: many",
+        Array.from({ length: 12 }, (_, i) => `f${i}.ts`)
+      )
+    ]);
+    expect(picked?.files.at(-1)).toBe("(+4 more)");
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { getPrompt, getRefinePrompt, getSplitPrompt } from "@/domain/commit/prompts";
+import { getBranchNamePrompt, getCandidatesPrompt, getPrompt, getRefinePrompt, getSplitPrompt } from "@/domain/commit/prompts";
 import { Just, Nothing } from "@/libs/maybe";
+import { EMPTY_STYLE_GUIDE } from "@/domain/commit/style-guide";
+import { parseCommitlintConfig } from "@/domain/commit/commitlint";
+import { type CommitConvention } from "@/domain/config/config";
+import { type GitmojiStyle } from "@/domain/commit/gitmoji";
 
 const DIFF = "diff --git a/foo.ts b/foo.ts\n+console.log(1)";
 
@@ -60,6 +64,46 @@ describe("getSplitPrompt", () => {
     expect(prompt).toContain("unrelated layers");
     expect(prompt).not.toContain("should_split=true only when");
   });
+
+  it("offers hunks only when some file can be split", () => {
+    const hunks = [
+      { path: "foo.ts", header: "@@ -1,3 +1,4 @@" },
+      { path: "foo.ts", header: "@@ -40,2 +41,3 @@" }
+    ];
+    const prompt = getSplitPrompt(DIFF, ["foo.ts", "bar.ts"], "conventional", Nothing(), EMPTY_STYLE_GUIDE, hunks);
+    expect(prompt).toContain("<staged_hunks>\n        foo.ts @@ -1,3 +1,4 @@\n        foo.ts @@ -40,2 +41,3 @@");
+    expect(prompt).toContain('"hunks":[{"file"');
+    expect(getSplitPrompt(DIFF, ["foo.ts", "bar.ts"], "conventional")).not.toContain("hunks");
+  });
+
+  it("sends back a plan that failed verification with the tail of its output", () => {
+    const plan = {
+      shouldSplit: true,
+      commits: [
+        { message: "feat: use bar", files: ["foo.ts"], hunks: [] },
+        { message: "feat: add bar", files: ["bar.ts"], hunks: [] }
+      ]
+    };
+    const output = ["head of the log", ...Array.from({ length: 40 }, (_, i) => `line ${i}`)].join("\n");
+    const failure = Just({ plan, command: "pnpm typecheck", step: 0, output });
+    const prompt = getSplitPrompt(DIFF, ["foo.ts", "bar.ts"], "conventional", Nothing(), EMPTY_STYLE_GUIDE, [], failure);
+    expect(prompt).toContain("running `pnpm typecheck` after each. Commit 1 failed");
+    expect(prompt).toContain('<previous_plan>{"should_split":true,"commits":[{"message":"feat: use bar","files":["foo.ts"]}');
+    expect(prompt).toContain("line 39");
+    expect(prompt).not.toContain("head of the log");
+    expect(getSplitPrompt(DIFF, ["foo.ts"], "conventional")).not.toContain("<failed_plan>");
+  });
+});
+
+describe("getCandidatesPrompt", () => {
+  it("keeps the convention and asks for a JSON list of messages", () => {
+    const prompt = getCandidatesPrompt(DIFF, 4, "conventional");
+    expect(prompt).toContain(DIFF);
+    expect(prompt).toContain("Conventional Commits");
+    expect(prompt).toContain("Write 4 different commit messages");
+    expect(prompt).toContain('{"messages":[');
+    expect(prompt).not.toMatch(/output ONLY the final commit message/i);
+  });
 });
 
 describe("getRefinePrompt", () => {
@@ -67,10 +111,164 @@ describe("getRefinePrompt", () => {
     const { prompt, systemInstruction } = getRefinePrompt({
       diff: DIFF,
       currentMessage: "feat: add x",
-      adjustment: "shorter"
+      adjustment: "shorter",
+      convention: "conventional"
     });
     expect(prompt).toContain("<diff>");
     expect(prompt).toContain("shorter");
     expect(systemInstruction).toContain("revise commit messages");
+    expect(prompt).not.toContain("<earlier_adjustments>");
+  });
+
+  it("puts earlier adjustments before the current message", () => {
+    const { prompt } = getRefinePrompt({
+      diff: DIFF,
+      currentMessage: "feat: add x cache",
+      adjustment: "mention the cache",
+      convention: "conventional",
+      earlier: [{ adjustment: "keep it under 50 chars", message: "feat: add x" }]
+    });
+    expect(prompt).toContain("<adjustment>\nkeep it under 50 chars\n</adjustment>\n<result>\nfeat: add x\n</result>");
+    expect(prompt.indexOf("<earlier_adjustments>")).toBeLessThan(prompt.indexOf("<current>"));
+  });
+
+  it("keeps the active convention instead of falling back to the imperative style", () => {
+    const refine = (convention: CommitConvention, gitmojiStyle: GitmojiStyle = "unicode"): string =>
+      getRefinePrompt({ diff: DIFF, currentMessage: "x", adjustment: "shorter", convention, gitmojiStyle }).systemInstruction;
+    expect(refine("gitmoji")).toContain("as the emoji character itself");
+    expect(refine("gitmoji", "shortcode")).toContain("as its :shortcode:");
+    expect(refine("conventional")).toContain("BREAKING CHANGE");
+    expect(refine("imperative")).toContain("no gitmoji");
+    expect(refine("imperative")).not.toContain("BREAKING CHANGE");
+  });
+});
+
+describe("breaking changes", () => {
+  const changes = [{ type: "removed_export", path: "src/config.ts", name: "loadConfig" }] as const;
+
+  it("gives the conventional prompt the detected changes as facts", () => {
+    const prompt = getPrompt(DIFF, "conventional", Nothing(), EMPTY_STYLE_GUIDE, changes);
+    expect(prompt).toContain("- `loadConfig` is no longer exported from src/config.ts");
+    expect(prompt).toContain('Mark the type with "!"');
+    expect(getPrompt(DIFF, "conventional")).not.toContain("<breaking_changes>");
+    expect(getPrompt(DIFF, "imperative", Nothing(), EMPTY_STYLE_GUIDE, changes)).not.toContain("<breaking_changes>");
+  });
+
+  it("follows the author's verdict over the detection", () => {
+    const notBreaking = getPrompt(DIFF, "conventional", Nothing(), { ...EMPTY_STYLE_GUIDE, breaking: { type: "not_breaking" } }, changes);
+    expect(notBreaking).toContain("confirmed this change is not breaking");
+    expect(notBreaking).not.toContain("loadConfig");
+
+    const breaking = getPrompt(DIFF, "conventional", Nothing(), { ...EMPTY_STYLE_GUIDE, breaking: { type: "breaking", description: "Drops Node 18." } });
+    expect(breaking).toContain("marked this change as breaking: Drops Node 18.");
+  });
+});
+
+describe("gitmoji", () => {
+  it("lists the catalogue in the configured style", () => {
+    const unicode = getPrompt(DIFF, "gitmoji");
+    expect(unicode).toContain("✨ :sparkles: Introduce new features.");
+    expect(unicode).toContain("never as a :shortcode:");
+
+    const shortcode = getPrompt(DIFF, "gitmoji", Nothing(), { ...EMPTY_STYLE_GUIDE, gitmojiStyle: "shortcode" });
+    expect(shortcode).toContain(":sparkles: Introduce new features.");
+    expect(shortcode).not.toContain("✨");
+  });
+
+  it("writes the split examples in the active convention", () => {
+    expect(getSplitPrompt(DIFF, ["foo.ts"], "gitmoji")).toContain('"message":"✨ Add split option to setup"');
+    expect(getSplitPrompt(DIFF, ["foo.ts"], "conventional")).toContain('"message":"feat(setup): add split option to setup"');
+    expect(getSplitPrompt(DIFF, ["foo.ts"], "imperative")).toContain('"message":"Add split option to setup"');
+  });
+});
+
+describe("language", () => {
+  const guide = { ...EMPTY_STYLE_GUIDE, language: Just("Brazilian Portuguese") };
+
+  it("asks for the language in message, split and candidate prompts but keeps prefixes in English", () => {
+    for (const prompt of [
+      getPrompt(DIFF, "conventional", Nothing(), guide),
+      getSplitPrompt(DIFF, ["foo.ts"], "imperative", Nothing(), guide),
+      getCandidatesPrompt(DIFF, 3, "conventional", Nothing(), guide)
+    ]) {
+      expect(prompt).toContain("Write the subject and body in Brazilian Portuguese.");
+      expect(prompt).toContain("the type prefix or gitmoji and the scope");
+    }
+    expect(getPrompt(DIFF, "conventional")).not.toContain("<language>");
+  });
+
+  it("keeps refined messages in the language", () => {
+    const { prompt } = getRefinePrompt({
+      diff: DIFF,
+      currentMessage: "feat: x",
+      adjustment: "shorter",
+      convention: "conventional",
+      language: Just("pt-BR")
+    });
+    expect(prompt).toContain("Write the subject and body in pt-BR.");
+  });
+
+  it("writes branch rationales in the language but not the slugs", () => {
+    expect(getBranchNamePrompt("ctx", Just("pt-BR"))).toContain("Write the rationale in pt-BR. The slug itself stays in English.");
+    expect(getBranchNamePrompt("ctx")).not.toContain("Write the rationale in");
+  });
+});
+
+describe("history examples", () => {
+  const guide = {
+    ...EMPTY_STYLE_GUIDE,
+    history: [{ subject: "feat(cli): add doctor row", body: "- Show the hook state.", files: ["src/cli/doctor.ts"] }]
+  };
+
+  it("prepends past commits to the message prompt", () => {
+    const prompt = getPrompt(DIFF, "conventional", Nothing(), guide);
+    expect(prompt.indexOf("<repository_history>")).toBeLessThan(prompt.indexOf(DIFF));
+    expect(prompt).toContain("feat(cli): add doctor row\n\n- Show the hook state.");
+    expect(prompt).toContain("<files>src/cli/doctor.ts</files>");
+  });
+
+  it("keeps them in split prompts", () => {
+    expect(getSplitPrompt(DIFF, ["foo.ts"], "conventional", Nothing(), guide)).toContain("<repository_history>");
+  });
+
+  it("adds nothing without history", () => {
+    expect(getPrompt(DIFF, "conventional")).not.toContain("<repository_history>");
+  });
+});
+
+describe("commitlint rules", () => {
+  const rules = parseCommitlintConfig({ rules: { "type-enum": [2, "always", ["feat", "fix"]], "header-max-length": [2, "always", 50] } }).either(
+    (e) => {
+      throw e;
+    },
+    (r) => r
+  );
+  const guide = { ...EMPTY_STYLE_GUIDE, commitlint: Just(rules) };
+
+  it("renders them into the conventional prompt before the output instructions", () => {
+    const prompt = getPrompt(DIFF, "conventional", Nothing(), guide);
+    expect(prompt).toContain("Allowed types: feat, fix.");
+    expect(prompt).toContain("at most 50 characters");
+    expect(prompt.indexOf("<commitlint>")).toBeLessThan(prompt.indexOf("<output_instructions>"));
+  });
+
+  it("leaves other conventions alone", () => {
+    expect(getPrompt(DIFF, "imperative", Nothing(), guide)).not.toContain("<commitlint>");
+  });
+});
+
+describe("workspace scopes", () => {
+  const guide = { ...EMPTY_STYLE_GUIDE, packages: [{ name: "@acme/api", dir: "packages/api" }] };
+  const diff = "diff --git a/packages/api/src/a.ts b/packages/api/src/a.ts\n+x";
+
+  it("suggests the touched package as the conventional scope", () => {
+    expect(getPrompt(diff, "conventional", Nothing(), guide)).toContain("Suggested scope for this diff: api.");
+    expect(getPrompt(diff, "imperative", Nothing(), guide)).not.toContain("<workspace_scopes>");
+  });
+
+  it("maps staged files to packages in split prompts", () => {
+    const prompt = getSplitPrompt(diff, ["packages/api/src/a.ts", "README.md"], "imperative", Nothing(), guide);
+    expect(prompt).toContain("- api: packages/api/src/a.ts");
+    expect(prompt).toContain("Prefer one commit per package.");
   });
 });
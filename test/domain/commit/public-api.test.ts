@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { entryPointsOf, reExportsOf, resolveEntryPoint, resolveImport } from "@/domain/commit/public-api";
+import { Just, Nothing } from "@/libs/maybe";
+
+describe("entryPointsOf", () => {
+  it("collects main, types and every exports target under the package directory", () => {
+    const manifest = {
+      name: "pkg",
+      main: "./dist/index.js",
+      types: "./dist/index.d.ts",
+      exports: { ".": { import: "./dist/index.mjs", require: "./dist/index.js" }, "./cli": "./dist/cli.js", "./*": "./dist/*.js" },
+      scripts: { build: "./build.js" }
+    };
+    expect(entryPointsOf(manifest, "packages/pkg")).toEqual([
+      "packages/pkg/dist/index.js",
+      "packages/pkg/dist/index.d.ts",
+      "packages/pkg/dist/index.mjs",
+      "packages/pkg/dist/cli.js"
+    ]);
+  });
+
+  it("finds nothing in an application manifest", () => {
+    expect(entryPointsOf({ name: "app", scripts: { start: "node index.js" } }, ".")).toEqual([]);
+    expect(entryPointsOf(null, ".")).toEqual([]);
+  });
+});
+
+describe("resolving to tracked sources", () => {
+  const tracked = new Set(["src/index.ts", "src/api/index.ts", "src/api/config.ts", "lib/plain.js"]);
+
+  it("maps build output back to the source file", () => {
+    expect(resolveEntryPoint("dist/index.d.ts", tracked)).toEqual(Just("src/index.ts"));
+    expect(resolveEntryPoint("lib/plain.js", tracked)).toEqual(Just("lib/plain.js"));
+    expect(resolveEntryPoint("dist/missing.js", tracked)).toEqual(Nothing());
+  });
+
+  it("resolves relative imports with TypeScript's extension and index rules", () => {
+    expect(resolveImport("src/index.ts", "./api", tracked)).toEqual(Just("src/api/index.ts"));
+    expect(resolveImport("src/api/index.ts", "./config.js", tracked)).toEqual(Just("src/api/config.ts"));
+  });
+
+  it("lists only relative re-exports", () => {
+    const source = [
+      'export * from "./api";',
+      'export { type Config } from "./api/config.js";',
+      'export { z } from "zod";',
+      'import { x } from "./x";'
+    ].join("\n");
+    expect(reExportsOf(source)).toEqual(["./api", "./api/config.js"]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { addTurn, conversationOf, currentVersion, earlierVersions, reviseCurrent, startRefinement, undoTo } from "@/domain/commit/refinement";
+import { Just, Nothing } from "@/libs/maybe";
+
+const v = (text: string) => ({ text });
+
+describe("refinement", () => {
+  const twice = addTurn(addTurn(startRefinement(v("feat: a")), "shorter", v("feat: b")), "mention x", v("feat: c"));
+
+  it("tracks the latest version and the conversation that led to it", () => {
+    expect(currentVersion(twice)).toEqual(v("feat: c"));
+    expect(conversationOf(twice)).toEqual([
+      { adjustment: "shorter", message: "feat: b" },
+      { adjustment: "mention x", message: "feat: c" }
+    ]);
+  });
+
+  it("lists earlier versions newest first", () => {
+    expect(earlierVersions(twice)).toEqual([
+      { version: 1, adjustment: Just("shorter"), result: v("feat: b") },
+      { version: 0, adjustment: Nothing(), result: v("feat: a") }
+    ]);
+    expect(earlierVersions(startRefinement(v("feat: a")))).toEqual([]);
+  });
+
+  it("drops later turns when undoing", () => {
+    const undone = undoTo(twice, 1);
+    expect(currentVersion(undone)).toEqual(v("feat: b"));
+    expect(conversationOf(undone)).toEqual([{ adjustment: "shorter", message: "feat: b" }]);
+    expect(currentVersion(undoTo(twice, 0))).toEqual(v("feat: a"));
+  });
+
+  it("revises the current version without adding a turn", () => {
+    expect(conversationOf(reviseCurrent(twice, v("feat: edited")))).toEqual([
+      { adjustment: "shorter", message: "feat: b" },
+      { adjustment: "mention x", message: "feat: edited" }
+    ]);
+    expect(currentVersion(reviseCurrent(startRefinement(v("feat: a")), v("feat: z")))).toEqual(v("feat: z"));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { checkRewordable, parseRewordRange, renderRewordTodo } from "@/domain/commit/reword";
+import { Success } from "@/libs/result";
+
+const commit = (hash: string, parents: string[] = ["p"]) => ({ hash, parents, message: `wip ${hash}` });
+
+describe("parseRewordRange", () => {
+  it.each([
+    ["origin/main..HEAD", { from: "origin/main", to: "HEAD" }],
+    ["HEAD~3..", { from: "HEAD~3", to: "HEAD" }],
+    ["HEAD~2", { from: "HEAD~2", to: "HEAD" }]
+  ])("reads %s", (arg, range) => {
+    expect(parseRewordRange(arg)).toEqual(Success(range));
+  });
+
+  it.each(["a...b", "..HEAD", "--all", "HEAD~1..--x"])("rejects %s", (arg) => {
+    expect(parseRewordRange(arg).isFailure()).toBe(true);
+  });
+});
+
+describe("checkRewordable", () => {
+  const messageOf = (result: ReturnType<typeof checkRewordable>): string =>
+    result.either(
+      (e) => e.message,
+      () => "ok"
+    );
+
+  it("accepts a linear range of unshared commits", () => {
+    expect(messageOf(checkRewordable([commit("aaaaaaaa1"), commit("bbbbbbbb2")], new Set(), "x..HEAD"))).toBe("ok");
+  });
+
+  it("refuses empty ranges, merges and commits on the base branch", () => {
+    expect(messageOf(checkRewordable([], new Set(), "x..HEAD"))).toBe("No commits in x..HEAD");
+    expect(messageOf(checkRewordable([commit("aaaaaaaa1", ["p", "q"])], new Set(), "x..HEAD"))).toContain("aaaaaaa is a merge commit");
+    expect(messageOf(checkRewordable([commit("aaaaaaaa1"), commit("bbbbbbbb2")], new Set(["bbbbbbbb2"]), "x..HEAD"))).toContain(
+      "bbbbbbb is already on the base branch"
+    );
+  });
+});
+
+describe("renderRewordTodo", () => {
+  it("picks every commit and amends only the reworded ones", () => {
+    const todo = renderRewordTodo([commit("a1"), commit("b2")], new Map([["a1", "/tmp/it's/message-0.txt"]]));
+    expect(todo).toBe("pick a1\nexec git commit --amend --allow-empty --no-verify --quiet -F '/tmp/it'\\''s/message-0.txt'\npick b2\n");
+  });
+});
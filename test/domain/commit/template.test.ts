@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TICKET_PATTERN,
+  diffShortStat,
+  extractTicket,
+  fillDiff,
+  fillDiffValues,
+  fillTemplate,
+  templateProblem,
+  unknownPlaceholders
+} from "@/domain/commit/template";
+import { Just, Nothing } from "@/libs/maybe";
+
+const context = {
+  branch: Just("feat/PROJ-42-login"),
+  ticket: Just("PROJ-42"),
+  author: Just("Ada"),
+  baseBranch: Nothing<string>()
+};
+
+describe("fillTemplate", () => {
+  it("fills the repository's values and keeps the diff's own for generation time", () => {
+    expect(fillTemplate("[{ticket}] {author} on {branch}: {files} ({stats}) {diff}", context)).toBe(
+      "[PROJ-42] Ada on feat/PROJ-42-login: {files} ({stats}) {diff}"
+    );
+  });
+
+  it("empties missing values and leaves unknown placeholders alone", () => {
+    expect(fillTemplate("{base_branch}|{nope}|{Upper}", context)).toBe("|{nope}|{Upper}");
+  });
+});
+
+describe("fillDiffValues", () => {
+  const diff = [
+    "diff --git a/src/a.ts b/src/a.ts",
+    "--- a/src/a.ts",
+    "+++ b/src/a.ts",
+    "@@ -1,2 +1,2 @@",
+    "-old",
+    "--- a removed SQL comment",
+    "+new",
+    "+--- not a header",
+    "+++ an added counter",
+    "diff --git a/src/b.ts b/src/b.ts",
+    "new file mode 100644",
+    "--- /dev/null",
+    "+++ b/src/b.ts",
+    "@@ -0,0 +1 @@",
+    "+b"
+  ].join("\n");
+
+  it("fills files and stats from the diff being described", () => {
+    expect(fillDiffValues("{files} ({stats}) {diff}", diff)).toBe("src/a.ts, src/b.ts (2 files changed, 4 insertions(+), 2 deletions(-)) {diff}");
+  });
+
+  it("counts like git diff --shortstat", () => {
+    expect(diffShortStat("diff --git a/x b/x\n--- a/x\n+++ b/x\n@@ -1 +0,0 @@\n-x")).toEqual(Just("1 file changed, 1 deletion(-)"));
+    expect(diffShortStat("")).toEqual(Nothing());
+  });
+});
+
+describe("fillDiff", () => {
+  it("replaces every occurrence without interpreting $ patterns", () => {
+    expect(fillDiff("{diff}\n{diff}", "$& cost")).toBe("$& cost\n$& cost");
+  });
+});
+
+describe("extractTicket", () => {
+  it("uses the default JIRA-style pattern", () => {
+    expect(
+      extractTicket("feature/ABC-123-fix", DEFAULT_TICKET_PATTERN).either(
+        () => Nothing(),
+        (t) => t
+      )
+    ).toEqual(Just("ABC-123"));
+  });
+
+  it("prefers the first capture group and reports invalid patterns", () => {
+    expect(
+      extractTicket("gh-77-fix", "gh-(\\d+)").either(
+        () => Nothing(),
+        (t) => t
+      )
+    ).toEqual(Just("77"));
+    expect(
+      extractTicket("main", DEFAULT_TICKET_PATTERN).either(
+        () => Nothing(),
+        (t) => t
+      )
+    ).toEqual(Nothing());
+    expect(
+      extractTicket("main", "(").either(
+        (e) => e.message,
+        () => "ok"
+      )
+    ).toContain("Invalid ticket_pattern");
+  });
+});
+
+describe("templateProblem", () => {
+  it("requires {diff} and names unknown placeholders", () => {
+    expect(templateProblem("[{ticket}] summary")).toEqual(Just("Template must include {diff}"));
+    expect(templateProblem("{tikcet} {diff}")).toEqual(Just("Unknown placeholder {tikcet}"));
+    expect(templateProblem("[{ticket}] {diff}")).toEqual(Nothing());
+    expect(unknownPlaceholders("{a} {a} {diff}")).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SUBJECT_LENGTH, describeViolations, validateCommitMessage } from "@/domain/commit/validate";
+import { parseCommitlintConfig, type CommitlintRules } from "@/domain/commit/commitlint";
+import { Just, Nothing, type Maybe } from "@/libs/maybe";
+
+describe("validateCommitMessage", () => {
+  it("accepts a well-formed conventional message", () => {
+    expect(validateCommitMessage("feat(api): add retries\n\n- Retry 5xx responses.\n- Log each attempt.", "conventional")).toEqual([]);
+  });
+
+  it("accepts breaking-change markers and wrapped bullets", () => {
+    expect(validateCommitMessage("refactor!: drop v1 routes\n\n- Remove the v1 handlers and\n  their tests.", "conventional")).toEqual([]);
+    expect(
+      validateCommitMessage("feat(api)!: require tokens\n\n- Reject anonymous calls.\n\nBREAKING CHANGE: Anonymous calls now fail.", "conventional")
+    ).toEqual([]);
+  });
+
+  it("asks for the marks when detected breaking changes are left unmarked", () => {
+    const breaking = [{ type: "removed_export" as const, path: "src/a.ts", name: "a" }];
+    expect(validateCommitMessage("feat: drop a", "conventional", Nothing(), breaking)).toEqual([
+      'The diff breaks the public API (`a` is no longer exported from src/a.ts): add "!" after the type and a "BREAKING CHANGE: <what breaks>" footer.'
+    ]);
+    expect(validateCommitMessage("feat!: drop a", "conventional", Nothing(), breaking)).toEqual([]);
+    expect(validateCommitMessage("Drop a", "imperative", Nothing(), breaking)).toEqual([]);
+  });
+
+  it("rejects unknown or missing types", () => {
+    expect(validateCommitMessage("feature: add x", "conventional")).toHaveLength(1);
+    expect(validateCommitMessage("add x", "conventional")).toHaveLength(1);
+  });
+
+  it("rejects a type prefix in imperative mode", () => {
+    expect(validateCommitMessage("fix: handle null", "imperative")).toHaveLength(1);
+    expect(validateCommitMessage("Handle null responses", "imperative")).toEqual([]);
+  });
+
+  it("requires a gitmoji in either style for the gitmoji convention", () => {
+    expect(validateCommitMessage("✨ Add session cache\n\n- Cache lookups.", "gitmoji")).toEqual([]);
+    expect(validateCommitMessage(":bug: Handle null responses", "gitmoji")).toEqual([]);
+    expect(validateCommitMessage("feat: add session cache", "gitmoji")).toHaveLength(1);
+    expect(validateCommitMessage(":not_a_gitmoji: Add x", "gitmoji")).toHaveLength(1);
+  });
+
+  it("flags long subjects, missing blank lines and non-bullet body lines", () => {
+    const violations = validateCommitMessage(`feat: ${"x".repeat(MAX_SUBJECT_LENGTH)}\nbody\n* star bullet`, "conventional");
+    expect(violations).toHaveLength(3);
+    expect(violations[0]).toContain(`${MAX_SUBJECT_LENGTH + 6} characters`);
+  });
+
+  it("accepts messages written in other languages", () => {
+    expect(validateCommitMessage("feat(cache): adiciona cache de sessão\n\n- Evita consultas repetidas ao banco.", "conventional")).toEqual([]);
+    expect(validateCommitMessage("ユーザー設定の読み込みを高速化する\n\n- 起動時のキャッシュを追加。", "imperative")).toEqual([]);
+  });
+
+  it("counts the subject in characters, not UTF-16 units or combining marks", () => {
+    const subject = `feat: ${"e\u0301".repeat(MAX_SUBJECT_LENGTH - 6)}`;
+    expect(validateCommitMessage(subject, "conventional")).toEqual([]);
+    expect(validateCommitMessage(`fix: ${"😀".repeat(MAX_SUBJECT_LENGTH - 5)}`, "conventional")).toEqual([]);
+  });
+
+  it("does not treat a trailing trailer block as body lines", () => {
+    expect(validateCommitMessage("feat: add x\n\n- Add x.\n\nCo-authored-by: Ada <ada@example.com>", "conventional")).toEqual([]);
+    expect(validateCommitMessage("feat: add x\n\nCo-authored-by: Ada <ada@example.com>\nloose line", "conventional")).toHaveLength(1);
+  });
+
+  it("forbids code fences in every convention", () => {
+    expect(validateCommitMessage("```\nfeat: x\n```", "custom")).toHaveLength(1);
+  });
+
+  it("leaves the layout of custom templates alone", () => {
+    expect(validateCommitMessage("[JIRA-1] Add x\nFree-form body", "custom")).toEqual([]);
+  });
+});
+
+describe("validateCommitMessage with commitlint rules", () => {
+  const commitlint = parseCommitlintConfig({ rules: { "type-enum": [2, "always", ["feat", "revert"]] } }).either(
+    (): Maybe<CommitlintRules> => Nothing(),
+    (rules) => Just(rules)
+  );
+
+  it("takes the allowed types from commitlint instead of the built-in list", () => {
+    expect(validateCommitMessage("revert: undo x", "conventional", commitlint)).toEqual([]);
+    expect(validateCommitMessage("fix: y", "conventional", commitlint)).toEqual([expect.stringContaining('type "fix" is not allowed')]);
+  });
+
+  it("does not apply them to other conventions", () => {
+    expect(validateCommitMessage("Fix y", "imperative", commitlint)).toEqual([]);
+  });
+});
+
+describe("describeViolations", () => {
+  it("renders one bullet per violation", () => {
+    expect(describeViolations(["a", "b"])).toBe("- a\n- b");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  groupByPackage,
+  isWorkspaceDir,
+  packageJsonWorkspaces,
+  parsePnpmWorkspace,
+  renderPackageGroups,
+  renderScopeHints,
+  scopeOf
+} from "@/domain/commit/workspace";
+import { Just, Nothing } from "@/libs/maybe";
+
+const PACKAGES = [
+  { name: "@acme/api", dir: "packages/api" },
+  { name: "@acme/web", dir: "apps/web" },
+  { name: "web-e2e", dir: "apps/web/e2e" }
+];
+
+describe("parsePnpmWorkspace", () => {
+  it("reads a block list and skips comments and quotes", () => {
+    const yaml = "packages:\n  # apps first\n  - 'apps/*'\n  - \"packages/**\" # libs\n  - '!**/test/**'\ncatalog:\n  react: ^19\n";
+    expect(parsePnpmWorkspace(yaml)).toEqual(["apps/*", "packages/**", "!**/test/**"]);
+  });
+
+  it("reads a flow list", () => {
+    expect(parsePnpmWorkspace("packages: ['apps/*', packages/*]\n")).toEqual(["apps/*", "packages/*"]);
+  });
+
+  it("returns nothing without a packages key", () => {
+    expect(parsePnpmWorkspace("onlyBuiltDependencies:\n  - esbuild\n")).toEqual([]);
+  });
+});
+
+describe("packageJsonWorkspaces", () => {
+  it("accepts the npm array and the yarn object form", () => {
+    expect(packageJsonWorkspaces({ workspaces: ["packages/*"] })).toEqual(["packages/*"]);
+    expect(packageJsonWorkspaces({ workspaces: { packages: ["apps/*"], nohoist: ["**/react"] } })).toEqual(["apps/*"]);
+    expect(packageJsonWorkspaces({ name: "root" })).toEqual([]);
+  });
+});
+
+describe("isWorkspaceDir", () => {
+  it("matches directories against globs and honours exclusions", () => {
+    const patterns = ["packages/*", "apps/**", "!apps/legacy"];
+    expect(isWorkspaceDir(patterns, "packages/api")).toBe(true);
+    expect(isWorkspaceDir(patterns, "packages/api/fixtures")).toBe(false);
+    expect(isWorkspaceDir(patterns, "apps/web/e2e")).toBe(true);
+    expect(isWorkspaceDir(patterns, "apps/legacy")).toBe(false);
+  });
+});
+
+describe("groupByPackage", () => {
+  it("assigns files to the deepest package and keeps loose files last", () => {
+    expect(groupByPackage(PACKAGES, ["README.md", "apps/web/e2e/login.spec.ts", "packages/api/src/a.ts", "apps/web/src/app.tsx"])).toEqual([
+      { scope: Just("web-e2e"), files: ["apps/web/e2e/login.spec.ts"] },
+      { scope: Just("api"), files: ["packages/api/src/a.ts"] },
+      { scope: Just("web"), files: ["apps/web/src/app.tsx"] },
+      { scope: Nothing(), files: ["README.md"] }
+    ]);
+  });
+
+  it("strips the npm scope from package names", () => {
+    expect(scopeOf({ name: "@acme/web-app", dir: "apps/web" })).toBe("web-app");
+  });
+});
+
+describe("renderScopeHints", () => {
+  it("lists allowed scopes and suggests the touched package", () => {
+    const hints = renderScopeHints(PACKAGES, ["packages/api/src/a.ts"]);
+    expect(hints).toContain("Allowed scopes: api, web, web-e2e.");
+    expect(hints).toContain("Suggested scope for this diff: api.");
+  });
+
+  it("is empty outside a workspace", () => {
+    expect(renderScopeHints([], ["src/a.ts"])).toBe("");
+  });
+});
+
+describe("renderPackageGroups", () => {
+  it("maps files to packages only when they span several", () => {
+    expect(renderPackageGroups(PACKAGES, ["packages/api/a.ts", "packages/api/b.ts"])).toBe("");
+    const rendered = renderPackageGroups(PACKAGES, ["packages/api/a.ts", "package.json"]);
+    expect(rendered).toContain("- api: packages/api/a.ts");
+    expect(rendered).toContain("- (no package): package.json");
+    expect(rendered).toContain("Prefer one commit per package.");
+  });
+});
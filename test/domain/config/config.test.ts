@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import * as s from "@/libs/json/schema";
-import { Config } from "@/domain/config/config";
+import { Config, DEFAULT_IGNORE_PATTERNS, ignorePatterns } from "@/domain/config/config";
 import { Just, Nothing } from "@/libs/maybe";
 import { Success } from "@/libs/result";
 
@@ -10,6 +10,13 @@ const sampleConfig = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: {
     provider: "openai",
     model: "gpt-4.1-mini",
@@ -89,4 +96,12 @@ describe("Config schema", () => {
     expect(decoded.isSuccess()).toBe(true);
     if (decoded instanceof Success) expect(decoded.value.split_commits).toBe(false);
   });
+
+  it("defaults missing ignore to the built-in patterns", () => {
+    const encoded = s.encode(Config, sampleConfig()) as Record<string, unknown>;
+    delete encoded["ignore"];
+    const decoded = s.decode(Config, encoded);
+    expect(decoded.isSuccess()).toBe(true);
+    if (decoded instanceof Success) expect(ignorePatterns(decoded.value)).toEqual([...DEFAULT_IGNORE_PATTERNS]);
+  });
 });
@@ -20,6 +20,13 @@ const googleConfig = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: {
     provider: "gemini",
     model: "gemini-2.0",
@@ -60,6 +67,13 @@ describe("resolveProvider", () => {
       commit_convention: "imperative",
       custom_template: Nothing(),
       split_commits: false,
+      ignore: Just([]),
+      match_history: false,
+      ticket_pattern: Nothing(),
+      language: Nothing(),
+      gitmoji_style: "unicode",
+      verify_command: Nothing(),
+      detect_breaking_changes: true,
       ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk-x" } }
     };
     const ai = await runFuture(resolveProvider(config));
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { SUMMARY_TOKENS, estimateTokens, parseDiffSections, renderBudgetedDiff, sectionsToSummarize, truncateToTokens } from "@/domain/llm/budget";
+
+const fileDiff = (path: string, lines: number): string =>
+  [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, "@@ -1 +1 @@", ...Array.from({ length: lines }, (_, i) => `+line ${i}`)].join(
+    "\n"
+  );
+
+describe("parseDiffSections", () => {
+  it("splits per file and keeps a trailing status block apart", () => {
+    const parsed = parseDiffSections(`${fileDiff("a.ts", 1)}\n${fileDiff("b.ts", 1)}\n\n--- git status --porcelain ---\n M a.ts`);
+    expect(parsed.sections.map((s) => s.path)).toEqual(["a.ts", "b.ts"]);
+    expect(parsed.trailer).toBe("--- git status --porcelain ---\n M a.ts");
+    expect(parsed.preamble).toBe("");
+  });
+});
+
+describe("sectionsToSummarize", () => {
+  it("summarizes nothing when the diff fits", () => {
+    expect(sectionsToSummarize(parseDiffSections(fileDiff("a.ts", 10)), 10_000)).toEqual([]);
+  });
+
+  it("picks the largest files first until the rest fits", () => {
+    const parsed = parseDiffSections([fileDiff("small.ts", 5), fileDiff("vendor.js", 2000), fileDiff("mid.ts", 50)].join("\n"));
+    const budget = estimateTokens(fileDiff("small.ts", 5)) + estimateTokens(fileDiff("mid.ts", 50)) + SUMMARY_TOKENS;
+    expect(sectionsToSummarize(parsed, budget).map((s) => s.path)).toEqual(["vendor.js"]);
+  });
+});
+
+describe("renderBudgetedDiff", () => {
+  it("replaces summarized files in place and keeps the rest verbatim", () => {
+    const parsed = parseDiffSections([fileDiff("a.ts", 1), fileDiff("b.ts", 1)].join("\n"));
+    const out = renderBudgetedDiff(parsed, new Map([["a.ts", "- rewrote a"]]), 10_000);
+    expect(out).toContain("--- summary of a.ts");
+    expect(out).toContain("- rewrote a");
+    expect(out).toContain("diff --git a/b.ts b/b.ts");
+    expect(out.indexOf("a.ts")).toBeLessThan(out.indexOf("b.ts"));
+  });
+
+  it("truncates output that still exceeds the budget", () => {
+    expect(truncateToTokens("x".repeat(1000), 10)).toContain("[... truncated");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { stubIgnoredFiles } from "@/domain/llm/ignore";
+import { compileIgnore } from "@/libs/gitignore";
+import { parseAndValidateSplitPlan } from "@/domain/split/plan";
+import { Success } from "@/libs/result";
+
+const lockDiff = [
+  "diff --git a/pnpm-lock.yaml b/pnpm-lock.yaml",
+  "index 1111111..2222222 100644",
+  "--- a/pnpm-lock.yaml",
+  "+++ b/pnpm-lock.yaml",
+  "@@ -1,3 +1,4 @@",
+  "-  old: 1",
+  "+  new: 1",
+  "+  new: 2",
+  "+  new: 3"
+].join("\n");
+
+const srcDiff = ["diff --git a/src/a.ts b/src/a.ts", "--- a/src/a.ts", "+++ b/src/a.ts", "@@ -1 +1 @@", "-a", "+b"].join("\n");
+
+describe("stubIgnoredFiles", () => {
+  it("replaces ignored hunks with a one-line stub and keeps the rest", () => {
+    const out = stubIgnoredFiles(`${lockDiff}\n${srcDiff}`, compileIgnore(["pnpm-lock.yaml"]));
+    expect(out).toContain("diff --git a/pnpm-lock.yaml b/pnpm-lock.yaml\npnpm-lock.yaml: lockfile updated, +3/-1");
+    expect(out).not.toContain("new: 2");
+    expect(out).toContain(srcDiff);
+  });
+
+  it("describes new generated files", () => {
+    const added = ["diff --git a/dist/app.js b/dist/app.js", "new file mode 100644", "--- /dev/null", "+++ b/dist/app.js", "@@ -0,0 +1 @@", "+x"].join(
+      "\n"
+    );
+    expect(stubIgnoredFiles(added, compileIgnore(["dist/"]))).toContain("dist/app.js: file added, +1/-0");
+  });
+
+  it("returns the diff untouched when nothing matches", () => {
+    expect(stubIgnoredFiles(srcDiff, compileIgnore(["*.lock"]))).toBe(srcDiff);
+  });
+
+  it("keeps stubbed files valid in split plans", () => {
+    const plan = JSON.stringify({ should_split: false, commits: [{ message: "chore: bump deps", files: ["pnpm-lock.yaml", "src/a.ts"] }] });
+    expect(parseAndValidateSplitPlan(plan, ["pnpm-lock.yaml", "src/a.ts"]) instanceof Success).toBe(true);
+  });
+});
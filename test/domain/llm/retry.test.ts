@@ -1,5 +1,5 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
-import { withTransientRetry, isTransientLlmError } from "@/domain/llm/retry";
+import { withBatchRetry, withTransientRetry, isTransientLlmError } from "@/domain/llm/retry";
 import { Future } from "@/libs/future";
 import { runFuture } from "@test/helpers/run-future";
 
@@ -64,4 +64,54 @@ describe("withTransientRetry", () => {
     await expect(runFuture(withTransientRetry(make))).rejects.toThrow("401 unauthorized");
     expect(make).toHaveBeenCalledTimes(1);
   });
+
+  it("rejects without prompting when the policy is fail", async () => {
+    const prompts = await import("@clack/prompts");
+    const make = vi.fn(() => Future.reject<Error, string>(new Error("terminated")));
+    const promise = runFuture(withTransientRetry(make, "fail"));
+    const assertion = expect(promise).rejects.toThrow("terminated");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(make).toHaveBeenCalledTimes(3);
+    expect(prompts.confirm).not.toHaveBeenCalled();
+  });
+
+  it("runs beforePrompt before asking to retry", async () => {
+    const prompts = await import("@clack/prompts");
+    const order: string[] = [];
+    vi.mocked(prompts.confirm).mockImplementationOnce(async () => {
+      order.push("confirm");
+      return false;
+    });
+    const make = vi.fn(() => Future.reject<Error, string>(new Error("terminated")));
+    const promise = runFuture(withTransientRetry(make, "prompt", () => order.push("beforePrompt")));
+    const assertion = expect(promise).rejects.toThrow("terminated");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(order).toEqual(["beforePrompt", "confirm"]);
+  });
+});
+
+describe("withBatchRetry", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("asks once for the whole batch and sends it again on yes", async () => {
+    const prompts = await import("@clack/prompts");
+    vi.mocked(prompts.confirm).mockImplementationOnce(async () => true);
+    const make = vi
+      .fn()
+      .mockReturnValueOnce(Future.reject(new Error("rate limit")))
+      .mockReturnValueOnce(Future.resolve("ok"));
+
+    expect(await runFuture(withBatchRetry<string>(make))).toBe("ok");
+    expect(make).toHaveBeenCalledTimes(2);
+    expect(prompts.confirm).toHaveBeenCalledTimes(1);
+  });
+
+  it("never asks about a non-transient error or under the fail policy", async () => {
+    const prompts = await import("@clack/prompts");
+    await expect(runFuture(withBatchRetry(() => Future.reject<Error, string>(new Error("401 unauthorized"))))).rejects.toThrow("401");
+    await expect(runFuture(withBatchRetry(() => Future.reject<Error, string>(new Error("rate limit")), "fail"))).rejects.toThrow("rate limit");
+    expect(prompts.confirm).not.toHaveBeenCalled();
+  });
 });
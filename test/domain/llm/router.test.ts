@@ -1,9 +1,19 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { generateCommitMessage, refineCommitMessage, generateSplitPlan } from "@/domain/llm/router";
+import {
+  fitDiff,
+  generateCommitMessage,
+  generateCandidateMessages,
+  refineCommitMessage,
+  generateSplitPlan,
+  repairCommitMessage,
+  type ModelDiff
+} from "@/domain/llm/router";
 import { Future } from "@/libs/future";
 import { Just, Nothing } from "@/libs/maybe";
 import { runFuture } from "@test/helpers/run-future";
 import type { ProviderConfig } from "@/domain/config/config";
+import type { ProviderGeneratedContent, TokenUsage } from "@/domain/llm/router";
+import { EMPTY_STYLE_GUIDE } from "@/domain/commit/style-guide";
 
 const mockProvider = (provider: ProviderConfig["provider"]): ProviderConfig =>
   ({
@@ -13,6 +23,11 @@ const mockProvider = (provider: ProviderConfig["provider"]): ProviderConfig =>
     auth_method: { type: "api_key", content: "sk-test" }
   }) as ProviderConfig;
 
+vi.mock("@clack/prompts", () => ({
+  log: { warn: vi.fn() },
+  confirm: vi.fn(async () => false),
+  isCancel: vi.fn(() => false)
+}));
 vi.mock("@/infra/llm/gemini", () => ({
   generateContentWithGemini: vi.fn(() => Future.resolve({ text: "feat: test", tokens: Nothing(), effectiveEffort: Nothing() }))
 }));
@@ -26,21 +41,74 @@ vi.mock("@/infra/llm/xai", () => ({
   generateContentWithXai: vi.fn(() => Future.resolve({ text: "feat: test", tokens: Nothing(), effectiveEffort: Nothing() }))
 }));
 
+/** A diff within budget, as `fitDiff` passes it through. */
+const unfitted = (diff: string): ModelDiff => ({ raw: diff, full: diff, fitted: diff });
+
 describe("generateCommitMessage", () => {
   beforeEach(() => vi.clearAllMocks());
 
   it.each(["gemini", "openai", "anthropic", "xai"] as const)("routes to %s provider", async (provider) => {
-    const result = await runFuture(generateCommitMessage(mockProvider(provider), "diff", "conventional", Nothing()));
+    const result = await runFuture(generateCommitMessage(mockProvider(provider), unfitted("diff"), "conventional", Nothing()));
     expect(result.text).toBe("feat: test");
     expect(result.metadata.model.provider).toBe(provider);
     expect(result.metadata.durationMs).toBeGreaterThanOrEqual(0);
   });
+
+  it("asks the provider to stream only when the caller shows the text", async () => {
+    const { generateContentWithAnthropic } = await import("@/infra/llm/anthropic");
+    const onText = vi.fn();
+
+    await runFuture(generateCommitMessage(mockProvider("anthropic"), unfitted("diff"), "conventional", Nothing()));
+    await runFuture(
+      generateCommitMessage(mockProvider("anthropic"), unfitted("diff"), "conventional", Nothing(), EMPTY_STYLE_GUIDE, "fail", Just(onText))
+    );
+
+    expect(vi.mocked(generateContentWithAnthropic).mock.calls[0]?.[1]).not.toHaveProperty("onText");
+    expect(vi.mocked(generateContentWithAnthropic).mock.calls[1]?.[1]).toHaveProperty("onText", onText);
+  });
+
+  it("fills the template's files from the diff it describes", async () => {
+    const { generateContentWithXai } = await import("@/infra/llm/xai");
+    const diff = "diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b";
+
+    await runFuture(generateCommitMessage(mockProvider("xai"), unfitted(diff), "custom", Just("[{files}] {diff}")));
+
+    expect(vi.mocked(generateContentWithXai).mock.calls[0]?.[1].prompt).toContain("[src/a.ts] diff --git");
+  });
+
+  it("counts the template's stats from the raw diff, not the one with ignored files stubbed", async () => {
+    const { generateContentWithXai } = await import("@/infra/llm/xai");
+    const raw = "diff --git a/pnpm-lock.yaml b/pnpm-lock.yaml\n--- a/pnpm-lock.yaml\n+++ b/pnpm-lock.yaml\n@@ -1 +1,2 @@\n-a\n+b\n+c";
+    const full = "diff --git a/pnpm-lock.yaml b/pnpm-lock.yaml\npnpm-lock.yaml: lockfile updated, +2/-1 (diff omitted by ignore rules)";
+
+    await runFuture(generateCommitMessage(mockProvider("xai"), { raw, full, fitted: full }, "custom", Just("({stats}) {diff}")));
+
+    expect(vi.mocked(generateContentWithXai).mock.calls[0]?.[1].prompt).toContain("(1 file changed, 2 insertions(+), 1 deletion(-))");
+  });
+
+  it("tells the model about breaking changes to the public API and keeps its message", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(
+      Future.resolve({ text: "refactor: drop old loader", tokens: Nothing(), effectiveEffort: Nothing() })
+    );
+    const diff =
+      "diff --git a/src/old.ts b/src/old.ts\ndeleted file mode 100644\n--- a/src/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-export const load = () => 1;";
+
+    const guide = { ...EMPTY_STYLE_GUIDE, publicApi: ["src/old.ts"] };
+
+    const conventional = await runFuture(generateCommitMessage(mockProvider("openai"), unfitted(diff), "conventional", Nothing(), guide));
+    await runFuture(generateCommitMessage(mockProvider("openai"), unfitted(diff), "conventional"));
+
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[1].prompt).toContain("- src/old.ts was deleted");
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[1]?.[1].prompt).not.toContain("src/old.ts was deleted");
+    expect(conventional.text).toBe("refactor: drop old loader");
+  });
 });
 
 describe("refineCommitMessage", () => {
   it("calls openai provider for openai config", async () => {
     const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
-    await runFuture(refineCommitMessage(mockProvider("openai"), "feat: x", "shorter", "diff"));
+    await runFuture(refineCommitMessage(mockProvider("openai"), "feat: x", "shorter", unfitted("diff"), "conventional"));
     expect(generateContentWithOpenAI).toHaveBeenCalled();
   });
 
@@ -50,9 +118,80 @@ describe("refineCommitMessage", () => {
       Future.resolve({ text: "feat: test", tokens: Nothing(), effectiveEffort: Just("provider default") })
     );
 
-    const result = await runFuture(refineCommitMessage(mockProvider("openai"), "feat: x", "shorter", "diff"));
+    const result = await runFuture(refineCommitMessage(mockProvider("openai"), "feat: x", "shorter", unfitted("diff"), "conventional"));
     expect(result.metadata.model.effort).toBe("provider default");
   });
+
+  it("sends the earlier adjustments in the prompt", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockClear();
+
+    await runFuture(
+      refineCommitMessage(mockProvider("openai"), "feat: x", "mention the cache", unfitted("diff"), "conventional", "prompt", Nothing(), [
+        { adjustment: "shorter", message: "feat: x" }
+      ])
+    );
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[1].prompt).toContain("<earlier_adjustments>");
+  });
+
+  it("keeps the co-author trailers the model dropped", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: "feat: shorter", tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const current = "feat: x\n\nCo-authored-by: Ada Lovelace <ada@example.com>";
+    const result = await runFuture(refineCommitMessage(mockProvider("openai"), current, "shorter", unfitted("diff"), "conventional"));
+    expect(result.text).toBe("feat: shorter\n\nCo-authored-by: Ada Lovelace <ada@example.com>");
+  });
+});
+
+describe("repairCommitMessage", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const metadata = { durationMs: 1, model: { provider: "openai" as const, model: "m", effort: "medium" }, tokens: Nothing<TokenUsage>() };
+
+  it("returns a valid message without calling the provider", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    const result = await runFuture(repairCommitMessage(mockProvider("openai"), { text: "feat: add x", metadata }, unfitted("diff"), "conventional"));
+    expect(result.violations).toEqual([]);
+    expect(generateContentWithOpenAI).not.toHaveBeenCalled();
+  });
+
+  it("feeds violations back through the refine prompt", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: "feat: add x", tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const result = await runFuture(repairCommitMessage(mockProvider("openai"), { text: "add x", metadata }, unfitted("diff"), "conventional"));
+    expect(result).toMatchObject({ text: "feat: add x", violations: [] });
+    expect(generateContentWithOpenAI).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[1].prompt).toContain("type prefix");
+  });
+
+  it("repairs a message that leaves a detected breaking change unmarked", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(
+      Future.resolve({ text: "feat!: drop run\n\nBREAKING CHANGE: run is gone.", tokens: Nothing(), effectiveEffort: Nothing() })
+    );
+    const diff = "diff --git a/src/run.ts b/src/run.ts\n--- a/src/run.ts\n+++ b/src/run.ts\n@@ -1 +0,0 @@\n-export const run = () => 1;";
+    const guide = { ...EMPTY_STYLE_GUIDE, publicApi: ["src/run.ts"] };
+
+    const result = await runFuture(
+      repairCommitMessage(mockProvider("openai"), { text: "feat: drop run", metadata }, unfitted(diff), "conventional", guide)
+    );
+    expect(result).toMatchObject({ text: "feat!: drop run\n\nBREAKING CHANGE: run is gone.", violations: [] });
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[1].prompt).toContain("BREAKING CHANGE: <what breaks>");
+  });
+
+  it("stops after the attempt budget and reports what is left", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: "still no prefix", tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const result = await runFuture(
+      repairCommitMessage(mockProvider("openai"), { text: "add x", metadata }, unfitted("diff"), "conventional", EMPTY_STYLE_GUIDE, 2)
+    );
+    expect(generateContentWithOpenAI).toHaveBeenCalledTimes(2);
+    expect(result.text).toBe("still no prefix");
+    expect(result.violations).toHaveLength(1);
+  });
 });
 
 describe("generateSplitPlan", () => {
@@ -67,11 +206,11 @@ describe("generateSplitPlan", () => {
     });
     vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: json, tokens: Nothing(), effectiveEffort: Nothing() }));
 
-    const result = await runFuture(generateSplitPlan(mockProvider("openai"), "diff", ["a.ts", "b.ts"], "conventional", Nothing()));
+    const result = await runFuture(generateSplitPlan(mockProvider("openai"), unfitted("diff"), ["a.ts", "b.ts"], "conventional", Nothing()));
     expect(result.plan.shouldSplit).toBe(true);
     expect(result.plan.commits).toEqual([
-      { message: "feat: a", files: ["a.ts"] },
-      { message: "feat: b", files: ["b.ts"] }
+      { message: "feat: a", files: ["a.ts"], hunks: [] },
+      { message: "feat: b", files: ["b.ts"], hunks: [] }
     ]);
     expect(result.metadata.model.provider).toBe("openai");
   });
@@ -85,7 +224,110 @@ describe("generateSplitPlan", () => {
     });
     vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: json, tokens: Nothing(), effectiveEffort: Just("low") }));
     const config = { ...mockProvider("openai"), effort: Just("high") } as ProviderConfig;
-    await runFuture(generateSplitPlan(config, "diff", ["a.ts"], "conventional", Nothing()));
+    await runFuture(generateSplitPlan(config, unfitted("diff"), ["a.ts"], "conventional", Nothing()));
     expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[0].effort).toEqual(Just("low"));
   });
 });
+
+describe("generateCandidateMessages", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("asks for every candidate in one request", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    const json = JSON.stringify({ messages: ["feat: a", "fix: b", "feat: a"] });
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: json, tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const result = await runFuture(generateCandidateMessages(mockProvider("openai"), unfitted("diff"), 3, "conventional"));
+    expect(result.map((c) => c.text)).toEqual(["feat: a", "fix: b"]);
+    expect(generateContentWithOpenAI).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateContentWithOpenAI).mock.calls[0]?.[1].prompt).toContain("Write 3 different commit messages");
+  });
+
+  it("falls back to parallel plain requests when the reply is not JSON", async () => {
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    vi.mocked(generateContentWithOpenAI).mockReturnValue(Future.resolve({ text: "feat: plain", tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const result = await runFuture(generateCandidateMessages(mockProvider("openai"), unfitted("diff"), 2, "conventional"));
+    expect(result.map((c) => c.text)).toEqual(["feat: plain", "feat: plain"]);
+    expect(generateContentWithOpenAI).toHaveBeenCalledTimes(3);
+  });
+
+  it("asks once to retry the parallel fallback requests", async () => {
+    vi.useFakeTimers();
+    const prompts = await import("@clack/prompts");
+    const { generateContentWithOpenAI } = await import("@/infra/llm/openai");
+    // A real prompt waits for the user, and meanwhile every other request gives up and would ask too.
+    vi.mocked(prompts.confirm).mockImplementationOnce(() => new Promise((resolve) => setTimeout(() => resolve(false), 60_000)));
+    const plain = Future.resolve<Error, ProviderGeneratedContent>({ text: "feat: plain", tokens: Nothing(), effectiveEffort: Nothing() });
+    vi.mocked(generateContentWithOpenAI)
+      .mockReturnValueOnce(plain)
+      .mockReturnValue(Future.reject(new Error("429 rate limit")));
+    try {
+      const promise = runFuture(generateCandidateMessages(mockProvider("openai"), unfitted("diff"), 3, "conventional"));
+      const assertion = expect(promise).rejects.toThrow("rate limit");
+      await vi.runAllTimersAsync();
+      await assertion;
+      expect(prompts.confirm).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.mocked(generateContentWithOpenAI).mockReturnValue(plain);
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("diff budgeting", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const hugeDiff = (path: string): string => [`diff --git a/${path} b/${path}`, "@@ -1 +1 @@", "+x".repeat(200_000)].join("\n");
+
+  it("summarizes oversized files before generating the message", async () => {
+    const { generateContentWithAnthropic } = await import("@/infra/llm/anthropic");
+    vi.mocked(generateContentWithAnthropic).mockReturnValue(Future.resolve({ text: "- summary", tokens: Nothing(), effectiveEffort: Nothing() }));
+
+    const small = "diff --git a/small.ts b/small.ts\n@@ -1 +1 @@\n+y";
+    const config = mockProvider("anthropic");
+    const whole = `${hugeDiff("vendor.js")}\n${small}`;
+    const fitted = await runFuture(fitDiff(config, whole, whole));
+    await runFuture(generateCommitMessage(config, fitted, "conventional", Nothing()));
+    await runFuture(refineCommitMessage(config, "feat: x", "shorter", fitted, "conventional"));
+
+    const calls = vi.mocked(generateContentWithAnthropic).mock.calls;
+    expect(calls).toHaveLength(3);
+    expect(calls[0]?.[1].prompt).toContain("<path>\nvendor.js\n</path>");
+    expect(calls[0]?.[0].effort).toEqual(Just("low"));
+    const finalPrompt = calls[1]?.[1].prompt ?? "";
+    expect(finalPrompt).toContain("--- summary of vendor.js");
+    expect(finalPrompt).toContain("+y");
+    expect(finalPrompt).not.toContain("+x+x+x");
+    expect(calls[2]?.[1].prompt).toContain("--- summary of vendor.js");
+  });
+
+  it("asks once to retry summaries that ran side by side", async () => {
+    vi.useFakeTimers();
+    try {
+      const prompts = await import("@clack/prompts");
+      const { generateContentWithAnthropic } = await import("@/infra/llm/anthropic");
+      vi.mocked(generateContentWithAnthropic).mockReturnValue(Future.reject(new Error("429 rate limit")));
+      vi.mocked(prompts.confirm).mockImplementationOnce(() => new Promise((resolve) => setTimeout(() => resolve(false), 60_000)));
+
+      const whole = `${hugeDiff("a.js")}\n${hugeDiff("b.js")}`;
+      const promise = runFuture(fitDiff(mockProvider("anthropic"), whole, whole));
+      const assertion = expect(promise).rejects.toThrow("rate limit");
+      await vi.runAllTimersAsync();
+      await assertion;
+      expect(prompts.confirm).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.mocked((await import("@/infra/llm/anthropic")).generateContentWithAnthropic).mockReturnValue(
+        Future.resolve({ text: "feat: test", tokens: Nothing(), effectiveEffort: Nothing() })
+      );
+      vi.useRealTimers();
+    }
+  });
+
+  it("passes small diffs through without a call", async () => {
+    const { generateContentWithAnthropic } = await import("@/infra/llm/anthropic");
+    const diff = "diff --git a/a b/a\n+z";
+    expect(await runFuture(fitDiff(mockProvider("anthropic"), diff, diff))).toEqual({ raw: diff, full: diff, fitted: diff });
+    expect(generateContentWithAnthropic).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffOf,
+  draftOf,
+  record,
+  redo,
+  startHistory,
+  undo,
+  unstagedPaths,
+  withMergedCommits,
+  withMovedItem,
+  withReorderedCommit,
+  withSplitOff,
+  withoutCommit
+} from "@/domain/split/edit";
+
+const first = { path: "c.ts", header: "@@ -1,2 +1,3 @@" };
+const second = { path: "c.ts", header: "@@ -20,2 +21,3 @@" };
+
+const draft = draftOf({
+  shouldSplit: true,
+  commits: [
+    { message: "feat: a", files: ["a.ts"], hunks: [first] },
+    { message: "feat: b", files: ["b.ts", "d.ts"], hunks: [] },
+    { message: "feat: c", files: [], hunks: [second] }
+  ]
+});
+
+describe("split plan edits", () => {
+  it("moves a whole file and drops the commit it empties", () => {
+    const moved = withMovedItem(withMovedItem(draft, { type: "file", path: "b.ts" }, 0), { type: "file", path: "d.ts" }, 0);
+    expect(moved.plan.commits.map((commit) => commit.message)).toEqual(["feat: a", "feat: c"]);
+    expect(moved.plan.commits[0]?.files).toEqual(["a.ts", "b.ts", "d.ts"]);
+  });
+
+  it("reorders commits", () => {
+    expect(withReorderedCommit(draft, 2, 0).plan.commits.map((commit) => commit.message)).toEqual(["feat: c", "feat: a", "feat: b"]);
+  });
+
+  it("merges into the earlier commit and joins a file whose hunks meet", () => {
+    const merged = withMergedCommits(draft, 2, 0, "feat: a and c");
+    expect(merged.plan.commits).toEqual([
+      { message: "feat: a and c", files: ["a.ts", "c.ts"], hunks: [] },
+      { message: "feat: b", files: ["b.ts", "d.ts"], hunks: [] }
+    ]);
+  });
+
+  it("splits picked items off into a new commit right after the source", () => {
+    const split = withSplitOff(draft, 1, [{ type: "file", path: "d.ts" }], "feat: d");
+    expect(split.plan.commits.map((commit) => [commit.message, commit.files])).toEqual([
+      ["feat: a", ["a.ts"]],
+      ["feat: b", ["b.ts"]],
+      ["feat: d", ["d.ts"]],
+      ["feat: c", []]
+    ]);
+  });
+
+  it("does not split off all of a commit", () => {
+    const all = [
+      { type: "file", path: "b.ts" },
+      { type: "file", path: "d.ts" }
+    ] as const;
+    expect(withSplitOff(draft, 1, all, "feat: all")).toBe(draft);
+  });
+
+  it("sends a deleted commit back to unstaged without joining the file it shared", () => {
+    const deleted = withoutCommit(draft, 2);
+    expect(deleted.plan.commits[0]).toEqual({ message: "feat: a", files: ["a.ts"], hunks: [first] });
+    expect(deleted.unstaged).toEqual([{ type: "hunk", hunk: second }]);
+    expect(unstagedPaths(deleted)).toEqual(["c.ts"]);
+
+    const moved = withMovedItem(deleted, { type: "hunk", hunk: first }, 1);
+    expect(moved.plan.commits[1]).toEqual({ message: "feat: b", files: ["b.ts", "d.ts"], hunks: [first] });
+  });
+
+  it("keeps the last commit", () => {
+    const one = withoutCommit(withoutCommit(withoutCommit(draft, 0), 0), 0);
+    expect(one.plan.commits).toHaveLength(1);
+  });
+
+  it("renders the diff of the picked files and hunks only", () => {
+    const diff = [
+      "diff --git a/b.ts b/b.ts",
+      "--- a/b.ts",
+      "+++ b/b.ts",
+      "@@ -1 +1 @@",
+      "-b",
+      "+bb",
+      "diff --git a/c.ts b/c.ts",
+      "--- a/c.ts",
+      "+++ b/c.ts",
+      "@@ -1,2 +1,3 @@",
+      " one",
+      "+first",
+      " two",
+      "@@ -20,2 +21,3 @@",
+      " x",
+      "+second",
+      " y",
+      ""
+    ].join("\n");
+    const picked = diffOf(diff, [
+      { type: "file", path: "b.ts" },
+      { type: "hunk", hunk: second }
+    ]);
+    expect(picked).toContain("+bb");
+    expect(picked).toContain("@@ -20,2 +20,3 @@\n x\n+second");
+    expect(picked).not.toContain("+first");
+  });
+});
+
+describe("split plan history", () => {
+  it("undoes and redoes edits, and a new edit drops what could be redone", () => {
+    const moved = withReorderedCommit(draft, 2, 0);
+    const history = record(startHistory(draft.plan), moved);
+    const undone = undo(history);
+    expect(undone.present.plan).toBe(draft.plan);
+    expect(redo(undone).present).toBe(moved);
+
+    const other = record(undone, withoutCommit(undone.present, 1));
+    expect(other.future).toEqual([]);
+    expect(undo(other).present.plan).toBe(draft.plan);
+  });
+
+  it("records nothing for an edit that changed nothing", () => {
+    const history = startHistory(draft.plan);
+    expect(record(history, history.present)).toBe(history);
+    expect(undo(history)).toBe(history);
+  });
+});
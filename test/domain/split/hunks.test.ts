@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { commitPatches, splittableHunks } from "@/domain/split/hunks";
+import { parseFilePatch } from "@/domain/staging/hunks";
+import { Failure, Success } from "@/libs/result";
+import { Just } from "@/libs/maybe";
+
+const SPLIT = [
+  "diff --git a/a.ts b/a.ts",
+  "index 1111111..2222222 100644",
+  "--- a/a.ts",
+  "+++ b/a.ts",
+  "@@ -1,2 +1,3 @@ header",
+  " one",
+  "+added",
+  " two",
+  "@@ -10,3 +11,2 @@",
+  " ten",
+  "-eleven",
+  " twelve",
+  "@@ -20,2 +20,3 @@",
+  " twenty",
+  "+more",
+  " twenty-one"
+].join("\n");
+
+const NEW_FILE = ["diff --git a/b.ts b/b.ts", "new file mode 100644", "--- /dev/null", "+++ b/b.ts", "@@ -0,0 +1,2 @@", "+x", "+y"].join("\n");
+
+const ONE_HUNK = ["diff --git a/c.ts b/c.ts", "--- a/c.ts", "+++ b/c.ts", "@@ -1 +1 @@", "-old", "+new"].join("\n");
+
+describe("splittableHunks", () => {
+  it("lists the hunks of modified files that have more than one", () => {
+    expect(splittableHunks([SPLIT, NEW_FILE, ONE_HUNK].join("\n"))).toEqual([
+      { path: "a.ts", header: "@@ -1,2 +1,3 @@" },
+      { path: "a.ts", header: "@@ -10,3 +11,2 @@" },
+      { path: "a.ts", header: "@@ -20,2 +20,3 @@" }
+    ]);
+  });
+});
+
+describe("commitPatches", () => {
+  const source = parseFilePatch(SPLIT);
+  const sources = new Map(source instanceof Just ? [["a.ts", source.value]] : []);
+
+  it("moves each patch past what earlier commits took of the file", () => {
+    const r = commitPatches(
+      [
+        { hunks: [{ path: "a.ts", header: "@@ -1,2 +1,3 @@" }] },
+        { hunks: [] },
+        {
+          hunks: [
+            { path: "a.ts", header: "@@ -10,3 +11,2 @@" },
+            { path: "a.ts", header: "@@ -20,2 +20,3 @@" }
+          ]
+        }
+      ],
+      sources
+    );
+    expect(r instanceof Success).toBe(true);
+    if (r instanceof Success) {
+      expect(r.value[0]?.[0]?.patch).toContain("@@ -1,2 +1,3 @@ header\n one\n+added");
+      expect(r.value[1]).toEqual([]);
+      expect(r.value[2]?.[0]?.patch).toContain("@@ -11,3 +11,2 @@\n");
+      expect(r.value[2]?.[0]?.patch).toContain("@@ -21,2 +20,3 @@\n");
+      expect(r.value[2]?.[0]?.patch).not.toContain("+added");
+    }
+  });
+
+  it("fails when a hunk is no longer staged", () => {
+    const r = commitPatches([{ hunks: [{ path: "a.ts", header: "@@ -5,2 +5,3 @@" }] }], sources);
+    expect(r instanceof Failure).toBe(true);
+    if (r instanceof Failure) expect(r.error.message).toMatch(/changed after the split plan was made/);
+  });
+});
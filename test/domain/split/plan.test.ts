@@ -19,9 +19,9 @@ describe("parseAndValidateSplitPlan", () => {
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value.commits).toEqual([
-        { message: "feat: a", files: ["a.ts"] },
-        { message: "feat: b", files: ["b.ts"] },
-        { message: "feat: c", files: ["c.ts"] }
+        { message: "feat: a", files: ["a.ts"], hunks: [] },
+        { message: "feat: b", files: ["b.ts"], hunks: [] },
+        { message: "feat: c", files: ["c.ts"], hunks: [] }
       ]);
     }
   });
@@ -82,8 +82,8 @@ describe("parseAndValidateSplitPlan", () => {
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value.commits).toEqual([
-        { message: "feat: a", files: ["a.ts"] },
-        { message: "Commit remaining staged changes", files: ["b.ts", "c.ts"] }
+        { message: "feat: a", files: ["a.ts"], hunks: [] },
+        { message: "Commit remaining staged changes", files: ["b.ts", "c.ts"], hunks: [] }
       ]);
     }
   });
@@ -100,7 +100,7 @@ describe("parseAndValidateSplitPlan", () => {
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value.shouldSplit).toBe(false);
-      expect(r.value.commits).toEqual([{ message: "feat: a", files: ["a.ts", "b.ts", "c.ts"] }]);
+      expect(r.value.commits).toEqual([{ message: "feat: a", files: ["a.ts", "b.ts", "c.ts"], hunks: [] }]);
     }
   });
 
@@ -109,7 +109,7 @@ describe("parseAndValidateSplitPlan", () => {
     expect(r instanceof Success).toBe(true);
     if (r instanceof Success) {
       expect(r.value.shouldSplit).toBe(false);
-      expect(r.value.commits).toEqual([{ message: "feat: a", files: ["a.ts", "b.ts", "c.ts"] }]);
+      expect(r.value.commits).toEqual([{ message: "feat: a", files: ["a.ts", "b.ts", "c.ts"], hunks: [] }]);
     }
   });
 
@@ -118,3 +118,90 @@ describe("parseAndValidateSplitPlan", () => {
     expect(r instanceof Failure).toBe(true);
   });
 });
+
+describe("parseAndValidateSplitPlan with hunks", () => {
+  const hunks = [
+    { path: "a.ts", header: "@@ -1,3 +1,4 @@" },
+    { path: "a.ts", header: "@@ -40,2 +41,3 @@" },
+    { path: "a.ts", header: "@@ -90,4 +91,2 @@" }
+  ];
+  const plan = (commits: readonly object[]) => JSON.stringify({ should_split: true, commits });
+
+  it("gives the hunks of one file to different commits", () => {
+    const raw = plan([
+      { message: "feat: a", files: ["b.ts"], hunks: [{ file: "a.ts", header: "@@ -1,3 +1,4 @@ function a() {" }] },
+      {
+        message: "fix: c",
+        files: ["c.ts"],
+        hunks: [
+          { file: "a.ts", header: "@@ -40,2 +41,3 @@" },
+          { file: "a.ts", header: "@@ -90,4 +91,2 @@" }
+        ]
+      }
+    ]);
+    const r = parseAndValidateSplitPlan(raw, staged, hunks);
+    expect(r instanceof Success).toBe(true);
+    if (r instanceof Success) {
+      expect(r.value.commits).toEqual([
+        { message: "feat: a", files: ["b.ts"], hunks: [hunks[0]] },
+        { message: "fix: c", files: ["c.ts"], hunks: [hunks[1], hunks[2]] }
+      ]);
+    }
+  });
+
+  it("puts unassigned hunks of a split file into the remaining commit", () => {
+    const raw = plan([{ message: "feat: a", files: ["b.ts", "c.ts"], hunks: [{ file: "a.ts", header: "@@ -40,2 +41,3 @@" }] }]);
+    const r = parseAndValidateSplitPlan(raw, staged, hunks);
+    expect(r instanceof Success).toBe(true);
+    if (r instanceof Success) {
+      expect(r.value.commits[1]).toEqual({ message: "Commit remaining staged changes", files: [], hunks: [hunks[0], hunks[2]] });
+    }
+  });
+
+  it("keeps a file whole when all its hunks land in one commit", () => {
+    const raw = plan([
+      { message: "feat: a", files: [], hunks: hunks.map((hunk) => ({ file: hunk.path, header: hunk.header })) },
+      { message: "feat: b", files: ["b.ts", "c.ts"] }
+    ]);
+    const r = parseAndValidateSplitPlan(raw, staged, hunks);
+    expect(r instanceof Success).toBe(true);
+    if (r instanceof Success) {
+      expect(r.value.commits[0]).toEqual({ message: "feat: a", files: ["a.ts"], hunks: [] });
+    }
+  });
+
+  it.each([
+    [[{ message: "feat: a", files: ["b.ts", "c.ts"], hunks: [{ file: "a.ts", header: "@@ -2,3 +2,4 @@" }] }], /unknown hunk/],
+    [[{ message: "feat: a", files: ["b.ts"], hunks: [{ file: "b.ts", header: "@@ -1,3 +1,4 @@" }] }], /unknown hunk/],
+    [
+      [
+        { message: "feat: a", files: ["b.ts"], hunks: [{ file: "a.ts", header: "@@ -1,3 +1,4 @@" }] },
+        { message: "feat: c", files: ["c.ts"], hunks: [{ file: "a.ts", header: "@@ -1,3 +1,4 @@" }] }
+      ],
+      /duplicate hunk/
+    ],
+    [
+      [
+        { message: "feat: a", files: ["a.ts"] },
+        { message: "feat: c", files: ["b.ts"], hunks: [{ file: "a.ts", header: "@@ -1,3 +1,4 @@" }] }
+      ],
+      /both whole and by hunk/
+    ]
+  ] as const)("rejects %j", (commits, message) => {
+    const r = parseAndValidateSplitPlan(plan(commits), staged, hunks);
+    expect(r instanceof Failure).toBe(true);
+    if (r instanceof Failure) expect(r.error.message).toMatch(message);
+  });
+
+  it("merges split files back when should_split is false", () => {
+    const raw = JSON.stringify({
+      should_split: false,
+      commits: [{ message: "feat: a", files: ["b.ts", "c.ts"], hunks: [{ file: "a.ts", header: "@@ -1,3 +1,4 @@" }] }]
+    });
+    const r = parseAndValidateSplitPlan(raw, staged, hunks);
+    expect(r instanceof Success).toBe(true);
+    if (r instanceof Success) {
+      expect(r.value.commits).toEqual([{ message: "feat: a", files: ["b.ts", "c.ts", "a.ts"], hunks: [] }]);
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { describeHunk, parseFilePatch, renderPatch } from "@/domain/staging/hunks";
+import { Just } from "@/libs/maybe";
+
+const DIFF = [
+  "diff --git a/file.txt b/file.txt",
+  "index 1111111..2222222 100644",
+  "--- a/file.txt",
+  "+++ b/file.txt",
+  "@@ -1,3 +1,4 @@",
+  " one",
+  "+one and a half",
+  " two",
+  " three",
+  "@@ -10,3 +11,2 @@ function tail() {",
+  " ten",
+  "-eleven",
+  " twelve",
+  ""
+].join("\n");
+
+describe("parseFilePatch", () => {
+  it("splits the header from the hunks", () => {
+    const patch = parseFilePatch(DIFF);
+    expect(patch.isNothing()).toBe(false);
+    if (patch instanceof Just) {
+      expect(patch.value.header).toHaveLength(4);
+      expect(patch.value.hunks.map(({ oldStart, oldCount, newCount, context }) => ({ oldStart, oldCount, newCount, context }))).toEqual([
+        { oldStart: 1, oldCount: 3, newCount: 4, context: "" },
+        { oldStart: 10, oldCount: 3, newCount: 2, context: " function tail() {" }
+      ]);
+      expect(patch.value.hunks.map(describeHunk)).toEqual(["+1 -0", "+0 -1"]);
+    }
+  });
+
+  it("is Nothing for a diff without hunks", () => {
+    expect(parseFilePatch("diff --git a/x.png b/x.png\nBinary files differ\n").isNothing()).toBe(true);
+  });
+});
+
+describe("renderPatch", () => {
+  it("moves later new-side starts by the skipped hunks", () => {
+    const patch = parseFilePatch(DIFF);
+    if (!(patch instanceof Just)) throw new Error("expected a patch");
+    expect(renderPatch(patch.value, new Set([1]))).toContain("@@ -10,3 +10,2 @@ function tail() {");
+    expect(renderPatch(patch.value, new Set([0, 1]))).toContain("@@ -10,3 +11,2 @@ function tail() {");
+    expect(renderPatch(patch.value, new Set([0]))).not.toContain("eleven");
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chmodSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { editCommitMessage, resolveEditor } from "@/infra/editor";
+import { Just, Nothing } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+
+const script = (body: string): string => {
+  const path = join(mkdtempSync(join(tmpdir(), "commit-tools-editor-test-")), "editor.sh");
+  writeFileSync(path, `#!/bin/sh\n${body}\n`);
+  chmodSync(path, 0o755);
+  return path;
+};
+
+describe("editor", () => {
+  const saved = { VISUAL: process.env["VISUAL"], EDITOR: process.env["EDITOR"] };
+
+  beforeEach(() => {
+    delete process.env["VISUAL"];
+    delete process.env["EDITOR"];
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it("prefers VISUAL over EDITOR", async () => {
+    process.env["EDITOR"] = "nano";
+    expect(await runFuture(resolveEditor())).toBe("nano");
+    process.env["VISUAL"] = "code --wait";
+    expect(await runFuture(resolveEditor())).toBe("code --wait");
+  });
+
+  it("reads the saved file back without comment lines", async () => {
+    process.env["EDITOR"] = script(`printf 'fix: edited\\n# note\\n\\n- detail\\n' > "$1"`);
+    expect(await runFuture(editCommitMessage("feat: original"))).toEqual(Just("fix: edited\n\n- detail"));
+  });
+
+  it("passes the editor's own arguments through", async () => {
+    process.env["EDITOR"] = `${script(`printf '%s\\n' "$1" > "$2"`)} "fix: from argument"`;
+    expect(await runFuture(editCommitMessage("feat: original"))).toEqual(Just("fix: from argument"));
+  });
+
+  it("returns Nothing for an emptied message and fails when the editor does", async () => {
+    process.env["EDITOR"] = script(`: > "$1"`);
+    expect(await runFuture(editCommitMessage("feat: original"))).toEqual(Nothing());
+
+    process.env["EDITOR"] = script("exit 3");
+    await expect(runFuture(editCommitMessage("feat: original"))).rejects.toThrow(/failed/);
+  });
+});
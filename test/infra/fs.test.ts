@@ -0,0 +1,31 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { readOptionalFile } from "@/infra/fs";
+
+describe("readOptionalFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "commit-tools-fs-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a file that exists", async () => {
+    await writeFile(join(dir, "present.txt"), "content", "utf-8");
+    expect((await readOptionalFile(join(dir, "present.txt"))).withDefault("")).toBe("content");
+  });
+
+  it("resolves to Nothing for a missing file", async () => {
+    expect((await readOptionalFile(join(dir, "missing.txt"))).isNothing()).toBe(true);
+  });
+
+  it("still rejects other read errors", async () => {
+    await expect(readOptionalFile(dir)).rejects.toThrow(/EISDIR/);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { findContributors, loadRecentCoAuthors, resolveCoAuthors, saveRecentCoAuthors } from "@/infra/git/co-authors";
+
+describe("co-authors integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const commitAs = (author: string, name: string): void => {
+    writeFileSync(join(git.dir, name), `${name}\n`);
+    git.run(`add ${name}`);
+    git.run(`commit -q --author "${author}" -m "add ${name}"`);
+  };
+
+  it("lists other contributors with .mailmap applied", async () => {
+    commitAs("Ada <ada@old.example.com>", "a.txt");
+    commitAs("Ada Lovelace <ada@example.com>", "b.txt");
+    commitAs("Grace Hopper <grace@example.com>", "c.txt");
+    writeFileSync(join(git.dir, ".mailmap"), "Ada Lovelace <ada@example.com> <ada@old.example.com>\n");
+
+    expect(await runFuture(findContributors())).toEqual([
+      { name: "Ada Lovelace", email: "ada@example.com" },
+      { name: "Grace Hopper", email: "grace@example.com" }
+    ]);
+  });
+
+  it("resolves --co-author queries and remembers them as recent pairs", async () => {
+    commitAs("Grace Hopper <grace@example.com>", "c.txt");
+
+    const [grace] = await runFuture(resolveCoAuthors(["grace"]));
+    expect(grace).toEqual({ name: "Grace Hopper", email: "grace@example.com" });
+    await expect(runFuture(resolveCoAuthors(["nobody"]))).rejects.toThrow("No contributor matches 'nobody'");
+
+    expect(await runFuture(loadRecentCoAuthors())).toEqual([]);
+    await runFuture(saveRecentCoAuthors(grace === undefined ? [] : [grace]));
+    expect(await runFuture(loadRecentCoAuthors())).toEqual([grace]);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { findCommitlintRules } from "@/infra/git/commitlint";
+import { Just } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo } from "@test/helpers/temp-git-repo";
+
+describe("findCommitlintRules", () => {
+  let dir: string;
+  let prev: string;
+
+  beforeEach(() => {
+    dir = createTempGitRepo().dir;
+    prev = cwd();
+    chdir(dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const write = (name: string, content: string): void => writeFileSync(join(dir, name), content);
+
+  it("finds nothing without a config", async () => {
+    expect((await runFuture(findCommitlintRules())).isNothing()).toBe(true);
+  });
+
+  it("reads the commitlint key of package.json first", async () => {
+    write("package.json", JSON.stringify({ name: "x", commitlint: { rules: { "type-enum": [2, "always", ["feat"]] } } }));
+    write(".commitlintrc.json", JSON.stringify({ rules: { "type-enum": [2, "always", ["fix"]] } }));
+
+    const found = await runFuture(findCommitlintRules());
+    expect(found.map(({ rules }) => rules.types)).toEqual(Just(Just(["feat"])));
+  });
+
+  it("skips a package.json without a commitlint key", async () => {
+    write("package.json", JSON.stringify({ name: "x" }));
+    write(".commitlintrc", JSON.stringify({ extends: ["@commitlint/config-conventional"] }));
+
+    const found = await runFuture(findCommitlintRules());
+    expect(found.map(({ path }) => path)).toEqual(Just(join(dir, ".commitlintrc")));
+  });
+
+  it("never runs JavaScript configs", async () => {
+    write("ran.txt", "");
+    write(
+      "commitlint.config.cjs",
+      'require("fs").writeFileSync("ran.txt", "yes"); module.exports = { rules: { "header-max-length": [2, "always", 60] } };'
+    );
+
+    expect((await runFuture(findCommitlintRules())).map(({ rules }) => rules.headerMaxLength)).toEqual(Just(Just(60)));
+    expect(readFileSync(join(dir, "ran.txt"), "utf-8")).toBe("");
+  });
+
+  it("statically reads a JavaScript config that exports an object literal, with its extends", async () => {
+    write(
+      "commitlint.config.mjs",
+      "// Conventional commits, with our own types.\nexport default {\n  extends: ['@commitlint/config-conventional'],\n  rules: { 'type-enum': [2, 'always', ['feat', 'fix']] },\n};\n"
+    );
+
+    const found = await runFuture(findCommitlintRules());
+    expect(found.map(({ path }) => path)).toEqual(Just(join(dir, "commitlint.config.mjs")));
+    expect(found.map(({ rules }) => rules.types)).toEqual(Just(Just(["feat", "fix"])));
+    expect(found.map(({ rules }) => rules.headerMaxLength)).toEqual(Just(Just(100)));
+  });
+
+  it("reports a JavaScript config that builds its export at runtime", async () => {
+    write("commitlint.config.js", "module.exports = require('./shared-commitlint');\n");
+
+    await expect(runFuture(findCommitlintRules())).rejects.toThrow("does not export a plain object literal");
+  });
+
+  it("still never reads TypeScript configs", async () => {
+    write("commitlint.config.ts", "export default { rules: {} };\n");
+
+    await expect(runFuture(findCommitlintRules())).rejects.toThrow("would execute repository code");
+  });
+
+  it("reads YAML configs, also without an extension", async () => {
+    write(".commitlintrc.yml", "rules:\n  header-max-length: [2, always, 60]\n");
+    expect((await runFuture(findCommitlintRules())).map(({ rules }) => rules.headerMaxLength)).toEqual(Just(Just(60)));
+
+    write(".commitlintrc", "rules:\n  header-max-length:\n    - 2\n    - always\n    - 50\n");
+    expect((await runFuture(findCommitlintRules())).map(({ rules }) => rules.headerMaxLength)).toEqual(Just(Just(50)));
+  });
+});
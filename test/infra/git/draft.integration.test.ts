@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { DRAFT_FILE, clearDraft, findDraftFor, loadDraft, saveDraft } from "@/infra/git/draft";
+import { Nothing } from "@/libs/maybe";
+import { type GeneratedContent } from "@/domain/llm/router";
+
+const generated: GeneratedContent = {
+  text: "fix: keep the message",
+  metadata: { durationMs: 1200, model: { provider: "openai", model: "m", effort: "medium" }, tokens: Nothing() }
+};
+
+describe("draft integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  it("finds a saved draft only for the diff it was written for", async () => {
+    await runFuture(saveDraft("diff a", generated));
+
+    const found = await runFuture(findDraftFor("diff a"));
+    expect(found.maybe("", (draft) => draft.message)).toBe("fix: keep the message");
+    expect(found.maybe(0, (draft) => draft.request.durationMs)).toBe(1200);
+    expect((await runFuture(findDraftFor("diff b"))).isNothing()).toBe(true);
+  });
+
+  it("reports whether there was a draft to clear", async () => {
+    await runFuture(saveDraft("diff a", generated));
+
+    expect(await runFuture(clearDraft())).toBe(true);
+    expect(await runFuture(clearDraft())).toBe(false);
+    expect((await runFuture(loadDraft())).isNothing()).toBe(true);
+  });
+
+  it("ignores a corrupt draft file", async () => {
+    writeFileSync(join(git.dir, ".git", DRAFT_FILE), "{ not json");
+
+    expect((await runFuture(loadDraft())).isNothing()).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { HISTORY_CACHE_FILE, loadHistoryExamples } from "@/infra/git/history";
+
+describe("history examples integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const commitFile = (name: string, message: string): void => {
+    writeFileSync(join(git.dir, name), `${message}\n`);
+    git.run(`add ${name}`);
+    git.run(`commit -q -m "${message}"`);
+  };
+
+  it("samples recent commits with their files and caches them in the git dir", async () => {
+    commitFile("a.ts", "feat(a): add a");
+
+    const examples = await runFuture(loadHistoryExamples());
+    expect(examples[0]).toEqual({ subject: "feat(a): add a", body: "", files: ["a.ts"] });
+
+    const cachePath = join(git.dir, ".git", HISTORY_CACHE_FILE);
+    expect(existsSync(cachePath)).toBe(true);
+    expect(JSON.parse(readFileSync(cachePath, "utf-8")).examples).toHaveLength(examples.length);
+  });
+
+  it("reuses the cache until the branch moves", async () => {
+    commitFile("a.ts", "feat(a): add a");
+    await runFuture(loadHistoryExamples());
+
+    const cachePath = join(git.dir, ".git", HISTORY_CACHE_FILE);
+    const cache = JSON.parse(readFileSync(cachePath, "utf-8"));
+    writeFileSync(cachePath, JSON.stringify({ ...cache, examples: [{ subject: "from cache", body: "", files: [] }] }));
+    expect((await runFuture(loadHistoryExamples()))[0]?.subject).toBe("from cache");
+
+    commitFile("b.ts", "feat(b): add b");
+    expect((await runFuture(loadHistoryExamples()))[0]?.subject).toBe("feat(b): add b");
+  });
+});
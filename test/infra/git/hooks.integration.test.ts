@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { CHAINED_HOOK_NAME, HOOK_NAME, inspectCommitHook, installCommitHook, uninstallCommitHook } from "@/infra/git/hooks";
+
+const FOREIGN_HOOK = '#!/bin/sh\necho "# from foreign hook" >> "$1"\n';
+
+describe("commit hook integration", () => {
+  let git: TempGitRepo;
+  let hooksDir: string;
+  let prevCwd: string;
+  let prevEntry: string | undefined;
+  let prevGitConfigCount: string | undefined;
+  let prevPath: string | undefined;
+
+  beforeEach(() => {
+    // A `core.hooksPath` injected through GIT_CONFIG_* (e.g. by a sandbox) would outrank the repo's own hooks dir.
+    prevGitConfigCount = process.env["GIT_CONFIG_COUNT"];
+    delete process.env["GIT_CONFIG_COUNT"];
+    git = createTempGitRepo();
+    hooksDir = join(git.dir, ".git", "hooks");
+    prevCwd = cwd();
+    prevEntry = process.argv[1];
+    prevPath = process.env["PATH"];
+    chdir(git.dir);
+  });
+
+  afterEach(() => {
+    chdir(prevCwd);
+    if (prevEntry !== undefined) process.argv[1] = prevEntry;
+    if (prevPath !== undefined) process.env["PATH"] = prevPath;
+    if (prevGitConfigCount !== undefined) process.env["GIT_CONFIG_COUNT"] = prevGitConfigCount;
+  });
+
+  /** The hook falls back to `process.argv[1]`; point it at a stub that answers `generate --print`. */
+  const useFakeEntry = (message: string): void => {
+    const dir = mkdtempSync(join(tmpdir(), "commit-tools-entry-"));
+    const entry = join(dir, "entry.cjs");
+    writeFileSync(entry, `if (process.argv.slice(2).join(" ") === "generate --print") console.log(${JSON.stringify(message)});\n`);
+    process.argv[1] = entry;
+  };
+
+  /** Puts a `commit` executable answering `generate --print` first on PATH, where the hook looks before its fallback. */
+  const useFakeBinary = (message: string): void => {
+    const dir = mkdtempSync(join(tmpdir(), "commit-tools-bin-"));
+    writeFileSync(join(dir, "commit"), `#!/bin/sh\n[ "$*" = "generate --print" ] && echo ${JSON.stringify(message)}\n`, { mode: 0o755 });
+    process.env["PATH"] = `${dir}${delimiter}${process.env["PATH"] ?? ""}`;
+  };
+
+  it("reports absent, then installed", async () => {
+    expect(await runFuture(inspectCommitHook())).toEqual({ type: "absent" });
+    await runFuture(installCommitHook());
+    expect(await runFuture(inspectCommitHook())).toEqual({ type: "installed", chained: false });
+  });
+
+  it("chains an existing hook and restores it on uninstall", async () => {
+    mkdirSync(hooksDir, { recursive: true });
+    writeFileSync(join(hooksDir, HOOK_NAME), FOREIGN_HOOK, { mode: 0o755 });
+    expect(await runFuture(inspectCommitHook())).toEqual({ type: "foreign" });
+
+    expect(await runFuture(installCommitHook())).toMatchObject({ chained: true });
+    expect(readFileSync(join(hooksDir, CHAINED_HOOK_NAME), "utf-8")).toBe(FOREIGN_HOOK);
+
+    expect(await runFuture(uninstallCommitHook())).toMatchObject({ restored: true });
+    expect(readFileSync(join(hooksDir, HOOK_NAME), "utf-8")).toBe(FOREIGN_HOOK);
+    expect(existsSync(join(hooksDir, CHAINED_HOOK_NAME))).toBe(false);
+  });
+
+  it("reinstalls in place without chaining itself", async () => {
+    await runFuture(installCommitHook());
+    expect(await runFuture(installCommitHook())).toMatchObject({ chained: false });
+    expect(existsSync(join(hooksDir, CHAINED_HOOK_NAME))).toBe(false);
+  });
+
+  it("refuses to uninstall a hook it did not write", async () => {
+    mkdirSync(hooksDir, { recursive: true });
+    writeFileSync(join(hooksDir, HOOK_NAME), FOREIGN_HOOK, { mode: 0o755 });
+    await expect(runFuture(uninstallCommitHook())).rejects.toThrow("not installed by commit-tools");
+  });
+
+  it("pre-fills a plain git commit after running the chained hook", async () => {
+    mkdirSync(hooksDir, { recursive: true });
+    writeFileSync(join(hooksDir, HOOK_NAME), FOREIGN_HOOK, { mode: 0o755 });
+    useFakeEntry("feat: generated by hook");
+    await runFuture(installCommitHook());
+
+    writeFileSync(join(git.dir, "file.txt"), "changed\n");
+    git.run("add file.txt");
+    git.run("-c core.editor=true commit");
+
+    const body = git.run("log -1 --format=%B");
+    expect(body).toContain("feat: generated by hook");
+  });
+
+  it("prefers the commit binary on PATH over the paths it was installed from", async () => {
+    useFakeEntry("feat: from the install paths");
+    useFakeBinary("feat: from PATH");
+    await runFuture(installCommitHook());
+
+    writeFileSync(join(git.dir, "file.txt"), "changed\n");
+    git.run("add file.txt");
+    git.run("-c core.editor=true commit");
+
+    expect(git.run("log -1 --format=%B")).toContain("feat: from PATH");
+  });
+
+  it("leaves messages given with -m untouched", async () => {
+    useFakeEntry("feat: should not appear");
+    await runFuture(installCommitHook());
+
+    writeFileSync(join(git.dir, "file.txt"), "changed\n");
+    git.run("add file.txt");
+    git.run('commit -m "manual message"');
+
+    expect(git.run("log -1 --format=%B").trim()).toBe("manual message");
+  });
+});
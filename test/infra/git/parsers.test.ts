@@ -6,7 +6,11 @@ import {
   splitCommitFields,
   parseRemoteFromUpstream,
   commandFailureMessage,
-  parseHookInterpreter
+  parseHookInterpreter,
+  parseHistoryLog,
+  parseRangeLog,
+  parseShortlog,
+  parseStatusPorcelain
 } from "@/infra/git/parsers";
 import { Just, Nothing } from "@/libs/maybe";
 import { Success } from "@/libs/result";
@@ -85,3 +89,46 @@ describe("parseHookInterpreter", () => {
     expect(parseHookInterpreter("#!/usr/bin/python")).toBe("python");
   });
 });
+
+describe("parseHistoryLog", () => {
+  it("splits subjects, bodies and file lists per commit", () => {
+    const stdout = "\x1efeat: add a\x1f- Add a.\n\x1f\n\nsrc/a.ts\ntest/a.test.ts\n\x1efix b\x1f\x1f\n\nsrc/b.ts\n";
+    expect(parseHistoryLog(stdout)).toEqual([
+      { subject: "feat: add a", body: "- Add a.\n", files: ["src/a.ts", "test/a.test.ts"] },
+      { subject: "fix b", body: "", files: ["src/b.ts"] }
+    ]);
+  });
+});
+
+describe("parseRangeLog", () => {
+  it("splits hashes, parents and full messages per commit", () => {
+    const stdout = "\x1eaaa\x1f\x1fwip\n\n\x1ebbb\x1faaa ccc\x1fMerge branch 'x'\n\nbody\n";
+    expect(parseRangeLog(stdout)).toEqual([
+      { hash: "aaa", parents: [], message: "wip" },
+      { hash: "bbb", parents: ["aaa", "ccc"], message: "Merge branch 'x'\n\nbody" }
+    ]);
+  });
+});
+
+describe("parseShortlog", () => {
+  it("reads names and emails in order and keeps the first name per email", () => {
+    const stdout =
+      "    12\tAda Lovelace <ada@example.com>\n     3\tGrace Hopper <grace@example.com>\n     1\tada <ADA@example.com>\n     1\tNo Email <>\n";
+    expect(parseShortlog(stdout)).toEqual([
+      { name: "Ada Lovelace", email: "ada@example.com" },
+      { name: "Grace Hopper", email: "grace@example.com" }
+    ]);
+  });
+});
+
+describe("parseStatusPorcelain", () => {
+  it("reads unstaged, untracked and conflicted paths and skips what is only staged", () => {
+    const stdout = ["MM src/a.ts", "M  src/staged.ts", " D gone.ts", "?? new file.ts", "R  new.ts", "old.ts", "UU both.ts", ""].join("\0");
+    expect(parseStatusPorcelain(stdout)).toEqual([
+      { path: "src/a.ts", kind: "modified", partlyStaged: true },
+      { path: "gone.ts", kind: "deleted", partlyStaged: false },
+      { path: "new file.ts", kind: "untracked", partlyStaged: false },
+      { path: "both.ts", kind: "conflicted", partlyStaged: false }
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { findPublicApi } from "@/infra/git/public-api";
+
+describe("public API integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const commitFiles = (files: Record<string, string>): void => {
+    for (const [path, contents] of Object.entries(files)) {
+      mkdirSync(join(git.dir, path, ".."), { recursive: true });
+      writeFileSync(join(git.dir, path), contents);
+    }
+    git.run("add -A");
+    git.run('commit -m "files"');
+  };
+
+  it("follows the manifest's entry points through their re-exports, as committed", async () => {
+    commitFiles({
+      "package.json": JSON.stringify({ name: "lib", main: "./dist/index.js", types: "./dist/index.d.ts" }),
+      "src/index.ts": 'export * from "./api";\nexport { run } from "./run.js";\n',
+      "src/api/index.ts": 'export { load } from "./load";\n',
+      "src/api/load.ts": "export const load = () => 1;\n",
+      "src/run.ts": "export const run = () => 1;\n",
+      "src/cli/main.ts": 'import { run } from "../run";\nrun();\n'
+    });
+    writeFileSync(join(git.dir, "src/index.ts"), 'export * from "./cli/main";\n');
+
+    const found = await runFuture(findPublicApi());
+    expect([...found].sort()).toEqual(["src/api/index.ts", "src/api/load.ts", "src/index.ts", "src/run.ts"]);
+  });
+
+  it("finds no public API in an application", async () => {
+    commitFiles({ "package.json": JSON.stringify({ name: "app", private: true }), "src/index.ts": "export const x = 1;\n" });
+
+    expect(await runFuture(findPublicApi())).toEqual([]);
+  });
+});
@@ -1,12 +1,16 @@
 import { describe, expect, it } from "vitest";
 import { chdir, cwd } from "node:process";
-import { chmodSync, mkdirSync, mkdtempSync, readFileSync, readlinkSync, symlinkSync, unlinkSync, writeFileSync } from "node:fs";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readlinkSync, symlinkSync, unlinkSync, writeFileSync } from "node:fs";
 import { execSync } from "node:child_process";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import { runFuture } from "@test/helpers/run-future";
 import { createTempGitRepo } from "@test/helpers/temp-git-repo";
 import * as repo from "@/infra/git/repo";
+import { parseFilePatch, renderPatch } from "@/domain/staging/hunks";
+import { Just } from "@/libs/maybe";
+import { Success } from "@/libs/result";
+import { commitPatches, hunkHeader } from "@/domain/split/hunks";
 
 describe("git repo integration", () => {
   it("getLocalChangeContext includes unstaged diff", async () => {
@@ -694,4 +698,274 @@ git add file.txt
       chdir(prev);
     }
   });
+
+  it("getAmendDiff covers a root commit and anything staged since", async () => {
+    const { dir, run } = createTempGitRepo();
+    const prev = cwd();
+    chdir(dir);
+    try {
+      expect(await runFuture(repo.getAmendDiff())).toContain("+hello");
+      writeFileSync(join(dir, "extra.txt"), "later\n");
+      run("add extra.txt");
+      const diff = await runFuture(repo.getAmendDiff());
+      expect(diff).toContain("file.txt");
+      expect(diff).toContain("+later");
+      expect(await runFuture(repo.getHeadMessage())).toBe("initial");
+      expect(await runFuture(repo.isHeadPushed())).toBe(false);
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("performAmend rewrites the last commit's message without adding a commit", async () => {
+    const { dir, run } = createTempGitRepo({ staged: true });
+    const prev = cwd();
+    chdir(dir);
+    try {
+      run('commit -q -m "wip"');
+      await runFuture(repo.performAmend("feat: describe the change"));
+      expect(await runFuture(repo.getHeadMessage())).toBe("feat: describe the change");
+      expect(run("rev-list --count HEAD").trim()).toBe("2");
+      expect(await runFuture(repo.getAmendDiff())).toContain("+hello world");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("isHeadPushed is true once the upstream contains HEAD", async () => {
+    const { dir, run } = createTempGitRepo();
+    const remote = mkdtempSync(join(tmpdir(), "commit-tools-remote-"));
+    execSync("git init -q --bare", { cwd: remote });
+    const prev = cwd();
+    chdir(dir);
+    try {
+      run(`remote add origin ${remote}`);
+      run("push -q -u origin main");
+      expect(await runFuture(repo.isHeadPushed())).toBe(true);
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("performReword rewrites chosen messages and keeps every tree", async () => {
+    const { dir, run } = createTempGitRepo();
+    const prev = cwd();
+    chdir(dir);
+    try {
+      for (const name of ["a", "b", "c"]) {
+        writeFileSync(join(dir, `${name}.txt`), `${name}\n`);
+        run(`add ${name}.txt`);
+        run(`commit -q -m "wip ${name}"`);
+      }
+      const treeBefore = run("rev-parse HEAD^{tree}");
+      const commits = await runFuture(repo.listRangeCommits("HEAD~3..HEAD"));
+      expect(commits.map((c) => c.message)).toEqual(["wip a", "wip b", "wip c"]);
+
+      const [first, second] = commits;
+      await runFuture(
+        repo.performReword(
+          commits,
+          new Map([
+            [first?.hash ?? "", "feat: add a"],
+            [second?.hash ?? "", "feat: add b\n\n- It's b."]
+          ])
+        )
+      );
+
+      expect(run("log --format=%B -3").trim().split(/\n+/)).toEqual(["wip c", "feat: add b", "- It's b.", "feat: add a"]);
+      expect(run("rev-parse HEAD^{tree}")).toBe(treeBefore);
+      expect(run("status --porcelain")).toBe("");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("performReword skips the commit hooks, since only messages change", async () => {
+    const { dir, run } = createTempGitRepo();
+    const prev = cwd();
+    // A `core.hooksPath` injected through GIT_CONFIG_* would keep the hook below from ever running.
+    const prevGitConfigCount = process.env["GIT_CONFIG_COUNT"];
+    delete process.env["GIT_CONFIG_COUNT"];
+    chdir(dir);
+    try {
+      const hook = join(dir, ".git", "hooks", "pre-commit");
+      mkdirSync(dirname(hook), { recursive: true });
+      writeFileSync(hook, '#!/bin/sh\necho ran >> "$(git rev-parse --git-dir)/hook-runs"\nexit 1\n', { mode: 0o755 });
+      const commits = await runFuture(repo.listRangeCommits("HEAD"));
+      await runFuture(repo.performReword(commits, new Map([[commits[0]?.hash ?? "", "chore: initial commit"]])));
+      expect(run("log --format=%s").trim()).toBe("chore: initial commit");
+      expect(existsSync(join(dir, ".git", "hook-runs"))).toBe(false);
+    } finally {
+      chdir(prev);
+      if (prevGitConfigCount !== undefined) process.env["GIT_CONFIG_COUNT"] = prevGitConfigCount;
+    }
+  });
+
+  it("performReword rewrites a root commit and aborts cleanly on failure", async () => {
+    const { dir, run } = createTempGitRepo();
+    const prev = cwd();
+    chdir(dir);
+    try {
+      const commits = await runFuture(repo.listRangeCommits("HEAD"));
+      await runFuture(repo.performReword(commits, new Map([[commits[0]?.hash ?? "", "chore: initial commit"]])));
+      expect(run("log --format=%s").trim()).toBe("chore: initial commit");
+
+      writeFileSync(join(dir, "untracked.txt"), "new\n");
+      expect(await runFuture(repo.hasTrackedChanges())).toBe(false);
+      writeFileSync(join(dir, "file.txt"), "dirty\n");
+      expect(await runFuture(repo.hasTrackedChanges())).toBe(true);
+      const again = await runFuture(repo.listRangeCommits("HEAD"));
+      await expect(runFuture(repo.performReword(again, new Map([[again[0]?.hash ?? "", "chore: again"]])))).rejects.toThrow(/unstaged changes/);
+      expect(run("log --format=%s").trim()).toBe("chore: initial commit");
+      expect(readFileSync(join(dir, "file.txt"), "utf-8")).toBe("dirty\n");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("applyToIndex stages one hunk of a file and leaves the rest in the working tree", async () => {
+    const { dir, run } = createTempGitRepo();
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    writeFileSync(join(dir, "file.txt"), `${lines.join("\n")}\n`);
+    run("commit -am lines");
+    writeFileSync(join(dir, "file.txt"), `${["first", ...lines.slice(0, 18), "last"].join("\n")}\n`);
+    const prev = cwd();
+    chdir(dir);
+    try {
+      expect(await runFuture(repo.listWorkingChanges())).toEqual([{ path: "file.txt", kind: "modified", partlyStaged: false }]);
+      const diff = await runFuture(repo.getUnstagedFileDiff("file.txt"));
+      const patch = parseFilePatch(diff);
+      if (!(patch instanceof Just)) throw new Error("expected hunks");
+      expect(patch.value.hunks).toHaveLength(2);
+      await runFuture(repo.applyToIndex(renderPatch(patch.value, new Set([1]))));
+      expect(run("diff --cached --unified=0")).toContain("+last");
+      expect(run("diff --cached")).not.toContain("+first");
+      expect(run("diff")).toContain("+first");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("stagePaths stages new and deleted files", async () => {
+    const { dir, run } = createTempGitRepo({ untrackedFile: { path: "new.txt", contents: "new\n" } });
+    unlinkSync(join(dir, "file.txt"));
+    const prev = cwd();
+    chdir(dir);
+    try {
+      await runFuture(repo.stagePaths(["new.txt", "file.txt"]));
+      expect(run("diff --cached --name-status").trim().split("\n")).toEqual(["D\tfile.txt", "A\tnew.txt"]);
+      expect(await runFuture(repo.listWorkingChanges())).toEqual([]);
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("performCommit with patches commits the hunks of one file across commits", async () => {
+    const { dir, run } = createTempGitRepo();
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    writeFileSync(join(dir, "file.txt"), `${lines.join("\n")}\n`);
+    run("commit -am lines");
+    writeFileSync(join(dir, "file.txt"), `${["first", ...lines.slice(0, 18), "last"].join("\n")}\n`);
+    writeFileSync(join(dir, "other.txt"), "other\n");
+    run("add -A");
+    const prev = cwd();
+    chdir(dir);
+    try {
+      const source = parseFilePatch(await runFuture(repo.getStagedFileDiff("file.txt")));
+      if (!(source instanceof Just)) throw new Error("expected hunks");
+      const [first, last] = source.value.hunks.map((hunk) => ({ path: "file.txt", header: hunkHeader(hunk) }));
+      const patches = commitPatches([{ hunks: last ? [last] : [] }, { hunks: first ? [first] : [] }], new Map([["file.txt", source.value]]));
+      if (!(patches instanceof Success)) throw new Error("expected patches");
+      await runFuture(repo.performCommit("feat: last", ["other.txt"], patches.value[0]));
+      expect(run("show --format= HEAD -- file.txt")).toContain("+last");
+      expect(run("show --format= HEAD -- file.txt")).not.toContain("+first");
+      expect(run("diff --cached --name-only").trim()).toBe("file.txt");
+      await runFuture(repo.performCommit("feat: first", [], patches.value[1]));
+      expect(run("show --format= HEAD -- file.txt")).toContain("+first");
+      expect(run("status --porcelain").trim()).toBe("");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("verifyCommits runs the command after each planned commit in a throwaway worktree", async () => {
+    const { dir, run } = createTempGitRepo();
+    writeFileSync(join(dir, "a.txt"), "a\n");
+    writeFileSync(join(dir, "b.txt"), "b\n");
+    run("add -A");
+    const prev = cwd();
+    chdir(dir);
+    try {
+      const steps: number[] = [];
+      const failed = await runFuture(
+        repo.verifyCommits(
+          "test -f b.txt || { echo missing b.txt; exit 1; }",
+          [
+            { files: ["a.txt"], patches: [] },
+            { files: ["b.txt"], patches: [] }
+          ],
+          (step) => steps.push(step),
+          new AbortController().signal
+        )
+      );
+      expect(failed).toEqual({ type: "failed", step: 0, output: "missing b.txt\n" });
+      expect(steps).toEqual([0]);
+
+      const passed = await runFuture(
+        repo.verifyCommits(
+          "test -f b.txt",
+          [
+            { files: ["b.txt"], patches: [] },
+            { files: ["a.txt"], patches: [] }
+          ],
+          () => undefined,
+          new AbortController().signal
+        )
+      );
+      expect(passed).toEqual({ type: "passed" });
+      expect(run("worktree list").trim().split("\n")).toHaveLength(1);
+      expect(run("diff --cached --name-only").trim().split("\n")).toEqual(["a.txt", "b.txt"]);
+      expect(run("rev-list --count HEAD").trim()).toBe("1");
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("verifyCommits fails a commit whose command runs past the timeout and stops on cancel", async () => {
+    const { dir, run } = createTempGitRepo();
+    writeFileSync(join(dir, "a.txt"), "a\n");
+    run("add -A");
+    const prev = cwd();
+    chdir(dir);
+    try {
+      const commits = [{ files: ["a.txt"], patches: [] }];
+      const timedOut = await runFuture(repo.verifyCommits("echo started; sleep 30", commits, () => undefined, new AbortController().signal, 200));
+      expect(timedOut).toMatchObject({ type: "failed", step: 0 });
+      expect(timedOut.type === "failed" && timedOut.output).toContain("started\n");
+      expect(timedOut.type === "failed" && timedOut.output).toContain("was stopped after");
+
+      const controller = new AbortController();
+      const cancelled = await runFuture(repo.verifyCommits("sleep 30", commits, () => setTimeout(() => controller.abort(), 200), controller.signal));
+      expect(cancelled).toEqual({ type: "cancelled" });
+      expect(run("worktree list").trim().split("\n")).toHaveLength(1);
+    } finally {
+      chdir(prev);
+    }
+  });
+
+  it("unstagePaths puts the index back to HEAD and keeps the work tree", async () => {
+    const { dir, run } = createTempGitRepo({ staged: true });
+    writeFileSync(join(dir, "new.txt"), "new\n");
+    run("add new.txt");
+    const prev = cwd();
+    chdir(dir);
+    try {
+      await runFuture(repo.unstagePaths(["file.txt", "new.txt"]));
+      expect(run("diff --cached --name-only").trim()).toBe("");
+      expect(readFileSync(join(dir, "file.txt"), "utf-8")).toBe("hello world\n");
+      expect(run("status --porcelain").trimEnd().split("\n")).toEqual([" M file.txt", "?? new.txt"]);
+    } finally {
+      chdir(prev);
+    }
+  });
 });
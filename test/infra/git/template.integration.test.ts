@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Just, Nothing } from "@/libs/maybe";
+import { type Config } from "@/domain/config/config";
+import { resolveCustomTemplate } from "@/infra/git/template";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+
+const config = (template: string, overrides: Partial<Config> = {}): Config => ({
+  commit_convention: "custom",
+  custom_template: Just(template),
+  split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
+  ai: { provider: "openai", model: "gpt-4.1-mini", effort: Nothing(), auth_method: { type: "api_key", content: "sk" } },
+  ...overrides
+});
+
+describe("custom template placeholders integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+    git.run("checkout -q -b feat/PROJ-12-login");
+    writeFileSync(join(git.dir, "login.ts"), "export {};\n");
+    git.run("add login.ts");
+  });
+
+  afterEach(() => chdir(prev));
+
+  it("fills branch, ticket and author from git and keeps the diff's placeholders", async () => {
+    const resolved = await runFuture(resolveCustomTemplate(config("[{ticket}] {author} on {branch}: {files}\n{diff}")));
+    expect(resolved.custom_template).toEqual(Just("[PROJ-12] Test on feat/PROJ-12-login: {files}\n{diff}"));
+  });
+
+  it("uses ticket_pattern and empties values it cannot find", async () => {
+    const resolved = await runFuture(resolveCustomTemplate(config("#{ticket} {diff}", { ticket_pattern: Just("#(\\d+)") })));
+    expect(resolved.custom_template).toEqual(Just("# {diff}"));
+  });
+
+  it("leaves other conventions untouched", async () => {
+    const original = config("{branch} {diff}", { commit_convention: "conventional" });
+    expect(await runFuture(resolveCustomTemplate(original))).toBe(original);
+  });
+});
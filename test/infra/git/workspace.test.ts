@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { findWorkspacePackages, loadWorkspacePackages } from "@/infra/git/workspace";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo, type TempGitRepo } from "@test/helpers/temp-git-repo";
+
+describe("workspace packages", () => {
+  let repo: TempGitRepo;
+  let prev: string;
+
+  beforeEach(() => {
+    repo = createTempGitRepo();
+    prev = cwd();
+    chdir(repo.dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const write = (path: string, content: string): void => {
+    mkdirSync(join(repo.dir, path, ".."), { recursive: true });
+    writeFileSync(join(repo.dir, path), content);
+  };
+
+  it("finds nothing outside a workspace", async () => {
+    expect(await runFuture(loadWorkspacePackages())).toEqual([]);
+  });
+
+  it("reads pnpm-workspace.yaml and only counts manifests in the index", async () => {
+    write("pnpm-workspace.yaml", "packages:\n  - 'packages/*'\n");
+    write("packages/api/package.json", JSON.stringify({ name: "@acme/api" }));
+    write("packages/cli/package.json", "{}");
+    write("packages/untracked/package.json", JSON.stringify({ name: "untracked" }));
+    repo.run("add pnpm-workspace.yaml packages/api/package.json packages/cli/package.json");
+
+    const packages = await runFuture(loadWorkspacePackages());
+    expect([...packages].sort((a, b) => a.dir.localeCompare(b.dir))).toEqual([
+      { name: "@acme/api", dir: "packages/api" },
+      { name: "cli", dir: "packages/cli" }
+    ]);
+  });
+
+  it("falls back to package.json workspaces", async () => {
+    write("package.json", JSON.stringify({ workspaces: { packages: ["apps/*"] } }));
+    write("apps/web/package.json", JSON.stringify({ name: "web" }));
+    repo.run("add package.json apps/web/package.json");
+
+    expect(await runFuture(loadWorkspacePackages())).toEqual([{ name: "web", dir: "apps/web" }]);
+  });
+
+  it("treats a broken root manifest as no workspace", async () => {
+    write("package.json", "{ not json");
+    expect(await runFuture(findWorkspacePackages())).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type Config } from "@/domain/config/config";
+import { generateContentWithAnthropic } from "@/infra/llm/anthropic";
+import { Just } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+
+const stream = vi.hoisted(() => vi.fn());
+
+vi.mock("@anthropic-ai/sdk", () => {
+  class MockAnthropic {
+    readonly messages = { stream };
+  }
+
+  return { default: MockAnthropic };
+});
+
+type AnthropicConfig = Extract<Config["ai"], { provider: "anthropic" }>;
+
+const config: AnthropicConfig = {
+  provider: "anthropic",
+  model: "claude-test",
+  effort: Just("low"),
+  auth_method: { type: "api_key", content: "sk-ant-test" }
+};
+
+const message = {
+  content: [
+    { type: "thinking", thinking: "..." },
+    { type: "text", text: "feat: test" }
+  ],
+  usage: { input_tokens: 1, output_tokens: 2, cache_creation_input_tokens: 3, cache_read_input_tokens: null }
+};
+
+const successfulStream = () => ({
+  on: vi.fn(),
+  finalMessage: vi.fn().mockResolvedValue(message)
+});
+
+describe("generateContentWithAnthropic", () => {
+  beforeEach(() => stream.mockReset());
+
+  it("reads the text blocks and usage of the final message", async () => {
+    stream.mockReturnValue(successfulStream());
+
+    const result = await runFuture(generateContentWithAnthropic(config, { prompt: "diff" }));
+
+    expect(stream.mock.calls[0]?.[0]).toMatchObject({ model: "claude-test", output_config: { effort: "low" } });
+    expect(result.text).toBe("feat: test");
+    expect(result.tokens.map((tokens) => tokens.total.withDefault(0)).withDefault(0)).toBe(6);
+  });
+
+  it("passes every text snapshot to onText", async () => {
+    const on = vi.fn();
+    stream.mockReturnValue({ ...successfulStream(), on });
+    const onText = vi.fn();
+
+    await runFuture(generateContentWithAnthropic(config, { prompt: "diff", onText }));
+
+    const [, onDelta] = on.mock.calls.find(([event]) => event === "text") ?? [];
+    onDelta("feat", "feat");
+    onDelta(": test", "feat: test");
+    expect(onText.mock.calls).toEqual([["feat"], ["feat: test"]]);
+  });
+
+  it("does not listen for text without onText", async () => {
+    const on = vi.fn();
+    stream.mockReturnValue({ ...successfulStream(), on });
+
+    await runFuture(generateContentWithAnthropic(config, { prompt: "diff" }));
+
+    expect(on).not.toHaveBeenCalled();
+  });
+
+  it("wraps a failed stream", async () => {
+    stream.mockReturnValue({ on: vi.fn(), finalMessage: vi.fn().mockRejectedValue(new Error("overloaded")) });
+
+    await expect(runFuture(generateContentWithAnthropic(config, { prompt: "diff" }))).rejects.toThrow("Failed to create Anthropic message: overloaded");
+  });
+});
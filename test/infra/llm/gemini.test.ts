@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ThinkingLevel } from "@google/genai";
+
+import { type Config } from "@/domain/config/config";
+import { generateContentWithGemini } from "@/infra/llm/gemini";
+import { Just } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+
+const models = vi.hoisted(() => ({ generateContent: vi.fn(), generateContentStream: vi.fn() }));
+
+vi.mock("@google/genai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@google/genai")>();
+
+  class MockGoogleGenAI {
+    readonly models = models;
+  }
+
+  return { ...actual, GoogleGenAI: MockGoogleGenAI };
+});
+
+type GeminiConfig = Extract<Config["ai"], { provider: "gemini" }>;
+
+const config: GeminiConfig = {
+  provider: "gemini",
+  model: "gemini-test",
+  effort: Just(ThinkingLevel.LOW),
+  auth_method: { type: "api_key", content: "gemini-key" }
+};
+
+const chunks = async function* () {
+  yield { text: "feat" };
+  yield { text: ": test", usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 2, totalTokenCount: 3 } };
+};
+
+describe("generateContentWithGemini", () => {
+  beforeEach(() => {
+    models.generateContent.mockReset();
+    models.generateContentStream.mockReset();
+  });
+
+  it("joins the streamed chunks and passes each snapshot to onText", async () => {
+    models.generateContentStream.mockResolvedValue(chunks());
+    const onText = vi.fn();
+
+    const result = await runFuture(generateContentWithGemini(config, { prompt: "diff", onText }));
+
+    expect(models.generateContent).not.toHaveBeenCalled();
+    expect(onText.mock.calls).toEqual([["feat"], ["feat: test"]]);
+    expect(result.text).toBe("feat: test");
+    expect(result.tokens.map((tokens) => tokens.total.withDefault(0)).withDefault(0)).toBe(3);
+  });
+
+  it("makes a single request without onText", async () => {
+    models.generateContent.mockResolvedValue({ text: "feat: test" });
+
+    const result = await runFuture(generateContentWithGemini(config, { prompt: "diff" }));
+
+    expect(models.generateContentStream).not.toHaveBeenCalled();
+    expect(result.text).toBe("feat: test");
+  });
+
+  it("wraps a stream that fails midway", async () => {
+    const failing = async function* () {
+      yield { text: "feat" };
+      throw new Error("connection reset");
+    };
+    models.generateContentStream.mockResolvedValue(failing());
+
+    await expect(runFuture(generateContentWithGemini(config, { prompt: "diff", onText: vi.fn() }))).rejects.toThrow(
+      "Failed to create Gemini content: connection reset"
+    );
+  });
+});
@@ -86,6 +86,18 @@ describe("generateContentWithOpenAI", () => {
     expect(result.effectiveEffort.expect("Expected effective effort")).toBe("provider default");
   });
 
+  it("passes every text snapshot to onText", async () => {
+    const on = vi.fn();
+    stream.mockReturnValue({ ...successfulStream(), on });
+    const onText = vi.fn();
+
+    await runFuture(generateContentWithOpenAI(configWith("low"), { prompt: "diff", onText }));
+
+    const [, onDelta] = on.mock.calls.find(([event]) => event === "response.output_text.delta") ?? [];
+    onDelta({ snapshot: "feat" });
+    expect(onText).toHaveBeenCalledWith("feat");
+  });
+
   it("does not retry unrelated bad requests", async () => {
     const error = new OpenAI.BadRequestError(400, { code: "invalid_parameter", param: "input", message: "Invalid input." }, undefined, new Headers());
     stream.mockReturnValue({ on: vi.fn(), finalResponse: vi.fn().mockRejectedValue(error) });
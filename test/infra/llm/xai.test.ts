@@ -149,6 +149,27 @@ describe("generateContentWithXai", () => {
     expect(result.tokens).toBeInstanceOf(Nothing);
   });
 
+  it("streams chunks to onText and takes usage from the final chunk", async () => {
+    const chunks = [
+      { choices: [{ delta: { content: "Add retry" } }] },
+      { choices: [{ delta: { content: " to the token refresh" } }] },
+      { choices: [], usage: completion.usage }
+    ];
+    create.mockResolvedValue(
+      (async function* () {
+        yield* chunks;
+      })()
+    );
+    const onText = vi.fn();
+
+    const result = await runFuture(generateContentWithXai(configWith(Nothing()), { prompt: "diff", onText }));
+
+    expect(create.mock.calls[0]?.[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(onText.mock.calls).toEqual([["Add retry"], ["Add retry to the token refresh"]]);
+    expect(result.text).toBe("Add retry to the token refresh");
+    expect(result.tokens.expect("Expected token usage").total.expect("total")).toBe(3);
+  });
+
   it("rejects an empty completion", async () => {
     create.mockResolvedValue({ choices: [{ message: { content: "   " } }] });
 
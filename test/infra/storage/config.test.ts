@@ -12,6 +12,13 @@ const sampleConfig = (): ConfigValue => ({
   commit_convention: "conventional",
   custom_template: Nothing(),
   split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
   ai: {
     provider: "openai",
     model: "gpt-4.1-mini",
@@ -55,6 +62,13 @@ describe("config storage", () => {
         commit_convention: "imperative",
         custom_template: Just("tpl"),
         split_commits: false,
+        ignore: Just([]),
+        match_history: false,
+        ticket_pattern: Nothing(),
+        language: Nothing(),
+        gitmoji_style: "unicode",
+        verify_command: Nothing(),
+        detect_breaking_changes: true,
         ai: { ...sampleConfig().ai, auth_method: { type: "openai_oauth", content: staleTokens() } }
       })
     );
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chdir, cwd } from "node:process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { findRepoConfig, layerRepoConfig, REPO_CONFIG_FILE } from "@/infra/storage/repo-config";
+import { Just, Nothing } from "@/libs/maybe";
+import { runFuture } from "@test/helpers/run-future";
+import { createTempGitRepo } from "@test/helpers/temp-git-repo";
+import * as s from "@/libs/json/schema";
+import { Config } from "@/domain/config/config";
+
+type ConfigValue = s.Infer<typeof Config>;
+
+const globalConfig = (): ConfigValue => ({
+  commit_convention: "imperative",
+  custom_template: Nothing(),
+  split_commits: false,
+  ignore: Just([]),
+  match_history: false,
+  ticket_pattern: Nothing(),
+  language: Nothing(),
+  gitmoji_style: "unicode",
+  verify_command: Nothing(),
+  detect_breaking_changes: true,
+  ai: {
+    provider: "anthropic",
+    model: "claude-sonnet-4-5",
+    effort: Nothing(),
+    auth_method: { type: "api_key", content: "sk-global" }
+  }
+});
+
+describe("repo config layer", () => {
+  let dir: string;
+  let prev: string;
+
+  beforeEach(() => {
+    dir = createTempGitRepo().dir;
+    prev = cwd();
+    chdir(dir);
+  });
+
+  afterEach(() => chdir(prev));
+
+  const writeRepoConfig = (value: unknown): void => writeFileSync(join(dir, REPO_CONFIG_FILE), JSON.stringify(value));
+
+  it("finds nothing when the repo has no file", async () => {
+    expect((await runFuture(findRepoConfig())).isNothing()).toBe(true);
+    expect(await runFuture(layerRepoConfig(globalConfig()))).toEqual(globalConfig());
+  });
+
+  it("overrides convention, template, split and model/effort but keeps credentials", async () => {
+    writeRepoConfig({ commit_convention: "custom", custom_template: "[JIRA-123] {diff}", split_commits: true, model: "claude-haiku-4-5", effort: "low" });
+
+    const merged = await runFuture(layerRepoConfig(globalConfig()));
+    expect(merged.commit_convention).toBe("custom");
+    expect(merged.custom_template).toEqual(Just("[JIRA-123] {diff}"));
+    expect(merged.split_commits).toBe(true);
+    expect(merged.ai).toEqual({ ...globalConfig().ai, model: "claude-haiku-4-5", effort: Just("low") });
+  });
+
+  it("sets the language for the repository", async () => {
+    writeRepoConfig({ language: "pt-BR" });
+
+    expect((await runFuture(layerRepoConfig(globalConfig()))).language).toEqual(Just("pt-BR"));
+  });
+
+  it("sets the command split plans are verified with", async () => {
+    writeRepoConfig({ verify_command: "pnpm typecheck" });
+
+    expect((await runFuture(layerRepoConfig(globalConfig()))).verify_command).toEqual(Just("pnpm typecheck"));
+  });
+
+  it("rejects an effort the global provider does not support", async () => {
+    writeRepoConfig({ effort: "minimal" });
+    await expect(runFuture(layerRepoConfig(globalConfig()))).rejects.toThrow("not valid for anthropic");
+  });
+
+  it("reports unknown placeholders in the repo's template", async () => {
+    writeRepoConfig({ commit_convention: "custom", custom_template: "[{tikcet}] {diff}" });
+    await expect(runFuture(layerRepoConfig(globalConfig()))).rejects.toThrow("custom_template: Unknown placeholder {tikcet}");
+  });
+
+  it("refuses credentials in the repo file", async () => {
+    writeRepoConfig({ ai: { provider: "openai" } });
+    await expect(runFuture(findRepoConfig())).rejects.toThrow("must not contain 'ai'");
+  });
+});
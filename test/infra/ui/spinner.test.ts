@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const spinner = vi.hoisted(() => ({ start: vi.fn(), stop: vi.fn(), message: vi.fn() }));
+
+vi.mock("@clack/prompts", () => ({
+  spinner: vi.fn(() => spinner),
+  log: { step: vi.fn() }
+}));
+
+import * as p from "@clack/prompts";
+import { streaming } from "@/infra/ui/spinner";
+import { Future } from "@/libs/future";
+import { runFuture } from "@test/helpers/run-future";
+
+describe("streaming", () => {
+  const tty = process.stdout.isTTY;
+  let written: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    written = [];
+    vi.spyOn(process.stdout, "write").mockImplementation((chunk: string | Uint8Array) => {
+      written.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    process.stdout.isTTY = tty;
+    vi.restoreAllMocks();
+  });
+
+  const streamTwice = (onText: (snapshot: string) => void): Future<Error, string> =>
+    Future.attemptP(async () => {
+      onText("feat: add");
+      onText("feat: add x\n\n- Body.");
+      return "done";
+    });
+
+  it("draws each snapshot over the previous one and erases it at the end", async () => {
+    process.stdout.isTTY = true;
+
+    await runFuture(streaming("Generating...", (v: string) => `Finished ${v}`, streamTwice));
+
+    expect(spinner.stop).toHaveBeenCalledWith("Generating...");
+    expect(written.filter((chunk) => chunk.includes("feat: add"))).toHaveLength(2);
+    expect(written.filter((chunk) => chunk.startsWith("\x1b[1A"))).toHaveLength(1);
+    expect(written.at(-1)).toBe("\x1b[3A\r\x1b[J");
+    expect(p.log.step).toHaveBeenCalledWith("Finished done");
+  });
+
+  it("erases the preview on an empty snapshot, so a retry prompt below it survives the next chunk", async () => {
+    process.stdout.isTTY = true;
+    const retried = (onText: (snapshot: string) => void): Future<Error, string> =>
+      Future.attemptP(async () => {
+        onText("feat: add x\n\n- Body.");
+        onText("");
+        process.stdout.write("Retry?\n");
+        onText("feat: again");
+        return "done";
+      });
+
+    await runFuture(streaming("Generating...", (v: string) => `Finished ${v}`, retried));
+
+    const prompt = written.indexOf("Retry?\n");
+    expect(written[prompt - 1]).toBe("\x1b[3A\r\x1b[J");
+    expect(written[prompt + 1]).toContain("feat: again");
+    expect(written.at(-1)).toBe("\x1b[1A\r\x1b[J");
+  });
+
+  it("shows nothing but the spinner without a TTY", async () => {
+    process.stdout.isTTY = false;
+
+    await runFuture(streaming("Generating...", (v: string) => `Finished ${v}`, streamTwice));
+
+    expect(written).toEqual([]);
+    expect(spinner.stop).toHaveBeenCalledExactlyOnceWith("Finished done");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { compileGlob, compileIgnore } from "@/libs/gitignore";
+
+describe("compileIgnore", () => {
+  it("matches bare names at any depth", () => {
+    const isIgnored = compileIgnore(["pnpm-lock.yaml", "*.min.js"]);
+    expect(isIgnored("pnpm-lock.yaml")).toBe(true);
+    expect(isIgnored("packages/web/pnpm-lock.yaml")).toBe(true);
+    expect(isIgnored("public/app.min.js")).toBe(true);
+    expect(isIgnored("src/app.js")).toBe(false);
+  });
+
+  it("anchors patterns that contain a slash", () => {
+    const isIgnored = compileIgnore(["/vendor", "docs/*.png"]);
+    expect(isIgnored("vendor/lib.js")).toBe(true);
+    expect(isIgnored("src/vendor/lib.js")).toBe(false);
+    expect(isIgnored("docs/shot.png")).toBe(true);
+    expect(isIgnored("docs/img/shot.png")).toBe(false);
+  });
+
+  it("matches directory patterns only against parent directories", () => {
+    const isIgnored = compileIgnore(["dist/"]);
+    expect(isIgnored("dist/index.js")).toBe(true);
+    expect(isIgnored("packages/a/dist/index.js")).toBe(true);
+    expect(isIgnored("dist")).toBe(false);
+  });
+
+  it("supports ** and character classes", () => {
+    const isIgnored = compileIgnore(["**/__snapshots__/**", "*.[oa]"]);
+    expect(isIgnored("test/__snapshots__/a.snap")).toBe(true);
+    expect(isIgnored("build/lib.a")).toBe(true);
+    expect(isIgnored("build/lib.c")).toBe(false);
+  });
+
+  it("lets later negations re-include a path", () => {
+    const isIgnored = compileIgnore(["*.map", "# keep the source map we ship\n!public/keep.map"]);
+    expect(isIgnored("public/app.map")).toBe(true);
+    expect(isIgnored("public/keep.map")).toBe(false);
+  });
+
+  it("never re-includes a path under an excluded directory, as git does", () => {
+    const excluded = compileIgnore(["dist/", "!dist/keep.js"]);
+    expect(excluded("dist/keep.js")).toBe(true);
+    expect(excluded("dist/app.js")).toBe(true);
+
+    const contents = compileIgnore(["dist/*", "!dist/keep.js"]);
+    expect(contents("dist/keep.js")).toBe(false);
+    expect(contents("dist/app.js")).toBe(true);
+
+    const reincluded = compileIgnore(["build/", "!build/"]);
+    expect(reincluded("build/out.js")).toBe(false);
+  });
+});
+
+describe("compileGlob", () => {
+  it("matches whole paths only", () => {
+    expect(compileGlob("./packages/*/").test("packages/api")).toBe(true);
+    expect(compileGlob("packages/*").test("packages/api/nested")).toBe(false);
+    expect(compileGlob("apps/**").test("apps/web/e2e")).toBe(true);
+  });
+});
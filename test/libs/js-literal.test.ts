@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { readExportedLiteral } from "@/libs/js-literal";
+
+const read = (source: string): unknown => readExportedLiteral(source).unwrap((e) => e.message);
+const failure = (source: string): string =>
+  readExportedLiteral(source).either(
+    (e) => e.message,
+    () => ""
+  );
+
+describe("readExportedLiteral", () => {
+  it("reads module.exports and export default object literals", () => {
+    expect(read("module.exports = { extends: ['@commitlint/config-conventional'] };")).toEqual({ extends: ["@commitlint/config-conventional"] });
+    expect(read('export default { "rules": { "header-max-length": [2, "always", 72] } }')).toEqual({ rules: { "header-max-length": [2, "always", 72] } });
+  });
+
+  it("understands comments, trailing commas, quotes, template strings and other literals", () => {
+    const source = `/** @type {import('@commitlint/types').UserConfig} */
+      export default ({
+        // Scopes of the monorepo.
+        rules: { "scope-enum": [2, 'always', [\`web\`, "api\\u0021",],], 'x': [-1, true, false, null, 0x10, 1_000], },
+      });`;
+    expect(read(source)).toEqual({ rules: { "scope-enum": [2, "always", ["web", "api!"]], x: [-1, true, false, null, 16, 1000] } });
+  });
+
+  it("resolves names bound to literals at the top level", () => {
+    const source =
+      "const rules = { 'type-case': [2, 'always', 'lower-case'] };\nconst config = { extends: 'conventional', rules };\nmodule.exports = config;\n";
+    expect(read(source)).toEqual({ extends: "conventional", rules: { "type-case": [2, "always", "lower-case"] } });
+  });
+
+  it("uses the last assignment to module.exports", () => {
+    expect(read("module.exports = { a: 1 };\nmodule.exports = { b: 2 };")).toEqual({ b: 2 });
+  });
+
+  it("keeps a __proto__ key as data", () => {
+    const value = read('module.exports = { "__proto__": { polluted: true } };');
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value ?? {})).toEqual(["__proto__"]);
+  });
+
+  it("refuses anything that would have to run", () => {
+    expect(failure("module.exports = require('./shared');")).toContain('"require"');
+    expect(failure("export default defineConfig({ rules: {} });")).toContain('"defineConfig"');
+    expect(failure("module.exports = { ...base, rules: {} };")).toContain('"..."');
+    expect(failure("module.exports = { rules: { 'x': () => [2, 'always'] } };")).toContain('unexpected ")"');
+    expect(failure("module.exports = { a: `${process.env.A}` };")).toContain("template literals");
+    expect(failure("module.exports = { a: 1 }.a;")).toContain("after the exported value");
+    expect(failure("const a = b; const b = a; module.exports = a;")).toContain("is not a literal");
+    expect(failure("console.log('no export');")).toContain("no `module.exports =`");
+  });
+});
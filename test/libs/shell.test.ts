@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { shellQuote } from "@/libs/shell";
+
+describe("shellQuote", () => {
+  it("wraps in single quotes and escapes embedded ones", () => {
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+
+  it("leaves nothing for the shell to expand", () => {
+    expect(shellQuote("$HOME/`id`")).toBe("'$HOME/`id`'");
+  });
+});